@@ -1,25 +1,48 @@
+import { useEffect } from "react";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/use-settings";
+import { setDisplaySettings } from "@/lib/currency";
+import { applyTheme } from "@/lib/theme";
 import Home from "@/pages/home";
 import Transactions from "@/pages/transactions";
 import Budgets from "@/pages/budgets";
+import Envelopes from "@/pages/envelopes";
+import Categories from "@/pages/categories";
+import Rules from "@/pages/rules";
+import Payees from "@/pages/payees";
+import PayeeDetail from "@/pages/payee-detail";
 import Goals from "@/pages/goals";
 import Loans from "@/pages/loans";
 import Reports from "@/pages/reports";
 
 import Other from "@/pages/other";
 import Calendar from "@/pages/calendar";
+import Recurring from "@/pages/recurring";
+import Import from "@/pages/import";
+import Backup from "@/pages/backup";
+import Accounts from "@/pages/accounts";
+import Assets from "@/pages/assets";
+import Investments from "@/pages/investments";
+import Reconcile from "@/pages/reconcile";
+import Currencies from "@/pages/currencies";
+import Settings from "@/pages/settings";
 import Landing from "@/pages/landing";
 
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  const { settings, isLoading: isSettingsLoading } = useSettings();
+  // Set before any page renders, so formatCurrency shows amounts in the user's base currency and number format
+  setDisplaySettings(settings);
 
-  if (isLoading) {
+  useEffect(() => applyTheme(settings.theme), [settings.theme]);
+
+  if (isLoading || isSettingsLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -39,12 +62,27 @@ function Router() {
           <Route path="/" component={Home} />
           <Route path="/transactions" component={Transactions} />
           <Route path="/budgets" component={Budgets} />
+          <Route path="/budgets/envelopes" component={Envelopes} />
+          <Route path="/categories" component={Categories} />
+          <Route path="/rules" component={Rules} />
+          <Route path="/payees" component={Payees} />
+          <Route path="/payees/:id" component={PayeeDetail} />
           <Route path="/goals" component={Goals} />
           <Route path="/loans" component={Loans} />
           <Route path="/reports" component={Reports} />
 
           <Route path="/calendar" component={Calendar} />
+          <Route path="/recurring" component={Recurring} />
+          <Route path="/import" component={Import} />
+          <Route path="/backup" component={Backup} />
+          <Route path="/accounts" component={Accounts} />
+          <Route path="/accounts/:id/reconcile" component={Reconcile} />
+          <Route path="/assets" component={Assets} />
+          <Route path="/investments" component={Investments} />
+          <Route path="/currencies" component={Currencies} />
+          <Route path="/settings" component={Settings} />
           <Route path="/other" component={Other} />
+          <Route path="/login" component={Landing} />
 
         </>
       )}
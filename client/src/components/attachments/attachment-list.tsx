@@ -0,0 +1,169 @@
+import { useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Paperclip, FileText, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAttachments } from "@/hooks/use-attachments";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Attachment } from "@shared/schema";
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const THUMBNAIL_SIZE = 160; // longest side, in pixels
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// A small JPEG of the image for the list; the server has no image library, so the browser draws it
+const makeThumbnail = (dataUrl: string) => new Promise<string | undefined>((resolve) => {
+  const image = new Image();
+  image.onload = () => {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL("image/jpeg", 0.8));
+  };
+  image.onerror = () => resolve(undefined);
+  image.src = dataUrl;
+});
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+interface AttachmentListProps {
+  url: string; // the owner's attachments endpoint, e.g. "/api/transactions/5/attachments"
+  title?: string;
+}
+
+export default function AttachmentList({ url, title = "Attachments" }: AttachmentListProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: attachments = [] } = useAttachments(url);
+  const { toast } = useToast();
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const data = await readAsDataUrl(file);
+      const thumbnail = file.type.startsWith("image/") ? await makeThumbnail(data) : undefined;
+      const response = await apiRequest("POST", url, { fileName: file.name, contentType: file.type, data, thumbnail });
+      return response.json() as Promise<Attachment>;
+    },
+    onSuccess: (attachment) => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      toast({
+        title: "Success",
+        description: `${attachment.fileName} attached`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to attach file"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/attachments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete attachment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast({
+        title: "Error",
+        description: "Files can be at most 5 MB",
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900">{title}</span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+        >
+          <Paperclip className="h-3.5 w-3.5 mr-1" />
+          {uploadMutation.isPending ? "Uploading..." : "Attach"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/gif,application/pdf"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-xs text-gray-500">Attach a photo of the receipt or a PDF</p>
+      ) : (
+        <div className="space-y-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="flex items-center justify-between gap-2">
+              <a
+                href={`/api/attachments/${attachment.id}/file`}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-2 min-w-0"
+              >
+                {attachment.thumbnailKey ? (
+                  <img
+                    src={`/api/attachments/${attachment.id}/file?thumbnail=true`}
+                    alt={attachment.fileName}
+                    className="w-10 h-10 rounded-lg object-cover border border-gray-100 flex-shrink-0"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-lg bg-gray-100 flex items-center justify-center flex-shrink-0">
+                    <FileText className="h-5 w-5 text-gray-500" />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-900 truncate">{attachment.fileName}</div>
+                  <div className="text-xs text-gray-500">{formatSize(attachment.size)}</div>
+                </div>
+              </a>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(attachment.id)}
+                disabled={deleteMutation.isPending}
+                className="p-1.5 text-red-600 hover:bg-red-50 flex-shrink-0"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
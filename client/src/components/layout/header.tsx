@@ -1,4 +1,4 @@
-import { User, LogOut, Settings } from "lucide-react";
+import { User, LogOut, Settings, LogIn } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import {
   DropdownMenu,
@@ -30,6 +30,12 @@ export default function Header({ title = "Personal Finance Tracker", subtitle }:
     window.location.href = '/api/logout';
   };
 
+  const isGuest = (user as any)?.id?.startsWith('guest-');
+
+  const handleUpgradeGuest = () => {
+    window.location.href = '/api/upgrade-guest';
+  };
+
   return (
     <header className="bg-white shadow-sm px-4 py-3 flex items-center justify-between relative z-10">
       <div className="flex items-center space-x-3">
@@ -54,6 +60,12 @@ export default function Header({ title = "Personal Finance Tracker", subtitle }:
             <p className="text-xs text-gray-500">{user?.email || 'Temporary session'}</p>
           </div>
           <DropdownMenuSeparator />
+          {isGuest && (
+            <DropdownMenuItem onClick={handleUpgradeGuest} className="cursor-pointer text-primary">
+              <LogIn className="mr-2 h-4 w-4" />
+              <span>Sign in to keep your data</span>
+            </DropdownMenuItem>
+          )}
           <DropdownMenuItem className="cursor-pointer">
             <Settings className="mr-2 h-4 w-4" />
             <span>Account Settings</span>
@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { z } from "zod";
-import { X, Plus } from "lucide-react";
+import { X, Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -12,12 +12,19 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, getBaseCurrency } from "@/lib/currency";
 import { useGoals } from "@/hooks/use-goals";
 import { useLoans } from "@/hooks/use-loans";
+import { useAccounts } from "@/hooks/use-accounts";
+import { usePayees } from "@/hooks/use-payees";
+import { useSettings } from "@/hooks/use-settings";
+import AttachmentList from "@/components/attachments/attachment-list";
 
-import { useTransactions } from "@/hooks/use-transactions";
+import { useTransactionFacets } from "@/hooks/use-transactions";
 import { useCategories } from "@/hooks/use-categories";
-import type { InsertTransaction } from "@shared/schema";
+import { SPLIT_CATEGORY } from "@shared/transaction-splits";
+import { normalizeTags } from "@shared/tags";
+import type { InsertTransaction, InsertRecurringTransaction } from "@shared/schema";
 
 const transactionSchema = z.object({
   amount: z.string().min(1, "Amount is required").refine(
@@ -26,11 +33,54 @@ const transactionSchema = z.object({
   ),
   description: z.string().min(1, "Description is required"),
   category: z.string().min(1, "Category is required"),
-  type: z.enum(["income", "expense", "savings_deposit", "savings_withdrawal", "loan_repayment", "loan_received"]),
+  type: z.enum(["income", "expense", "savings_deposit", "savings_withdrawal", "loan_repayment", "loan_received", "transfer"]),
   date: z.string().min(1, "Date is required"),
   time: z.string().optional(),
   savingsGoalId: z.string().optional(),
   loanId: z.string().optional(),
+  accountId: z.string().optional(),
+  toAccountId: z.string().optional(),
+  currency: z.string().refine(val => val === "" || val.length === 3, "Use a three letter currency code"), // "" for the account's currency
+  payeeId: z.string(), // a payee id, "none", or "auto" to let the server match one from the description
+  tags: z.string(), // comma separated
+  isSplit: z.boolean(),
+  splits: z.array(z.object({
+    category: z.string().min(1, "Category is required"),
+    amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Enter an amount"),
+  })),
+  repeat: z.enum(["none", "daily", "weekly", "biweekly", "monthly", "yearly", "custom"]),
+  intervalDays: z.string().optional(),
+  endType: z.enum(["never", "on_date", "after_occurrences"]),
+  endDate: z.string().optional(),
+  maxOccurrences: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.isSplit) {
+    if (data.splits.length < 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["splits"], message: "Add at least two lines" });
+    }
+    const splitCents = data.splits.reduce((sum, split) => sum + Math.round((parseFloat(split.amount) || 0) * 100), 0);
+    if (splitCents !== Math.round((parseFloat(data.amount) || 0) * 100)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["splits"], message: "Split lines must add up to the amount" });
+    }
+  }
+  if (data.type === "transfer" && !data.accountId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["accountId"], message: "Choose the account the money leaves" });
+  }
+  if (data.type === "transfer" && !data.toAccountId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["toAccountId"], message: "Choose the account the money goes to" });
+  }
+  if (data.type === "transfer" && data.accountId && data.accountId === data.toAccountId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["toAccountId"], message: "Choose a different account" });
+  }
+  if (data.repeat === "custom" && !(parseInt(data.intervalDays || "") >= 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["intervalDays"], message: "Enter the number of days between repeats" });
+  }
+  if (data.repeat !== "none" && data.endType === "on_date" && !data.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "End date is required" });
+  }
+  if (data.repeat !== "none" && data.endType === "after_occurrences" && !(parseInt(data.maxOccurrences || "") >= 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maxOccurrences"], message: "Enter how many times it repeats" });
+  }
 });
 
 type TransactionFormData = z.infer<typeof transactionSchema>;
@@ -39,17 +89,24 @@ interface TransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
   editingTransaction?: any;
+  defaultRepeat?: TransactionFormData["repeat"];
 }
 
-export default function TransactionModal({ isOpen, onClose, editingTransaction }: TransactionModalProps) {
+export default function TransactionModal({ isOpen, onClose, editingTransaction, defaultRepeat = "none" }: TransactionModalProps) {
   const { toast } = useToast();
   const { data: goals = [] } = useGoals();
   const { data: loans = [] } = useLoans();
+  const { data: accounts = [] } = useAccounts();
+  const { data: payees = [] } = usePayees();
+  const { settings } = useSettings();
+  const defaultType = settings.defaultTransactionType as TransactionFormData["type"];
 
-  const { data: transactions = [] } = useTransactions();
+  const { data: facets } = useTransactionFacets();
   const { transactionCategories, addCustomCategory } = useCategories();
   const [isAddingCustomCategory, setIsAddingCustomCategory] = useState(false);
   const [customCategoryInput, setCustomCategoryInput] = useState("");
+  // Where the category came from when it was filled in for the user rather than picked
+  const [suggestedBy, setSuggestedBy] = useState<"rule" | "history" | null>(null);
   
   // Check if this is a loan_received transaction
   const isLoanReceivedTransaction = editingTransaction?.type === "loan_received";
@@ -66,16 +123,54 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
       amount: "",
       description: "",
       category: "",
-      type: "expense",
+      type: defaultType,
       date: new Date().toISOString().split('T')[0], // Default to today's date
       time: getCurrentTime(), // Default to current time
       savingsGoalId: "",
       loanId: "",
+      accountId: "",
+      toAccountId: "",
+      currency: "",
+      payeeId: "auto",
+      tags: "",
+      isSplit: false,
+      splits: [],
+      repeat: "none",
+      intervalDays: "",
+      endType: "never",
+      endDate: "",
+      maxOccurrences: "",
     },
   });
 
   const selectedType = form.watch("type");
   const selectedCategory = form.watch("category");
+  const selectedRepeat = form.watch("repeat");
+  const selectedEndType = form.watch("endType");
+  const isSplit = form.watch("isSplit");
+  const watchedTags = form.watch("tags");
+  const watchedAmount = form.watch("amount");
+  const watchedSplits = form.watch("splits");
+  const watchedAccountId = form.watch("accountId");
+  // Left empty, the server records the transaction in its account's currency
+  const defaultCurrency = accounts.find(account => account.id.toString() === watchedAccountId)?.currency ?? getBaseCurrency();
+  const { fields: splitFields, append: appendSplit, remove: removeSplit } = useFieldArray({ control: form.control, name: "splits" });
+
+  const splitRemaining = (parseFloat(watchedAmount) || 0) -
+    watchedSplits.reduce((sum, split) => sum + (parseFloat(split.amount) || 0), 0);
+
+  // Splitting starts with two empty lines; the transaction's own category becomes "split"
+  const toggleSplit = () => {
+    if (isSplit) {
+      form.setValue("isSplit", false);
+      form.setValue("splits", []);
+      form.setValue("category", "");
+    } else {
+      form.setValue("isSplit", true);
+      form.setValue("splits", [{ category: "", amount: "" }, { category: "", amount: "" }]);
+      form.setValue("category", SPLIT_CATEGORY);
+    }
+  };
 
   // Clear loan/savings goal when transaction type changes
   useEffect(() => {
@@ -85,6 +180,17 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
     if (selectedType !== "savings_deposit" && selectedType !== "savings_withdrawal") {
       form.setValue("savingsGoalId", "");
     }
+    // Transfers only move money between accounts, so they always use the transfer category and can't be split
+    if (selectedType === "transfer") {
+      form.setValue("isSplit", false);
+      form.setValue("splits", []);
+      form.setValue("category", "transfer");
+    } else {
+      form.setValue("toAccountId", "");
+      if (form.getValues("category") === "transfer" && !form.getValues("isSplit")) {
+        form.setValue("category", "");
+      }
+    }
   }, [selectedType, form]);
 
   // Reset form when modal opens/closes or when editing
@@ -104,26 +210,84 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
           time: timeString,
           savingsGoalId: editingTransaction.savingsGoalId?.toString() || "",
           loanId: editingTransaction.loanId?.toString() || "",
+          accountId: editingTransaction.accountId?.toString() || "",
+          toAccountId: editingTransaction.toAccountId?.toString() || "",
+          currency: editingTransaction.currency,
+          payeeId: editingTransaction.payeeId?.toString() ?? "none",
+          tags: (editingTransaction.tags ?? []).join(", "),
+          isSplit: !!editingTransaction.splits?.length,
+          splits: editingTransaction.splits ?? [],
+          repeat: "none",
+          intervalDays: "",
+          endType: "never",
+          endDate: "",
+          maxOccurrences: "",
         });
       } else {
         form.reset({
           amount: "",
           description: "",
           category: "",
-          type: "expense",
+          type: defaultType,
           date: new Date().toISOString().split('T')[0],
           time: getCurrentTime(),
           savingsGoalId: "",
           loanId: "",
+          accountId: "",
+          toAccountId: "",
+          currency: "",
+          payeeId: "auto",
+          tags: "",
+          isSplit: false,
+          splits: [],
+          repeat: defaultRepeat,
+          intervalDays: "",
+          endType: "never",
+          endDate: "",
+          maxOccurrences: "",
         });
       }
       setIsAddingCustomCategory(false);
       setCustomCategoryInput("");
+      setSuggestedBy(null);
     }
-  }, [isOpen, editingTransaction, form]);
+  }, [isOpen, editingTransaction, defaultRepeat, defaultType, form]);
+
+  // Once a new transaction has a description, ask the categorization rules (or failing them, similar past
+  // transactions) for its category. A category the user picked themselves is left alone.
+  const suggestCategorization = async () => {
+    const { description, amount, type, category, isSplit } = form.getValues();
+    if (editingTransaction || isSplit || type === "transfer" || !description.trim()) return;
+    if (category && !suggestedBy) return;
+
+    try {
+      const params = new URLSearchParams({ description, amount: amount || "0", type });
+      const response = await apiRequest("GET", `/api/categorization-rules/suggest?${params}`);
+      const suggestion: { source: "rule" | "history"; category?: string; savingsGoalId?: number; loanId?: number } | null = await response.json();
+      if (!suggestion) return;
+
+      if (suggestion.category) form.setValue("category", suggestion.category);
+      if (suggestion.savingsGoalId) form.setValue("savingsGoalId", suggestion.savingsGoalId.toString());
+      if (suggestion.loanId) form.setValue("loanId", suggestion.loanId.toString());
+      setSuggestedBy(suggestion.source);
+    } catch {
+      // A suggestion is only a convenience; the user can still pick the category themselves
+    }
+  };
 
   const allCategories = transactionCategories;
 
+  // Tags already in use that this transaction doesn't have yet, most used first
+  const enteredTags = normalizeTags(watchedTags.split(",")).map(tag => tag.toLowerCase());
+  const suggestedTags = (facets?.tags ?? [])
+    .map(total => total.tag)
+    .filter(tag => !enteredTags.includes(tag.toLowerCase()))
+    .slice(0, 6);
+
+  const addTag = (tag: string) => {
+    form.setValue("tags", [...normalizeTags(watchedTags.split(",")), tag].join(", "));
+  };
+
   const handleAddCustomCategory = () => {
     if (customCategoryInput.trim()) {
       const categoryValue = addCustomCategory(customCategoryInput.trim());
@@ -138,7 +302,7 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
   };
 
   const createTransactionMutation = useMutation({
-    mutationFn: async (data: InsertTransaction) => {
+    mutationFn: async (data: InsertTransaction & { applyRules?: boolean }) => {
       const response = await apiRequest("POST", "/api/transactions", data);
       return response.json();
     },
@@ -163,6 +327,33 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
     },
   });
 
+  const createRecurringMutation = useMutation({
+    mutationFn: async (data: InsertRecurringTransaction) => {
+      const response = await apiRequest("POST", "/api/recurring", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+      toast({
+        title: "Success",
+        description: "Recurring transaction scheduled successfully",
+      });
+      form.reset();
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to schedule recurring transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateTransactionMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: Partial<InsertTransaction> }) => {
       const response = await apiRequest("PUT", `/api/transactions/${id}`, data);
@@ -199,15 +390,33 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
       time: data.time || getCurrentTime(), // Include time field with fallback to current time
       savingsGoalId: data.savingsGoalId && data.savingsGoalId !== "" ? parseInt(data.savingsGoalId) : undefined,
       loanId: data.loanId && data.loanId !== "" ? parseInt(data.loanId) : undefined,
+      accountId: data.accountId ? parseInt(data.accountId) : null,
+      toAccountId: data.type === "transfer" && data.toAccountId ? parseInt(data.toAccountId) : null,
+      currency: data.currency || undefined,
+      splits: data.isSplit ? data.splits : null,
+      payeeId: data.payeeId === "auto" ? undefined : data.payeeId === "none" ? null : parseInt(data.payeeId),
+      tags: normalizeTags(data.tags.split(",")),
     };
 
-    if (editingTransaction) {
+    if (!editingTransaction && data.repeat !== "none") {
+      const { date, ...template } = transactionData;
+      createRecurringMutation.mutate({
+        frequency: data.repeat,
+        intervalDays: data.repeat === "custom" ? parseInt(data.intervalDays || "1") : null,
+        startDate: date,
+        endType: data.endType,
+        endDate: data.endType === "on_date" && data.endDate ? new Date(data.endDate) : null,
+        maxOccurrences: data.endType === "after_occurrences" ? parseInt(data.maxOccurrences || "1") : null,
+        template,
+      });
+    } else if (editingTransaction) {
       updateTransactionMutation.mutate({
         id: editingTransaction.id,
         data: transactionData
       });
     } else {
-      createTransactionMutation.mutate(transactionData);
+      // The form already shows what the rules suggest, so whatever is on screen now is what the user wants
+      createTransactionMutation.mutate({ ...transactionData, applyRules: false });
     }
   };
 
@@ -225,19 +434,43 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
         date: formattedDate,
         savingsGoalId: editingTransaction.savingsGoalId ? editingTransaction.savingsGoalId.toString() : "",
         loanId: editingTransaction.loanId ? editingTransaction.loanId.toString() : "",
+        accountId: editingTransaction.accountId ? editingTransaction.accountId.toString() : "",
+        toAccountId: editingTransaction.toAccountId ? editingTransaction.toAccountId.toString() : "",
+        currency: editingTransaction.currency,
+        payeeId: editingTransaction.payeeId ? editingTransaction.payeeId.toString() : "none",
+        tags: (editingTransaction.tags ?? []).join(", "),
+        isSplit: !!editingTransaction.splits?.length,
+        splits: editingTransaction.splits ?? [],
+        repeat: "none",
+        intervalDays: "",
+        endType: "never",
+        endDate: "",
+        maxOccurrences: "",
       });
     } else if (!editingTransaction && isOpen) {
       form.reset({
         amount: "",
         description: "",
         category: "",
-        type: "expense",
+        type: defaultType,
         date: new Date().toISOString().split('T')[0],
         savingsGoalId: "",
         loanId: "",
+        accountId: "",
+        toAccountId: "",
+        currency: "",
+        payeeId: "auto",
+        tags: "",
+        isSplit: false,
+        splits: [],
+        repeat: defaultRepeat,
+        intervalDays: "",
+        endType: "never",
+        endDate: "",
+        maxOccurrences: "",
       });
     }
-  }, [editingTransaction, isOpen, form]);
+  }, [editingTransaction, isOpen, defaultRepeat, defaultType, form]);
 
   if (!isOpen) return null;
 
@@ -268,25 +501,47 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
           )}
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="amount"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Amount</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      step="0.01"
-                      placeholder="0.00"
-                      {...field}
-                      className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="0.00"
+                        {...field}
+                        className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input
+                        maxLength={3}
+                        placeholder={defaultCurrency}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             <FormField
               control={form.control}
@@ -298,6 +553,10 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
                     <Input
                       placeholder="Enter description"
                       {...field}
+                      onBlur={() => {
+                        field.onBlur();
+                        suggestCategorization();
+                      }}
                       className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent"
                     />
                   </FormControl>
@@ -306,6 +565,7 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
               )}
             />
 
+            {selectedType !== "transfer" && !isSplit && (
             <FormField
               control={form.control}
               name="category"
@@ -351,6 +611,7 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
                     <>
                       <Select 
                         onValueChange={(value) => {
+                          setSuggestedBy(null);
                           if (value === "__add_custom__") {
                             setIsAddingCustomCategory(true);
                             field.onChange("");
@@ -380,12 +641,91 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
                           </SelectItem>
                         </SelectContent>
                       </Select>
+                      {suggestedBy && (
+                        <p className="text-xs text-gray-500">
+                          {suggestedBy === "rule" ? "Filled in by one of your rules" : "Suggested from similar transactions"}
+                        </p>
+                      )}
                     </>
                   )}
                   <FormMessage />
                 </FormItem>
               )}
             />
+            )}
+
+            {selectedType !== "transfer" && isSplit && (
+              <div className="space-y-2">
+                <Label>Split Across Categories</Label>
+                {splitFields.map((splitField, index) => (
+                  <div key={splitField.id} className="flex gap-2 items-start">
+                    <FormField
+                      control={form.control}
+                      name={`splits.${index}.category`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger className="px-3 py-3 border border-gray-300 rounded-xl">
+                                <SelectValue placeholder="Category" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {allCategories.map((category) => (
+                                <SelectItem key={category.value} value={category.value}>
+                                  {category.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`splits.${index}.amount`}
+                      render={({ field }) => (
+                        <FormItem className="w-28">
+                          <FormControl>
+                            <Input type="number" step="0.01" placeholder="0.00" {...field} className="px-3 py-3 border border-gray-300 rounded-xl" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeSplit(index)}
+                      disabled={splitFields.length <= 2}
+                      className="p-2 mt-1 text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => appendSplit({ category: "", amount: "" })} className="text-primary">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Line
+                  </Button>
+                  <span className={`text-sm ${Math.abs(splitRemaining) < 0.005 ? "text-green-600" : "text-red-600"}`}>
+                    {Math.abs(splitRemaining) < 0.005 ? "Fully allocated" : `${splitRemaining.toFixed(2)} left to allocate`}
+                  </span>
+                </div>
+                {form.formState.errors.splits?.message && (
+                  <p className="text-sm font-medium text-destructive">{form.formState.errors.splits.message}</p>
+                )}
+              </div>
+            )}
+
+            {selectedType !== "transfer" && !isLoanReceivedTransaction && (
+              <Button type="button" variant="outline" size="sm" onClick={toggleSplit} className="w-full">
+                {isSplit ? "Use a Single Category" : "Split Across Categories"}
+              </Button>
+            )}
 
             <FormField
               control={form.control}
@@ -442,6 +782,9 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
                       <SelectItem value="savings_deposit">🏦 Savings Deposit</SelectItem>
                       <SelectItem value="savings_withdrawal">🏧 Savings Withdrawal</SelectItem>
                       <SelectItem value="loan_repayment">💳 Loan Repayment</SelectItem>
+                      {accounts.length > 1 && (
+                        <SelectItem value="transfer">🔁 Transfer</SelectItem>
+                      )}
                       {isLoanReceivedTransaction && (
                         <SelectItem value="loan_received">💵 Loan Received</SelectItem>
                       )}
@@ -452,6 +795,96 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
               )}
             />
 
+            {/* Account Selector - required source account for transfers, optional otherwise */}
+            {accounts.length > 0 && (
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{selectedType === "transfer" ? "From Account" : "Account (Optional)"}</FormLabel>
+                    <Select onValueChange={(value) => field.onChange(value === "none" ? "" : value)} value={field.value || "none"}>
+                      <FormControl>
+                        <SelectTrigger className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent">
+                          <SelectValue placeholder="Select an account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">{selectedType === "transfer" ? "Select an account" : "No account"}</SelectItem>
+                        {accounts
+                          .filter(account => !account.isArchived || account.id.toString() === field.value)
+                          .map((account) => (
+                            <SelectItem key={account.id} value={account.id.toString()}>
+                              {account.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {selectedType === "transfer" && (
+              <FormField
+                control={form.control}
+                name="toAccountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To Account</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent">
+                          <SelectValue placeholder="Select an account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accounts
+                          .filter(account => (!account.isArchived || account.id.toString() === field.value) && account.id.toString() !== form.getValues("accountId"))
+                          .map((account) => (
+                            <SelectItem key={account.id} value={account.id.toString()}>
+                              {account.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Payee Selector - new transactions are matched from their description unless one is picked */}
+            {payees.length > 0 && selectedType !== "transfer" && (
+              <FormField
+                control={form.control}
+                name="payeeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payee</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent">
+                          <SelectValue placeholder="Select a payee" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {!editingTransaction && <SelectItem value="auto">Match from description</SelectItem>}
+                        <SelectItem value="none">No payee</SelectItem>
+                        {payees.map((payee) => (
+                          <SelectItem key={payee.id} value={payee.id.toString()}>
+                            {payee.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Savings Goal Selector - Show only for savings transactions */}
             {(selectedType === "savings_deposit" || selectedType === "savings_withdrawal") && (
               <FormField
@@ -506,7 +939,7 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
                             .filter(loan => loan.interestType === "simple" && loan.status === "active")
                             .map((loan) => (
                               <SelectItem key={loan.id} value={loan.id.toString()}>
-                                💳 {loan.name} (Balance: {new Intl.NumberFormat('en-MW', { style: 'currency', currency: 'MWK' }).format(parseFloat(loan.currentBalance))})
+                                💳 {loan.name} (Balance: {formatCurrency(parseFloat(loan.currentBalance), loan.currency)})
                               </SelectItem>
                             ))
                         )}
@@ -518,6 +951,161 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
               />
             )}
 
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags (Optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. wedding 2026, reimbursable"
+                      {...field}
+                      className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                  </FormControl>
+                  {suggestedTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {suggestedTags.map((tag) => (
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={() => addTag(tag)}
+                          className="text-xs px-2 py-0.5 rounded-full border border-gray-200 text-gray-600 hover:bg-gray-50"
+                        >
+                          + {tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Repeat Schedule - only when adding a new transaction */}
+            {!editingTransaction && (
+              <FormField
+                control={form.control}
+                name="repeat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent">
+                          <SelectValue placeholder="Does not repeat" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Does not repeat</SelectItem>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                        <SelectItem value="yearly">Yearly</SelectItem>
+                        <SelectItem value="custom">Custom (every N days)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!editingTransaction && selectedRepeat === "custom" && (
+              <FormField
+                control={form.control}
+                name="intervalDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat Every (Days)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        placeholder="e.g. 10"
+                        {...field}
+                        className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!editingTransaction && selectedRepeat !== "none" && (
+              <FormField
+                control={form.control}
+                name="endType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent">
+                          <SelectValue placeholder="Never" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="never">Never</SelectItem>
+                        <SelectItem value="on_date">On a date</SelectItem>
+                        <SelectItem value="after_occurrences">After a number of times</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!editingTransaction && selectedRepeat !== "none" && selectedEndType === "on_date" && (
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="date"
+                        className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {!editingTransaction && selectedRepeat !== "none" && selectedEndType === "after_occurrences" && (
+              <FormField
+                control={form.control}
+                name="maxOccurrences"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Number of Times</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        placeholder="e.g. 12"
+                        {...field}
+                        className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {editingTransaction && (
+              <AttachmentList url={`/api/transactions/${editingTransaction.id}/attachments`} title="Receipts & documents" />
+            )}
+
             <div className="flex space-x-4 pt-4">
               <Button
                 type="button"
@@ -531,11 +1119,11 @@ export default function TransactionModal({ isOpen, onClose, editingTransaction }
               <Button
                 type="submit"
                 className="flex-1 py-3 bg-primary text-white"
-                disabled={createTransactionMutation.isPending || updateTransactionMutation.isPending}
+                disabled={createTransactionMutation.isPending || updateTransactionMutation.isPending || createRecurringMutation.isPending}
               >
                 {editingTransaction
                   ? (updateTransactionMutation.isPending ? "Updating..." : "Update Transaction")
-                  : (createTransactionMutation.isPending ? "Adding..." : "Add Transaction")
+                  : (createTransactionMutation.isPending || createRecurringMutation.isPending ? "Adding..." : "Add Transaction")
                 }
               </Button>
             </div>
@@ -0,0 +1,8 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Account } from "@shared/schema";
+
+export function useAccounts() {
+  return useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+}
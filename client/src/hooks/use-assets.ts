@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Asset, AssetValuation, NetWorthSnapshot } from "@shared/schema";
+
+// An asset with its latest valuation, as returned by /api/assets
+export interface AssetWithValue extends Asset {
+  value: number | null;
+  valuedAt: string | null;
+  baseValue: number;
+}
+
+export function useAssets() {
+  return useQuery<AssetWithValue[]>({
+    queryKey: ["/api/assets"],
+  });
+}
+
+// Valuations of one asset, newest first
+export function useAssetValuations(assetId: number | null) {
+  return useQuery<AssetValuation[]>({
+    queryKey: [`/api/assets/${assetId}/valuations`],
+    enabled: assetId !== null,
+  });
+}
+
+export function useNetWorthSnapshots() {
+  return useQuery<NetWorthSnapshot[]>({
+    queryKey: ["/api/net-worth/snapshots"],
+  });
+}
@@ -0,0 +1,10 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Attachment } from "@shared/schema";
+
+// Attachments of one transaction or loan, e.g. "/api/loans/3/attachments"
+export function useAttachments(url: string, enabled = true) {
+  return useQuery<Attachment[]>({
+    queryKey: [url],
+    enabled,
+  });
+}
@@ -1,124 +1,89 @@
-import { useState, useMemo } from "react";
-import { useTransactions } from "./use-transactions";
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTransactionFacets } from "./use-transactions";
 import { useBudgets } from "./use-budgets";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RESERVED_CATEGORY_VALUES, formatCategoryValue, toCategoryValue } from "@shared/categories";
+import type { Category } from "@shared/schema";
 
-// Base predefined categories
-const baseBudgetCategories = [
-  { value: "food", label: "Food & Dining", icon: "🍽️" },
-  { value: "transportation", label: "Transportation", icon: "🚗" },
-  { value: "shopping", label: "Shopping", icon: "🛍️" },
-  { value: "entertainment", label: "Entertainment", icon: "🎬" },
-  { value: "bills", label: "Bills & Utilities", icon: "📄" },
-  { value: "healthcare", label: "Healthcare", icon: "🏥" },
-  { value: "education", label: "Education", icon: "📚" },
-  { value: "savings", label: "Savings", icon: "💳" },
-  { value: "loan", label: "Loan", icon: "🏛️" },
-  { value: "other", label: "Other", icon: "📝" },
-];
+export interface CategoryOption {
+  value: string;
+  label: string;
+  icon: string;
+  color: string;
+}
 
-const baseTransactionCategories = [
-  { value: "bills", label: "Bills & Utilities" },
-  { value: "education", label: "Education" },
-  { value: "entertainment", label: "Entertainment" },
-  { value: "food", label: "Food & Dining" },
-  { value: "healthcare", label: "Healthcare" },
-  { value: "income", label: "Income" },
-  { value: "loan", label: "Loan" },
-  { value: "other", label: "Other" },
-  { value: "savings", label: "Savings Account" },
-  { value: "shopping", label: "Shopping" },
-  { value: "transportation", label: "Transportation" },
-];
+export function useCategoryList() {
+  return useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+}
 
 export function useCategories() {
-  const { data: transactions = [] } = useTransactions();
+  const { data: facets } = useTransactionFacets();
   const { data: budgets = [] } = useBudgets();
-  const [customCategories, setCustomCategories] = useState<string[]>([]);
+  const { data: categories = [] } = useCategoryList();
 
-  // Get all unique categories from existing transactions and budgets
+  // Values used by transactions and budgets that have no category behind them, e.g. from an imported statement
   const existingCategories = useMemo(() => {
     const uniqueCategories = new Set<string>();
-    
-    // Add categories from transactions
-    transactions.forEach(t => uniqueCategories.add(t.category));
-    
-    // Add categories from budgets
+    facets?.categories.forEach(category => uniqueCategories.add(category));
     budgets.forEach(b => uniqueCategories.add(b.category));
-    
-    return Array.from(uniqueCategories);
-  }, [transactions, budgets]);
+    return Array.from(uniqueCategories).filter(value =>
+      !RESERVED_CATEGORY_VALUES.includes(value) && !categories.some(category => category.value === value)
+    );
+  }, [facets, budgets, categories]);
 
-  // Combined categories for budgets (with icons)
+  // Subcategories are labelled with their parent so they sort and read next to it
+  const toOption = (category: Category): CategoryOption => {
+    const parent = categories.find(c => c.id === category.parentId);
+    return {
+      value: category.value,
+      label: parent ? `${parent.name} › ${category.name}` : category.name,
+      icon: category.icon,
+      color: category.color,
+    };
+  };
+
+  const uncategorizedOptions = existingCategories.map(value => ({
+    value,
+    label: formatCategoryValue(value),
+    icon: "📝",
+    color: "#6b7280",
+  }));
+
+  const activeCategories = categories.filter(category => !category.isArchived);
+
+  // Combined categories for budgets: spending only
   const budgetCategories = useMemo(() => {
     return [
-      ...baseBudgetCategories,
-      // Add existing categories not in base list
-      ...existingCategories
-        .filter(cat => !baseBudgetCategories.some(base => base.value === cat))
-        .map(cat => ({
-          value: cat,
-          label: cat.charAt(0).toUpperCase() + cat.slice(1).replace('_', ' '),
-          icon: "📝"
-        })),
-      // Add custom categories
-      ...customCategories
-        .filter(cat => 
-          !baseBudgetCategories.some(base => base.value === cat) && 
-          !existingCategories.includes(cat)
-        )
-        .map(cat => ({
-          value: cat,
-          label: cat.charAt(0).toUpperCase() + cat.slice(1).replace('_', ' '),
-          icon: "📝"
-        }))
+      ...activeCategories.filter(category => category.kind === "expense").map(toOption),
+      ...uncategorizedOptions,
     ].sort((a, b) => a.label.localeCompare(b.label));
-  }, [existingCategories, customCategories]);
+  }, [categories, existingCategories]);
 
-  // Combined categories for transactions (without icons)
+  // Combined categories for transactions
   const transactionCategories = useMemo(() => {
-    return [
-      ...baseTransactionCategories,
-      // Add existing categories not in base list
-      ...existingCategories
-        .filter(cat => !baseTransactionCategories.some(base => base.value === cat))
-        .map(cat => ({
-          value: cat,
-          label: cat.charAt(0).toUpperCase() + cat.slice(1).replace('_', ' ')
-        })),
-      // Add custom categories
-      ...customCategories
-        .filter(cat => 
-          !baseTransactionCategories.some(base => base.value === cat) && 
-          !existingCategories.includes(cat)
-        )
-        .map(cat => ({
-          value: cat,
-          label: cat.charAt(0).toUpperCase() + cat.slice(1).replace('_', ' ')
-        }))
-    ].sort((a, b) => a.label.localeCompare(b.label));
-  }, [existingCategories, customCategories]);
+    return [...activeCategories.map(toOption), ...uncategorizedOptions].sort((a, b) => a.label.localeCompare(b.label));
+  }, [categories, existingCategories]);
 
   const addCustomCategory = (categoryName: string) => {
-    const categoryValue = categoryName.toLowerCase().replace(/\s+/g, '_');
-    
-    // Check if category already exists
-    const existsInBase = baseBudgetCategories.some(cat => cat.value === categoryValue) ||
-                       baseTransactionCategories.some(cat => cat.value === categoryValue);
-    const existsInData = existingCategories.includes(categoryValue);
-    const existsInCustom = customCategories.includes(categoryValue);
-    
-    if (!existsInBase && !existsInData && !existsInCustom) {
-      setCustomCategories(prev => [...prev, categoryValue]);
+    const categoryValue = toCategoryValue(categoryName);
+
+    if (!categories.some(category => category.value === categoryValue)) {
+      apiRequest("POST", "/api/categories", { name: categoryName.trim() })
+        .then(() => queryClient.invalidateQueries({ queryKey: ["/api/categories"] }))
+        .catch(() => {});
     }
-    
+
     return categoryValue;
   };
 
   return {
+    categories,
     budgetCategories,
     transactionCategories,
     addCustomCategory,
     existingCategories,
-    customCategories
   };
-}
\ No newline at end of file
+}
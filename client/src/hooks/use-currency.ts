@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSettings } from "@/hooks/use-settings";
+import { useTransactions } from "@/hooks/use-transactions";
+import { createCurrencyConverter, toBaseTransactions } from "@shared/currency-conversion";
+import type { ExchangeRate } from "@shared/schema";
+
+export function useExchangeRates() {
+  return useQuery<ExchangeRate[]>({
+    queryKey: ["/api/exchange-rates"],
+  });
+}
+
+export function useBaseCurrency(): string {
+  return useSettings().settings.baseCurrency;
+}
+
+// Converts amounts into the base currency with the same rates and rules the server totals use
+export function useCurrencyConverter() {
+  const baseCurrency = useBaseCurrency();
+  const { data: rates = [] } = useExchangeRates();
+  return useMemo(() => createCurrencyConverter(baseCurrency, rates), [baseCurrency, rates]);
+}
+
+// Every transaction with its amount in the base currency, for totals and reports worked out in the browser
+export function useBaseTransactions() {
+  const { data: transactions = [], ...query } = useTransactions();
+  const converter = useCurrencyConverter();
+  const data = useMemo(() => toBaseTransactions(transactions, converter), [transactions, converter]);
+  return { ...query, data };
+}
@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Investment, InvestmentLot, InvestmentPrice, Transaction } from "@shared/schema";
+
+// A holding with its position and gains, as returned by /api/investments. Amounts are in the holding's currency
+// except baseMarketValue.
+export interface Holding extends Investment {
+  quantity: number;
+  costBasis: number;
+  averageCost: number;
+  price: number | null;
+  pricedAt: string | null;
+  marketValue: number;
+  unrealizedGain: number;
+  realizedGain: number;
+  income: number;
+  baseMarketValue: number;
+}
+
+export function useInvestments() {
+  return useQuery<Holding[]>({
+    queryKey: ["/api/investments"],
+  });
+}
+
+// Lots of one holding in the order they were traded
+export function useInvestmentLots(investmentId: number | null) {
+  return useQuery<InvestmentLot[]>({
+    queryKey: [`/api/investments/${investmentId}/lots`],
+    enabled: investmentId !== null,
+  });
+}
+
+// Prices of one holding, newest first
+export function useInvestmentPrices(investmentId: number | null) {
+  return useQuery<InvestmentPrice[]>({
+    queryKey: [`/api/investments/${investmentId}/prices`],
+    enabled: investmentId !== null,
+  });
+}
+
+// Dividends and coupons paid on one holding, newest first
+export function useInvestmentIncome(investmentId: number | null) {
+  return useQuery<Transaction[]>({
+    queryKey: [`/api/investments/${investmentId}/income`],
+    enabled: investmentId !== null,
+  });
+}
@@ -0,0 +1,8 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Payee } from "@shared/schema";
+
+export function usePayees() {
+  return useQuery<Payee[]>({
+    queryKey: ["/api/payees"],
+  });
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import type { RecurringTransaction, RecurringTransactionTemplate } from "@shared/schema";
+
+export type UpcomingRecurringTransaction = RecurringTransactionTemplate & {
+  recurringTransactionId: number;
+  date: string;
+};
+
+export function useRecurringTransactions() {
+  return useQuery<RecurringTransaction[]>({
+    queryKey: ["/api/recurring"],
+  });
+}
+
+export function useUpcomingRecurringTransactions(from: Date, to: Date) {
+  return useQuery<UpcomingRecurringTransaction[]>({
+    queryKey: [`/api/recurring/upcoming?from=${from.toISOString()}&to=${to.toISOString()}`],
+  });
+}
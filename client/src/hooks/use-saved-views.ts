@@ -0,0 +1,8 @@
+import { useQuery } from "@tanstack/react-query";
+import type { SavedView } from "@shared/schema";
+
+export function useSavedViews() {
+  return useQuery<SavedView[]>({
+    queryKey: ["/api/saved-views"],
+  });
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_SETTINGS } from "@shared/user-settings";
+import type { UserSettings } from "@shared/schema";
+
+// The signed-in user's settings, with the defaults standing in until they have loaded
+export function useSettings() {
+  const { isAuthenticated } = useAuth();
+  const { data, ...query } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+    enabled: isAuthenticated,
+  });
+  return { ...query, settings: data ?? DEFAULT_SETTINGS };
+}
@@ -1,8 +1,55 @@
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import type { Transaction } from "@shared/schema";
 
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: string | null;
+  summary: { count: number; income: number; expenses: number };
+}
+
 export function useTransactions() {
   return useQuery<Transaction[]>({
     queryKey: ["/api/transactions"],
   });
 }
+
+export interface TransactionFacets {
+  categories: string[];
+  tags: Array<{ tag: string; count: number }>;
+}
+
+// The categories and tags the user's transactions use, tags most used first. Keyed under /api/transactions so
+// that invalidating transactions refreshes it too.
+export function useTransactionFacets() {
+  return useQuery<TransactionFacets>({
+    queryKey: ["/api/transactions", "facets"],
+    queryFn: async () => (await apiRequest("GET", "/api/transactions/facets")).json(),
+  });
+}
+
+// Filtered, sorted transactions a page at a time. Params are the query string of GET /api/transactions
+// without the cursor; empty values are left out. The limit is what asks the server for pages rather than the plain list.
+export function useTransactionQuery(params: Record<string, string> & { limit: string }, enabled = true) {
+  const search = new URLSearchParams(Object.entries(params).filter(([, value]) => value !== "")).toString();
+  return useTransactionPages(`/api/transactions?${search}`, enabled);
+}
+
+// Pages of any endpoint that answers with TransactionPage. The key starts with /api/transactions so that
+// invalidating transactions refreshes these too.
+export function useTransactionPages(url: string, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: ["/api/transactions", "pages", url],
+    initialPageParam: "",
+    enabled,
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `${url.includes("?") ? "&" : "?"}cursor=${encodeURIComponent(pageParam)}` : "";
+      const res = await fetch(`${url}${cursor}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return await res.json() as TransactionPage;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+}
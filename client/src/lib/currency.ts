@@ -1,8 +1,38 @@
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("en-MW", {
+import { DEFAULT_SETTINGS, type SettingsValues } from "@shared/user-settings";
+
+type DisplaySettings = Pick<SettingsValues, "baseCurrency" | "locale" | "numberFormat">;
+
+// The user's display settings, set once they have loaded. Totals and reports are in the base currency, so it is
+// what amounts are shown in unless they say otherwise.
+let display: DisplaySettings = DEFAULT_SETTINGS;
+
+export function setDisplaySettings(settings: DisplaySettings) {
+  display = settings;
+}
+
+export function getBaseCurrency(): string {
+  return display.baseCurrency;
+}
+
+// Group and decimal separators for the fixed number formats; "locale" leaves them to the locale
+const separators: Record<string, { group: string; decimal: string }> = {
+  comma_dot: { group: ",", decimal: "." },
+  dot_comma: { group: ".", decimal: "," },
+  space_comma: { group: " ", decimal: "," },
+};
+
+// Kwacha amounts have always been shown without tambala; other currencies keep their usual decimals
+export function formatCurrency(amount: number, currency: string = display.baseCurrency): string {
+  const wholeUnits = currency === "MWK";
+  const formatter = new Intl.NumberFormat(display.locale, {
     style: "currency",
-    currency: "MWK",
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
-}
\ No newline at end of file
+    currency,
+    minimumFractionDigits: wholeUnits ? 0 : undefined,
+    maximumFractionDigits: wholeUnits ? 0 : undefined,
+  });
+  const style = separators[display.numberFormat];
+  if (!style) return formatter.format(amount);
+  return formatter.formatToParts(amount)
+    .map(part => part.type === "group" ? style.group : part.type === "decimal" ? style.decimal : part.value)
+    .join("");
+}
@@ -1,9 +1,30 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// A failed API response. The message keeps the "<status>: <body>" form; the server's own { message } is read
+// out of the body once, here, rather than by every caller.
+export class ApiError extends Error {
+  readonly serverMessage?: string;
+
+  constructor(readonly status: number, body: string) {
+    super(`${status}: ${body}`);
+    try {
+      const parsed = JSON.parse(body);
+      if (typeof parsed?.message === "string") this.serverMessage = parsed.message;
+    } catch {
+      // Not JSON, e.g. a proxy error page
+    }
+  }
+}
+
+// What to show for a failed request: the server's message when it sent one, otherwise the fallback
+export function errorMessage(error: Error, fallback: string): string {
+  return error instanceof ApiError && error.serverMessage ? error.serverMessage : fallback;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
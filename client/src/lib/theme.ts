@@ -0,0 +1,12 @@
+// Dark mode is the "dark" class on <html> (tailwind darkMode: "class"). "system" follows the device setting,
+// including when it changes; the returned function stops following it.
+export function applyTheme(theme: string): () => void {
+  const media = window.matchMedia("(prefers-color-scheme: dark)");
+  const update = () => {
+    document.documentElement.classList.toggle("dark", theme === "dark" || (theme === "system" && media.matches));
+  };
+  update();
+  if (theme !== "system") return () => {};
+  media.addEventListener("change", update);
+  return () => media.removeEventListener("change", update);
+}
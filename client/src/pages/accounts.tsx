@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Plus, Pencil, Archive, ArchiveRestore, Trash2, Wallet, ListChecks } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useBaseCurrency } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import type { Account, InsertAccount } from "@shared/schema";
+
+const accountTypeLabels: Record<string, string> = {
+  cash: "Cash",
+  bank: "Bank",
+  mobile_money: "Mobile Money",
+};
+
+interface AccountFormState {
+  name: string;
+  type: InsertAccount["type"];
+  openingBalance: string;
+  currency: string;
+}
+
+const emptyForm: AccountFormState = { name: "", type: "cash", openingBalance: "0", currency: "MWK" };
+
+export default function Accounts() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [form, setForm] = useState<AccountFormState>(emptyForm);
+  const { data: accounts = [], isLoading } = useAccounts();
+  const { data: financialSummary } = useQuery<{ accounts: Array<{ id: number; balance: number }> }>({
+    queryKey: ["/api/financial-summary"],
+  });
+  const baseCurrency = useBaseCurrency();
+  const { toast } = useToast();
+
+  const balances = new Map(financialSummary?.accounts.map(account => [account.id, account.balance]) ?? []);
+
+  const invalidateAccountQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+  };
+
+  const openForm = (account?: Account) => {
+    setEditingAccount(account ?? null);
+    setForm(account
+      ? { name: account.name, type: account.type as InsertAccount["type"], openingBalance: account.openingBalance, currency: account.currency }
+      : { ...emptyForm, currency: baseCurrency });
+    setIsFormOpen(true);
+  };
+
+  const saveAccountMutation = useMutation({
+    mutationFn: async (data: AccountFormState) => {
+      const response = editingAccount
+        ? await apiRequest("PUT", `/api/accounts/${editingAccount.id}`, data)
+        : await apiRequest("POST", "/api/accounts", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateAccountQueries();
+      toast({
+        title: "Success",
+        description: editingAccount ? "Account updated successfully" : "Account created successfully",
+      });
+      setIsFormOpen(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveAccountMutation = useMutation({
+    mutationFn: async ({ id, isArchived }: { id: number; isArchived: boolean }) => {
+      const response = await apiRequest("PUT", `/api/accounts/${id}`, { isArchived });
+      return response.json();
+    },
+    onSuccess: (_, { isArchived }) => {
+      invalidateAccountQueries();
+      toast({
+        title: "Success",
+        description: isArchived ? "Account archived" : "Account restored",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/accounts/${id}`);
+    },
+    onSuccess: () => {
+      invalidateAccountQueries();
+      toast({
+        title: "Success",
+        description: "Account deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409") ? "This account has transactions. Archive it instead." : "Failed to delete account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim() || isNaN(parseFloat(form.openingBalance))) {
+      toast({
+        title: "Error",
+        description: "Enter a name and an opening balance",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveAccountMutation.mutate(form);
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Accounts" subtitle="Where your money is kept" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <Button onClick={() => openForm()} className="w-full bg-primary text-white py-3">
+          <Plus className="h-4 w-4 mr-2" />
+          New Account
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : accounts.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-100 text-center">
+            <div className="text-4xl mb-4">👛</div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No accounts yet</h3>
+            <p className="text-gray-500">
+              Add your cash, bank and mobile money accounts to track each balance and move money between them
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {accounts.map((account) => {
+              const balance = balances.get(account.id) ?? parseFloat(account.openingBalance);
+
+              return (
+                <div key={account.id} className={`bg-white rounded-xl p-4 border border-gray-100 ${account.isArchived ? "opacity-60" : ""}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex items-start space-x-3 flex-1 min-w-0">
+                      <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 bg-emerald-100">
+                        <Wallet className="h-4 w-4 text-emerald-600" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium text-gray-900 mb-1 leading-snug">{account.name}</h3>
+                        <p className="text-xs text-gray-500">
+                          {accountTypeLabels[account.type] || account.type} • {account.currency}
+                          {account.isArchived && " • Archived"}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col items-end space-y-2 flex-shrink-0">
+                      <div className="flex items-center space-x-1">
+                        <Link href={`/accounts/${account.id}/reconcile`}>
+                          <Button variant="ghost" size="sm" className="p-1.5 text-emerald-600 hover:bg-emerald-50">
+                            <ListChecks className="h-3.5 w-3.5" />
+                          </Button>
+                        </Link>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openForm(account)}
+                          className="p-1.5 text-blue-600 hover:bg-blue-50"
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => archiveAccountMutation.mutate({ id: account.id, isArchived: !account.isArchived })}
+                          disabled={archiveAccountMutation.isPending}
+                          className="p-1.5 text-gray-600 hover:bg-gray-50"
+                        >
+                          {account.isArchived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteAccountMutation.mutate(account.id)}
+                          disabled={deleteAccountMutation.isPending}
+                          className="p-1.5 text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                      <div className={`font-semibold text-right whitespace-nowrap text-sm ${balance >= 0 ? "text-gray-900" : "text-red-600"}`}>
+                        {formatCurrency(balance, account.currency)}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Edit Account" : "New Account"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Name</Label>
+              <Input
+                id="account-name"
+                placeholder="e.g. Airtel Money"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(value: InsertAccount["type"]) => setForm({ ...form, type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(accountTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-opening-balance">Opening Balance</Label>
+              <Input
+                id="account-opening-balance"
+                type="number"
+                step="0.01"
+                value={form.openingBalance}
+                onChange={(e) => setForm({ ...form, openingBalance: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-currency">Currency</Label>
+              <Input
+                id="account-currency"
+                maxLength={3}
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <Button type="submit" className="w-full bg-primary text-white" disabled={saveAccountMutation.isPending}>
+              {saveAccountMutation.isPending ? "Saving..." : editingAccount ? "Update Account" : "Create Account"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,452 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Pencil, Archive, ArchiveRestore, Trash2, Home as HomeIcon, History } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAssets, useAssetValuations, type AssetWithValue } from "@/hooks/use-assets";
+import { useBaseCurrency } from "@/hooks/use-currency";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import type { InsertAsset } from "@shared/schema";
+
+const assetTypeLabels: Record<string, string> = {
+  property: "Property",
+  vehicle: "Vehicle",
+  livestock: "Livestock",
+  investment: "Investment",
+  other: "Other",
+};
+
+interface AssetFormState {
+  name: string;
+  type: InsertAsset["type"];
+  currency: string;
+  notes: string;
+  value: string;
+}
+
+interface ValuationFormState {
+  value: string;
+  valuedAt: string;
+  note: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm: AssetFormState = { name: "", type: "property", currency: "MWK", notes: "", value: "" };
+
+// Asset values feed net worth, so the summary changes with every asset or valuation
+const invalidateAssetQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+};
+
+export default function Assets() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingAsset, setEditingAsset] = useState<AssetWithValue | null>(null);
+  const [form, setForm] = useState<AssetFormState>(emptyForm);
+  const [historyAsset, setHistoryAsset] = useState<AssetWithValue | null>(null);
+  const [valuationForm, setValuationForm] = useState<ValuationFormState>({ value: "", valuedAt: today(), note: "" });
+  const { data: assets = [], isLoading } = useAssets();
+  const { data: valuations = [] } = useAssetValuations(historyAsset?.id ?? null);
+  const baseCurrency = useBaseCurrency();
+  const { toast } = useToast();
+
+  const totalValue = assets
+    .filter(asset => !asset.isArchived)
+    .reduce((sum, asset) => sum + asset.baseValue, 0);
+
+  const openForm = (asset?: AssetWithValue) => {
+    setEditingAsset(asset ?? null);
+    setForm(asset
+      ? { name: asset.name, type: asset.type as InsertAsset["type"], currency: asset.currency, notes: asset.notes ?? "", value: "" }
+      : { ...emptyForm, currency: baseCurrency });
+    setIsFormOpen(true);
+  };
+
+  const openHistory = (asset: AssetWithValue) => {
+    setHistoryAsset(asset);
+    setValuationForm({ value: "", valuedAt: today(), note: "" });
+  };
+
+  const saveAssetMutation = useMutation({
+    mutationFn: async (data: AssetFormState) => {
+      const { value, notes, ...asset } = data;
+      const response = editingAsset
+        ? await apiRequest("PUT", `/api/assets/${editingAsset.id}`, { ...asset, notes: notes || null })
+        : await apiRequest("POST", "/api/assets", { ...asset, notes: notes || null, ...(value ? { value } : {}) });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateAssetQueries();
+      toast({
+        title: "Success",
+        description: editingAsset ? "Asset updated successfully" : "Asset created successfully",
+      });
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save asset"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveAssetMutation = useMutation({
+    mutationFn: async ({ id, isArchived }: { id: number; isArchived: boolean }) => {
+      const response = await apiRequest("PUT", `/api/assets/${id}`, { isArchived });
+      return response.json();
+    },
+    onSuccess: (_, { isArchived }) => {
+      invalidateAssetQueries();
+      toast({
+        title: "Success",
+        description: isArchived ? "Asset archived" : "Asset restored",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update asset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAssetMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/assets/${id}`);
+    },
+    onSuccess: () => {
+      invalidateAssetQueries();
+      toast({
+        title: "Success",
+        description: "Asset deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete asset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addValuationMutation = useMutation({
+    mutationFn: async ({ assetId, data }: { assetId: number; data: ValuationFormState }) => {
+      const response = await apiRequest("POST", `/api/assets/${assetId}/valuations`, { ...data, note: data.note || null });
+      return response.json();
+    },
+    onSuccess: (_, { assetId }) => {
+      invalidateAssetQueries();
+      queryClient.invalidateQueries({ queryKey: [`/api/assets/${assetId}/valuations`] });
+      toast({
+        title: "Success",
+        description: "Valuation added",
+      });
+      setValuationForm({ value: "", valuedAt: today(), note: "" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to add valuation"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteValuationMutation = useMutation({
+    mutationFn: async ({ id }: { id: number; assetId: number }) => {
+      await apiRequest("DELETE", `/api/asset-valuations/${id}`);
+    },
+    onSuccess: (_, { assetId }) => {
+      invalidateAssetQueries();
+      queryClient.invalidateQueries({ queryKey: [`/api/assets/${assetId}/valuations`] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete valuation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim() || form.currency.length !== 3 || (form.value && !(parseFloat(form.value) >= 0))) {
+      toast({
+        title: "Error",
+        description: "Enter a name, a three-letter currency code and a value of zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveAssetMutation.mutate(form);
+  };
+
+  const handleValuationSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!historyAsset) return;
+    if (!(parseFloat(valuationForm.value) >= 0) || !valuationForm.valuedAt) {
+      toast({
+        title: "Error",
+        description: "Enter a value of zero or more and the date it was valued",
+        variant: "destructive",
+      });
+      return;
+    }
+    addValuationMutation.mutate({ assetId: historyAsset.id, data: valuationForm });
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Assets" subtitle="Property, vehicles and other things you own" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        {assets.length > 0 && (
+          <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-100">
+            <div className="text-sm text-gray-500">Total value</div>
+            <div className="text-2xl font-bold text-gray-900">{formatCurrency(totalValue, baseCurrency)}</div>
+            <p className="text-xs text-gray-500 mt-1">Counted in your net worth, at each asset's latest valuation</p>
+          </div>
+        )}
+
+        <Button onClick={() => openForm()} className="w-full bg-primary text-white py-3">
+          <Plus className="h-4 w-4 mr-2" />
+          New Asset
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : assets.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-100 text-center">
+            <div className="text-4xl mb-4">🏠</div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No assets yet</h3>
+            <p className="text-gray-500">
+              Add a house, a vehicle, livestock or investments and update their value from time to time
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {assets.map((asset) => (
+              <div key={asset.id} className={`bg-white rounded-xl p-4 border border-gray-100 ${asset.isArchived ? "opacity-60" : ""}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex items-start space-x-3 flex-1 min-w-0">
+                    <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 bg-sky-100">
+                      <HomeIcon className="h-4 w-4 text-sky-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium text-gray-900 mb-1 leading-snug">{asset.name}</h3>
+                      <p className="text-xs text-gray-500">
+                        {assetTypeLabels[asset.type] || asset.type} • {asset.currency}
+                        {asset.isArchived && " • Archived"}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {asset.valuedAt ? `Valued ${new Date(asset.valuedAt).toLocaleDateString()}` : "Not valued yet"}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-col items-end space-y-2 flex-shrink-0">
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openHistory(asset)}
+                        className="p-1.5 text-sky-600 hover:bg-sky-50"
+                      >
+                        <History className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openForm(asset)}
+                        className="p-1.5 text-blue-600 hover:bg-blue-50"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => archiveAssetMutation.mutate({ id: asset.id, isArchived: !asset.isArchived })}
+                        disabled={archiveAssetMutation.isPending}
+                        className="p-1.5 text-gray-600 hover:bg-gray-50"
+                      >
+                        {asset.isArchived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteAssetMutation.mutate(asset.id)}
+                        disabled={deleteAssetMutation.isPending}
+                        className="p-1.5 text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                    <div className="font-semibold text-right whitespace-nowrap text-sm text-gray-900">
+                      {asset.value === null ? "—" : formatCurrency(asset.value, asset.currency)}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editingAsset ? "Edit Asset" : "New Asset"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="asset-name">Name</Label>
+              <Input
+                id="asset-name"
+                placeholder="e.g. House in Area 47"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(value: InsertAsset["type"]) => setForm({ ...form, type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(assetTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="asset-currency">Currency</Label>
+              <Input
+                id="asset-currency"
+                maxLength={3}
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+              />
+            </div>
+            {!editingAsset && (
+              <div className="space-y-2">
+                <Label htmlFor="asset-value">Value Today (optional)</Label>
+                <Input
+                  id="asset-value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="asset-notes">Notes (optional)</Label>
+              <Input
+                id="asset-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full bg-primary text-white" disabled={saveAssetMutation.isPending}>
+              {saveAssetMutation.isPending ? "Saving..." : editingAsset ? "Update Asset" : "Create Asset"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyAsset !== null} onOpenChange={(open) => !open && setHistoryAsset(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{historyAsset?.name} Valuations</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleValuationSubmit} className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="valuation-value">Value</Label>
+                <Input
+                  id="valuation-value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={valuationForm.value}
+                  onChange={(e) => setValuationForm({ ...valuationForm, value: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="valuation-date">Valued On</Label>
+                <Input
+                  id="valuation-date"
+                  type="date"
+                  value={valuationForm.valuedAt}
+                  onChange={(e) => setValuationForm({ ...valuationForm, valuedAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <Input
+              placeholder="Note, e.g. bank valuation"
+              value={valuationForm.note}
+              onChange={(e) => setValuationForm({ ...valuationForm, note: e.target.value })}
+            />
+            <Button type="submit" className="w-full bg-primary text-white" disabled={addValuationMutation.isPending}>
+              {addValuationMutation.isPending ? "Saving..." : "Add Valuation"}
+            </Button>
+          </form>
+
+          {valuations.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-2">No valuations yet</p>
+          ) : (
+            <div className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+              {valuations.map((valuation) => (
+                <div key={valuation.id} className="py-2 flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-900 text-sm">
+                      {formatCurrency(parseFloat(valuation.value), historyAsset?.currency)}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {new Date(valuation.valuedAt).toLocaleDateString()}
+                      {valuation.note && ` • ${valuation.note}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteValuationMutation.mutate({ id: valuation.id, assetId: valuation.assetId })}
+                    disabled={deleteValuationMutation.isPending}
+                    className="p-1.5 text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
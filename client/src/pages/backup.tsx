@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Download, Upload, AlertTriangle } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+type RestoreMode = "merge" | "replace";
+
+interface RestoreResult {
+  restored: Record<string, number>;
+  mergedBudgets: Array<{ category: string; keptBudgetId: number }>;
+  skippedRecurringTransactions: Array<{ description: string; keptRuleId: number }>;
+}
+
+export default function Backup() {
+  const [archiveFile, setArchiveFile] = useState<{ name: string; archive: unknown } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [isExporting, setIsExporting] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const isGuest = (user as any)?.id?.startsWith("guest-");
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("GET", "/api/export");
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `finance-navigator-${new Date().toISOString().split('T')[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    try {
+      setArchiveFile({ name: selected.name, archive: JSON.parse(await selected.text()) });
+    } catch (error) {
+      setArchiveFile(null);
+      toast({
+        title: "Error",
+        description: "That file is not a valid backup",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ archive, mode }: { archive: unknown; mode: RestoreMode }) => {
+      const response = await apiRequest("POST", "/api/import", { archive, mode });
+      return response.json() as Promise<RestoreResult>;
+    },
+    onSuccess: ({ restored, mergedBudgets, skippedRecurringTransactions }) => {
+      queryClient.invalidateQueries();
+      // Merging leaves out budgets and recurring transactions the account already has
+      const skipped = [
+        mergedBudgets.length > 0 && `${mergedBudgets.length} overlapping budgets`,
+        skippedRecurringTransactions.length > 0 && `${skippedRecurringTransactions.length} duplicate recurring transactions`,
+      ].filter(Boolean);
+      toast({
+        title: "Success",
+        description: `Restored ${restored.transactions} transactions, ${restored.budgets} budgets, ${restored.savingsGoals} goals and ${restored.loans} loans` +
+          (skipped.length > 0 ? `. Skipped ${skipped.join(" and ")} you already had.` : ""),
+      });
+      setArchiveFile(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("newer") ? "This backup was made by a newer version of the app" : "Failed to restore backup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Backup & Restore" subtitle="Move your data between accounts" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        {isGuest && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start">
+            <AlertTriangle className="h-4 w-4 text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-yellow-800">
+              Guest sessions expire after 24 hours. Download a backup to keep your data and restore it after signing in.
+            </p>
+          </div>
+        )}
+
+        {/* Export */}
+        <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+          <h3 className="font-semibold text-gray-900">Download Backup</h3>
+          <p className="text-sm text-gray-500">
+            Saves all accounts, transactions, categories, payees, saved views, budgets, budget templates, envelope moves, categorization rules, savings goals, loans, assets and their valuations, investments with their trades and prices, net worth history, recurring transactions, exchange rates and settings to a JSON file. Attached receipts and documents are not included.
+          </p>
+          <Button onClick={handleExport} disabled={isExporting} className="w-full bg-primary text-white">
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? "Preparing..." : "Download Backup"}
+          </Button>
+        </div>
+
+        {/* Restore */}
+        <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+          <h3 className="font-semibold text-gray-900">Restore Backup</h3>
+          <label className="block p-4 border-2 border-dashed border-gray-200 rounded-lg text-center cursor-pointer hover:bg-gray-50">
+            <Upload className="h-6 w-6 text-gray-400 mx-auto mb-1" />
+            <span className="text-sm text-gray-700">{archiveFile ? archiveFile.name : "Choose a backup file"}</span>
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+          </label>
+
+          <RadioGroup value={mode} onValueChange={(value: RestoreMode) => setMode(value)} className="space-y-2">
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+              <Label htmlFor="restore-merge" className="text-sm font-normal">
+                <span className="font-medium">Add to my data</span> — keep what is already in this account
+              </Label>
+            </div>
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+              <Label htmlFor="restore-replace" className="text-sm font-normal">
+                <span className="font-medium">Replace my data</span> — delete everything in this account first. Receipts stay on the transactions and loans the file brings back.
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <Button
+            onClick={() => archiveFile && restoreMutation.mutate({ archive: archiveFile.archive, mode })}
+            disabled={!archiveFile || restoreMutation.isPending}
+            variant={mode === "replace" ? "destructive" : "default"}
+            className="w-full"
+          >
+            {restoreMutation.isPending ? "Restoring..." : "Restore Backup"}
+          </Button>
+        </div>
+      </main>
+
+      <BottomNavigation />
+    </div>
+  );
+}
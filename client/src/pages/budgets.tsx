@@ -1,9 +1,10 @@
 import React, { useState, useMemo, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { z } from "zod";
-import { Plus, Trash2, Edit, PieChart, History, X, CalendarDays, Calculator, RotateCcw, Check, AlertTriangle } from "lucide-react";
+import { Link } from "wouter";
+import { Plus, Trash2, Edit, PieChart, History, X, CalendarDays, Calculator, RotateCcw, Check, AlertTriangle, Save, LayoutTemplate, Mail } from "lucide-react";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
 import ProgressBar from "@/components/ui/progress-bar";
@@ -17,13 +18,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { useBudgets } from "@/hooks/use-budgets";
-import { useTransactions } from "@/hooks/use-transactions";
+import { useBaseTransactions } from "@/hooks/use-currency";
 import { useCategories } from "@/hooks/use-categories";
+import { useSettings } from "@/hooks/use-settings";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { formatCurrency } from "@/lib/currency";
-import type { InsertBudget, Transaction } from "@shared/schema";
+import { formatCurrency, getBaseCurrency } from "@/lib/currency";
+import { getCategoryAmount } from "@shared/transaction-splits";
+import { getBudgetPeriodRange, getFinancialMonth } from "@shared/financial-period";
+import { budgetRolloverModes, type Budget, type BudgetTemplate, type InsertBudget, type InsertBudgetTemplate, type Transaction } from "@shared/schema";
 
 const budgetSchema = z.object({
   category: z.string().min(1, "Category is required"),
@@ -33,8 +38,16 @@ const budgetSchema = z.object({
   endDate: z.string(),
   icon: z.string(),
   description: z.string().optional(),
+  autoRenew: z.boolean(),
+  rolloverMode: z.enum(budgetRolloverModes),
 });
 
+const rolloverModeLabels: Record<typeof budgetRolloverModes[number], string> = {
+  reset: "Start fresh each period",
+  carry_unspent: "Carry unspent money forward",
+  carry_overspend: "Carry overspending forward as a deficit",
+};
+
 type BudgetFormData = z.infer<typeof budgetSchema>;
 
 interface BudgetAllocation {
@@ -55,9 +68,13 @@ const BUDGET_RULES = {
 export default function Budgets() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<any>(null);
+  const [spendingBudget, setSpendingBudget] = useState<Budget | null>(null);
   const [totalIncome, setTotalIncome] = useState<string>("");
   const [budgetAllocations, setBudgetAllocations] = useState<BudgetAllocation[]>([]);
   const [conflicts, setConflicts] = useState<string[]>([]);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
   
   // Helper function to format date for input without timezone issues
   const formatDateForInput = (date: Date) => {
@@ -67,20 +84,19 @@ export default function Budgets() {
     return `${year}-${month}-${day}`;
   };
 
-  // Date range state for budget overview
-  const [overviewStartDate, setOverviewStartDate] = useState(() => {
-    const now = new Date();
-    const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-    return formatDateForInput(firstDay);
-  });
-  const [overviewEndDate, setOverviewEndDate] = useState(() => {
-    const now = new Date();
-    const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-    return formatDateForInput(lastDay);
-  });
+  const { settings } = useSettings();
+
+  // Date range state for budget overview, starting with the current budget month
+  const [overviewStartDate, setOverviewStartDate] = useState(() =>
+    formatDateForInput(getFinancialMonth(new Date(), settings).start)
+  );
+  const [overviewEndDate, setOverviewEndDate] = useState(() =>
+    formatDateForInput(getFinancialMonth(new Date(), settings).end)
+  );
   
   const { data: budgets = [], isLoading } = useBudgets();
-  const { data: transactions = [] } = useTransactions();
+  // Budgets are in the base currency, so spending is added up in it too
+  const { data: transactions } = useBaseTransactions();
   const { budgetCategories } = useCategories();
   const { toast } = useToast();
 
@@ -106,7 +122,7 @@ export default function Budgets() {
         const budgetStart = new Date(budget.startDate);
         const budgetEnd = new Date(budget.endDate);
         
-        return transaction.category === budget.category && 
+        return getCategoryAmount(transaction, budget.category) > 0 &&
                transaction.type === "expense" &&
                transactionDate >= budgetStart &&
                transactionDate <= budgetEnd &&
@@ -116,7 +132,7 @@ export default function Budgets() {
       });
       
       const categorySpent = budgetTransactions.reduce((total, transaction) => {
-        return total + parseFloat(transaction.amount);
+        return total + getCategoryAmount(transaction, budget.category);
       }, 0);
       
       return sum + categorySpent;
@@ -153,10 +169,12 @@ export default function Budgets() {
       category: "",
       amount: "",
       period: "monthly",
-      startDate: new Date().toISOString().split('T')[0],
-      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      startDate: formatDateForInput(getBudgetPeriodRange("monthly", new Date(), settings).start),
+      endDate: formatDateForInput(getBudgetPeriodRange("monthly", new Date(), settings).end),
       icon: "",
       description: "",
+      autoRenew: false,
+      rolloverMode: "reset",
     },
   });
 
@@ -251,8 +269,7 @@ export default function Budgets() {
 
   const createBudgetsMutation = useMutation({
     mutationFn: async ({ budgets }: { budgets: InsertBudget[] }) => {
-      const promises = budgets.map(budget => apiRequest("POST", "/api/budgets", budget));
-      return await Promise.all(promises);
+      return await apiRequest("POST", "/api/budgets/batch", { budgets });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
@@ -272,6 +289,111 @@ export default function Budgets() {
     },
   });
 
+  const { data: budgetTemplates = [] } = useQuery<BudgetTemplate[]>({
+    queryKey: ["/api/budget-templates"],
+  });
+  const selectedTemplate = budgetTemplates.find(template => template.id.toString() === selectedTemplateId);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (template: InsertBudgetTemplate) => {
+      const response = await apiRequest("POST", "/api/budget-templates", template);
+      return response.json();
+    },
+    onSuccess: (template: BudgetTemplate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budget-templates"] });
+      toast({ title: "Template saved", description: `"${template.name}" can now be applied to any period` });
+      setSelectedTemplateId(template.id.toString());
+      setIsTemplateDialogOpen(false);
+      setTemplateName("");
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save template", variant: "destructive" });
+    },
+  });
+
+  const applyTemplateMutation = useMutation({
+    mutationFn: async (template: BudgetTemplate) => {
+      const formData = form.getValues();
+      const response = await apiRequest("POST", `/api/budget-templates/${template.id}/apply`, {
+        startDate: formData.startDate,
+        endDate: formData.endDate,
+        period: formData.period,
+        income: totalIncome || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (created: Budget[], template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({ title: "Success!", description: `Created ${created.length} budgets from "${template.name}"` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/budget-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budget-templates"] });
+      setSelectedTemplateId("");
+      toast({ title: "Template deleted" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete template", variant: "destructive" });
+    },
+  });
+
+  // Save the enabled allocator lines as percentages, along with the income they were worked out from
+  const handleSaveTemplate = () => {
+    const allocations = budgetAllocations
+      .filter(allocation => allocation.enabled && allocation.percentage > 0)
+      .map(allocation => ({
+        category: allocation.category,
+        icon: allocation.icon,
+        type: "percentage" as const,
+        value: allocation.percentage.toString(),
+      }));
+
+    if (!templateName.trim() || allocations.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a name and enable at least one budget category",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveTemplateMutation.mutate({
+      name: templateName.trim(),
+      income: totalIncome && parseFloat(totalIncome) > 0 ? totalIncome : null,
+      allocations,
+    });
+  };
+
+  // Load a saved template into the allocator; fixed amounts are shown as their share of the template income
+  const loadTemplate = (template: BudgetTemplate) => {
+    const income = template.income ? parseFloat(template.income) : 0;
+    setTotalIncome(template.income ?? "");
+    setBudgetAllocations(prev => prev.map(allocation => {
+      const line = template.allocations.find(a => a.category === allocation.category);
+      if (!line) return { ...allocation, enabled: false };
+      const value = parseFloat(line.value);
+      const percentage = line.type === "percentage" ? value : income > 0 ? (value / income) * 100 : 0;
+      return {
+        ...allocation,
+        percentage: Math.round(percentage * 100) / 100,
+        amount: Math.round((percentage / 100) * income),
+        enabled: true,
+      };
+    }));
+  };
+
   const handleCreateNew = () => {
     setEditingBudget(null);
     setIsDialogOpen(true);
@@ -292,6 +414,8 @@ export default function Budgets() {
       endDate: new Date(data.endDate),
       icon: data.icon,
       description: data.description || null,
+      autoRenew: data.autoRenew,
+      rolloverMode: data.rolloverMode,
     };
 
     createBudgetMutation.mutate(submitData);
@@ -341,14 +465,17 @@ export default function Budgets() {
     createBudgetsMutation.mutate({ budgets: budgetsToCreate });
   };
 
-  const getBudgetTransactions = (budget: any) => {
-    return transactions.filter((transaction: Transaction) => {
-      return transaction.category === budget.category && 
-             transaction.type === "expense" &&
-             new Date(transaction.date) >= new Date(budget.startDate) &&
-             new Date(transaction.date) <= new Date(budget.endDate);
-    });
-  };
+  // Earlier periods of a renewed budget, for the history in the breakdown dialog
+  const { data: budgetHistory = [] } = useQuery<Array<{ budget: Budget; spent: number }>>({
+    queryKey: [`/api/budgets/${spendingBudget?.id}/history`],
+    enabled: spendingBudget?.previousBudgetId != null,
+  });
+
+  // Breakdown of the server's spent figure for the budget being inspected
+  const { data: budgetSpending, isLoading: isBudgetSpendingLoading } = useQuery<{ spent: number; transactions: Array<{ transaction: Transaction; amount: number }> }>({
+    queryKey: [`/api/budgets/${spendingBudget?.id}/spending`],
+    enabled: !!spendingBudget,
+  });
 
   const calculateBudgetSpending = (budget: any, startDate: Date, endDate: Date) => {
     return transactions.filter((transaction: Transaction) => {
@@ -356,13 +483,13 @@ export default function Budgets() {
       const budgetStart = new Date(budget.startDate);
       const budgetEnd = new Date(budget.endDate);
       
-      return transaction.category === budget.category && 
+      return getCategoryAmount(transaction, budget.category) > 0 &&
              transaction.type === "expense" &&
              transactionDate >= budgetStart &&
              transactionDate <= budgetEnd &&
              transactionDate >= startDate &&
              transactionDate <= endDate;
-    }).reduce((total, transaction) => total + parseFloat(transaction.amount), 0);
+    }).reduce((total, transaction) => total + getCategoryAmount(transaction, budget.category), 0);
   };
 
   // Budget Allocator Helper Functions
@@ -439,6 +566,13 @@ export default function Budgets() {
       <Header title="Budgets" subtitle="Manage your spending" />
       
       <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <Link href="/budgets/envelopes">
+          <Button variant="outline" className="w-full flex items-center gap-2">
+            <Mail className="h-4 w-4" />
+            Envelope Budgeting
+          </Button>
+        </Link>
+
         <Tabs defaultValue="list" className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="list" className="flex items-center gap-2">
@@ -484,11 +618,9 @@ export default function Budgets() {
                       variant="outline"
                       className="text-xs px-2 py-1 h-6"
                       onClick={() => {
-                        const now = new Date();
-                        const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-                        const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-                        setOverviewStartDate(formatDateForInput(firstDay));
-                        setOverviewEndDate(formatDateForInput(lastDay));
+                        const { start, end } = getFinancialMonth(new Date(), settings);
+                        setOverviewStartDate(formatDateForInput(start));
+                        setOverviewEndDate(formatDateForInput(end));
                       }}
                     >
                       This Month
@@ -498,11 +630,9 @@ export default function Budgets() {
                       variant="outline"
                       className="text-xs px-2 py-1 h-6"
                       onClick={() => {
-                        const now = new Date();
-                        const firstDay = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-                        const lastDay = new Date(now.getFullYear(), now.getMonth(), 0);
-                        setOverviewStartDate(formatDateForInput(firstDay));
-                        setOverviewEndDate(formatDateForInput(lastDay));
+                        const { start, end } = getFinancialMonth(new Date(), settings, -1);
+                        setOverviewStartDate(formatDateForInput(start));
+                        setOverviewEndDate(formatDateForInput(end));
                       }}
                     >
                       Last Month
@@ -616,11 +746,10 @@ export default function Budgets() {
             ) : (
               <div className="space-y-4">
                 {budgets.map((budget) => {
-                  const categoryTransactions = getBudgetTransactions(budget);
-                  const totalSpent = categoryTransactions.reduce((total: number, transaction: Transaction) => {
-                    return total + parseFloat(transaction.amount);
-                  }, 0);
-                  const budgetAmount = parseFloat(budget.amount);
+                  const totalSpent = parseFloat(budget.spent);
+                  const rolloverAmount = parseFloat(budget.rolloverAmount);
+                  // Money carried in from the previous period adds to (or, for a deficit, takes from) this one
+                  const budgetAmount = parseFloat(budget.amount) + rolloverAmount;
                   const spentPercentage = budgetAmount > 0 ? (totalSpent / budgetAmount) * 100 : 0;
                   const remainingAmount = budgetAmount - totalSpent;
 
@@ -637,9 +766,22 @@ export default function Budgets() {
                               <p className="text-sm text-gray-600">
                                 {new Date(budget.startDate).toLocaleDateString()} - {new Date(budget.endDate).toLocaleDateString()}
                               </p>
+                              {budget.autoRenew && (
+                                <Badge variant="secondary" className="mt-1 text-xs">
+                                  <RotateCcw className="h-3 w-3 mr-1" />
+                                  Renews {budget.period}
+                                </Badge>
+                              )}
                             </div>
                           </div>
                           <div className="flex items-center space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSpendingBudget(budget)}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -673,6 +815,11 @@ export default function Budgets() {
                             <span>Spent: {formatCurrency(totalSpent)}</span>
                             <span>Budget: {formatCurrency(budgetAmount)}</span>
                           </div>
+                          {rolloverAmount !== 0 && (
+                            <div className={`text-xs ${rolloverAmount > 0 ? "text-green-600" : "text-red-600"}`}>
+                              {rolloverAmount > 0 ? "Carried forward: +" : "Deficit carried forward: -"}{formatCurrency(Math.abs(rolloverAmount))}
+                            </div>
+                          )}
                           <ProgressBar 
                             percentage={spentPercentage}
                             color={spentPercentage > 100 ? "bg-red-500" : spentPercentage > 80 ? "bg-orange-500" : "bg-green-500"}
@@ -809,6 +956,67 @@ export default function Budgets() {
               </CardContent>
             </Card>
 
+            {/* Saved Templates */}
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <LayoutTemplate className="h-4 w-4" />
+                  Templates
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {budgetTemplates.length === 0 ? (
+                  <p className="text-sm text-gray-600">Save your allocation as a template to reuse it for any period</p>
+                ) : (
+                  <>
+                    <Select
+                      value={selectedTemplateId}
+                      onValueChange={(value) => {
+                        setSelectedTemplateId(value);
+                        const template = budgetTemplates.find(t => t.id.toString() === value);
+                        if (template) loadTemplate(template);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a saved template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {budgetTemplates.map((template) => (
+                          <SelectItem key={template.id} value={template.id.toString()}>
+                            {template.name} ({template.allocations.length} categories)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedTemplate && (
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={() => applyTemplateMutation.mutate(selectedTemplate)}
+                          disabled={applyTemplateMutation.isPending}
+                          className="flex-1"
+                        >
+                          <Check className="h-4 w-4 mr-2" />
+                          {applyTemplateMutation.isPending ? "Applying..." : "Apply to Period"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => deleteTemplateMutation.mutate(selectedTemplate.id)}
+                          disabled={deleteTemplateMutation.isPending}
+                          className="text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+                <Button variant="outline" onClick={() => setIsTemplateDialogOpen(true)} className="w-full">
+                  <Save className="h-4 w-4 mr-2" />
+                  Save as Template
+                </Button>
+              </CardContent>
+            </Card>
+
             {/* Budget Categories */}
             <div className="space-y-4">
               {Object.entries(BUDGET_RULES).map(([ruleKey, rule]) => (
@@ -904,6 +1112,32 @@ export default function Budgets() {
           </TabsContent>
         </Tabs>
 
+        {/* Save Template Dialog */}
+        <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Save as Template</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-1 block">Template Name</label>
+                <Input
+                  placeholder="e.g. Normal month"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                Saves the {budgetAllocations.filter(a => a.enabled).length} enabled categories and their percentages
+                {totalIncome && ` with an income of ${formatCurrency(parseFloat(totalIncome))}`}
+              </p>
+              <Button onClick={handleSaveTemplate} disabled={saveTemplateMutation.isPending} className="w-full">
+                {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Single Budget Creation Dialog */}
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogContent className="sm:max-w-md">
@@ -994,7 +1228,18 @@ export default function Budgets() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Period</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          // A new budget covers the whole of the period it is made for
+                          if (!editingBudget) {
+                            const { start, end } = getBudgetPeriodRange(value, new Date(), settings);
+                            form.setValue("startDate", formatDateForInput(start));
+                            form.setValue("endDate", formatDateForInput(end));
+                          }
+                        }}
+                        defaultValue={field.value}
+                      >
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Select period" />
@@ -1011,6 +1256,47 @@ export default function Budgets() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="autoRenew"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <FormLabel>Renew Automatically</FormLabel>
+                        <p className="text-xs text-gray-500">Start the next period's budget when this one ends</p>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                {form.watch("autoRenew") && (
+                  <FormField
+                    control={form.control}
+                    name="rolloverMode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>At the End of Each Period</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {budgetRolloverModes.map((mode) => (
+                              <SelectItem key={mode} value={mode}>{rolloverModeLabels[mode]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <div className="flex gap-2">
                   <Button type="submit" disabled={createBudgetMutation.isPending} className="flex-1">
                     {createBudgetMutation.isPending ? "Creating..." : editingBudget ? "Update Budget" : "Create Budget"}
@@ -1023,6 +1309,65 @@ export default function Budgets() {
             </Form>
           </DialogContent>
         </Dialog>
+
+        {/* Budget Spending Breakdown Dialog */}
+        <Dialog open={!!spendingBudget} onOpenChange={(open) => !open && setSpendingBudget(null)}>
+          <DialogContent className="max-w-sm">
+            <DialogHeader>
+              <DialogTitle className="capitalize">{spendingBudget?.category.replace('_', ' ')} Spending</DialogTitle>
+            </DialogHeader>
+            {isBudgetSpendingLoading ? (
+              <div className="py-6 text-center text-gray-500">Loading...</div>
+            ) : !budgetSpending || budgetSpending.transactions.length === 0 ? (
+              <div className="py-6 text-center text-gray-500">No spending in this budget period yet</div>
+            ) : (
+              <div className="space-y-3">
+                <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+                  {budgetSpending.transactions.map(({ transaction, amount }) => (
+                    <div key={transaction.id} className="py-2 flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 truncate">{transaction.description}</div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(transaction.date).toLocaleDateString()}
+                          {transaction.currency !== getBaseCurrency()
+                            ? ` • ${formatCurrency(parseFloat(transaction.amount), transaction.currency)}`
+                            : amount !== parseFloat(transaction.amount) && ` • part of ${formatCurrency(parseFloat(transaction.amount))}`}
+                        </div>
+                      </div>
+                      <div className="font-semibold text-sm text-red-600 whitespace-nowrap">{formatCurrency(amount)}</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between pt-2 border-t border-gray-100 font-semibold">
+                  <span>Total</span>
+                  <span>{formatCurrency(budgetSpending.spent)}</span>
+                </div>
+              </div>
+            )}
+            {budgetHistory.length > 1 && (
+              <div className="space-y-3 pt-3 border-t border-gray-100">
+                <h4 className="font-semibold text-gray-900">History</h4>
+                {budgetHistory.map(({ budget, spent }) => {
+                  const available = parseFloat(budget.amount) + parseFloat(budget.rolloverAmount);
+                  const percentage = available > 0 ? (spent / available) * 100 : 0;
+                  return (
+                    <div key={budget.id} className="space-y-1">
+                      <div className="flex justify-between text-xs text-gray-600">
+                        <span>{new Date(budget.startDate).toLocaleDateString()} - {new Date(budget.endDate).toLocaleDateString()}</span>
+                        <span>{formatCurrency(spent)} / {formatCurrency(available)}</span>
+                      </div>
+                      <ProgressBar
+                        percentage={percentage}
+                        color={percentage > 100 ? "bg-red-500" : percentage > 80 ? "bg-orange-500" : "bg-green-500"}
+                        height="h-1"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </main>
 
       <BottomNavigation />
@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { ChevronLeft, ChevronRight, Clock, Target, DollarSign, Calendar as CalendarIcon } from "lucide-react";
+import { ChevronLeft, ChevronRight, Clock, Target, DollarSign, Repeat, Calendar as CalendarIcon } from "lucide-react";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,8 @@ import { useTransactions } from "@/hooks/use-transactions";
 import { useGoals } from "@/hooks/use-goals";
 
 import { useBudgets } from "@/hooks/use-budgets";
+import { useUpcomingRecurringTransactions } from "@/hooks/use-recurring";
+import { useSettings } from "@/hooks/use-settings";
 import { formatCurrency } from "@/lib/currency";
 import type { Transaction, SavingsGoal, Budget } from "@shared/schema";
 
@@ -21,11 +23,12 @@ const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 interface CalendarEvent {
   id: string;
   title: string;
-  type: "transaction" | "goal_deadline" | "goal_start" | "budget_start" | "budget_end";
+  type: "transaction" | "recurring" | "goal_deadline" | "goal_start" | "budget_start" | "budget_end";
   date: Date;
   amount?: string;
+  currency?: string;
   description?: string;
-  status?: "upcoming" | "overdue" | "completed";
+  status?: "upcoming" | "overdue" | "completed" | "projected";
   icon: React.ReactNode;
   color: string;
 }
@@ -40,6 +43,26 @@ export default function Calendar() {
 
   const { data: budgets = [] } = useBudgets();
 
+  // Project recurring occurrences for the visible month and the week after today.
+  // Today is fixed once so the projection query key stays stable between renders.
+  const [startOfToday] = useState(() => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    return date;
+  });
+  const rangeStart = new Date(Math.min(
+    new Date(currentDate.getFullYear(), currentDate.getMonth(), 1).getTime(),
+    startOfToday.getTime()
+  ));
+  const rangeEnd = new Date(Math.max(
+    new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0, 23, 59, 59).getTime(),
+    startOfToday.getTime() + 8 * 24 * 60 * 60 * 1000
+  ));
+  const { data: upcomingRecurring = [] } = useUpcomingRecurringTransactions(rangeStart, rangeEnd);
+  const { firstDayOfWeek } = useSettings().settings;
+  // Weeks start on the user's chosen day
+  const weekDays = [...DAYS.slice(firstDayOfWeek), ...DAYS.slice(0, firstDayOfWeek)];
+
   // Generate calendar events from financial data
   const generateEvents = (): CalendarEvent[] => {
     const events: CalendarEvent[] = [];
@@ -55,6 +78,7 @@ export default function Calendar() {
         type: "transaction",
         date: transactionDate,
         amount: transaction.amount,
+        currency: transaction.currency,
         description: `${transaction.type}: ${transaction.category}`,
         status: "completed",
         icon: <DollarSign className="h-4 w-4" />,
@@ -62,6 +86,23 @@ export default function Calendar() {
       });
     });
 
+    // Add projected recurring transaction events
+    upcomingRecurring.forEach((occurrence) => {
+      const occurrenceDate = new Date(occurrence.date);
+      events.push({
+        id: `recurring-${occurrence.recurringTransactionId}-${occurrenceDate.getTime()}`,
+        title: occurrence.description,
+        type: "recurring",
+        date: occurrenceDate,
+        amount: occurrence.amount,
+        currency: occurrence.currency,
+        description: `Scheduled ${occurrence.type}: ${occurrence.category}`,
+        status: "projected",
+        icon: <Repeat className="h-4 w-4" />,
+        color: occurrence.type === "income" ? "#059669" : "#F97316"
+      });
+    });
+
     // Add savings goal events
     goals.forEach((goal: SavingsGoal) => {
       // Goal creation date (assuming created date exists or use current date)
@@ -70,7 +111,7 @@ export default function Calendar() {
         title: `Started: ${goal.name}`,
         type: "goal_start",
         date: new Date(), // You might want to add a createdAt field to the schema
-        description: `Started savings goal for ${formatCurrency(parseFloat(goal.targetAmount))}`,
+        description: `Started savings goal for ${formatCurrency(parseFloat(goal.targetAmount), goal.currency)}`,
         icon: <Target className="h-4 w-4" />,
         color: "#8B5CF6"
       });
@@ -85,6 +126,7 @@ export default function Calendar() {
           type: "goal_deadline",
           date: deadlineDate,
           amount: goal.targetAmount,
+          currency: goal.currency,
           description: `Savings goal deadline`,
           status: isOverdue ? "overdue" : "upcoming",
           icon: <Target className="h-4 w-4" />,
@@ -144,7 +186,7 @@ export default function Calendar() {
     const firstDay = new Date(year, month, 1);
     const lastDay = new Date(year, month + 1, 0);
     const daysInMonth = lastDay.getDate();
-    const startingDayOfWeek = firstDay.getDay();
+    const startingDayOfWeek = (firstDay.getDay() - firstDayOfWeek + 7) % 7;
 
     const days = [];
 
@@ -212,7 +254,7 @@ export default function Calendar() {
         <div className="bg-white rounded-xl p-4 border border-gray-100">
           {/* Day headers */}
           <div className="grid grid-cols-7 gap-1 mb-2">
-            {DAYS.map(day => (
+            {weekDays.map(day => (
               <div key={day} className="text-center text-xs font-medium text-gray-500 py-2">
                 {day}
               </div>
@@ -279,7 +321,7 @@ export default function Calendar() {
                     <p className="text-sm font-medium text-gray-900">{event.title}</p>
                     <p className="text-xs text-gray-500">
                       {event.date.toLocaleDateString()}
-                      {event.amount && ` • ${formatCurrency(parseFloat(event.amount))}`}
+                      {event.amount && ` • ${formatCurrency(parseFloat(event.amount), event.currency)}`}
                     </p>
                   </div>
                   {event.status === "overdue" && (
@@ -335,13 +377,14 @@ export default function Calendar() {
                         )}
                         {event.amount && (
                           <p className="text-sm font-medium mt-1" style={{color: event.color}}>
-                            {formatCurrency(parseFloat(event.amount))}
+                            {formatCurrency(parseFloat(event.amount), event.currency)}
                           </p>
                         )}
                         {event.status && (
                           <span className={`inline-block text-xs px-2 py-1 rounded-full mt-2 ${
                             event.status === 'overdue' ? 'bg-red-100 text-red-700' :
                             event.status === 'upcoming' ? 'bg-yellow-100 text-yellow-700' :
+                            event.status === 'projected' ? 'bg-orange-100 text-orange-700' :
                             'bg-green-100 text-green-700'
                           }`}>
                             {event.status}
@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Pencil, Archive, ArchiveRestore, Trash2, GitMerge } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useCategoryList } from "@/hooks/use-categories";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { categoryKinds, type Category } from "@shared/schema";
+
+// The Select needs a string value for "no parent"
+const NO_PARENT = "none";
+
+interface CategoryFormState {
+  name: string;
+  icon: string;
+  color: string;
+  kind: typeof categoryKinds[number];
+  parentId: string;
+}
+
+const emptyForm: CategoryFormState = { name: "", icon: "📝", color: "#6b7280", kind: "expense", parentId: NO_PARENT };
+
+export default function Categories() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [form, setForm] = useState<CategoryFormState>(emptyForm);
+  const [mergingCategory, setMergingCategory] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const { data: categories = [], isLoading } = useCategoryList();
+  const { toast } = useToast();
+
+  // Top-level categories, each followed by its subcategories (and theirs)
+  const ordered: Array<{ category: Category; depth: number }> = [];
+  const addWithChildren = (parentId: number | null, depth: number) => {
+    for (const category of categories.filter(c => c.parentId === parentId)) {
+      ordered.push({ category, depth });
+      addWithChildren(category.id, depth + 1);
+    }
+  };
+  addWithChildren(null, 0);
+
+  const invalidateCategoryQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+  };
+
+  const openForm = (category?: Category) => {
+    setEditingCategory(category ?? null);
+    setForm(category
+      ? {
+        name: category.name,
+        icon: category.icon,
+        color: category.color,
+        kind: category.kind as CategoryFormState["kind"],
+        parentId: category.parentId?.toString() ?? NO_PARENT,
+      }
+      : emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const saveCategoryMutation = useMutation({
+    mutationFn: async (data: CategoryFormState) => {
+      const details = {
+        icon: data.icon,
+        color: data.color,
+        kind: data.kind,
+        parentId: data.parentId === NO_PARENT ? null : parseInt(data.parentId),
+      };
+      if (!editingCategory) {
+        const response = await apiRequest("POST", "/api/categories", { name: data.name, ...details });
+        return response.json();
+      }
+      // A new name rewrites every transaction and budget in the category, so it goes through rename
+      if (data.name.trim() !== editingCategory.name) {
+        await apiRequest("POST", `/api/categories/${editingCategory.id}/rename`, { name: data.name });
+      }
+      const response = await apiRequest("PUT", `/api/categories/${editingCategory.id}`, details);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCategoryQueries();
+      toast({
+        title: "Success",
+        description: editingCategory ? "Category updated successfully" : "Category created successfully",
+      });
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      invalidateCategoryQueries();
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save category"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveCategoryMutation = useMutation({
+    mutationFn: async ({ id, isArchived }: { id: number; isArchived: boolean }) => {
+      const response = await apiRequest("PUT", `/api/categories/${id}`, { isArchived });
+      return response.json();
+    },
+    onSuccess: (_, { isArchived }) => {
+      invalidateCategoryQueries();
+      toast({
+        title: "Success",
+        description: isArchived ? "Category archived" : "Category restored",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update category",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mergeCategoryMutation = useMutation({
+    mutationFn: async ({ id, targetId }: { id: number; targetId: number }) => {
+      const response = await apiRequest("POST", `/api/categories/${id}/merge`, { targetId });
+      return response.json();
+    },
+    onSuccess: (target: Category) => {
+      invalidateCategoryQueries();
+      toast({
+        title: "Success",
+        description: `Merged into ${target.name}`,
+      });
+      setMergingCategory(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to merge categories"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/categories/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCategoryQueries();
+      toast({
+        title: "Success",
+        description: "Category deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409") ? "This category is in use. Archive or merge it instead." : "Failed to delete category",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter a name",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveCategoryMutation.mutate(form);
+  };
+
+  const parentOptions = categories.filter(c => c.kind === form.kind && c.id !== editingCategory?.id && !c.isArchived);
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Categories" subtitle="How your money is grouped" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <Button onClick={() => openForm()} className="w-full bg-primary text-white py-3">
+          <Plus className="h-4 w-4 mr-2" />
+          New Category
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+            {ordered.map(({ category, depth }) => (
+              <div
+                key={category.id}
+                className={`p-3 flex items-center justify-between gap-2 ${category.isArchived ? "opacity-60" : ""}`}
+                style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category.color}22` }}>
+                    <span className="text-sm">{category.icon}</span>
+                  </div>
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{category.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {category.kind === "income" ? "Income" : "Expense"}
+                      {category.isArchived && " • Archived"}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => openForm(category)} className="p-1.5 text-blue-600 hover:bg-blue-50">
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => { setMergingCategory(category); setMergeTargetId(""); }}
+                    className="p-1.5 text-purple-600 hover:bg-purple-50"
+                  >
+                    <GitMerge className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => archiveCategoryMutation.mutate({ id: category.id, isArchived: !category.isArchived })}
+                    disabled={archiveCategoryMutation.isPending}
+                    className="p-1.5 text-gray-600 hover:bg-gray-50"
+                  >
+                    {category.isArchived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteCategoryMutation.mutate(category.id)}
+                    disabled={deleteCategoryMutation.isPending}
+                    className="p-1.5 text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? "Edit Category" : "New Category"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                placeholder="e.g. Groceries"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+              {editingCategory && form.name.trim() !== editingCategory.name && (
+                <p className="text-xs text-gray-500">Renaming updates every transaction and budget in this category</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="category-icon">Icon</Label>
+                <Input
+                  id="category-icon"
+                  maxLength={4}
+                  value={form.icon}
+                  onChange={(e) => setForm({ ...form, icon: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="category-color">Color</Label>
+                <Input
+                  id="category-color"
+                  type="color"
+                  value={form.color}
+                  onChange={(e) => setForm({ ...form, color: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Kind</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(value: CategoryFormState["kind"]) => setForm({ ...form, kind: value, parentId: NO_PARENT })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Parent</Label>
+              <Select value={form.parentId} onValueChange={(value) => setForm({ ...form, parentId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                  {parentOptions.map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.icon} {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" className="w-full bg-primary text-white" disabled={saveCategoryMutation.isPending}>
+              {saveCategoryMutation.isPending ? "Saving..." : editingCategory ? "Update Category" : "Create Category"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={mergingCategory !== null} onOpenChange={(open) => !open && setMergingCategory(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Merge {mergingCategory?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Its transactions, budgets and subcategories move to the category you pick, and {mergingCategory?.name} is removed.
+            </p>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Merge into..." />
+              </SelectTrigger>
+              <SelectContent>
+                {categories
+                  .filter(c => c.id !== mergingCategory?.id && c.kind === mergingCategory?.kind)
+                  .map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.icon} {category.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => mergingCategory && mergeCategoryMutation.mutate({ id: mergingCategory.id, targetId: parseInt(mergeTargetId) })}
+              disabled={!mergeTargetId || mergeCategoryMutation.isPending}
+              className="w-full bg-primary text-white"
+            >
+              {mergeCategoryMutation.isPending ? "Merging..." : "Merge"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
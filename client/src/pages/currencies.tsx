@@ -0,0 +1,334 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Upload, ArrowRight } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useBaseCurrency, useExchangeRates } from "@/hooks/use-currency";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { UserSettings } from "@shared/schema";
+
+interface RateFormState {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: string;
+  effectiveDate: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Everything worked out in the base currency has to be fetched again once the rates or the base currency change
+const invalidateConvertedQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/envelopes"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/payees"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+};
+
+export default function Currencies() {
+  const baseCurrency = useBaseCurrency();
+  const [baseCurrencyInput, setBaseCurrencyInput] = useState(baseCurrency);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<RateFormState>({ fromCurrency: "", toCurrency: baseCurrency, rate: "", effectiveDate: today() });
+  const [csv, setCsv] = useState("");
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const { data: rates = [], isLoading } = useExchangeRates();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setBaseCurrencyInput(baseCurrency);
+  }, [baseCurrency]);
+
+  const sortedRates = [...rates].sort((a, b) =>
+    new Date(b.effectiveDate).getTime() - new Date(a.effectiveDate).getTime() ||
+    `${a.fromCurrency}${a.toCurrency}`.localeCompare(`${b.fromCurrency}${b.toCurrency}`)
+  );
+
+  const baseCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const response = await apiRequest("PUT", "/api/settings", { baseCurrency: currency });
+      return response.json();
+    },
+    onSuccess: ({ baseCurrency: saved }: UserSettings) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      invalidateConvertedQueries();
+      toast({
+        title: "Success",
+        description: `Totals are now shown in ${saved}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to change the base currency"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveRateMutation = useMutation({
+    mutationFn: async (data: RateFormState) => {
+      const response = await apiRequest("POST", "/api/exchange-rates", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateConvertedQueries();
+      toast({
+        title: "Success",
+        description: "Exchange rate saved",
+      });
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save exchange rate"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importRatesMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest("POST", "/api/exchange-rates/import", { csv: content });
+      return response.json() as Promise<{ imported: number; errors: string[] }>;
+    },
+    onSuccess: ({ imported, errors }) => {
+      invalidateConvertedQueries();
+      setImportErrors(errors);
+      setCsv("");
+      toast({
+        title: "Success",
+        description: `Imported ${imported} exchange rate${imported === 1 ? "" : "s"}${errors.length > 0 ? `, ${errors.length} row${errors.length === 1 ? "" : "s"} skipped` : ""}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to import exchange rates"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/exchange-rates/${id}`);
+    },
+    onSuccess: () => {
+      invalidateConvertedQueries();
+      toast({
+        title: "Success",
+        description: "Exchange rate deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete exchange rate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = () => {
+    setForm({ fromCurrency: "", toCurrency: baseCurrency, rate: "", effectiveDate: today() });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (form.fromCurrency.length !== 3 || form.toCurrency.length !== 3 || !(parseFloat(form.rate) > 0)) {
+      toast({
+        title: "Error",
+        description: "Enter two currency codes and a rate above zero",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveRateMutation.mutate(form);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    importRatesMutation.mutate(await selected.text());
+    event.target.value = "";
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Currencies" subtitle="Base currency and exchange rates" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        {/* Base Currency */}
+        <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+          <div>
+            <h3 className="font-semibold text-gray-900">Base currency</h3>
+            <p className="text-xs text-gray-500">Totals, budgets and reports are worked out in this currency</p>
+          </div>
+          <div className="flex space-x-2">
+            <Input
+              maxLength={3}
+              value={baseCurrencyInput}
+              onChange={(e) => setBaseCurrencyInput(e.target.value.toUpperCase())}
+            />
+            <Button
+              onClick={() => baseCurrencyMutation.mutate(baseCurrencyInput)}
+              disabled={baseCurrencyInput.length !== 3 || baseCurrencyInput === baseCurrency || baseCurrencyMutation.isPending}
+              className="bg-primary text-white"
+            >
+              {baseCurrencyMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Import */}
+        <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+          <div>
+            <h3 className="font-semibold text-gray-900">Import rates</h3>
+            <p className="text-xs text-gray-500">CSV with from, to, rate and date columns</p>
+          </div>
+          <label className="block rounded-lg p-4 border-2 border-dashed border-gray-200 text-center cursor-pointer hover:bg-gray-50">
+            <Upload className="h-6 w-6 text-gray-400 mx-auto mb-1" />
+            <p className="text-sm font-medium text-gray-900">Choose a CSV file</p>
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+          </label>
+          <Textarea
+            placeholder={"from,to,rate,date\nUSD,MWK,1750,2024-03-01"}
+            rows={4}
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+          />
+          <Button
+            onClick={() => importRatesMutation.mutate(csv)}
+            disabled={!csv.trim() || importRatesMutation.isPending}
+            variant="outline"
+            className="w-full"
+          >
+            {importRatesMutation.isPending ? "Importing..." : "Import pasted rates"}
+          </Button>
+          {importErrors.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+              {importErrors.map((error, index) => (
+                <p key={index} className="text-xs text-amber-800">{error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Button onClick={openForm} className="w-full bg-primary text-white py-3">
+          <Plus className="h-4 w-4 mr-2" />
+          New Exchange Rate
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : sortedRates.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-100 text-center">
+            <div className="text-4xl mb-4">💱</div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No exchange rates yet</h3>
+            <p className="text-gray-500">
+              Add rates for the currencies your accounts and transactions use so they count towards your totals
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sortedRates.map((rate) => (
+              <div key={rate.id} className="bg-white rounded-xl p-4 border border-gray-100 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-1 font-medium text-gray-900">
+                    <span>1 {rate.fromCurrency}</span>
+                    <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                    <span>{parseFloat(rate.rate)} {rate.toCurrency}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">From {new Date(rate.effectiveDate).toLocaleDateString()}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteRateMutation.mutate(rate.id)}
+                  disabled={deleteRateMutation.isPending}
+                  className="p-1.5 text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New Exchange Rate</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="rate-from">From</Label>
+                <Input
+                  id="rate-from"
+                  placeholder="USD"
+                  maxLength={3}
+                  value={form.fromCurrency}
+                  onChange={(e) => setForm({ ...form, fromCurrency: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-to">To</Label>
+                <Input
+                  id="rate-to"
+                  maxLength={3}
+                  value={form.toCurrency}
+                  onChange={(e) => setForm({ ...form, toCurrency: e.target.value.toUpperCase() })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">Rate</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                step="any"
+                placeholder={`${form.toCurrency || "To"} per 1 ${form.fromCurrency || "From"}`}
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-date">Effective from</Label>
+              <Input
+                id="rate-date"
+                type="date"
+                value={form.effectiveDate}
+                onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full bg-primary text-white" disabled={saveRateMutation.isPending}>
+              {saveRateMutation.isPending ? "Saving..." : "Save Rate"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, ArrowRightLeft, Plus, Mail } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useCategories } from "@/hooks/use-categories";
+import { useSettings } from "@/hooks/use-settings";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import { getFinancialMonthKey } from "@shared/financial-period";
+import type { Budget, EnvelopeMove } from "@shared/schema";
+
+interface EnvelopeMonth {
+  month: string;
+  income: number;
+  assigned: number;
+  unassigned: number;
+  envelopes: Array<{ budget: Budget; assigned: number; spent: number; available: number }>;
+  moves: EnvelopeMove[];
+}
+
+// The Select needs a string value for the unassigned pool, which the API calls null
+const UNASSIGNED = "__unassigned__";
+
+interface MoveFormState {
+  from: string;
+  to: string;
+  amount: string;
+  note: string;
+}
+
+export default function Envelopes() {
+  // Until a month is picked, show the budget month today falls in, which depends on the settings once they load
+  const [pickedMonth, setMonth] = useState<string | null>(null);
+  const { settings } = useSettings();
+  const month = pickedMonth ?? getFinancialMonthKey(new Date(), settings);
+  const [isMoveOpen, setIsMoveOpen] = useState(false);
+  const [form, setForm] = useState<MoveFormState>({ from: UNASSIGNED, to: "", amount: "", note: "" });
+  const { budgetCategories } = useCategories();
+  const { toast } = useToast();
+
+  const envelopesUrl = `/api/envelopes?month=${month}`;
+  const { data: envelopeMonth, isLoading } = useQuery<EnvelopeMonth>({
+    queryKey: [envelopesUrl],
+  });
+
+  const envelopes = envelopeMonth?.envelopes ?? [];
+  const categoryLabel = (category: string | null) =>
+    category == null ? "Unassigned" : budgetCategories.find(c => c.value === category)?.label ?? category;
+
+  const openMove = (from: string, to: string) => {
+    setForm({ from, to, amount: "", note: "" });
+    setIsMoveOpen(true);
+  };
+
+  const moveMutation = useMutation({
+    mutationFn: async (data: MoveFormState) => {
+      const toCategory = data.to === UNASSIGNED ? null : data.to;
+      const response = await apiRequest("POST", "/api/envelopes/moves", {
+        month,
+        fromCategory: data.from === UNASSIGNED ? null : data.from,
+        toCategory,
+        amount: data.amount,
+        note: data.note || null,
+        icon: budgetCategories.find(c => c.value === toCategory)?.icon,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [envelopesUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({
+        title: "Success",
+        description: "Money moved",
+      });
+      setIsMoveOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to move money"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.to || form.from === form.to || !(parseFloat(form.amount) > 0)) {
+      toast({
+        title: "Error",
+        description: "Choose two different envelopes and an amount",
+        variant: "destructive",
+      });
+      return;
+    }
+    moveMutation.mutate(form);
+  };
+
+  const unassigned = envelopeMonth?.unassigned ?? 0;
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Envelopes" subtitle="Give every kwacha a job" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <Link href="/budgets">
+          <button className="text-primary text-sm font-medium flex items-center">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Budgets
+          </button>
+        </Link>
+
+        <Input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} />
+
+        {/* Income still to hand out */}
+        <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <div className="text-gray-500">Income</div>
+              <div className="font-semibold text-gray-900">{formatCurrency(envelopeMonth?.income ?? 0)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Assigned</div>
+              <div className="font-semibold text-gray-900">{formatCurrency(envelopeMonth?.assigned ?? 0)}</div>
+            </div>
+          </div>
+          <div className={`rounded-lg p-3 text-center ${unassigned === 0 ? "bg-green-50" : unassigned > 0 ? "bg-amber-50" : "bg-red-50"}`}>
+            <div className="text-xs text-gray-600">
+              {unassigned === 0 ? "Every kwacha has a job" : unassigned > 0 ? "Still to assign" : "Assigned more than you earned"}
+            </div>
+            <div className={`text-xl font-bold ${unassigned === 0 ? "text-green-600" : unassigned > 0 ? "text-amber-600" : "text-red-600"}`}>
+              {formatCurrency(unassigned)}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={() => openMove(UNASSIGNED, "")} disabled={unassigned <= 0} className="bg-primary text-white">
+              <Plus className="h-4 w-4 mr-1" />
+              Assign
+            </Button>
+            <Button variant="outline" onClick={() => openMove("", "")} disabled={envelopes.length === 0}>
+              <ArrowRightLeft className="h-4 w-4 mr-1" />
+              Move
+            </Button>
+          </div>
+        </div>
+
+        {/* Envelopes */}
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : envelopes.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-100 text-center">
+            <Mail className="h-10 w-10 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No envelopes this month</h3>
+            <p className="text-gray-500">Assign this month's income to categories to fill your first envelopes</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {envelopes.map(({ budget, assigned, spent, available }) => (
+              <button
+                key={budget.id}
+                onClick={() => openMove(budget.category, "")}
+                className="w-full text-left bg-white rounded-xl p-4 border border-gray-100"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <span className="text-xl">{budget.icon}</span>
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{categoryLabel(budget.category)}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatCurrency(assigned)} assigned • {formatCurrency(spent)} spent
+                      </div>
+                    </div>
+                  </div>
+                  <div className={`font-semibold text-sm whitespace-nowrap ${available >= 0 ? "text-green-600" : "text-red-600"}`}>
+                    {formatCurrency(available)}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Log of moves */}
+        {envelopeMonth && envelopeMonth.moves.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Moves</h3>
+            <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+              {[...envelopeMonth.moves].reverse().map((move) => (
+                <div key={move.id} className="p-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900 truncate">
+                      {categoryLabel(move.fromCategory)} → {categoryLabel(move.toCategory)}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {new Date(move.createdAt).toLocaleDateString()}
+                      {move.note && ` • ${move.note}`}
+                    </div>
+                  </div>
+                  <div className="font-semibold text-sm whitespace-nowrap text-gray-900">
+                    {formatCurrency(parseFloat(move.amount))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isMoveOpen} onOpenChange={setIsMoveOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{form.from === UNASSIGNED ? "Assign Money" : "Move Money"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select value={form.from} onValueChange={(value) => setForm({ ...form, from: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an envelope" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned ({formatCurrency(unassigned)})</SelectItem>
+                  {envelopes.map(({ budget, assigned }) => (
+                    <SelectItem key={budget.id} value={budget.category}>
+                      {budget.icon} {categoryLabel(budget.category)} ({formatCurrency(assigned)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select value={form.to} onValueChange={(value) => setForm({ ...form, to: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an envelope" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {budgetCategories.map((category) => (
+                    <SelectItem key={category.value} value={category.value}>
+                      {category.icon} {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="move-amount">Amount</Label>
+              <Input
+                id="move-amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="move-note">Note</Label>
+              <Input
+                id="move-note"
+                placeholder="Optional"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full bg-primary text-white" disabled={moveMutation.isPending}>
+              {moveMutation.isPending ? "Moving..." : form.from === UNASSIGNED ? "Assign" : "Move"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,9 +14,11 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useGoals } from "@/hooks/use-goals";
 import { useTransactions } from "@/hooks/use-transactions";
+import { useBaseCurrency, useCurrencyConverter } from "@/hooks/use-currency";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency } from "@/lib/currency";
+import { convertTransaction } from "@shared/currency-conversion";
 import type { InsertSavingsGoal, Transaction } from "@shared/schema";
 
 const goalSchema = z.object({
@@ -29,6 +31,7 @@ const goalSchema = z.object({
     (val) => !val || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0),
     "Starting savings must be a non-negative number"
   ),
+  currency: z.string().length(3, "Use a three letter currency code"),
   startDate: z.string().min(1, "Start date is required"),
   deadline: z.string().optional(),
   icon: z.string().min(1, "Icon is required"),
@@ -57,13 +60,15 @@ export default function Goals() {
   
   const { data: goals = [], isLoading } = useGoals();
   const { data: transactions = [] } = useTransactions();
+  const baseCurrency = useBaseCurrency();
+  const converter = useCurrencyConverter();
   const { toast } = useToast();
 
-  // Calculate actual savings for a goal based on starting savings plus transactions
-  const calculateGoalProgress = (goalId: number, startingSavings: string = "0") => {
-    const goalTransactions = transactions.filter((transaction: Transaction) => 
-      transaction.savingsGoalId === goalId
-    );
+  // Calculate actual savings for a goal based on starting savings plus transactions, in the goal's currency
+  const calculateGoalProgress = (goalId: number, startingSavings: string = "0", currency: string) => {
+    const goalTransactions = transactions
+      .filter((transaction: Transaction) => transaction.savingsGoalId === goalId)
+      .map(transaction => convertTransaction(transaction, currency, converter));
     
     const transactionTotal = goalTransactions.reduce((total: number, transaction: Transaction) => {
       if (transaction.type === 'savings_deposit') {
@@ -90,6 +95,7 @@ export default function Goals() {
       name: "",
       targetAmount: "",
       startingSavings: "",
+      currency: baseCurrency,
       startDate: new Date().toISOString().split('T')[0],
       deadline: "",
       icon: "",
@@ -172,6 +178,7 @@ export default function Goals() {
       name: data.name,
       targetAmount: data.targetAmount,
       startingSavings: data.startingSavings || "0",
+      currency: data.currency,
       startDate: new Date(data.startDate),
       deadline: data.deadline ? new Date(data.deadline) : null,
       icon: data.icon,
@@ -225,6 +232,7 @@ export default function Goals() {
         name: editingGoal.name,
         targetAmount: editingGoal.targetAmount,
         startingSavings: editingGoal.startingSavings || "0",
+        currency: editingGoal.currency,
         startDate: startDateValue,
         deadline: deadlineValue,
         icon: editingGoal.icon,
@@ -235,13 +243,14 @@ export default function Goals() {
         name: "",
         targetAmount: "",
         startingSavings: "",
+        currency: baseCurrency,
         startDate: new Date().toISOString().split('T')[0],
         deadline: "",
         icon: "",
         color: "",
       });
     }
-  }, [editingGoal, isDialogOpen, form]);
+  }, [editingGoal, isDialogOpen, form, baseCurrency]);
 
 
 
@@ -339,6 +348,24 @@ export default function Goals() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <Input
+                          maxLength={3}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="startDate"
@@ -432,7 +459,7 @@ export default function Goals() {
         ) : (
           <div className="space-y-4">
             {goals.map((goal) => {
-              const savingsData = calculateGoalProgress(goal.id, goal.startingSavings);
+              const savingsData = calculateGoalProgress(goal.id, goal.startingSavings, goal.currency);
               const targetAmount = parseFloat(goal.targetAmount);
               const percentage = (savingsData.total / targetAmount) * 100;
               const remaining = targetAmount - savingsData.total;
@@ -504,10 +531,10 @@ export default function Goals() {
                   <div className="mb-2">
                     <div className="flex justify-between text-sm mb-1">
                       <span className="text-gray-600">
-                        {formatCurrency(savingsData.total)}
+                        {formatCurrency(savingsData.total, goal.currency)}
                       </span>
                       <span className="text-gray-900 font-medium">
-                        {formatCurrency(targetAmount)}
+                        {formatCurrency(targetAmount, goal.currency)}
                       </span>
                     </div>
                     <ProgressBar
@@ -524,7 +551,7 @@ export default function Goals() {
                         {savingsData.startingAmount > 0 && (
                           <div className="flex justify-between">
                             <span className="text-gray-600">Starting savings:</span>
-                            <span className="font-medium">{formatCurrency(savingsData.startingAmount)}</span>
+                            <span className="font-medium">{formatCurrency(savingsData.startingAmount, goal.currency)}</span>
                           </div>
                         )}
                         {savingsData.transactionAmount !== 0 && (
@@ -533,13 +560,13 @@ export default function Goals() {
                               {savingsData.transactionAmount >= 0 ? 'Deposits:' : 'Net withdrawals:'}
                             </span>
                             <span className={`font-medium ${savingsData.transactionAmount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                              {savingsData.transactionAmount >= 0 ? '+' : ''}{formatCurrency(savingsData.transactionAmount)}
+                              {savingsData.transactionAmount >= 0 ? '+' : ''}{formatCurrency(savingsData.transactionAmount, goal.currency)}
                             </span>
                           </div>
                         )}
                         <div className="flex justify-between border-t border-gray-200 pt-1">
                           <span className="text-gray-700 font-medium">Total:</span>
-                          <span className="font-semibold">{formatCurrency(savingsData.total)}</span>
+                          <span className="font-semibold">{formatCurrency(savingsData.total, goal.currency)}</span>
                         </div>
                       </div>
                     </div>
@@ -548,7 +575,7 @@ export default function Goals() {
                   <div className="text-xs text-gray-500">
                     {isCompleted ? 
                       "🎉 Goal completed! Congratulations!" :
-                      `${formatCurrency(remaining)} remaining to reach goal`
+                      `${formatCurrency(remaining, goal.currency)} remaining to reach goal`
                     }
                   </div>
                 </div>
@@ -579,7 +606,7 @@ export default function Goals() {
                     <div>
                       <h4 className="font-medium">{selectedGoalForHistory.name}</h4>
                       <p className="text-xs text-gray-500">
-                        Target: {formatCurrency(parseFloat(selectedGoalForHistory.targetAmount))}
+                        Target: {formatCurrency(parseFloat(selectedGoalForHistory.targetAmount), selectedGoalForHistory.currency)}
                       </p>
                     </div>
                   </div>
@@ -590,7 +617,7 @@ export default function Goals() {
             <div className="flex-1 overflow-y-auto min-h-0 px-6 py-4">
               {selectedGoalForHistory && (() => {
                 const goalTransactions = getGoalTransactions(selectedGoalForHistory);
-                const savingsData = calculateGoalProgress(selectedGoalForHistory.id, selectedGoalForHistory.startingSavings);
+                const savingsData = calculateGoalProgress(selectedGoalForHistory.id, selectedGoalForHistory.startingSavings, selectedGoalForHistory.currency);
                 const targetAmount = parseFloat(selectedGoalForHistory.targetAmount);
                 const percentage = (savingsData.total / targetAmount) * 100;
                 
@@ -606,28 +633,28 @@ export default function Goals() {
                       <div className="text-sm text-gray-600">
                         <div className="flex justify-between">
                           <span>Current Savings:</span>
-                          <span className="font-medium">{formatCurrency(savingsData.total)}</span>
+                          <span className="font-medium">{formatCurrency(savingsData.total, selectedGoalForHistory.currency)}</span>
                         </div>
                         <div className="flex justify-between">
                           <span>Target:</span>
-                          <span className="font-medium">{formatCurrency(targetAmount)}</span>
+                          <span className="font-medium">{formatCurrency(targetAmount, selectedGoalForHistory.currency)}</span>
                         </div>
                         <div className="flex justify-between">
                           <span>Remaining:</span>
                           <span className={`font-medium ${targetAmount - savingsData.total <= 0 ? 'text-green-600' : 'text-gray-600'}`}>
-                            {formatCurrency(Math.max(0, targetAmount - savingsData.total))}
+                            {formatCurrency(Math.max(0, targetAmount - savingsData.total), selectedGoalForHistory.currency)}
                           </span>
                         </div>
                         {savingsData.startingAmount > 0 && (
                           <div className="flex justify-between border-t border-gray-200 pt-2 mt-2">
                             <span>Starting Amount:</span>
-                            <span className="font-medium">{formatCurrency(savingsData.startingAmount)}</span>
+                            <span className="font-medium">{formatCurrency(savingsData.startingAmount, selectedGoalForHistory.currency)}</span>
                           </div>
                         )}
                         <div className="flex justify-between">
                           <span>From Transactions:</span>
                           <span className={`font-medium ${savingsData.transactionAmount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                            {savingsData.transactionAmount >= 0 ? '+' : ''}{formatCurrency(savingsData.transactionAmount)}
+                            {savingsData.transactionAmount >= 0 ? '+' : ''}{formatCurrency(savingsData.transactionAmount, selectedGoalForHistory.currency)}
                           </span>
                         </div>
                       </div>
@@ -671,7 +698,7 @@ export default function Goals() {
                                     <span className={`font-semibold text-sm whitespace-nowrap ${
                                       transaction.type === 'savings_deposit' ? 'text-green-600' : 'text-red-600'
                                     }`}>
-                                      {transaction.type === 'savings_deposit' ? '+' : '-'}{formatCurrency(parseFloat(transaction.amount))}
+                                      {transaction.type === 'savings_deposit' ? '+' : '-'}{formatCurrency(parseFloat(transaction.amount), transaction.currency)}
                                     </span>
                                   </div>
                                   <div className="flex items-center justify-between text-xs text-gray-500">
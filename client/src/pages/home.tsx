@@ -1,7 +1,8 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { TrendingUp, ArrowDown, ArrowUp, Plus, AlertTriangle, Clock, Target } from "lucide-react";
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip } from "recharts";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
 import StatCard from "@/components/ui/stat-card";
@@ -9,39 +10,99 @@ import ProgressBar from "@/components/ui/progress-bar";
 import TransactionModal from "@/components/modals/transaction-modal";
 import { Button } from "@/components/ui/button";
 import { useTransactions } from "@/hooks/use-transactions";
+import { useBaseTransactions, useCurrencyConverter } from "@/hooks/use-currency";
 import { useBudgets } from "@/hooks/use-budgets";
 import { useGoals } from "@/hooks/use-goals";
+import { useNetWorthSnapshots } from "@/hooks/use-assets";
 
 import { formatCurrency } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { convertTransaction } from "@shared/currency-conversion";
 import type { Transaction } from "@shared/schema";
 
 interface FinancialSummary {
+  baseCurrency: string;
   netWorth: number;
   monthlyIncome: number;
   monthlyExpenses: number;
+  totalAccounts: number;
+  totalAssets: number;
+  totalInvestments: number;
   totalSavings: number;
   totalDebt: number;
+  missingRates: string[];
+  accounts: Array<{
+    id: number;
+    name: string;
+    type: string;
+    currency: string;
+    isArchived: boolean;
+    balance: number;
+  }>;
 }
 
 export default function Home() {
   const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
+  const { toast } = useToast();
+
+  // Report the outcome of a guest account upgrade (see /api/callback)
+  useEffect(() => {
+    const upgraded = new URLSearchParams(window.location.search).get("upgraded");
+    if (upgraded === null) return;
+
+    toast(upgraded === "1"
+      ? { title: "Welcome", description: "Your guest data has been moved to your account" }
+      : { title: "Error", description: "Signed in, but your guest data could not be moved", variant: "destructive" });
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [toast]);
 
   const { data: financialSummary } = useQuery<FinancialSummary>({
     queryKey: ["/api/financial-summary"],
   });
 
   const { data: transactions = [] } = useTransactions();
+  const { data: baseTransactions } = useBaseTransactions();
+  const converter = useCurrencyConverter();
   const { data: budgets = [] } = useBudgets();
   const { data: goals = [] } = useGoals();
+  const { data: snapshots = [] } = useNetWorthSnapshots();
+
+  // Monthly snapshots in today's base currency followed by today's figure, for the net worth chart. The change
+  // shown on the card is measured from this month's snapshot, or the latest one before it.
+  const netWorthHistory = useMemo(() => {
+    if (!financialSummary) return { points: [], change: null };
+    const now = new Date();
+    const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+    const comparable = snapshots.filter(snapshot => snapshot.currency === financialSummary.baseCurrency && snapshot.month <= currentMonth);
+    const baseline = comparable[comparable.length - 1];
+    const monthLabel = (month: string) =>
+      new Date(parseInt(month.slice(0, 4)), parseInt(month.slice(5, 7)) - 1, 1).toLocaleDateString(undefined, { month: "short", year: "2-digit" });
+
+    const points = comparable
+      .filter(snapshot => snapshot.month < currentMonth)
+      .map(snapshot => ({ label: monthLabel(snapshot.month), netWorth: parseFloat(snapshot.netWorth) }));
+    points.push({ label: "Now", netWorth: financialSummary.netWorth });
+
+    if (!baseline) return { points, change: null };
+    const baselineValue = parseFloat(baseline.netWorth);
+    return {
+      points,
+      change: {
+        amount: financialSummary.netWorth - baselineValue,
+        percentage: baselineValue !== 0 ? ((financialSummary.netWorth - baselineValue) / Math.abs(baselineValue)) * 100 : null,
+        since: baseline.month === currentMonth ? "this month" : `since ${monthLabel(baseline.month)}`,
+      },
+    };
+  }, [financialSummary, snapshots]);
 
 
   const recentTransactions = transactions.slice(0, 4);
 
-  // Calculate actual savings for a goal based on starting savings plus transactions
-  const calculateGoalProgress = (goalId: number, startingSavings: string = "0") => {
-    const goalTransactions = transactions.filter((transaction: Transaction) => 
-      transaction.savingsGoalId === goalId
-    );
+  // Calculate actual savings for a goal based on starting savings plus transactions, in the goal's currency
+  const calculateGoalProgress = (goalId: number, startingSavings: string = "0", currency: string) => {
+    const goalTransactions = transactions
+      .filter((transaction: Transaction) => transaction.savingsGoalId === goalId)
+      .map(transaction => convertTransaction(transaction, currency, converter));
     
     const transactionTotal = goalTransactions.reduce((total: number, transaction: Transaction) => {
       if (transaction.type === 'savings_deposit') {
@@ -70,16 +131,7 @@ export default function Home() {
 
     // Check for budget overruns
     budgets.forEach((budget: any) => {
-      const categoryTransactions = transactions.filter((transaction: Transaction) => {
-        return transaction.category === budget.category && 
-               transaction.type === "expense" &&
-               new Date(transaction.date) >= new Date(budget.startDate) &&
-               new Date(transaction.date) <= new Date(budget.endDate);
-      });
-
-      const totalSpent = categoryTransactions.reduce((total: number, transaction: Transaction) => {
-        return total + parseFloat(transaction.amount);
-      }, 0);
+      const totalSpent = parseFloat(budget.spent);
 
       const budgetAmount = parseFloat(budget.amount);
       const percentage = budgetAmount > 0 ? (totalSpent / budgetAmount) * 100 : 0;
@@ -118,7 +170,7 @@ export default function Home() {
         const today = new Date();
         const daysUntilDeadline = Math.ceil((deadline.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
         
-        const currentAmount = calculateGoalProgress(goal.id, goal.currentAmount);
+        const currentAmount = calculateGoalProgress(goal.id, goal.currentAmount, goal.currency);
         const targetAmount = parseFloat(goal.targetAmount);
         const progress = targetAmount > 0 ? (currentAmount / targetAmount) * 100 : 0;
 
@@ -142,14 +194,14 @@ export default function Home() {
       const severityOrder = { high: 3, medium: 2, low: 1 };
       return severityOrder[b.severity] - severityOrder[a.severity];
     }).slice(0, 3); // Show max 3 alerts
-  }, [budgets, goals, transactions]);
+  }, [budgets, goals, transactions, converter]);
 
   // Calculate aggregate amounts
-  const totalIncome = transactions
+  const totalIncome = baseTransactions
     .filter(t => t.type === "income" || t.type === "savings_withdrawal")
     .reduce((sum, t) => sum + parseFloat(t.amount), 0);
 
-  const totalExpenses = transactions
+  const totalExpenses = baseTransactions
     .filter(t => t.type === "expense" || t.type === "savings_deposit")
     .reduce((sum, t) => sum + parseFloat(t.amount), 0);
 
@@ -172,6 +224,7 @@ export default function Home() {
     if (type === "income") return "💰";
     if (type === "savings_deposit") return "🏦";
     if (type === "savings_withdrawal") return "🏧";
+    if (type === "transfer") return "🔁";
     // Loan functionality has been removed from the application
     
     const icons: Record<string, string> = {
@@ -311,12 +364,44 @@ export default function Home() {
             <div className="text-3xl font-bold mb-1">
               {financialSummary ? formatCurrency(financialSummary.netWorth) : "$0.00"}
             </div>
-            <div className="flex items-center text-blue-200 text-sm">
-              <ArrowUp className="h-3 w-3 mr-1" />
-              <span>+5.2% this month</span>
-            </div>
+            {netWorthHistory.change && (
+              <div className="flex items-center text-blue-200 text-sm">
+                {netWorthHistory.change.amount >= 0 ? <ArrowUp className="h-3 w-3 mr-1" /> : <ArrowDown className="h-3 w-3 mr-1" />}
+                <span>
+                  {netWorthHistory.change.amount >= 0 ? "+" : "-"}{formatCurrency(Math.abs(netWorthHistory.change.amount))}
+                  {netWorthHistory.change.percentage !== null && ` (${netWorthHistory.change.percentage >= 0 ? "+" : ""}${netWorthHistory.change.percentage.toFixed(1)}%)`}
+                  {" "}{netWorthHistory.change.since}
+                </span>
+              </div>
+            )}
+            {financialSummary && (
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 text-xs text-blue-100">
+                <span>Accounts {formatCurrency(financialSummary.totalAccounts)}</span>
+                <Link href="/assets"><span className="cursor-pointer">Assets {formatCurrency(financialSummary.totalAssets)}</span></Link>
+                <Link href="/investments"><span className="cursor-pointer">Investments {formatCurrency(financialSummary.totalInvestments)}</span></Link>
+                <span>Savings {formatCurrency(financialSummary.totalSavings)}</span>
+                <span>Debt {formatCurrency(financialSummary.totalDebt)}</span>
+              </div>
+            )}
           </div>
 
+          {/* Net Worth Over Time */}
+          {netWorthHistory.points.length > 1 && (
+            <div className="bg-white rounded-xl p-4 border border-gray-100">
+              <h3 className="font-semibold text-gray-900 mb-3">Net Worth Over Time</h3>
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={netWorthHistory.points} margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+                    <XAxis dataKey="label" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} />
+                    <YAxis hide domain={["auto", "auto"]} />
+                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                    <Line type="monotone" dataKey="netWorth" name="Net worth" stroke="#2563eb" strokeWidth={2} dot={{ r: 2 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
           {/* Quick Stats Grid */}
           <div className="grid grid-cols-2 gap-4">
             <StatCard
@@ -336,8 +421,44 @@ export default function Home() {
               changeColor="text-gray-500"
             />
           </div>
+
+          {financialSummary && financialSummary.missingRates.length > 0 && (
+            <Link href="/currencies">
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 flex items-start space-x-2 cursor-pointer">
+                <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                <p className="text-xs text-amber-800">
+                  No exchange rate for {financialSummary.missingRates.join(", ")}, so those amounts are counted one to one. Add a rate to fix your totals.
+                </p>
+              </div>
+            </Link>
+          )}
         </section>
 
+        {/* Account Balances */}
+        {financialSummary && financialSummary.accounts.some(account => !account.isArchived) && (
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Accounts</h2>
+              <Link href="/accounts">
+                <button className="text-primary text-sm font-medium">Manage</button>
+              </Link>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+              {financialSummary.accounts.filter(account => !account.isArchived).map((account) => (
+                <div key={account.id} className="p-4 flex items-center justify-between">
+                  <div>
+                    <h3 className="font-medium text-gray-900">{account.name}</h3>
+                    <p className="text-xs text-gray-500 capitalize">{account.type.replace('_', ' ')}</p>
+                  </div>
+                  <div className={`font-semibold ${account.balance >= 0 ? "text-gray-900" : "text-red-600"}`}>
+                    {formatCurrency(account.balance, account.currency)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Budget Overview */}
         <section className="space-y-4">
           <div className="flex items-center justify-between">
@@ -404,7 +525,7 @@ export default function Home() {
             </div>
           ) : (
             goals.slice(0, 2).map((goal) => {
-              const actualSavings = calculateGoalProgress(goal.id, goal.startingSavings);
+              const actualSavings = calculateGoalProgress(goal.id, goal.startingSavings, goal.currency);
               const targetAmount = parseFloat(goal.targetAmount);
               const percentage = (actualSavings / targetAmount) * 100;
               const remaining = targetAmount - actualSavings;
@@ -431,13 +552,13 @@ export default function Home() {
                   </div>
                   <div className="mb-2">
                     <div className="flex justify-between text-sm mb-1">
-                      <span className="text-gray-600">{formatCurrency(actualSavings)}</span>
-                      <span className="text-gray-900 font-medium">{formatCurrency(targetAmount)}</span>
+                      <span className="text-gray-600">{formatCurrency(actualSavings, goal.currency)}</span>
+                      <span className="text-gray-900 font-medium">{formatCurrency(targetAmount, goal.currency)}</span>
                     </div>
                     <ProgressBar percentage={percentage} color={goal.color} />
                   </div>
                   <div className="text-xs text-gray-500">
-                    {formatCurrency(remaining)} remaining to reach goal
+                    {formatCurrency(remaining, goal.currency)} remaining to reach goal
                   </div>
                 </div>
               );
@@ -465,7 +586,8 @@ export default function Home() {
                 <div key={transaction.id} className="p-4 flex items-center justify-between">
                   <div className="flex items-center space-x-3">
                     <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${
-                      transaction.type === "income" || transaction.type === "savings_withdrawal" || transaction.type === "loan_received"
+                      transaction.type === "transfer" ? "bg-gray-100"
+                        : transaction.type === "income" || transaction.type === "savings_withdrawal" || transaction.type === "loan_received"
                         ? "bg-green-100" : "bg-red-100"
                     }`}>
                       <span className="text-sm">{getCategoryIcon(transaction.category, transaction.type)}</span>
@@ -479,11 +601,12 @@ export default function Home() {
                   </div>
                   <div className="text-right">
                     <div className={`font-semibold ${
-                      transaction.type === "income" || transaction.type === "savings_withdrawal" 
+                      transaction.type === "transfer" ? "text-gray-600"
+                        : transaction.type === "income" || transaction.type === "savings_withdrawal" 
                         ? "text-green-600" : "text-red-600"
                     }`}>
-                      {(transaction.type === "income" || transaction.type === "savings_withdrawal") ? "+" : "-"}
-                      {formatCurrency(parseFloat(transaction.amount))}
+                      {transaction.type === "transfer" ? "" : (transaction.type === "income" || transaction.type === "savings_withdrawal") ? "+" : "-"}
+                      {formatCurrency(parseFloat(transaction.amount), transaction.currency)}
                     </div>
                   </div>
                 </div>
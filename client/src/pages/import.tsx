@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Upload, AlertTriangle, Copy, FileText } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { formatCurrency } from "@/lib/currency";
+
+interface ColumnMapping {
+  date: number;
+  amount: number;
+  description: number;
+  category?: number | null;
+  type?: number | null;
+}
+
+interface PreviewRow {
+  rowIndex: number;
+  date: string | null;
+  amount: string | null;
+  description: string;
+  category: string;
+  type: "income" | "expense";
+  error?: string;
+  duplicateOf?: number;
+  categorizedBy?: "rule" | "history";
+}
+
+interface PreviewResponse {
+  format: "csv" | "ofx" | "qif";
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: PreviewRow[];
+}
+
+type DateFormat = "auto" | "YMD" | "DMY" | "MDY";
+
+const mappingFields: Array<{ key: keyof ColumnMapping; label: string; optional?: boolean }> = [
+  { key: "date", label: "Date" },
+  { key: "amount", label: "Amount" },
+  { key: "description", label: "Description" },
+  { key: "category", label: "Category", optional: true },
+  { key: "type", label: "Type (debit/credit)", optional: true },
+];
+
+export default function Import() {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [dateFormat, setDateFormat] = useState<DateFormat>("auto");
+  const [defaultCategory, setDefaultCategory] = useState("other");
+  const { transactionCategories } = useCategories();
+  const { toast } = useToast();
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: { content: string; fileName: string; mapping?: ColumnMapping; dateFormat: DateFormat; defaultCategory: string }) => {
+      const response = await apiRequest("POST", "/api/statement-import/preview", request);
+      return response.json() as Promise<PreviewResponse>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      // Rows that parsed cleanly and don't look like duplicates start out selected
+      setSelectedRows(new Set(data.rows.filter(row => !row.error && !row.duplicateOf).map(row => row.rowIndex)));
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Could not read the statement file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (rows: PreviewRow[]) => {
+      const response = await apiRequest("POST", "/api/statement-import", {
+        transactions: rows.map(row => ({
+          amount: row.amount,
+          description: row.description,
+          category: row.category,
+          type: row.type,
+          date: row.date,
+        })),
+      });
+      return response.json() as Promise<{ imported: number }>;
+    },
+    onSuccess: ({ imported }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({
+        title: "Success",
+        description: `Imported ${imported} transaction${imported === 1 ? "" : "s"}`,
+      });
+      setFile(null);
+      setPreview(null);
+      setSelectedRows(new Set());
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to import transactions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const requestPreview = (overrides: { mapping?: ColumnMapping; dateFormat?: DateFormat; defaultCategory?: string } = {}, source = file) => {
+    if (!source) return;
+    previewMutation.mutate({
+      content: source.content,
+      fileName: source.name,
+      mapping: overrides.mapping ?? preview?.mapping,
+      dateFormat: overrides.dateFormat ?? dateFormat,
+      defaultCategory: overrides.defaultCategory ?? defaultCategory,
+    });
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    const loaded = { name: selected.name, content: await selected.text() };
+    setFile(loaded);
+    setPreview(null);
+    // A new file gets a freshly suggested column mapping
+    previewMutation.mutate({ content: loaded.content, fileName: loaded.name, dateFormat, defaultCategory });
+  };
+
+  const handleMappingChange = (key: keyof ColumnMapping, value: string) => {
+    if (!preview) return;
+    const mapping = { ...preview.mapping, [key]: value === "none" ? null : parseInt(value) };
+    requestPreview({ mapping });
+  };
+
+  const toggleRow = (rowIndex: number, checked: boolean) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(rowIndex);
+      else next.delete(rowIndex);
+      return next;
+    });
+  };
+
+  const rowsToImport = preview?.rows.filter(row => selectedRows.has(row.rowIndex) && !row.error) ?? [];
+  const duplicateCount = preview?.rows.filter(row => row.duplicateOf).length ?? 0;
+  const errorCount = preview?.rows.filter(row => row.error).length ?? 0;
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Import Statement" subtitle="CSV, OFX or QIF files" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        {/* File Picker */}
+        <label className="block bg-white rounded-xl p-6 border-2 border-dashed border-gray-200 text-center cursor-pointer hover:bg-gray-50">
+          <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+          <p className="font-medium text-gray-900">{file ? file.name : "Choose a statement file"}</p>
+          <p className="text-xs text-gray-500 mt-1">Bank or mobile money exports (.csv, .ofx, .qfx, .qif)</p>
+          <input
+            type="file"
+            accept=".csv,.ofx,.qfx,.qif,text/csv"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </label>
+
+        {previewMutation.isPending && (
+          <p className="text-sm text-gray-500 text-center">Reading file...</p>
+        )}
+
+        {preview && (
+          <>
+            {/* Column Mapping */}
+            <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+              <h3 className="font-semibold text-gray-900 flex items-center">
+                <FileText className="h-4 w-4 mr-2" />
+                Column Mapping
+              </h3>
+              {mappingFields.map(({ key, label, optional }) => (
+                <div key={key} className="flex items-center justify-between gap-3">
+                  <Label className="text-sm text-gray-600 flex-shrink-0">{label}</Label>
+                  <Select
+                    value={preview.mapping[key] != null ? String(preview.mapping[key]) : "none"}
+                    onValueChange={(value) => handleMappingChange(key, value)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {optional && <SelectItem value="none">Not in file</SelectItem>}
+                      {preview.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between gap-3">
+                <Label className="text-sm text-gray-600 flex-shrink-0">Date format</Label>
+                <Select
+                  value={dateFormat}
+                  onValueChange={(value: DateFormat) => {
+                    setDateFormat(value);
+                    requestPreview({ dateFormat: value });
+                  }}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect</SelectItem>
+                    <SelectItem value="DMY">DD/MM/YYYY</SelectItem>
+                    <SelectItem value="MDY">MM/DD/YYYY</SelectItem>
+                    <SelectItem value="YMD">YYYY-MM-DD</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <Label className="text-sm text-gray-600 flex-shrink-0">Default category</Label>
+                <Select
+                  value={defaultCategory}
+                  onValueChange={(value) => {
+                    setDefaultCategory(value);
+                    requestPreview({ defaultCategory: value });
+                  }}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {transactionCategories.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Preview Summary */}
+            <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-100">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <div className="text-sm text-gray-500">Rows</div>
+                  <div className="font-semibold text-gray-900">{preview.rows.length}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Duplicates</div>
+                  <div className="font-semibold text-orange-600">{duplicateCount}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Errors</div>
+                  <div className="font-semibold text-red-600">{errorCount}</div>
+                </div>
+              </div>
+            </div>
+
+            {/* Parsed Rows */}
+            <div className="space-y-2">
+              {preview.rows.map((row) => (
+                <div
+                  key={row.rowIndex}
+                  className={`bg-white rounded-xl p-3 border ${
+                    row.error ? "border-red-200 bg-red-50" : row.duplicateOf ? "border-orange-200 bg-orange-50" : "border-gray-100"
+                  }`}
+                >
+                  <div className="flex items-start gap-3">
+                    <Checkbox
+                      checked={selectedRows.has(row.rowIndex)}
+                      disabled={!!row.error}
+                      onCheckedChange={(checked) => toggleRow(row.rowIndex, checked === true)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 text-sm leading-snug">{row.description}</p>
+                      <p className="text-xs text-gray-500 capitalize">
+                        {row.date ? new Date(row.date).toLocaleDateString() : "No date"} • {row.category.replace('_', ' ')}
+                        {row.categorizedBy && (row.categorizedBy === "rule" ? " (rule)" : " (suggested)")}
+                      </p>
+                      {row.error && (
+                        <p className="text-xs text-red-600 mt-1 flex items-center">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {row.error}
+                        </p>
+                      )}
+                      {row.duplicateOf && (
+                        <p className="text-xs text-orange-600 mt-1 flex items-center">
+                          <Copy className="h-3 w-3 mr-1" />
+                          Looks like a transaction you already recorded
+                        </p>
+                      )}
+                    </div>
+                    {row.amount && (
+                      <div className={`font-semibold text-sm whitespace-nowrap ${row.type === "income" ? "text-green-600" : "text-red-600"}`}>
+                        {row.type === "income" ? "+" : "-"}
+                        {formatCurrency(parseFloat(row.amount))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              onClick={() => importMutation.mutate(rowsToImport)}
+              disabled={rowsToImport.length === 0 || importMutation.isPending}
+              className="w-full bg-primary text-white py-3"
+            >
+              {importMutation.isPending
+                ? "Importing..."
+                : `Import ${rowsToImport.length} Transaction${rowsToImport.length === 1 ? "" : "s"}`}
+            </Button>
+          </>
+        )}
+      </main>
+
+      <BottomNavigation />
+    </div>
+  );
+}
@@ -0,0 +1,765 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Pencil, Archive, ArchiveRestore, Trash2, LineChart, History } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useInvestments, useInvestmentLots, useInvestmentPrices, useInvestmentIncome, type Holding } from "@/hooks/use-investments";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useBaseCurrency } from "@/hooks/use-currency";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import type { InsertInvestment, InsertInvestmentLot } from "@shared/schema";
+
+const investmentTypeLabels: Record<string, string> = {
+  share: "Shares",
+  treasury_bill: "Treasury Bill",
+  unit_trust: "Unit Trust",
+  bond: "Bond",
+  other: "Other",
+};
+
+const incomeKindLabels: Record<string, string> = {
+  dividend: "Dividend",
+  coupon: "Coupon",
+};
+
+interface InvestmentFormState {
+  name: string;
+  symbol: string;
+  type: InsertInvestment["type"];
+  currency: string;
+  notes: string;
+}
+
+interface LotFormState {
+  kind: InsertInvestmentLot["kind"];
+  quantity: string;
+  price: string;
+  fees: string;
+  tradedAt: string;
+}
+
+interface IncomeFormState {
+  kind: string;
+  amount: string;
+  date: string;
+  accountId: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm: InvestmentFormState = { name: "", symbol: "", type: "share", currency: "MWK", notes: "" };
+const emptyLotForm = (): LotFormState => ({ kind: "buy", quantity: "", price: "", fees: "", tradedAt: today() });
+const emptyIncomeForm = (): IncomeFormState => ({ kind: "dividend", amount: "", date: today(), accountId: "none" });
+
+// Units can be fractional (unit trusts), so show up to four decimals without trailing zeros
+const formatQuantity = (quantity: number) => quantity.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+// Holdings feed net worth, so the summary changes with every lot, price or holding
+const invalidateInvestmentQueries = (investmentId?: number) => {
+  queryClient.invalidateQueries({ queryKey: ["/api/investments"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+  if (investmentId !== undefined) {
+    queryClient.invalidateQueries({ queryKey: [`/api/investments/${investmentId}/lots`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/investments/${investmentId}/prices`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/investments/${investmentId}/income`] });
+  }
+};
+
+const gainColor = (gain: number) => gain > 0 ? "text-green-600" : gain < 0 ? "text-red-600" : "text-gray-600";
+const signed = (amount: number, currency: string) => `${amount > 0 ? "+" : amount < 0 ? "-" : ""}${formatCurrency(Math.abs(amount), currency)}`;
+
+export default function Investments() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingInvestment, setEditingInvestment] = useState<Holding | null>(null);
+  const [form, setForm] = useState<InvestmentFormState>(emptyForm);
+  const [detailId, setDetailId] = useState<number | null>(null);
+  const [lotForm, setLotForm] = useState<LotFormState>(emptyLotForm);
+  const [priceForm, setPriceForm] = useState({ price: "", pricedAt: today() });
+  const [incomeForm, setIncomeForm] = useState<IncomeFormState>(emptyIncomeForm);
+  const { data: holdings = [], isLoading } = useInvestments();
+  const { data: lots = [] } = useInvestmentLots(detailId);
+  const { data: prices = [] } = useInvestmentPrices(detailId);
+  const { data: income = [] } = useInvestmentIncome(detailId);
+  const { data: accounts = [] } = useAccounts();
+  const baseCurrency = useBaseCurrency();
+  const { toast } = useToast();
+
+  const detail = holdings.find(holding => holding.id === detailId) ?? null;
+  const totalValue = holdings
+    .filter(holding => !holding.isArchived)
+    .reduce((sum, holding) => sum + holding.baseMarketValue, 0);
+
+  const openForm = (investment?: Holding) => {
+    setEditingInvestment(investment ?? null);
+    setForm(investment
+      ? {
+        name: investment.name,
+        symbol: investment.symbol ?? "",
+        type: investment.type as InsertInvestment["type"],
+        currency: investment.currency,
+        notes: investment.notes ?? "",
+      }
+      : { ...emptyForm, currency: baseCurrency });
+    setIsFormOpen(true);
+  };
+
+  const openDetail = (investment: Holding) => {
+    setDetailId(investment.id);
+    setLotForm(emptyLotForm());
+    setPriceForm({ price: "", pricedAt: today() });
+    setIncomeForm(emptyIncomeForm());
+  };
+
+  const saveInvestmentMutation = useMutation({
+    mutationFn: async (data: InvestmentFormState) => {
+      const payload = { ...data, symbol: data.symbol || null, notes: data.notes || null };
+      const response = editingInvestment
+        ? await apiRequest("PUT", `/api/investments/${editingInvestment.id}`, payload)
+        : await apiRequest("POST", "/api/investments", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateInvestmentQueries();
+      toast({
+        title: "Success",
+        description: editingInvestment ? "Investment updated successfully" : "Investment created successfully",
+      });
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save investment"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveInvestmentMutation = useMutation({
+    mutationFn: async ({ id, isArchived }: { id: number; isArchived: boolean }) => {
+      const response = await apiRequest("PUT", `/api/investments/${id}`, { isArchived });
+      return response.json();
+    },
+    onSuccess: (_, { isArchived }) => {
+      invalidateInvestmentQueries();
+      toast({
+        title: "Success",
+        description: isArchived ? "Investment archived" : "Investment restored",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update investment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteInvestmentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/investments/${id}`);
+    },
+    onSuccess: () => {
+      invalidateInvestmentQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Success",
+        description: "Investment deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete investment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addLotMutation = useMutation({
+    mutationFn: async ({ investmentId, data }: { investmentId: number; data: LotFormState }) => {
+      const response = await apiRequest("POST", `/api/investments/${investmentId}/lots`, { ...data, fees: data.fees || "0" });
+      return response.json();
+    },
+    onSuccess: (_, { investmentId, data }) => {
+      invalidateInvestmentQueries(investmentId);
+      toast({
+        title: "Success",
+        description: data.kind === "buy" ? "Purchase recorded" : "Sale recorded",
+      });
+      setLotForm(emptyLotForm());
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to record trade"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteLotMutation = useMutation({
+    mutationFn: async ({ id }: { id: number; investmentId: number }) => {
+      await apiRequest("DELETE", `/api/investment-lots/${id}`);
+    },
+    onSuccess: (_, { investmentId }) => {
+      invalidateInvestmentQueries(investmentId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to delete trade"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addPriceMutation = useMutation({
+    mutationFn: async ({ investmentId, data }: { investmentId: number; data: { price: string; pricedAt: string } }) => {
+      const response = await apiRequest("POST", `/api/investments/${investmentId}/prices`, data);
+      return response.json();
+    },
+    onSuccess: (_, { investmentId }) => {
+      invalidateInvestmentQueries(investmentId);
+      toast({
+        title: "Success",
+        description: "Price added",
+      });
+      setPriceForm({ price: "", pricedAt: today() });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to add price"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePriceMutation = useMutation({
+    mutationFn: async ({ id }: { id: number; investmentId: number }) => {
+      await apiRequest("DELETE", `/api/investment-prices/${id}`);
+    },
+    onSuccess: (_, { investmentId }) => {
+      invalidateInvestmentQueries(investmentId);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete price",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Dividends and coupons are ordinary income transactions linked to the holding, so they also count towards
+  // income totals and the balance of the account they were paid into
+  const addIncomeMutation = useMutation({
+    mutationFn: async ({ investment, data }: { investment: Holding; data: IncomeFormState }) => {
+      const response = await apiRequest("POST", "/api/transactions", {
+        amount: data.amount,
+        description: `${incomeKindLabels[data.kind]}: ${investment.symbol || investment.name}`,
+        category: "income",
+        type: "income",
+        date: data.date,
+        currency: investment.currency,
+        accountId: data.accountId === "none" ? null : parseInt(data.accountId),
+        investmentId: investment.id,
+        applyRules: false,
+      });
+      return response.json();
+    },
+    onSuccess: (_, { investment }) => {
+      invalidateInvestmentQueries(investment.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Success",
+        description: "Income recorded",
+      });
+      setIncomeForm(emptyIncomeForm());
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to record income"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim() || form.currency.length !== 3) {
+      toast({
+        title: "Error",
+        description: "Enter a name and a three-letter currency code",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveInvestmentMutation.mutate(form);
+  };
+
+  const handleLotSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!detail) return;
+    if (!(parseFloat(lotForm.quantity) > 0) || !(parseFloat(lotForm.price) >= 0) || (lotForm.fees && !(parseFloat(lotForm.fees) >= 0))) {
+      toast({
+        title: "Error",
+        description: "Enter a quantity above zero, a price and fees of zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+    addLotMutation.mutate({ investmentId: detail.id, data: lotForm });
+  };
+
+  const handlePriceSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!detail) return;
+    if (!(parseFloat(priceForm.price) >= 0) || !priceForm.pricedAt) {
+      toast({
+        title: "Error",
+        description: "Enter a price of zero or more and its date",
+        variant: "destructive",
+      });
+      return;
+    }
+    addPriceMutation.mutate({ investmentId: detail.id, data: priceForm });
+  };
+
+  const handleIncomeSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!detail) return;
+    if (!(parseFloat(incomeForm.amount) > 0) || !incomeForm.date) {
+      toast({
+        title: "Error",
+        description: "Enter the amount received and the date it was paid",
+        variant: "destructive",
+      });
+      return;
+    }
+    addIncomeMutation.mutate({ investment: detail, data: incomeForm });
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Investments" subtitle="Shares, treasury bills and unit trusts" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        {holdings.length > 0 && (
+          <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-100">
+            <div className="text-sm text-gray-500">Market value</div>
+            <div className="text-2xl font-bold text-gray-900">{formatCurrency(totalValue, baseCurrency)}</div>
+            <p className="text-xs text-gray-500 mt-1">Counted in your net worth, at each holding's latest price</p>
+          </div>
+        )}
+
+        <Button onClick={() => openForm()} className="w-full bg-primary text-white py-3">
+          <Plus className="h-4 w-4 mr-2" />
+          New Investment
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : holdings.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-100 text-center">
+            <div className="text-4xl mb-4">📈</div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No investments yet</h3>
+            <p className="text-gray-500">
+              Add your shares, treasury bills and unit trusts, then record what you buy and sell and the latest prices
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {holdings.map((holding) => (
+              <div key={holding.id} className={`bg-white rounded-xl p-4 border border-gray-100 ${holding.isArchived ? "opacity-60" : ""}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex items-start space-x-3 flex-1 min-w-0">
+                    <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 bg-violet-100">
+                      <LineChart className="h-4 w-4 text-violet-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium text-gray-900 mb-1 leading-snug">{holding.name}</h3>
+                      <p className="text-xs text-gray-500">
+                        {holding.symbol && `${holding.symbol} • `}{investmentTypeLabels[holding.type] || holding.type} • {holding.currency}
+                        {holding.isArchived && " • Archived"}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {formatQuantity(holding.quantity)} units
+                        {holding.price !== null && ` @ ${formatCurrency(holding.price, holding.currency)}`}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-col items-end space-y-2 flex-shrink-0">
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openDetail(holding)}
+                        className="p-1.5 text-violet-600 hover:bg-violet-50"
+                      >
+                        <History className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openForm(holding)}
+                        className="p-1.5 text-blue-600 hover:bg-blue-50"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => archiveInvestmentMutation.mutate({ id: holding.id, isArchived: !holding.isArchived })}
+                        disabled={archiveInvestmentMutation.isPending}
+                        className="p-1.5 text-gray-600 hover:bg-gray-50"
+                      >
+                        {holding.isArchived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteInvestmentMutation.mutate(holding.id)}
+                        disabled={deleteInvestmentMutation.isPending}
+                        className="p-1.5 text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                    <div className="font-semibold text-right whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(holding.marketValue, holding.currency)}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 mt-3 pt-3 border-t border-gray-100 text-xs">
+                  <div>
+                    <div className="text-gray-500">Unrealized</div>
+                    <div className={`font-medium ${gainColor(holding.unrealizedGain)}`}>{signed(holding.unrealizedGain, holding.currency)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Realized</div>
+                    <div className={`font-medium ${gainColor(holding.realizedGain)}`}>{signed(holding.realizedGain, holding.currency)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Income</div>
+                    <div className="font-medium text-gray-900">{formatCurrency(holding.income, holding.currency)}</div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editingInvestment ? "Edit Investment" : "New Investment"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="investment-name">Name</Label>
+              <Input
+                id="investment-name"
+                placeholder="e.g. National Bank of Malawi"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="investment-symbol">Symbol (optional)</Label>
+                <Input
+                  id="investment-symbol"
+                  placeholder="e.g. NBM"
+                  value={form.symbol}
+                  onChange={(e) => setForm({ ...form, symbol: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="investment-currency">Currency</Label>
+                <Input
+                  id="investment-currency"
+                  maxLength={3}
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(value: InsertInvestment["type"]) => setForm({ ...form, type: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(investmentTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="investment-notes">Notes (optional)</Label>
+              <Input
+                id="investment-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full bg-primary text-white" disabled={saveInvestmentMutation.isPending}>
+              {saveInvestmentMutation.isPending ? "Saving..." : editingInvestment ? "Update Investment" : "Create Investment"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={detail !== null} onOpenChange={(open) => !open && setDetailId(null)}>
+        <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{detail?.name}</DialogTitle>
+          </DialogHeader>
+          {detail && (
+            <>
+              <div className="grid grid-cols-2 gap-2 text-xs bg-gray-50 rounded-lg p-3">
+                <div>
+                  <div className="text-gray-500">Units held</div>
+                  <div className="font-medium text-gray-900">{formatQuantity(detail.quantity)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Average cost</div>
+                  <div className="font-medium text-gray-900">{formatCurrency(detail.averageCost, detail.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Cost basis</div>
+                  <div className="font-medium text-gray-900">{formatCurrency(detail.costBasis, detail.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Market value</div>
+                  <div className="font-medium text-gray-900">{formatCurrency(detail.marketValue, detail.currency)}</div>
+                </div>
+              </div>
+
+              <Tabs defaultValue="trades" className="w-full">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="trades">Trades</TabsTrigger>
+                  <TabsTrigger value="prices">Prices</TabsTrigger>
+                  <TabsTrigger value="income">Income</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="trades" className="space-y-3">
+                  <form onSubmit={handleLotSubmit} className="space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={lotForm.kind} onValueChange={(value: InsertInvestmentLot["kind"]) => setLotForm({ ...lotForm, kind: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="buy">Buy</SelectItem>
+                          <SelectItem value="sell">Sell</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="date"
+                        value={lotForm.tradedAt}
+                        onChange={(e) => setLotForm({ ...lotForm, tradedAt: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        type="number"
+                        step="any"
+                        min="0"
+                        placeholder="Units"
+                        value={lotForm.quantity}
+                        onChange={(e) => setLotForm({ ...lotForm, quantity: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        step="any"
+                        min="0"
+                        placeholder="Price"
+                        value={lotForm.price}
+                        onChange={(e) => setLotForm({ ...lotForm, price: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Fees"
+                        value={lotForm.fees}
+                        onChange={(e) => setLotForm({ ...lotForm, fees: e.target.value })}
+                      />
+                    </div>
+                    <Button type="submit" className="w-full bg-primary text-white" disabled={addLotMutation.isPending}>
+                      {addLotMutation.isPending ? "Saving..." : lotForm.kind === "buy" ? "Record Purchase" : "Record Sale"}
+                    </Button>
+                  </form>
+                  {lots.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-2">No trades yet</p>
+                  ) : (
+                    <div className="divide-y divide-gray-100">
+                      {[...lots].reverse().map((lot) => (
+                        <div key={lot.id} className="py-2 flex items-center justify-between">
+                          <div>
+                            <div className="font-medium text-gray-900 text-sm">
+                              {lot.kind === "buy" ? "Bought" : "Sold"} {formatQuantity(parseFloat(lot.quantity))} @ {formatCurrency(parseFloat(lot.price), detail.currency)}
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {new Date(lot.tradedAt).toLocaleDateString()}
+                              {parseFloat(lot.fees) > 0 && ` • ${formatCurrency(parseFloat(lot.fees), detail.currency)} fees`}
+                            </p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteLotMutation.mutate({ id: lot.id, investmentId: lot.investmentId })}
+                            disabled={deleteLotMutation.isPending}
+                            className="p-1.5 text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="prices" className="space-y-3">
+                  <form onSubmit={handlePriceSubmit} className="space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="number"
+                        step="any"
+                        min="0"
+                        placeholder="Price per unit"
+                        value={priceForm.price}
+                        onChange={(e) => setPriceForm({ ...priceForm, price: e.target.value })}
+                      />
+                      <Input
+                        type="date"
+                        value={priceForm.pricedAt}
+                        onChange={(e) => setPriceForm({ ...priceForm, pricedAt: e.target.value })}
+                      />
+                    </div>
+                    <Button type="submit" className="w-full bg-primary text-white" disabled={addPriceMutation.isPending}>
+                      {addPriceMutation.isPending ? "Saving..." : "Add Price"}
+                    </Button>
+                  </form>
+                  {prices.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-2">No prices yet; the last trade price is used</p>
+                  ) : (
+                    <div className="divide-y divide-gray-100">
+                      {prices.map((price) => (
+                        <div key={price.id} className="py-2 flex items-center justify-between">
+                          <div>
+                            <div className="font-medium text-gray-900 text-sm">{formatCurrency(parseFloat(price.price), detail.currency)}</div>
+                            <p className="text-xs text-gray-500">{new Date(price.pricedAt).toLocaleDateString()}</p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deletePriceMutation.mutate({ id: price.id, investmentId: price.investmentId })}
+                            disabled={deletePriceMutation.isPending}
+                            className="p-1.5 text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="income" className="space-y-3">
+                  <form onSubmit={handleIncomeSubmit} className="space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={incomeForm.kind} onValueChange={(value) => setIncomeForm({ ...incomeForm, kind: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(incomeKindLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="date"
+                        value={incomeForm.date}
+                        onChange={(e) => setIncomeForm({ ...incomeForm, date: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder={`Amount (${detail.currency})`}
+                        value={incomeForm.amount}
+                        onChange={(e) => setIncomeForm({ ...incomeForm, amount: e.target.value })}
+                      />
+                      <Select value={incomeForm.accountId} onValueChange={(value) => setIncomeForm({ ...incomeForm, accountId: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Paid into" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No account</SelectItem>
+                          {accounts.filter(account => !account.isArchived).map((account) => (
+                            <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button type="submit" className="w-full bg-primary text-white" disabled={addIncomeMutation.isPending}>
+                      {addIncomeMutation.isPending ? "Saving..." : `Record ${incomeKindLabels[incomeForm.kind]}`}
+                    </Button>
+                  </form>
+                  {income.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-2">No dividends or coupons yet</p>
+                  ) : (
+                    <div className="divide-y divide-gray-100">
+                      {income.map((transaction) => (
+                        <div key={transaction.id} className="py-2 flex items-center justify-between">
+                          <div>
+                            <div className="font-medium text-gray-900 text-sm">{transaction.description}</div>
+                            <p className="text-xs text-gray-500">{new Date(transaction.date).toLocaleDateString()}</p>
+                          </div>
+                          <div className="font-semibold text-green-600 text-sm">
+                            +{formatCurrency(parseFloat(transaction.amount), transaction.currency)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
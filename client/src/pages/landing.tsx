@@ -1,8 +1,163 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+interface AuthConfig {
+  provider: "replit" | "local";
+  loginUrl: string;
+}
+
+type LocalAuthMode = "login" | "signup" | "forgot" | "reset";
+
+function LocalAuthForm() {
+  const resetToken = new URLSearchParams(window.location.search).get("resetToken");
+  const [mode, setMode] = useState<LocalAuthMode>(resetToken ? "reset" : "login");
+  const [username, setUsername] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+
+  const authMutation = useMutation({
+    mutationFn: async () => {
+      const response = mode === "signup"
+        ? await apiRequest("POST", "/api/auth/signup", { username, email, password })
+        : await apiRequest("POST", "/api/auth/login", { username, password });
+      return response.json() as Promise<{ upgraded?: boolean }>;
+    },
+    onSuccess: ({ upgraded }) => {
+      // Full reload so every query refetches as the signed-in user
+      window.location.href = upgraded === undefined ? "/" : `/?upgraded=${upgraded ? 1 : 0}`;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, mode === "signup" ? "Failed to create account" : "Failed to sign in"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/forgot-password", { username });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Reset link issued",
+        description: "Ask your administrator for the reset link from the server log",
+      });
+      setMode("login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to request a password reset"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/reset-password", { token: resetToken, password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Password updated. You can now sign in.",
+      });
+      window.history.replaceState(null, "", window.location.pathname);
+      setPassword("");
+      setMode("login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to reset password"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (mode === "forgot") forgotMutation.mutate();
+    else if (mode === "reset") resetMutation.mutate();
+    else authMutation.mutate();
+  };
+
+  const isPending = authMutation.isPending || forgotMutation.isPending || resetMutation.isPending;
+  const submitLabels: Record<LocalAuthMode, string> = {
+    login: "Sign In",
+    signup: "Create Account",
+    forgot: "Send Reset Link",
+    reset: "Set New Password",
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-left">
+      {mode !== "reset" && (
+        <div className="space-y-1">
+          <Label htmlFor="auth-username">{mode === "signup" ? "Username" : "Username or email"}</Label>
+          <Input id="auth-username" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} required />
+        </div>
+      )}
+      {mode === "signup" && (
+        <div className="space-y-1">
+          <Label htmlFor="auth-email">Email (optional)</Label>
+          <Input id="auth-email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+        </div>
+      )}
+      {mode !== "forgot" && (
+        <div className="space-y-1">
+          <Label htmlFor="auth-password">{mode === "reset" ? "New password" : "Password"}</Label>
+          <Input
+            id="auth-password"
+            type="password"
+            autoComplete={mode === "login" ? "current-password" : "new-password"}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        disabled={isPending}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-4 rounded-xl text-lg"
+      >
+        {isPending ? "Please wait..." : submitLabels[mode]}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        {mode === "login" ? (
+          <>
+            <button type="button" className="text-blue-600" onClick={() => setMode("signup")}>Create an account</button>
+            <button type="button" className="text-gray-500" onClick={() => setMode("forgot")}>Forgot password?</button>
+          </>
+        ) : (
+          <button type="button" className="text-blue-600" onClick={() => setMode("login")}>Back to sign in</button>
+        )}
+      </div>
+    </form>
+  );
+}
 
 export default function Landing() {
+  // Guests reach this page again when signing in to keep their data
+  const { isAuthenticated } = useAuth();
+  const { data: authConfig } = useQuery<AuthConfig>({
+    queryKey: ["/api/auth/config"],
+  });
+
   const handleLogin = () => {
-    window.location.href = "/api/login";
+    window.location.href = authConfig?.loginUrl ?? "/api/login";
   };
 
   return (
@@ -47,25 +202,33 @@ export default function Landing() {
 
         {/* Login Buttons */}
         <div className="space-y-3">
-          <Button 
-            onClick={handleLogin}
-            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-4 rounded-xl text-lg"
-          >
-            Get Started
-          </Button>
+          {authConfig?.provider === "local" ? (
+            <LocalAuthForm />
+          ) : (
+            <Button 
+              onClick={handleLogin}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-4 rounded-xl text-lg"
+            >
+              Get Started
+            </Button>
+          )}
           
-          <Button 
-            onClick={() => window.location.href = '/api/guest-login'}
-            variant="outline"
-            className="w-full border-2 border-blue-600 text-blue-600 hover:bg-blue-50 font-semibold py-4 rounded-xl text-lg"
-          >
-            Try as Guest
-          </Button>
+          {!isAuthenticated && (
+            <Button 
+              onClick={() => window.location.href = '/api/guest-login'}
+              variant="outline"
+              className="w-full border-2 border-blue-600 text-blue-600 hover:bg-blue-50 font-semibold py-4 rounded-xl text-lg"
+            >
+              Try as Guest
+            </Button>
+          )}
         </div>
 
-        <p className="text-sm text-gray-500 mt-4">
-          Secure login powered by Replit
-        </p>
+        {authConfig?.provider === "replit" && (
+          <p className="text-sm text-gray-500 mt-4">
+            Secure login powered by Replit
+          </p>
+        )}
       </div>
     </div>
   );
@@ -8,6 +8,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency } from "@/lib/currency";
 import { insertLoanSchema, type Loan, type InsertLoan } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useBaseCurrency } from "@/hooks/use-currency";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
 import { Button } from "@/components/ui/button";
@@ -18,10 +19,12 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import ProgressBar from "@/components/ui/progress-bar";
+import AttachmentList from "@/components/attachments/attachment-list";
 
 const loanFormSchema = z.object({
   name: z.string().min(1, "Loan name is required"),
   principal: z.string().min(1, "Principal amount is required"),
+  currency: z.string().length(3, "Use a three letter currency code"),
   interestRate: z.string().regex(/^\d*\.?\d*$/, "Must be a valid number"),
   interestType: z.string().default("compound"),
   termYears: z.string().default("0"),
@@ -78,6 +81,7 @@ export default function Loans() {
   const [editingLoan, setEditingLoan] = useState<Loan | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const baseCurrency = useBaseCurrency();
 
   const { data: loans = [], isLoading } = useQuery<Loan[]>({
     queryKey: ["/api/loans"],
@@ -88,6 +92,7 @@ export default function Loans() {
     defaultValues: {
       name: "",
       principal: "",
+      currency: baseCurrency,
       interestRate: "",
       interestType: "compound",
       termYears: "0",
@@ -165,6 +170,7 @@ export default function Loans() {
       name: data.name,
       principal: data.principal,
       currentBalance: data.principal, // Initialize with principal amount
+      currency: data.currency,
       interestRate: data.interestRate,
       interestType: data.interestType as "simple" | "compound",
       termMonths: (parseInt(data.termYears) || 0) * 12 + (parseInt(data.termMonths) || 0),
@@ -192,7 +198,7 @@ export default function Loans() {
     form.reset({
       name: loan.name,
       principal: loan.principal,
-
+      currency: loan.currency,
       interestRate: loan.interestRate || "",
       interestType: loan.interestType || "compound",
       termYears: termYears.toString(),
@@ -329,7 +335,7 @@ export default function Loans() {
                   name="principal"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Principal Amount (MWK) *</FormLabel>
+                      <FormLabel>Principal Amount *</FormLabel>
                       <FormControl>
                         <Input type="number" step="0.01" placeholder="0.00" {...field} />
                       </FormControl>
@@ -338,6 +344,20 @@ export default function Loans() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <Input maxLength={3} {...field} onChange={(e) => field.onChange(e.target.value.toUpperCase())} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -770,7 +790,7 @@ function LoanCard({
         <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
           <div>
             <p className="text-xs text-gray-500">Principal</p>
-            <p className="font-semibold">{formatCurrency(parseFloat(loan.principal))}</p>
+            <p className="font-semibold">{formatCurrency(parseFloat(loan.principal), loan.currency)}</p>
           </div>
           <div>
             <p className="text-xs text-gray-500">Remaining Balance</p>
@@ -778,10 +798,10 @@ function LoanCard({
               {(() => {
                 // Use dynamic currentBalance from progress API if available
                 if (progressData && (progressData as any).currentBalance !== undefined) {
-                  return formatCurrency((progressData as any).currentBalance);
+                  return formatCurrency((progressData as any).currentBalance, loan.currency);
                 }
                 // Fallback to stored currentBalance for loading states
-                return formatCurrency(parseFloat(loan.currentBalance));
+                return formatCurrency(parseFloat(loan.currentBalance), loan.currency);
               })()}
             </p>
           </div>
@@ -797,8 +817,8 @@ function LoanCard({
             </p>
             <p className="font-semibold">
               {loan.interestType === "simple" 
-                ? formatCurrency(getSuggestedPayment(loan))
-                : (loan.monthlyPayment ? formatCurrency(parseFloat(loan.monthlyPayment)) : "Not set")
+                ? formatCurrency(getSuggestedPayment(loan), loan.currency)
+                : (loan.monthlyPayment ? formatCurrency(parseFloat(loan.monthlyPayment), loan.currency) : "Not set")
               }
             </p>
           </div>
@@ -818,8 +838,8 @@ function LoanCard({
 
         <div className="space-y-3">
           <div className="flex justify-between text-sm">
-            <span className="text-gray-600">Total Interest: {formatCurrency(totalInterest)}</span>
-            <span className="text-gray-600">Interest Paid: {scheduledInterestPaid !== null ? formatCurrency(scheduledInterestPaid) : "Pending"}</span>
+            <span className="text-gray-600">Total Interest: {formatCurrency(totalInterest, loan.currency)}</span>
+            <span className="text-gray-600">Interest Paid: {scheduledInterestPaid !== null ? formatCurrency(scheduledInterestPaid, loan.currency) : "Pending"}</span>
           </div>
           
           <div className="space-y-3">
@@ -884,7 +904,7 @@ function LoanCard({
             </div>
             {loan.interestType === "compound" && (
               <p className="text-xs text-blue-600 mt-1">
-                Monthly Payment: {formatCurrency(parseFloat(loan.monthlyPayment || "0"))}
+                Monthly Payment: {formatCurrency(parseFloat(loan.monthlyPayment || "0"), loan.currency)}
               </p>
             )}
             {loan.interestType === "simple" && (
@@ -904,6 +924,10 @@ function LoanCard({
               </div>
             </div>
           )}
+
+          <div className="border-t border-gray-100 pt-3">
+            <AttachmentList url={`/api/loans/${loan.id}/attachments`} title="Documents" />
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -1,10 +1,42 @@
 import { Link } from "wouter";
-import { BarChart3, Settings, HelpCircle, Shield, CreditCard, Calendar } from "lucide-react";
+import { BarChart3, Settings, HelpCircle, Shield, CreditCard, Calendar, Repeat, Upload, Archive, Wallet, FolderTree, Wand2, Store, Coins, Home, LineChart } from "lucide-react";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
 import { Button } from "@/components/ui/button";
 
 const menuItems = [
+  {
+    path: "/accounts",
+    label: "Accounts",
+    description: "Cash, bank and mobile money balances",
+    icon: Wallet,
+    color: "bg-emerald-100",
+    iconColor: "text-emerald-600"
+  },
+  {
+    path: "/assets",
+    label: "Assets",
+    description: "Property, vehicles and livestock in your net worth",
+    icon: Home,
+    color: "bg-sky-100",
+    iconColor: "text-sky-600"
+  },
+  {
+    path: "/investments",
+    label: "Investments",
+    description: "Shares, treasury bills and unit trusts",
+    icon: LineChart,
+    color: "bg-violet-100",
+    iconColor: "text-violet-600"
+  },
+  {
+    path: "/currencies",
+    label: "Currencies",
+    description: "Base currency and exchange rates",
+    icon: Coins,
+    color: "bg-yellow-100",
+    iconColor: "text-yellow-600"
+  },
   {
     path: "/calendar",
     label: "Calendar",
@@ -13,6 +45,54 @@ const menuItems = [
     color: "bg-purple-100",
     iconColor: "text-purple-600"
   },
+  {
+    path: "/categories",
+    label: "Categories",
+    description: "Nest, rename and merge your categories",
+    icon: FolderTree,
+    color: "bg-pink-100",
+    iconColor: "text-pink-600"
+  },
+  {
+    path: "/rules",
+    label: "Rules",
+    description: "Categorize transactions automatically",
+    icon: Wand2,
+    color: "bg-amber-100",
+    iconColor: "text-amber-600"
+  },
+  {
+    path: "/payees",
+    label: "Payees",
+    description: "Shops and people you pay, with spending at each",
+    icon: Store,
+    color: "bg-lime-100",
+    iconColor: "text-lime-600"
+  },
+  {
+    path: "/recurring",
+    label: "Recurring",
+    description: "Schedule salary, rent and regular bills",
+    icon: Repeat,
+    color: "bg-orange-100",
+    iconColor: "text-orange-600"
+  },
+  {
+    path: "/import",
+    label: "Import Statement",
+    description: "Bring in transactions from bank or mobile money files",
+    icon: Upload,
+    color: "bg-teal-100",
+    iconColor: "text-teal-600"
+  },
+  {
+    path: "/backup",
+    label: "Backup & Restore",
+    description: "Download or restore all of your data",
+    icon: Archive,
+    color: "bg-indigo-100",
+    iconColor: "text-indigo-600"
+  },
   {
     path: "/reports",
     label: "Reports",
@@ -25,11 +105,10 @@ const menuItems = [
   {
     path: "/settings",
     label: "Settings",
-    description: "Manage app preferences and account",
+    description: "Currency, number format, budget month and theme",
     icon: Settings,
     color: "bg-gray-100",
-    iconColor: "text-gray-600",
-    disabled: true
+    iconColor: "text-gray-600"
   },
   {
     path: "/help",
@@ -0,0 +1,240 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams, useLocation, Link } from "wouter";
+import { ArrowLeft, Pencil, Trash2 } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { usePayees } from "@/hooks/use-payees";
+import { useTransactions } from "@/hooks/use-transactions";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import type { Payee } from "@shared/schema";
+
+interface PayeeStats {
+  transactionCount: number;
+  totalSpent: number;
+  totalReceived: number;
+  averageTicket: number;
+  visitsPerMonth: number;
+  firstVisit: string | null;
+  lastVisit: string | null;
+  trend: Array<{ month: string; spent: number; visits: number }>;
+}
+
+const monthLabel = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString("en-GB", { month: "short" });
+
+export default function PayeeDetail() {
+  const params = useParams<{ id: string }>();
+  const payeeId = parseInt(params.id);
+  const [, setLocation] = useLocation();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState("");
+  const { data: payees = [] } = usePayees();
+  const { data: transactions = [] } = useTransactions();
+  const { data: stats } = useQuery<PayeeStats>({
+    queryKey: [`/api/payees/${payeeId}/stats`],
+  });
+  const { toast } = useToast();
+
+  const payee = payees.find(p => p.id === payeeId);
+  const payeeTransactions = useMemo(
+    () => transactions
+      .filter(t => t.payeeId === payeeId)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [transactions, payeeId]
+  );
+  const highestMonth = Math.max(1, ...(stats?.trend ?? []).map(point => point.spent));
+
+  const invalidatePayeeQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payees"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payees/suggestions"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/payees/${payeeId}/stats`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  };
+
+  const updatePayeeMutation = useMutation({
+    mutationFn: async (updates: { name: string; aliases: string[] }) => {
+      const response = await apiRequest("PUT", `/api/payees/${payeeId}`, updates);
+      return response.json() as Promise<{ payee: Payee; linked: number }>;
+    },
+    onSuccess: (data) => {
+      invalidatePayeeQueries();
+      toast({
+        title: "Success",
+        description: data.linked > 0
+          ? `Payee updated and linked to ${data.linked} more transaction${data.linked === 1 ? "" : "s"}`
+          : "Payee updated successfully",
+      });
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to update payee"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePayeeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/payees/${payeeId}`);
+    },
+    onSuccess: () => {
+      invalidatePayeeQueries();
+      toast({
+        title: "Success",
+        description: "Payee deleted. Its transactions are kept.",
+      });
+      setLocation("/payees");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete payee",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = () => {
+    if (!payee) return;
+    setName(payee.name);
+    setAliases(payee.aliases.join(", "));
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    updatePayeeMutation.mutate({
+      name: name.trim(),
+      aliases: aliases.split(",").map(alias => alias.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title={payee?.name ?? "Payee"} subtitle={payee && payee.aliases.length > 0 ? `Also ${payee.aliases.join(", ")}` : "Payee"} />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <div className="flex items-center justify-between">
+          <Link href="/payees">
+            <button className="text-primary text-sm font-medium flex items-center">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Payees
+            </button>
+          </Link>
+          <div className="flex items-center space-x-1">
+            <Button variant="ghost" size="sm" onClick={openForm} disabled={!payee} className="p-1.5 text-blue-600 hover:bg-blue-50">
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deletePayeeMutation.mutate()}
+              disabled={!payee || deletePayeeMutation.isPending}
+              className="p-1.5 text-red-600 hover:bg-red-50"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+
+        {stats && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-white rounded-xl p-4 border border-gray-100">
+                <div className="text-xs text-gray-500">Total spent</div>
+                <div className="text-lg font-semibold text-gray-900">{formatCurrency(stats.totalSpent)}</div>
+              </div>
+              <div className="bg-white rounded-xl p-4 border border-gray-100">
+                <div className="text-xs text-gray-500">Average ticket</div>
+                <div className="text-lg font-semibold text-gray-900">{formatCurrency(stats.averageTicket)}</div>
+              </div>
+              <div className="bg-white rounded-xl p-4 border border-gray-100">
+                <div className="text-xs text-gray-500">Visits a month</div>
+                <div className="text-lg font-semibold text-gray-900">{stats.visitsPerMonth}</div>
+              </div>
+              <div className="bg-white rounded-xl p-4 border border-gray-100">
+                <div className="text-xs text-gray-500">Last visit</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {stats.lastVisit ? new Date(stats.lastVisit).toLocaleDateString() : "—"}
+                </div>
+              </div>
+            </div>
+
+            {stats.totalReceived > 0 && (
+              <p className="text-xs text-gray-500">You also received {formatCurrency(stats.totalReceived)} from this payee.</p>
+            )}
+
+            <div className="bg-white rounded-xl p-4 border border-gray-100">
+              <h3 className="font-semibold text-gray-900 mb-3">Last 6 months</h3>
+              <div className="flex items-end justify-between h-28 gap-2">
+                {stats.trend.map((point) => (
+                  <div key={point.month} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <div
+                      className="w-full bg-primary rounded-t"
+                      style={{ height: `${(point.spent / highestMonth) * 100}%` }}
+                      title={`${formatCurrency(point.spent)} over ${point.visits} visit${point.visits === 1 ? "" : "s"}`}
+                    />
+                    <div className="text-[10px] text-gray-500 mt-1">{monthLabel(point.month)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="bg-white rounded-xl p-4 border border-gray-100">
+          <h3 className="font-semibold text-gray-900 mb-2">Transactions</h3>
+          {payeeTransactions.length === 0 ? (
+            <p className="text-sm text-gray-500">No transactions are linked to this payee yet</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {payeeTransactions.slice(0, 20).map((transaction) => (
+                <div key={transaction.id} className="flex items-center justify-between py-2">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900 truncate">{transaction.description}</div>
+                    <div className="text-xs text-gray-500">{new Date(transaction.date).toLocaleDateString()}</div>
+                  </div>
+                  <span className="text-sm font-medium text-gray-900 flex-shrink-0">{formatCurrency(parseFloat(transaction.amount), transaction.currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Edit Payee</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="payee-name">Name</Label>
+              <Input id="payee-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payee-aliases">Also appears as</Label>
+              <Input id="payee-aliases" value={aliases} onChange={(e) => setAliases(e.target.value)} />
+              <p className="text-xs text-gray-500">Separate names with commas. Transactions without a payee that mention a new name are linked.</p>
+            </div>
+            <Button type="submit" className="w-full" disabled={updatePayeeMutation.isPending}>
+              {updatePayeeMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
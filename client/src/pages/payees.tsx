@@ -0,0 +1,203 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Plus, Store, ChevronRight } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { usePayees } from "@/hooks/use-payees";
+import { useTransactions } from "@/hooks/use-transactions";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import type { Payee } from "@shared/schema";
+
+const SPENDING_TYPES = ["expense", "loan_repayment"];
+
+interface PayeeSuggestion {
+  name: string;
+  transactionCount: number;
+  totalSpent: number;
+}
+
+// Aliases are typed as one comma separated list
+const parseAliases = (text: string) => text.split(",").map(alias => alias.trim()).filter(Boolean);
+
+export default function Payees() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState("");
+  const { data: payees = [], isLoading } = usePayees();
+  const { data: transactions = [] } = useTransactions();
+  const { data: suggestions = [] } = useQuery<PayeeSuggestion[]>({
+    queryKey: ["/api/payees/suggestions"],
+  });
+  const { toast } = useToast();
+
+  const spentByPayee = useMemo(() => {
+    const totals = new Map<number, { spent: number; count: number }>();
+    for (const transaction of transactions) {
+      if (transaction.payeeId == null) continue;
+      const total = totals.get(transaction.payeeId) ?? { spent: 0, count: 0 };
+      total.count++;
+      if (SPENDING_TYPES.includes(transaction.type)) total.spent += parseFloat(transaction.amount);
+      totals.set(transaction.payeeId, total);
+    }
+    return totals;
+  }, [transactions]);
+
+  const createPayeeMutation = useMutation({
+    mutationFn: async (payee: { name: string; aliases: string[] }) => {
+      const response = await apiRequest("POST", "/api/payees", payee);
+      return response.json() as Promise<{ payee: Payee; linked: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payees/suggestions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Success",
+        description: data.linked > 0
+          ? `${data.payee.name} added and linked to ${data.linked} transaction${data.linked === 1 ? "" : "s"}`
+          : `${data.payee.name} added`,
+      });
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to add payee"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (suggestedName = "") => {
+    setName(suggestedName);
+    setAliases("");
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter a name",
+        variant: "destructive",
+      });
+      return;
+    }
+    createPayeeMutation.mutate({ name: name.trim(), aliases: parseAliases(aliases) });
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Payees" subtitle="Where your money goes" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <Button onClick={() => openForm()} className="w-full bg-primary text-white">
+          <Plus className="h-4 w-4 mr-2" />
+          New Payee
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : payees.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-100 text-center">
+            <Store className="h-10 w-10 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No payees yet</h3>
+            <p className="text-gray-500">Add the shops and people you pay, and transactions that mention them are linked for you</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {payees.map((payee) => {
+              const total = spentByPayee.get(payee.id);
+              return (
+                <Link key={payee.id} href={`/payees/${payee.id}`}>
+                  <div className="bg-white rounded-xl p-4 border border-gray-100 flex items-center justify-between cursor-pointer hover:bg-gray-50">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{payee.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {total?.count ?? 0} transaction{total?.count === 1 ? "" : "s"}
+                        {payee.aliases.length > 0 && ` • also ${payee.aliases.join(", ")}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <span className="text-sm font-semibold text-gray-900">{formatCurrency(total?.spent ?? 0)}</span>
+                      <ChevronRight className="h-4 w-4 text-gray-400" />
+                    </div>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-2">
+            <h3 className="font-semibold text-gray-900">Suggested payees</h3>
+            <p className="text-xs text-gray-500">Names that keep turning up in transactions without a payee</p>
+            {suggestions.map((suggestion) => (
+              <div key={suggestion.name} className="flex items-center justify-between">
+                <div>
+                  <div className="text-sm text-gray-900">{suggestion.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {suggestion.transactionCount} transactions • {formatCurrency(suggestion.totalSpent)}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => openForm(suggestion.name)}>
+                  Add
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New Payee</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="payee-name">Name</Label>
+              <Input
+                id="payee-name"
+                placeholder="e.g. Shoprite"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payee-aliases">Also appears as</Label>
+              <Input
+                id="payee-aliases"
+                placeholder="e.g. SHOPRITE LL, SR Area 3"
+                value={aliases}
+                onChange={(e) => setAliases(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Separate names with commas. Transactions whose description contains any of them are linked.</p>
+            </div>
+            <Button type="submit" className="w-full" disabled={createPayeeMutation.isPending}>
+              {createPayeeMutation.isPending ? "Saving..." : "Add Payee"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
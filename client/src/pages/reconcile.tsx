@@ -0,0 +1,247 @@
+import { useState, useMemo } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { ArrowLeft, Lock, Unlock } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useTransactions } from "@/hooks/use-transactions";
+import { useBaseCurrency, useCurrencyConverter } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import { convertTransaction } from "@shared/currency-conversion";
+import type { Reconciliation, Transaction } from "@shared/schema";
+
+const INFLOW_TYPES = ["income", "savings_withdrawal", "loan_received"];
+
+// Same rule as the server: transfers leave the source account and land in the destination
+const balanceChange = (transaction: Transaction, accountId: number) => {
+  const amount = parseFloat(transaction.amount);
+  if (transaction.type === "transfer") {
+    return (transaction.toAccountId === accountId ? amount : 0) - (transaction.accountId === accountId ? amount : 0);
+  }
+  if (transaction.accountId !== accountId) return 0;
+  return INFLOW_TYPES.includes(transaction.type) ? amount : -amount;
+};
+
+export default function Reconcile() {
+  const params = useParams<{ id: string }>();
+  const accountId = parseInt(params.id);
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [statementBalance, setStatementBalance] = useState("");
+  const [ticked, setTicked] = useState<Set<number>>(new Set());
+  const { data: accounts = [] } = useAccounts();
+  const { data: transactions = [] } = useTransactions();
+  const { data: reconciliations = [] } = useQuery<Reconciliation[]>({
+    queryKey: [`/api/accounts/${accountId}/reconciliations`],
+  });
+  const baseCurrency = useBaseCurrency();
+  const converter = useCurrencyConverter();
+  const { toast } = useToast();
+
+  const account = accounts.find(a => a.id === accountId);
+  const currency = account?.currency ?? baseCurrency;
+
+  // In the account's own currency, the way the statement shows them
+  const accountTransactions = useMemo(
+    () => transactions
+      .filter(t => t.accountId === accountId || t.toAccountId === accountId)
+      .map(t => convertTransaction(t, currency, converter)),
+    [transactions, accountId, currency, converter]
+  );
+
+  const endOfStatement = new Date(`${statementDate}T23:59:59.999`);
+  const openTransactions = accountTransactions.filter(t => t.reconciliationId == null && new Date(t.date) <= endOfStatement);
+
+  const clearedBalance = accountTransactions
+    .filter(t => t.reconciliationId != null || ticked.has(t.id))
+    .reduce((sum, t) => sum + balanceChange(t, accountId), parseFloat(account?.openingBalance ?? "0"));
+  const difference = Math.round(((parseFloat(statementBalance) || 0) - clearedBalance) * 100) / 100;
+
+  const latestActive = reconciliations.find(r => !r.reopenedAt);
+
+  const invalidateReconciliationQueries = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/accounts/${accountId}/reconciliations`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  };
+
+  const toggle = (id: number) => {
+    const next = new Set(ticked);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setTicked(next);
+  };
+
+  const finishMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/accounts/${accountId}/reconciliations`, {
+        statementDate,
+        statementBalance,
+        transactionIds: Array.from(ticked).filter(id => openTransactions.some(t => t.id === id)),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateReconciliationQueries();
+      setTicked(new Set());
+      setStatementBalance("");
+      toast({
+        title: "Success",
+        description: "Account reconciled and transactions locked",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reconcile account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/reconciliations/${id}/reopen`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateReconciliationQueries();
+      toast({
+        title: "Success",
+        description: "Reconciliation reopened; its transactions can be changed again",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reopen reconciliation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Reconcile" subtitle={account?.name ?? "Account"} />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <Link href="/accounts">
+          <button className="text-primary text-sm font-medium flex items-center">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Accounts
+          </button>
+        </Link>
+
+        {/* Statement */}
+        <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+          <h3 className="font-semibold text-gray-900">Statement</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="statement-date">End Date</Label>
+              <Input id="statement-date" type="date" value={statementDate} onChange={(e) => setStatementDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statement-balance">Closing Balance</Label>
+              <Input
+                id="statement-balance"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <div className="text-gray-500">Cleared Balance</div>
+              <div className="font-semibold text-gray-900">{formatCurrency(clearedBalance, currency)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Difference</div>
+              <div className={`font-semibold ${difference === 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatCurrency(difference, currency)}
+              </div>
+            </div>
+          </div>
+          <Button
+            onClick={() => finishMutation.mutate()}
+            disabled={!statementBalance || difference !== 0 || finishMutation.isPending}
+            className="w-full bg-primary text-white"
+          >
+            <Lock className="h-4 w-4 mr-2" />
+            {finishMutation.isPending ? "Reconciling..." : "Finish & Lock"}
+          </Button>
+        </div>
+
+        {/* Unreconciled transactions up to the statement date */}
+        <section className="space-y-2">
+          <h3 className="font-semibold text-gray-900">Tick off matching transactions</h3>
+          {openTransactions.length === 0 ? (
+            <div className="bg-white rounded-xl p-6 border border-gray-100 text-center">
+              <p className="text-gray-500">No unreconciled transactions up to this date</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+              {openTransactions.map((transaction) => {
+                const change = balanceChange(transaction, accountId);
+                return (
+                  <label key={transaction.id} className="p-3 flex items-center justify-between gap-3 cursor-pointer">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <Checkbox checked={ticked.has(transaction.id)} onCheckedChange={() => toggle(transaction.id)} />
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 truncate">{transaction.description}</div>
+                        <div className="text-xs text-gray-500">{new Date(transaction.date).toLocaleDateString()}</div>
+                      </div>
+                    </div>
+                    <div className={`font-semibold text-sm whitespace-nowrap ${change >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {change >= 0 ? "+" : "-"}{formatCurrency(Math.abs(change), currency)}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </section>
+
+        {/* History */}
+        {reconciliations.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Past Statements</h3>
+            <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+              {reconciliations.map((reconciliation) => (
+                <div key={reconciliation.id} className={`p-3 flex items-center justify-between ${reconciliation.reopenedAt ? "opacity-60" : ""}`}>
+                  <div>
+                    <div className="font-medium text-gray-900">{new Date(reconciliation.statementDate).toLocaleDateString()}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatCurrency(parseFloat(reconciliation.statementBalance), currency)}
+                      {reconciliation.reopenedAt && " • Reopened"}
+                    </div>
+                  </div>
+                  {reconciliation.id === latestActive?.id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => reopenMutation.mutate(reconciliation.id)}
+                      disabled={reopenMutation.isPending}
+                    >
+                      <Unlock className="h-3.5 w-3.5 mr-1" />
+                      Reopen
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      <BottomNavigation />
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Pause, Play, Repeat } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import TransactionModal from "@/components/modals/transaction-modal";
+import { Button } from "@/components/ui/button";
+import { useRecurringTransactions } from "@/hooks/use-recurring";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import type { RecurringTransaction } from "@shared/schema";
+
+const frequencyLabels: Record<string, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+export default function Recurring() {
+  const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
+  const { data: rules = [], isLoading } = useRecurringTransactions();
+  const { toast } = useToast();
+
+  const invalidateRecurringQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+  };
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/recurring/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: (_, { isActive }) => {
+      invalidateRecurringQueries();
+      toast({
+        title: "Success",
+        description: isActive ? "Recurring transaction resumed" : "Recurring transaction paused",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update recurring transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/recurring/${id}`);
+    },
+    onSuccess: () => {
+      invalidateRecurringQueries();
+      toast({
+        title: "Success",
+        description: "Recurring transaction deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete recurring transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getFrequencyLabel = (rule: RecurringTransaction) => {
+    if (rule.frequency === "custom") {
+      return `Every ${rule.intervalDays} day${rule.intervalDays === 1 ? "" : "s"}`;
+    }
+    return frequencyLabels[rule.frequency] || rule.frequency;
+  };
+
+  const getEndLabel = (rule: RecurringTransaction) => {
+    if (rule.endType === "on_date" && rule.endDate) {
+      return `Until ${new Date(rule.endDate).toLocaleDateString()}`;
+    }
+    if (rule.endType === "after_occurrences") {
+      return `${rule.occurrenceCount} of ${rule.maxOccurrences} recorded`;
+    }
+    return "No end date";
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Recurring" subtitle="Scheduled transactions" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <Button
+          onClick={() => setIsTransactionModalOpen(true)}
+          className="w-full bg-primary text-white py-3"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Recurring Transaction
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-100 text-center">
+            <div className="text-4xl mb-4">🔁</div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No recurring transactions</h3>
+            <p className="text-gray-500">
+              Schedule salary, rent and bills once and they will be recorded automatically
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => {
+              const isIncome = rule.template.type === "income" || rule.template.type === "savings_withdrawal";
+              const hasEnded = !rule.isActive && !rule.nextRunDate;
+
+              return (
+                <div key={rule.id} className={`bg-white rounded-xl p-4 border border-gray-100 ${rule.isActive ? "" : "opacity-60"}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex items-start space-x-3 flex-1 min-w-0">
+                      <div className={`w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${isIncome ? "bg-green-100" : "bg-red-100"}`}>
+                        <Repeat className={`h-4 w-4 ${isIncome ? "text-green-600" : "text-red-600"}`} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium text-gray-900 mb-1 leading-snug">{rule.template.description}</h3>
+                        <p className="text-xs text-gray-500 capitalize">
+                          {getFrequencyLabel(rule)} • {rule.template.category.replace('_', ' ')}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {hasEnded
+                            ? "Ended"
+                            : !rule.isActive
+                            ? "Paused"
+                            : rule.nextRunDate && `Next: ${new Date(rule.nextRunDate).toLocaleDateString()}`}
+                          {" • "}{getEndLabel(rule)}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col items-end space-y-2 flex-shrink-0">
+                      <div className="flex items-center space-x-1">
+                        {!hasEnded && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleActiveMutation.mutate({ id: rule.id, isActive: !rule.isActive })}
+                            disabled={toggleActiveMutation.isPending}
+                            className="p-1.5 text-blue-600 hover:bg-blue-50"
+                          >
+                            {rule.isActive ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteRuleMutation.mutate(rule.id)}
+                          disabled={deleteRuleMutation.isPending}
+                          className="p-1.5 text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                      <div className={`font-semibold text-right whitespace-nowrap text-sm ${isIncome ? "text-green-600" : "text-red-600"}`}>
+                        {isIncome ? "+" : "-"}
+                        {formatCurrency(parseFloat(rule.template.amount), rule.template.currency)}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <TransactionModal
+        isOpen={isTransactionModalOpen}
+        onClose={() => setIsTransactionModalOpen(false)}
+        defaultRepeat="monthly"
+      />
+    </div>
+  );
+}
@@ -1,18 +1,28 @@
 import React, { useState, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { TrendingUp, TrendingDown, PieChart, BarChart3, Calendar, Download } from "lucide-react";
+import { Link } from "wouter";
+import { TrendingUp, TrendingDown, PieChart, BarChart3, Calendar, Download, Store, Tag, AlertTriangle } from "lucide-react";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
 import StatCard from "@/components/ui/stat-card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useTransactions } from "@/hooks/use-transactions";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useBaseTransactions, useCurrencyConverter } from "@/hooks/use-currency";
 import { useGoals } from "@/hooks/use-goals";
 
 import { useBudgets } from "@/hooks/use-budgets";
+import { useCategoryList } from "@/hooks/use-categories";
+import { usePayees } from "@/hooks/use-payees";
+import { useSettings } from "@/hooks/use-settings";
 import { formatCurrency } from "@/lib/currency";
 import jsPDF from "jspdf";
+import { getCategoryAmount, getCategoryAmounts } from "@shared/transaction-splits";
+import { formatCategoryValue, getRootCategoryValue } from "@shared/categories";
+import { getTagTotals } from "@shared/tags";
+import { getFinancialMonth, getFinancialMonthKey, getFinancialWeek, isCalendarMonth } from "@shared/financial-period";
 import type { Transaction } from "@shared/schema";
 
 interface FinancialSummary {
@@ -21,55 +31,66 @@ interface FinancialSummary {
   monthlyExpenses: number;
   totalSavings: number;
   totalDebt: number;
+  missingRates: string[];
 }
 
+// YYYY-MM-DD in local time, so a period starting at midnight stays on its own day
+const formatDateForInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
 export default function Reports() {
-  const [startDate, setStartDate] = useState(() => {
-    const date = new Date();
-    date.setMonth(date.getMonth() - 1);
-    return date.toISOString().split('T')[0];
-  });
+  const { settings } = useSettings();
+
+  // Reports open on the current budget month
+  const [startDate, setStartDate] = useState(() => formatDateForInput(getFinancialMonth(new Date(), settings).start));
   
-  const [endDate, setEndDate] = useState(() => {
-    return new Date().toISOString().split('T')[0];
-  });
+  const [endDate, setEndDate] = useState(() => formatDateForInput(getFinancialMonth(new Date(), settings).end));
   
-  const [reportPeriod, setReportPeriod] = useState("custom");
+  const [reportPeriod, setReportPeriod] = useState("month");
+  const [rollUpSubcategories, setRollUpSubcategories] = useState(false);
 
   const { data: financialSummary } = useQuery<FinancialSummary>({
     queryKey: ["/api/financial-summary"],
   });
 
-  const { data: allTransactions = [] } = useTransactions();
+  // Everything on this page adds amounts up, so transactions come in the base currency
+  const { data: allTransactions } = useBaseTransactions();
+  const converter = useCurrencyConverter();
   const { data: goals = [] } = useGoals();
 
   const { data: budgets = [] } = useBudgets();
+  const { data: categories = [] } = useCategoryList();
+  const { data: payees = [] } = usePayees();
 
-  // Handle preset period selection
+  // Handle preset period selection. Months are budget months, so with payday months "This month" runs from
+  // the last payday to the day before the next one.
   const handlePeriodChange = (period: string) => {
     setReportPeriod(period);
     const today = new Date();
-    const start = new Date();
+    const thisMonth = getFinancialMonth(today, settings);
+    let range = thisMonth;
     
     switch (period) {
       case "week":
-        start.setDate(today.getDate() - 7);
+        range = getFinancialWeek(today, settings.firstDayOfWeek);
         break;
       case "month":
-        start.setMonth(today.getMonth() - 1);
+        break;
+      case "last_month":
+        range = getFinancialMonth(today, settings, -1);
         break;
       case "quarter":
-        start.setMonth(today.getMonth() - 3);
+        range = { start: getFinancialMonth(today, settings, -2).start, end: thisMonth.end };
         break;
       case "year":
-        start.setFullYear(today.getFullYear() - 1);
+        range = { start: getFinancialMonth(today, settings, -11).start, end: thisMonth.end };
         break;
       case "custom":
         return; // Don't change dates for custom
     }
     
-    setStartDate(start.toISOString().split('T')[0]);
-    setEndDate(today.toISOString().split('T')[0]);
+    setStartDate(formatDateForInput(range.start));
+    setEndDate(formatDateForInput(range.end));
   };
 
   // Filter transactions based on selected date range
@@ -122,8 +143,8 @@ export default function Reports() {
         return total;
       }, 0);
       
-      const currentAmount = parseFloat(goal.currentAmount || "0") + transactionTotal;
-      const targetAmount = parseFloat(goal.targetAmount);
+      const currentAmount = converter.toBase(parseFloat(goal.currentAmount || "0"), goal.currency, end) + transactionTotal;
+      const targetAmount = converter.toBase(parseFloat(goal.targetAmount), goal.currency, end);
       const progress = targetAmount > 0 ? (currentAmount / targetAmount) * 100 : 0;
       
       if (progress >= 100) {
@@ -148,14 +169,14 @@ export default function Reports() {
         
         const categoryTransactions = transactions.filter(t => {
           const transactionDate = new Date(t.date);
-          return t.category === budget.category && 
+          return getCategoryAmount(t, budget.category) > 0 &&
                  t.type === "expense" &&
                  transactionDate >= periodStart &&
                  transactionDate <= periodEnd;
         });
 
         const totalSpent = categoryTransactions.reduce((total, transaction) => {
-          return total + parseFloat(transaction.amount);
+          return total + getCategoryAmount(transaction, budget.category);
         }, 0);
 
         const budgetAmount = parseFloat(budget.amount);
@@ -181,14 +202,17 @@ export default function Reports() {
         total: budgets.length
       }
     };
-  }, [transactions, goals, budgets, startDate, endDate]);
+  }, [transactions, goals, budgets, startDate, endDate, converter]);
 
-  // Calculate category spending
+  // Calculate category spending; split transactions count each line under its own category, and subcategories
+  // count under their top-level category when rolled up
   const categorySpending = transactions
     .filter(t => t.type === "expense")
     .reduce((acc, transaction) => {
-      const category = transaction.category;
-      acc[category] = (acc[category] || 0) + parseFloat(transaction.amount);
+      for (const { category: value, amount } of getCategoryAmounts(transaction)) {
+        const category = rollUpSubcategories ? getRootCategoryValue(categories, value) : value;
+        acc[category] = (acc[category] || 0) + amount;
+      }
       return acc;
     }, {} as Record<string, number>);
 
@@ -196,10 +220,25 @@ export default function Reports() {
     .sort(([, a], [, b]) => b - a)
     .slice(0, 5);
 
-  // Calculate monthly trends
+  // Spending and visits per payee over the period; transactions without a payee are left out
+  const topPayees = Object.entries(transactions
+    .filter(t => t.payeeId != null && (t.type === "expense" || t.type === "loan_repayment"))
+    .reduce((acc, transaction) => {
+      const total = acc[transaction.payeeId!] ?? { amount: 0, visits: 0 };
+      acc[transaction.payeeId!] = { amount: total.amount + parseFloat(transaction.amount), visits: total.visits + 1 };
+      return acc;
+    }, {} as Record<number, { amount: number; visits: number }>))
+    .map(([payeeId, total]) => ({ payee: payees.find(p => p.id === parseInt(payeeId)), ...total }))
+    .filter(row => row.payee)
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, 5);
+
+  // Totals per tag over the period
+  const tagTotals = getTagTotals(transactions);
+
+  // Calculate monthly trends, one entry per budget month
   const monthlyData = transactions.reduce((acc, transaction) => {
-    const date = new Date(transaction.date);
-    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const monthKey = getFinancialMonthKey(new Date(transaction.date), settings);
     
     if (!acc[monthKey]) {
       acc[monthKey] = { income: 0, expenses: 0 };
@@ -219,23 +258,22 @@ export default function Reports() {
     .slice(-6); // Last 6 months
 
   const getCategoryIcon = (category: string) => {
-    const icons: Record<string, string> = {
-      food: "🍽️",
-      transportation: "🚗",
-      shopping: "🛍️",
-      entertainment: "🎬",
-      bills: "📄",
-      healthcare: "🏥",
-      education: "📚",
-      other: "📝",
-    };
-    return icons[category] || "📝";
+    return categories.find(c => c.value === category)?.icon ?? "📝";
+  };
+
+  const getCategoryName = (category: string) => {
+    return categories.find(c => c.value === category)?.name ?? formatCategoryValue(category);
   };
 
+  // Budget months that are not calendar months are named by their dates, e.g. "25 Sep - 24 Oct 2026"
   const getMonthName = (monthKey: string) => {
     const [year, month] = monthKey.split('-');
-    const date = new Date(parseInt(year), parseInt(month) - 1);
-    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+    const date = new Date(parseInt(year), parseInt(month) - 1, settings.budgetMonthStartDay);
+    if (isCalendarMonth(settings)) {
+      return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+    }
+    const { start, end } = getFinancialMonth(date, settings);
+    return `${start.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })} - ${end.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`;
   };
 
   // Generate PDF report
@@ -300,7 +338,23 @@ export default function Reports() {
       topCategories.forEach(([category, amount]) => {
         const totalExpenses = Object.values(categorySpending).reduce((sum, val) => sum + val, 0);
         const percentage = totalExpenses > 0 ? (amount / totalExpenses) * 100 : 0;
-        yPosition = addText(`${category.replace('_', ' ')}: ${formatCurrency(amount)} (${percentage.toFixed(1)}%)`, 20, yPosition);
+        yPosition = addText(`${getCategoryName(category)}: ${formatCurrency(amount)} (${percentage.toFixed(1)}%)`, 20, yPosition);
+      });
+      yPosition += 10;
+    }
+
+    // Tag Totals
+    if (tagTotals.length > 0) {
+      pdf.setFontSize(16);
+      pdf.setFont("helvetica", "bold");
+      yPosition = addText("Spending by Tag", 20, yPosition);
+      yPosition += 5;
+
+      pdf.setFontSize(11);
+      pdf.setFont("helvetica", "normal");
+      tagTotals.forEach(({ tag, count, spent, received }) => {
+        const receivedText = received > 0 ? `, received ${formatCurrency(received)}` : "";
+        yPosition = addText(`#${tag}: spent ${formatCurrency(spent)}${receivedText} (${count} transaction${count === 1 ? "" : "s"})`, 20, yPosition);
       });
       yPosition += 10;
     }
@@ -343,7 +397,7 @@ export default function Reports() {
         const current = parseFloat(goal.currentAmount || "0");
         const target = parseFloat(goal.targetAmount);
         const progress = target > 0 ? (current / target) * 100 : 0;
-        yPosition = addText(`${goal.name}: ${formatCurrency(current)} / ${formatCurrency(target)} (${progress.toFixed(1)}%)`, 20, yPosition);
+        yPosition = addText(`${goal.name}: ${formatCurrency(current, goal.currency)} / ${formatCurrency(target, goal.currency)} (${progress.toFixed(1)}%)`, 20, yPosition);
       });
       yPosition += 10;
     }
@@ -385,10 +439,11 @@ export default function Reports() {
                 <SelectValue placeholder="Select period" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="week">Last 7 days</SelectItem>
-                <SelectItem value="month">Last 30 days</SelectItem>
+                <SelectItem value="week">This week</SelectItem>
+                <SelectItem value="month">This month</SelectItem>
+                <SelectItem value="last_month">Last month</SelectItem>
                 <SelectItem value="quarter">Last 3 months</SelectItem>
-                <SelectItem value="year">Last year</SelectItem>
+                <SelectItem value="year">Last 12 months</SelectItem>
                 <SelectItem value="custom">Custom range</SelectItem>
               </SelectContent>
             </Select>
@@ -529,11 +584,26 @@ export default function Reports() {
               iconBg="bg-red-100"
             />
           </div>
+
+          {financialSummary && financialSummary.missingRates.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 flex items-start space-x-2">
+              <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+              <p className="text-xs text-amber-800">
+                No exchange rate for {financialSummary.missingRates.join(", ")}, so those amounts are counted one to one.
+              </p>
+            </div>
+          )}
         </section>
 
         {/* Spending by Category */}
         <section className="space-y-4">
-          <h2 className="text-lg font-semibold text-gray-900">Top Spending Categories</h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Top Spending Categories</h2>
+            <div className="flex items-center space-x-2">
+              <Switch id="roll-up-subcategories" checked={rollUpSubcategories} onCheckedChange={setRollUpSubcategories} />
+              <Label htmlFor="roll-up-subcategories" className="text-xs text-gray-600">Roll up</Label>
+            </div>
+          </div>
           
           {topCategories.length === 0 ? (
             <div className="bg-white rounded-xl p-6 border border-gray-100 text-center">
@@ -554,8 +624,8 @@ export default function Reports() {
                         <span className="text-sm">{getCategoryIcon(category)}</span>
                       </div>
                       <div>
-                        <h3 className="font-medium text-gray-900 capitalize">
-                          {category.replace('_', ' ')}
+                        <h3 className="font-medium text-gray-900">
+                          {getCategoryName(category)}
                         </h3>
                         <p className="text-xs text-gray-500">
                           {percentage.toFixed(1)}% of total spending
@@ -574,6 +644,63 @@ export default function Reports() {
           )}
         </section>
 
+        {/* Spending by Tag */}
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Spending by Tag</h2>
+
+          {tagTotals.length === 0 ? (
+            <div className="bg-white rounded-xl p-6 border border-gray-100 text-center">
+              <Tag className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-500">No tagged transactions in this period</p>
+              <p className="text-sm text-gray-400 mt-1">Tag transactions like "business trip" to total them here</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+              {tagTotals.map(({ tag, count, spent, received }) => (
+                <div key={tag} className="p-4 flex items-center justify-between">
+                  <div>
+                    <h3 className="font-medium text-gray-900">#{tag}</h3>
+                    <p className="text-xs text-gray-500">
+                      {count} transaction{count === 1 ? "" : "s"}
+                      {received > 0 && ` • ${formatCurrency(received)} received`}
+                    </p>
+                  </div>
+                  <div className="font-semibold text-gray-900">{formatCurrency(spent)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Spending by Payee */}
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Top Payees</h2>
+
+          {topPayees.length === 0 ? (
+            <div className="bg-white rounded-xl p-6 border border-gray-100 text-center">
+              <Store className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-500">No payee spending in this period</p>
+              <p className="text-sm text-gray-400 mt-1">Add payees to see where your money goes</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl border border-gray-100 divide-y divide-gray-100">
+              {topPayees.map(({ payee, amount, visits }) => (
+                <Link key={payee!.id} href={`/payees/${payee!.id}`}>
+                  <div className="p-4 flex items-center justify-between cursor-pointer hover:bg-gray-50">
+                    <div>
+                      <h3 className="font-medium text-gray-900">{payee!.name}</h3>
+                      <p className="text-xs text-gray-500">
+                        {visits} visit{visits === 1 ? "" : "s"} • {formatCurrency(amount / visits)} average
+                      </p>
+                    </div>
+                    <div className="font-semibold text-gray-900">{formatCurrency(amount)}</div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </section>
+
         {/* Monthly Trends */}
         <section className="space-y-4">
           <h2 className="text-lg font-semibold text-gray-900">Monthly Trends</h2>
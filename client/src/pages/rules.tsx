@@ -0,0 +1,546 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Pencil, Trash2, Pause, Play, Wand2 } from "lucide-react";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useCategories } from "@/hooks/use-categories";
+import { useGoals } from "@/hooks/use-goals";
+import { useLoans } from "@/hooks/use-loans";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/currency";
+import type { CategorizationRule } from "@shared/schema";
+
+// The Selects need a string value for "not set"
+const ANY = "any";
+
+const transactionTypeLabels: Record<string, string> = {
+  income: "Income",
+  expense: "Expense",
+  savings_deposit: "Savings deposit",
+  savings_withdrawal: "Savings withdrawal",
+  loan_repayment: "Loan repayment",
+};
+
+const matchTypeLabels: Record<string, string> = {
+  contains: "contains",
+  exact: "is exactly",
+  regex: "matches",
+};
+
+interface RuleFormState {
+  name: string;
+  priority: string;
+  matchType: string;
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  transactionType: string;
+  category: string;
+  savingsGoalId: string;
+  loanId: string;
+}
+
+interface CategorizationChange {
+  transactionId: number;
+  ruleId: number;
+  description: string;
+  date: string;
+  amount: string;
+  before: { category: string; savingsGoalId: number | null; loanId: number | null };
+  after: { category: string; savingsGoalId: number | null; loanId: number | null };
+}
+
+const emptyForm: RuleFormState = {
+  name: "",
+  priority: "0",
+  matchType: "contains",
+  pattern: "",
+  minAmount: "",
+  maxAmount: "",
+  transactionType: ANY,
+  category: ANY,
+  savingsGoalId: ANY,
+  loanId: ANY,
+};
+
+export default function Rules() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null);
+  const [form, setForm] = useState<RuleFormState>(emptyForm);
+  const [changes, setChanges] = useState<CategorizationChange[] | null>(null);
+  const [selectedChanges, setSelectedChanges] = useState<Set<number>>(new Set());
+  const { data: rules = [], isLoading } = useQuery<CategorizationRule[]>({
+    queryKey: ["/api/categorization-rules"],
+  });
+  const { transactionCategories } = useCategories();
+  const { data: goals = [] } = useGoals();
+  const { data: loans = [] } = useLoans();
+  const { toast } = useToast();
+
+  const categoryLabel = (value: string) => transactionCategories.find(c => c.value === value)?.label ?? value.replace(/_/g, " ");
+  const goalName = (id: number | null) => goals.find(goal => goal.id === id)?.name;
+  const loanName = (id: number | null) => loans.find(loan => loan.id === id)?.name;
+
+  const describeConditions = (rule: CategorizationRule) => {
+    const parts: string[] = [];
+    if (rule.pattern) parts.push(`description ${matchTypeLabels[rule.matchType ?? "contains"]} "${rule.pattern}"`);
+    if (rule.transactionType) parts.push(transactionTypeLabels[rule.transactionType] ?? rule.transactionType);
+    if (rule.minAmount != null) parts.push(`at least ${formatCurrency(parseFloat(rule.minAmount))}`);
+    if (rule.maxAmount != null) parts.push(`at most ${formatCurrency(parseFloat(rule.maxAmount))}`);
+    return parts.join(" • ");
+  };
+
+  const describeActions = (rule: CategorizationRule) => {
+    const parts: string[] = [];
+    if (rule.category) parts.push(categoryLabel(rule.category));
+    if (rule.savingsGoalId != null) parts.push(goalName(rule.savingsGoalId) ?? "Savings goal");
+    if (rule.loanId != null) parts.push(loanName(rule.loanId) ?? "Loan");
+    return parts.join(", ");
+  };
+
+  const openForm = (rule?: CategorizationRule) => {
+    setEditingRule(rule ?? null);
+    setForm(rule
+      ? {
+        name: rule.name,
+        priority: rule.priority.toString(),
+        matchType: rule.matchType ?? ANY,
+        pattern: rule.pattern ?? "",
+        minAmount: rule.minAmount ?? "",
+        maxAmount: rule.maxAmount ?? "",
+        transactionType: rule.transactionType ?? ANY,
+        category: rule.category ?? ANY,
+        savingsGoalId: rule.savingsGoalId?.toString() ?? ANY,
+        loanId: rule.loanId?.toString() ?? ANY,
+      }
+      : emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (data: RuleFormState) => {
+      const hasPattern = data.matchType !== ANY && data.pattern.trim() !== "";
+      const rule = {
+        name: data.name,
+        priority: parseInt(data.priority) || 0,
+        matchType: hasPattern ? data.matchType : null,
+        pattern: hasPattern ? data.pattern : null,
+        minAmount: data.minAmount || null,
+        maxAmount: data.maxAmount || null,
+        transactionType: data.transactionType === ANY ? null : data.transactionType,
+        category: data.category === ANY ? null : data.category,
+        savingsGoalId: data.savingsGoalId === ANY ? null : parseInt(data.savingsGoalId),
+        loanId: data.loanId === ANY ? null : parseInt(data.loanId),
+      };
+      const response = editingRule
+        ? await apiRequest("PUT", `/api/categorization-rules/${editingRule.id}`, rule)
+        : await apiRequest("POST", "/api/categorization-rules", rule);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-rules"] });
+      toast({
+        title: "Success",
+        description: editingRule ? "Rule updated successfully" : "Rule created successfully",
+      });
+      setIsFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save rule"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/categorization-rules/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: (_, { isActive }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-rules"] });
+      toast({
+        title: "Success",
+        description: isActive ? "Rule resumed" : "Rule paused",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/categorization-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-rules"] });
+      toast({
+        title: "Success",
+        description: "Rule deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/categorization-rules/preview", {});
+      return response.json() as Promise<{ changes: CategorizationChange[] }>;
+    },
+    onSuccess: (data) => {
+      setChanges(data.changes);
+      setSelectedChanges(new Set(data.changes.map(change => change.transactionId)));
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to check your transactions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (transactionIds: number[]) => {
+      const response = await apiRequest("POST", "/api/categorization-rules/apply", { transactionIds });
+      return response.json() as Promise<{ updated: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+      toast({
+        title: "Success",
+        description: `Updated ${data.updated} transaction${data.updated === 1 ? "" : "s"}`,
+      });
+      setChanges(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to apply rules"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleChange = (transactionId: number, checked: boolean) => {
+    const next = new Set(selectedChanges);
+    if (checked) next.add(transactionId);
+    else next.delete(transactionId);
+    setSelectedChanges(next);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter a name",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveRuleMutation.mutate(form);
+  };
+
+  const describeChange = (side: CategorizationChange["after"]) =>
+    [categoryLabel(side.category), goalName(side.savingsGoalId), loanName(side.loanId)].filter(Boolean).join(", ");
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Rules" subtitle="Categorize transactions automatically" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Button onClick={() => openForm()} className="bg-primary text-white">
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate()}
+            disabled={rules.length === 0 || previewMutation.isPending}
+          >
+            <Wand2 className="h-4 w-4 mr-2" />
+            {previewMutation.isPending ? "Checking..." : "Run Rules"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-white rounded-xl p-4 border border-gray-100 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-100 text-center">
+            <Wand2 className="h-10 w-10 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No rules yet</h3>
+            <p className="text-gray-500">Add a rule such as "description contains Shoprite → Food" and new transactions are categorized for you</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div key={rule.id} className={`bg-white rounded-xl p-4 border border-gray-100 ${rule.isActive ? "" : "opacity-60"}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{rule.name}</div>
+                    <div className="text-xs text-gray-500">{describeConditions(rule)}</div>
+                    <div className="text-xs text-gray-700 mt-1">→ {describeActions(rule)}</div>
+                    {!rule.isActive && <div className="text-xs text-gray-500 mt-1">Paused</div>}
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => openForm(rule)} className="p-1.5 text-blue-600 hover:bg-blue-50">
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleActiveMutation.mutate({ id: rule.id, isActive: !rule.isActive })}
+                      disabled={toggleActiveMutation.isPending}
+                      className="p-1.5 text-gray-600 hover:bg-gray-50"
+                    >
+                      {rule.isActive ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteRuleMutation.mutate(rule.id)}
+                      disabled={deleteRuleMutation.isPending}
+                      className="p-1.5 text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Rule" : "New Rule"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="e.g. Electricity"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>When the description</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={form.matchType} onValueChange={(value) => setForm({ ...form, matchType: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>is anything</SelectItem>
+                    <SelectItem value="contains">contains</SelectItem>
+                    <SelectItem value="exact">is exactly</SelectItem>
+                    <SelectItem value="regex">matches regex</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="e.g. ESCOM"
+                  value={form.pattern}
+                  disabled={form.matchType === ANY}
+                  onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="rule-min">Min amount</Label>
+                <Input
+                  id="rule-min"
+                  type="number"
+                  step="0.01"
+                  placeholder="Any"
+                  value={form.minAmount}
+                  onChange={(e) => setForm({ ...form, minAmount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-max">Max amount</Label>
+                <Input
+                  id="rule-max"
+                  type="number"
+                  step="0.01"
+                  placeholder="Any"
+                  value={form.maxAmount}
+                  onChange={(e) => setForm({ ...form, maxAmount: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Transaction type</Label>
+              <Select
+                value={form.transactionType}
+                onValueChange={(value) => setForm({ ...form, transactionType: value, savingsGoalId: ANY, loanId: ANY })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any type</SelectItem>
+                  {Object.entries(transactionTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Set category to</Label>
+              <Select value={form.category} onValueChange={(value) => setForm({ ...form, category: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Leave as is</SelectItem>
+                  {transactionCategories.map((category) => (
+                    <SelectItem key={category.value} value={category.value}>
+                      {category.icon} {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {(form.transactionType === "savings_deposit" || form.transactionType === "savings_withdrawal") && (
+              <div className="space-y-2">
+                <Label>Set savings goal to</Label>
+                <Select value={form.savingsGoalId} onValueChange={(value) => setForm({ ...form, savingsGoalId: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Leave as is</SelectItem>
+                    {goals.map((goal) => (
+                      <SelectItem key={goal.id} value={goal.id.toString()}>
+                        {goal.icon} {goal.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.transactionType === "loan_repayment" && (
+              <div className="space-y-2">
+                <Label>Set loan to</Label>
+                <Select value={form.loanId} onValueChange={(value) => setForm({ ...form, loanId: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Leave as is</SelectItem>
+                    {loans.map((loan) => (
+                      <SelectItem key={loan.id} value={loan.id.toString()}>{loan.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority">Priority</Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                step="1"
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">Lower numbers are tried first; the first matching rule wins</p>
+            </div>
+
+            <Button type="submit" className="w-full bg-primary text-white" disabled={saveRuleMutation.isPending}>
+              {saveRuleMutation.isPending ? "Saving..." : editingRule ? "Update Rule" : "Create Rule"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={changes !== null} onOpenChange={(open) => !open && setChanges(null)}>
+        <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Run Rules</DialogTitle>
+          </DialogHeader>
+          {changes && changes.length === 0 ? (
+            <p className="text-sm text-gray-600">Your transactions already match your rules. Nothing to change.</p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">Untick anything you want to keep as it is.</p>
+              <div className="space-y-2">
+                {changes?.map((change) => (
+                  <label key={change.transactionId} className="flex items-start gap-3 p-3 rounded-xl border border-gray-100">
+                    <Checkbox
+                      checked={selectedChanges.has(change.transactionId)}
+                      onCheckedChange={(checked) => toggleChange(change.transactionId, checked === true)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{change.description}</div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(change.date).toLocaleDateString()} • {formatCurrency(parseFloat(change.amount))}
+                      </div>
+                      <div className="text-xs text-gray-700 mt-1">
+                        {describeChange(change.before)} → {describeChange(change.after)}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <Button
+                onClick={() => applyMutation.mutate(Array.from(selectedChanges))}
+                disabled={selectedChanges.size === 0 || applyMutation.isPending}
+                className="w-full bg-primary text-white"
+              >
+                {applyMutation.isPending ? "Applying..." : `Apply ${selectedChanges.size} change${selectedChanges.size === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
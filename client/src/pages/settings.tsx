@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import BottomNavigation from "@/components/layout/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSettings } from "@/hooks/use-settings";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SettingsValues } from "@shared/user-settings";
+
+const numberFormatLabels: Record<string, string> = {
+  locale: "Follow the language and region",
+  comma_dot: "1,234.56",
+  dot_comma: "1.234,56",
+  space_comma: "1 234,56",
+};
+
+const weekDayLabels = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const transactionTypeLabels: Record<string, string> = {
+  income: "Income",
+  expense: "Expense",
+  transfer: "Transfer",
+};
+
+const monthStartModeLabels: Record<string, string> = {
+  day: "On that day",
+  last_working_day: "On the last working day on or before it",
+};
+
+const themeLabels: Record<string, string> = {
+  light: "Light",
+  dark: "Dark",
+  system: "Same as device",
+};
+
+// Budget months, the summary and converted totals all depend on these settings
+const invalidateSettingsQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/financial-summary"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/envelopes"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/payees"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+};
+
+export default function Settings() {
+  const { settings } = useSettings();
+  const [form, setForm] = useState<SettingsValues>(settings);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setForm(settings);
+  }, [settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (data: SettingsValues) => {
+      const response = await apiRequest("PUT", "/api/settings", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSettingsQueries();
+      toast({
+        title: "Success",
+        description: "Settings saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save settings"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (form.baseCurrency.length !== 3 || !(form.budgetMonthStartDay >= 1 && form.budgetMonthStartDay <= 28)) {
+      toast({
+        title: "Error",
+        description: "Enter a three-letter currency code and a budget month start day from 1 to 28",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveSettingsMutation.mutate(form);
+  };
+
+  return (
+    <div className="max-w-sm mx-auto bg-white min-h-screen relative flex flex-col">
+      <Header title="Settings" subtitle="Display and budgeting preferences" />
+
+      <main className="flex-1 overflow-y-auto pb-20 px-4 space-y-4 pt-4">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Display */}
+          <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+            <h3 className="font-semibold text-gray-900">Display</h3>
+            <div className="space-y-2">
+              <Label htmlFor="settings-base-currency">Base currency</Label>
+              <Input
+                id="settings-base-currency"
+                maxLength={3}
+                value={form.baseCurrency}
+                onChange={(e) => setForm({ ...form, baseCurrency: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-locale">Language and region</Label>
+              <Input
+                id="settings-locale"
+                placeholder="e.g. en-MW"
+                value={form.locale}
+                onChange={(e) => setForm({ ...form, locale: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Number format</Label>
+              <Select value={form.numberFormat} onValueChange={(value) => setForm({ ...form, numberFormat: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(numberFormatLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Theme</Label>
+              <Select value={form.theme} onValueChange={(value) => setForm({ ...form, theme: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(themeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Budgeting */}
+          <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+            <h3 className="font-semibold text-gray-900">Budgeting</h3>
+            <div className="space-y-2">
+              <Label>First day of the week</Label>
+              <Select
+                value={String(form.firstDayOfWeek)}
+                onValueChange={(value) => setForm({ ...form, firstDayOfWeek: parseInt(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekDayLabels.map((label, day) => (
+                    <SelectItem key={day} value={String(day)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-month-start">Budget month starts on day</Label>
+              <Input
+                id="settings-month-start"
+                type="number"
+                min={1}
+                max={28}
+                value={form.budgetMonthStartDay}
+                onChange={(e) => setForm({ ...form, budgetMonthStartDay: parseInt(e.target.value) || 1 })}
+              />
+              <p className="text-xs text-gray-500">Set this to your payday to budget from one pay to the next</p>
+            </div>
+            <div className="space-y-2">
+              <Label>When that day is a weekend, start</Label>
+              <Select
+                value={form.budgetMonthStartMode}
+                onValueChange={(value) => setForm({ ...form, budgetMonthStartMode: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(monthStartModeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>New transactions default to</Label>
+              <Select
+                value={form.defaultTransactionType}
+                onValueChange={(value) => setForm({ ...form, defaultTransactionType: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(transactionTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full bg-primary text-white" disabled={saveSettingsMutation.isPending}>
+            {saveSettingsMutation.isPending ? "Saving..." : "Save Settings"}
+          </Button>
+        </form>
+      </main>
+
+      <BottomNavigation />
+    </div>
+  );
+}
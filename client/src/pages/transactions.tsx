@@ -1,31 +1,84 @@
 import { useState, useEffect, useRef } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { Trash2, Filter, Plus, Edit2, Search } from "lucide-react";
+import { Trash2, Filter, Plus, Edit2, Search, Lock, Bookmark, Pin, PinOff, Download, X } from "lucide-react";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
 import TransactionModal from "@/components/modals/transaction-modal";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useTransactions } from "@/hooks/use-transactions";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useTransactionFacets, useTransactionQuery, useTransactionPages } from "@/hooks/use-transactions";
+import { useCategories } from "@/hooks/use-categories";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { apiRequest, queryClient, errorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency } from "@/lib/currency";
+import type { SavedView, SavedViewFilters, TransactionSplit } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const SEARCH_DELAY_MS = 300;
+
+// How close to the bottom of the list, in pixels, scrolling gets before the next page loads
+const LOAD_MORE_THRESHOLD = 400;
+
+const periodLabels: Record<string, string> = {
+  this_month: "This month",
+  last_month: "Last month",
+  this_quarter: "This quarter",
+  this_year: "This year",
+  last_30_days: "Last 30 days",
+};
+
+// One line summing up what a saved view filters on, e.g. "food • expense • this quarter • over ₦20,000"
+const describeFilters = (filters: SavedViewFilters) => {
+  const parts = [
+    filters.category?.replace(/_/g, " "),
+    filters.type?.replace(/_/g, " "),
+    filters.tag && `#${filters.tag}`,
+    filters.period && periodLabels[filters.period].toLowerCase(),
+    filters.minAmount !== undefined && `over ${formatCurrency(filters.minAmount)}`,
+    filters.maxAmount !== undefined && `under ${formatCurrency(filters.maxAmount)}`,
+    filters.reconciled === false && "unreconciled",
+    filters.reconciled === true && "reconciled",
+    filters.search && `"${filters.search}"`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" • ") : "All transactions";
+};
 
 export default function Transactions() {
   const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState(null);
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [typeFilter, setTypeFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("all");
   const [sortBy, setSortBy] = useState("date");
   const [sortOrder, setSortOrder] = useState("desc");
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [periodFilter, setPeriodFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [activeViewId, setActiveViewId] = useState<number | null>(null);
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState(false);
+  const [viewName, setViewName] = useState("");
   const [currentFloatingDate, setCurrentFloatingDate] = useState<string>("");
   const scrollContainerRef = useRef<HTMLElement>(null);
   const dateHeaderRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
   
-  const { data: transactions = [], isLoading } = useTransactions();
+  const { data: facets } = useTransactionFacets();
+  const { transactionCategories } = useCategories();
+  const { data: savedViews = [] } = useSavedViews();
   const { toast } = useToast();
+  const activeView = savedViews.find(view => view.id === activeViewId);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
   const deleteTransactionMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -50,6 +103,82 @@ export default function Transactions() {
     },
   });
 
+  const saveViewMutation = useMutation({
+    mutationFn: async (view: { name: string; filters: SavedViewFilters }) => {
+      const response = await apiRequest("POST", "/api/saved-views", view);
+      return response.json() as Promise<SavedView>;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+      toast({
+        title: "Success",
+        description: `${view.name} saved and pinned`,
+      });
+      setIsSaveViewOpen(false);
+      setActiveViewId(view.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save view"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pinViewMutation = useMutation({
+    mutationFn: async ({ id, isPinned }: { id: number; isPinned: boolean }) => {
+      await apiRequest("PUT", `/api/saved-views/${id}`, { isPinned });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update view",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteViewMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/saved-views/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views"] });
+      setActiveViewId(null);
+      toast({
+        title: "Success",
+        description: "View deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete view",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveView = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!viewName.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter a name",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveViewMutation.mutate({ name: viewName.trim(), filters: currentFilters });
+  };
+
+  const pinnedViews = savedViews.filter(view => view.isPinned);
+  const otherViews = savedViews.filter(view => !view.isPinned);
+
   const openEditDialog = (transaction: any) => {
     setEditingTransaction(transaction);
     setIsTransactionModalOpen(true);
@@ -60,67 +189,50 @@ export default function Transactions() {
     setEditingTransaction(null);
   };
 
-  const filteredAndSortedTransactions = transactions
-    .filter((transaction) => {
-      if (categoryFilter !== "all" && transaction.category !== categoryFilter) return false;
-      if (typeFilter !== "all" && transaction.type !== typeFilter) return false;
-      
-      // Search functionality - check category, type, and description
-      if (searchQuery !== "") {
-        const query = searchQuery.toLowerCase();
-        const categoryMatch = transaction.category.toLowerCase().includes(query);
-        const typeMatch = transaction.type.toLowerCase().includes(query);
-        const descriptionMatch = transaction.description.toLowerCase().includes(query);
-        
-        if (!categoryMatch && !typeMatch && !descriptionMatch) return false;
-      }
-      
-      return true;
-    })
-    .sort((a, b) => {
-      let aValue, bValue;
-      
-      switch (sortBy) {
-        case "date":
-          aValue = new Date(a.date).getTime();
-          bValue = new Date(b.date).getTime();
-          break;
-        case "amount":
-          aValue = parseFloat(a.amount);
-          bValue = parseFloat(b.amount);
-          break;
-        case "description":
-          aValue = a.description.toLowerCase();
-          bValue = b.description.toLowerCase();
-          break;
-        case "category":
-          aValue = a.category.toLowerCase();
-          bValue = b.category.toLowerCase();
-          break;
-        case "type":
-          aValue = a.type.toLowerCase();
-          bValue = b.type.toLowerCase();
-          break;
-        default:
-          return 0;
-      }
-      
-      if (sortOrder === "asc") {
-        return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-      } else {
-        return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
-      }
-    });
-
-  // Calculate aggregate amounts
-  const totalIncome = filteredAndSortedTransactions
-    .filter(t => t.type === "income" || t.type === "savings_withdrawal")
-    .reduce((sum, t) => sum + parseFloat(t.amount), 0);
-
-  const totalExpenses = filteredAndSortedTransactions
-    .filter(t => t.type === "expense" || t.type === "savings_deposit" || t.type === "loan_repayment")
-    .reduce((sum, t) => sum + parseFloat(t.amount), 0);
+  // The filters as a saved view stores them
+  const currentFilters: SavedViewFilters = {
+    category: categoryFilter === "all" ? undefined : categoryFilter,
+    type: typeFilter === "all" ? undefined : typeFilter,
+    tag: tagFilter === "all" ? undefined : tagFilter,
+    period: periodFilter === "all" ? undefined : periodFilter as SavedViewFilters["period"],
+    reconciled: statusFilter === "all" ? undefined : statusFilter === "reconciled",
+    minAmount: minAmount ? parseFloat(minAmount) : undefined,
+    maxAmount: maxAmount ? parseFloat(maxAmount) : undefined,
+    search: debouncedSearch || undefined,
+    sort: sortBy as SavedViewFilters["sort"],
+    order: sortOrder as SavedViewFilters["order"],
+  };
 
+  // The list is fetched a page at a time with the filters applied on the server; totals cover every match.
+  // An open saved view runs its own filters instead.
+  const filterQuery = useTransactionQuery({
+    category: currentFilters.category ?? "",
+    type: currentFilters.type ?? "",
+    tag: currentFilters.tag ?? "",
+    period: currentFilters.period ?? "",
+    reconciled: currentFilters.reconciled === undefined ? "" : String(currentFilters.reconciled),
+    minAmount: minAmount,
+    maxAmount: maxAmount,
+    search: debouncedSearch,
+    sort: sortBy,
+    order: sortOrder,
+    limit: String(PAGE_SIZE),
+  }, !activeView);
+  const viewQuery = useTransactionPages(`/api/saved-views/${activeViewId}/transactions?limit=${PAGE_SIZE}`, !!activeView);
+  const {
+    data: transactionPages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = activeView ? viewQuery : filterQuery;
+  const filteredAndSortedTransactions = transactionPages?.pages.flatMap(page => page.transactions) ?? [];
+  const summary = transactionPages?.pages[0]?.summary;
+  // With nothing filtered out, the total count is every transaction the user has
+  const isUnfiltered = !activeView && Object.entries(currentFilters)
+    .every(([key, value]) => key === "sort" || key === "order" || value === undefined);
+  const totalIncome = summary?.income ?? 0;
+  const totalExpenses = summary?.expenses ?? 0;
   const netAmount = totalIncome - totalExpenses;
 
 
@@ -166,6 +278,7 @@ export default function Transactions() {
       loan_repayment: "Loan Repayment",
       loan_received: "Loan Received",
       loan_payment: "Loan Payment",
+      transfer: "Transfer",
     };
     return typeLabels[type] || type.replace('_', ' ');
   };
@@ -183,39 +296,13 @@ export default function Transactions() {
     return typeColors[type] || "text-gray-600 bg-gray-50 border-gray-200";
   };
 
-  // Predefined categories
-  const predefinedCategories = [
-    { value: "food", label: "Food & Dining" },
-    { value: "transportation", label: "Transportation" },
-    { value: "shopping", label: "Shopping" },
-    { value: "entertainment", label: "Entertainment" },
-    { value: "bills", label: "Bills & Utilities" },
-    { value: "healthcare", label: "Healthcare" },
-    { value: "education", label: "Education" },
-    { value: "income", label: "Income" },
-    { value: "savings", label: "Savings Account" },
-    { value: "loan", label: "Loan" },
-    { value: "other", label: "Other" },
-  ];
-
-  // Get unique categories from existing transactions
-  const uniqueCategories = new Set<string>();
-  transactions.forEach(t => uniqueCategories.add(t.category));
-  const existingCategories = Array.from(uniqueCategories);
-  
-  // Combine predefined and custom categories
-  const allAvailableCategories = [
-    ...predefinedCategories,
-    ...existingCategories
-      .filter(cat => !predefinedCategories.some(predef => predef.value === cat))
-      .map(cat => ({ value: cat, label: cat.charAt(0).toUpperCase() + cat.slice(1).replace('_', ' ') }))
-  ].sort((a, b) => a.label.localeCompare(b.label));
-
   const categories = [
     { value: "all", label: "All Categories" },
-    ...allAvailableCategories
+    ...transactionCategories
   ];
 
+  const tags = (facets?.tags ?? []).map(total => total.tag).sort((a, b) => a.localeCompare(b));
+
   // Group transactions by date for better visualization
   const groupTransactionsByDate = (transactions: any[]) => {
     const grouped: { [key: string]: any[] } = {};
@@ -254,8 +341,9 @@ export default function Transactions() {
   };
 
   const groupedTransactions = groupTransactionsByDate(filteredAndSortedTransactions);
+  const listOrder = activeView ? activeView.filters.order : sortOrder;
   const sortedDateKeys = Object.keys(groupedTransactions).sort((a, b) => {
-    return sortOrder === 'desc' 
+    return listOrder === 'desc' 
       ? new Date(b).getTime() - new Date(a).getTime()
       : new Date(a).getTime() - new Date(b).getTime();
   });
@@ -316,6 +404,22 @@ export default function Transactions() {
     };
   }, [sortedDateKeys]);
 
+  // Load the next page as the list nears its end
+  useEffect(() => {
+    const scrollContainer = scrollContainerRef.current;
+    if (!scrollContainer) return;
+
+    const handleScroll = () => {
+      const remaining = scrollContainer.scrollHeight - scrollContainer.scrollTop - scrollContainer.clientHeight;
+      if (remaining < LOAD_MORE_THRESHOLD && hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    };
+
+    scrollContainer.addEventListener('scroll', handleScroll, { passive: true });
+    return () => scrollContainer.removeEventListener('scroll', handleScroll);
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
   // Initialize floating date when data changes
   useEffect(() => {
     if (sortedDateKeys.length > 0) {
@@ -355,74 +459,225 @@ export default function Transactions() {
           </div>
         )}
 
-        {/* Search */}
-        <div className="relative mx-4">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-          <Input
-            type="text"
-            placeholder="Search by category, type, or description..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
-
-        {/* Filters and Sorting */}
-        <div className="space-y-3 mx-4">
-          <div className="flex space-x-3">
-            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-              <SelectTrigger className="flex-1">
-                <SelectValue placeholder="Category" />
-              </SelectTrigger>
-              <SelectContent>
-                {categories.map((category) => (
-                  <SelectItem key={category.value} value={category.value}>
-                    {category.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            <Select value={typeFilter} onValueChange={setTypeFilter}>
-              <SelectTrigger className="flex-1">
-                <SelectValue placeholder="Type" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="income">💰 Income</SelectItem>
-                <SelectItem value="expense">💸 Expense</SelectItem>
-                <SelectItem value="savings_deposit">🏦 Savings Deposit</SelectItem>
-                <SelectItem value="savings_withdrawal">🏧 Savings Withdrawal</SelectItem>
-                <SelectItem value="loan_repayment">💳 Loan Repayment</SelectItem>
-              </SelectContent>
-            </Select>
+        {/* Saved views */}
+        {savedViews.length > 0 && (
+          <div className="flex items-center gap-2 mx-4 overflow-x-auto">
+            {pinnedViews.map((view) => (
+              <button
+                key={view.id}
+                type="button"
+                onClick={() => setActiveViewId(activeViewId === view.id ? null : view.id)}
+                className={`text-sm px-3 py-1 rounded-full border whitespace-nowrap ${
+                  activeViewId === view.id ? "bg-primary text-white border-primary" : "bg-white text-gray-700 border-gray-200"
+                }`}
+              >
+                {view.name}
+              </button>
+            ))}
+            {otherViews.length > 0 && (
+              <Select
+                value={activeView && !activeView.isPinned ? String(activeView.id) : ""}
+                onValueChange={(value) => setActiveViewId(parseInt(value))}
+              >
+                <SelectTrigger className="h-8 w-32 flex-shrink-0">
+                  <SelectValue placeholder="More views" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherViews.map((view) => (
+                    <SelectItem key={view.id} value={String(view.id)}>
+                      {view.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        {activeView ? (
+          <div className="bg-white rounded-xl p-4 border border-gray-100 mx-4">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <h3 className="font-semibold text-gray-900 truncate">{activeView.name}</h3>
+                <p className="text-xs text-gray-500">{describeFilters(activeView.filters)}</p>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => pinViewMutation.mutate({ id: activeView.id, isPinned: !activeView.isPinned })}
+                  disabled={pinViewMutation.isPending}
+                  className="p-1.5 text-gray-600 hover:bg-gray-50"
+                  title={activeView.isPinned ? "Unpin" : "Pin"}
+                >
+                  {activeView.isPinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                </Button>
+                <a href={`/api/saved-views/${activeView.id}/export`} download title="Export as CSV">
+                  <Button variant="ghost" size="sm" className="p-1.5 text-blue-600 hover:bg-blue-50">
+                    <Download className="h-3.5 w-3.5" />
+                  </Button>
+                </a>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteViewMutation.mutate(activeView.id)}
+                  disabled={deleteViewMutation.isPending}
+                  className="p-1.5 text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setActiveViewId(null)} className="p-1.5 text-gray-600 hover:bg-gray-50">
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
           </div>
+        ) : (
+          <>
+          {/* Search */}
+          <div className="relative mx-4">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              type="text"
+              placeholder="Search descriptions, categories and tags..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {/* Filters and Sorting */}
+          <div className="space-y-3 mx-4">
+            <div className="flex space-x-3">
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.value} value={category.value}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  <SelectItem value="income">💰 Income</SelectItem>
+                  <SelectItem value="expense">💸 Expense</SelectItem>
+                  <SelectItem value="savings_deposit">🏦 Savings Deposit</SelectItem>
+                  <SelectItem value="savings_withdrawal">🏧 Savings Withdrawal</SelectItem>
+                  <SelectItem value="loan_repayment">💳 Loan Repayment</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {tags.length > 0 && (
+                <Select value={tagFilter} onValueChange={setTagFilter}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Tag" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Tags</SelectItem>
+                    {tags.map((tag) => (
+                      <SelectItem key={tag} value={tag}>
+                        #{tag}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="flex space-x-3">
+              <Select value={sortBy} onValueChange={setSortBy}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="date">Date</SelectItem>
+                  <SelectItem value="amount">Amount</SelectItem>
+                  <SelectItem value="description">Description</SelectItem>
+                  <SelectItem value="category">Category</SelectItem>
+                  <SelectItem value="type">Type</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Select value={sortOrder} onValueChange={setSortOrder}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Order" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="asc">Ascending</SelectItem>
+                  <SelectItem value="desc">Descending</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
 
-          <div className="flex space-x-3">
-            <Select value={sortBy} onValueChange={setSortBy}>
-              <SelectTrigger className="flex-1">
-                <SelectValue placeholder="Sort by" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="date">Date</SelectItem>
-                <SelectItem value="amount">Amount</SelectItem>
-                <SelectItem value="description">Description</SelectItem>
-                <SelectItem value="category">Category</SelectItem>
-                <SelectItem value="type">Type</SelectItem>
-              </SelectContent>
-            </Select>
-
-            <Select value={sortOrder} onValueChange={setSortOrder}>
-              <SelectTrigger className="flex-1">
-                <SelectValue placeholder="Order" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="asc">Ascending</SelectItem>
-                <SelectItem value="desc">Descending</SelectItem>
-              </SelectContent>
-            </Select>
+            <div className="flex space-x-3">
+              <Select value={periodFilter} onValueChange={setPeriodFilter}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Period" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any Time</SelectItem>
+                  {Object.entries(periodLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any Status</SelectItem>
+                  <SelectItem value="unreconciled">Unreconciled</SelectItem>
+                  <SelectItem value="reconciled">Reconciled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex space-x-3">
+              <Input
+                type="number"
+                inputMode="decimal"
+                placeholder="Min amount"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                inputMode="decimal"
+                placeholder="Max amount"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+                className="flex-1"
+              />
+            </div>
+
+            <Button
+              variant="outline"
+              onClick={() => {
+                setViewName("");
+                setIsSaveViewOpen(true);
+              }}
+              className="w-full"
+            >
+              <Bookmark className="h-4 w-4 mr-2" />
+              Save as View
+            </Button>
           </div>
-        </div>
+          </>
+        )}
 
         {/* Transactions List */}
         {isLoading ? (
@@ -445,7 +700,7 @@ export default function Transactions() {
             <div className="text-4xl mb-4">📊</div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No transactions found</h3>
             <p className="text-gray-500 mb-4">
-              {transactions.length === 0
+              {isUnfiltered && summary?.count === 0
                 ? "Start tracking your finances by adding your first transaction"
                 : "Try adjusting your filters or add a new transaction"
               }
@@ -503,7 +758,9 @@ export default function Transactions() {
                             <h3 className="font-medium text-gray-900 mb-1 leading-snug">{transaction.description}</h3>
                             <div className="flex items-center gap-1.5 flex-wrap">
                               <span className="text-xs text-gray-500 capitalize">
-                                {transaction.category.replace('_', ' ')}
+                                {transaction.splits?.length
+                                  ? transaction.splits.map((split: TransactionSplit) => split.category.replace('_', ' ')).join(', ')
+                                  : transaction.category.replace('_', ' ')}
                               </span>
                               <span className="text-gray-400 text-xs">•</span>
                               <span className={`text-xs px-1.5 py-0.5 rounded-full border font-medium whitespace-nowrap ${getTransactionTypeColor(transaction.type)}`}>
@@ -514,10 +771,29 @@ export default function Transactions() {
                                 {transaction.time || "12:00 AM"}
                               </span>
                             </div>
+                            {transaction.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {transaction.tags.map((tag: string) => (
+                                  <button
+                                    key={tag}
+                                    type="button"
+                                    onClick={() => setTagFilter(tag)}
+                                    className="text-xs px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-600"
+                                  >
+                                    #{tag}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                         
                         <div className="flex flex-col items-end space-y-2 flex-shrink-0">
+                          {transaction.reconciliationId != null ? (
+                            <div className="p-1.5 text-gray-400" title="Reconciled - reopen the reconciliation to change it">
+                              <Lock className="h-3.5 w-3.5" />
+                            </div>
+                          ) : (
                           <div className="flex items-center space-x-1">
                             <Button
                               variant="ghost"
@@ -538,13 +814,14 @@ export default function Transactions() {
                               <Trash2 className="h-3.5 w-3.5" />
                             </Button>
                           </div>
+                          )}
                           
                           <div className={`font-semibold text-right whitespace-nowrap text-sm ${
                             transaction.type === "income" || transaction.type === "savings_withdrawal"
                               ? "text-green-600" : "text-red-600"
                           }`}>
                             {(transaction.type === "income" || transaction.type === "savings_withdrawal") ? "+" : "-"}
-                            {formatCurrency(parseFloat(transaction.amount))}
+                            {formatCurrency(parseFloat(transaction.amount), transaction.currency)}
                           </div>
                         </div>
                       </div>
@@ -553,6 +830,19 @@ export default function Transactions() {
                 </div>
               </div>
             ))}
+
+            {hasNextPage && (
+              <div className="px-4 pb-4 text-center">
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
+            {summary && (
+              <p className="text-xs text-gray-500 text-center pb-4">
+                Showing {filteredAndSortedTransactions.length} of {summary.count} transaction{summary.count === 1 ? "" : "s"}
+              </p>
+            )}
           </div>
         )}
       </main>
@@ -572,6 +862,29 @@ export default function Transactions() {
         onClose={closeModal}
         editingTransaction={editingTransaction}
       />
+
+      <Dialog open={isSaveViewOpen} onOpenChange={setIsSaveViewOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveView} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                placeholder="e.g. Unreconciled food this quarter"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">{describeFilters(currentFilters)}</p>
+            </div>
+            <Button type="submit" className="w-full" disabled={saveViewMutation.isPending}>
+              {saveViewMutation.isPending ? "Saving..." : "Save View"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
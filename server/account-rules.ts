@@ -0,0 +1,102 @@
+import type { Account, InsertAccount, InsertTransaction, Loan, Reconciliation, Transaction } from "@shared/schema";
+import { accountBalanceChange } from "./finance-calculations";
+
+type TransactionAccounts = Pick<InsertTransaction, "type" | "accountId" | "toAccountId">;
+
+// Why the accounts on a transaction are not valid for this user, or undefined when they are
+export function getTransactionAccountError(transaction: TransactionAccounts, userAccounts: Account[]): string | undefined {
+  const ownsAccount = (id: number) => userAccounts.some(account => account.id === id);
+
+  if (transaction.accountId != null && !ownsAccount(transaction.accountId)) {
+    return "Account not found";
+  }
+  if (transaction.toAccountId != null && !ownsAccount(transaction.toAccountId)) {
+    return "Destination account not found";
+  }
+
+  if (transaction.type === "transfer") {
+    if (transaction.accountId == null || transaction.toAccountId == null) {
+      return "A transfer needs both a source and a destination account";
+    }
+    if (transaction.accountId === transaction.toAccountId) {
+      return "A transfer needs two different accounts";
+    }
+  } else if (transaction.toAccountId != null) {
+    return "Only transfers have a destination account";
+  }
+  return undefined;
+}
+
+// A transaction entered without a currency is in its account's currency, or the base currency when it has no account
+export function withTransactionCurrency<T extends Pick<InsertTransaction, "accountId" | "currency">>(transaction: T, userAccounts: Account[], baseCurrency: string): T {
+  if (transaction.currency) return transaction;
+  const account = userAccounts.find(account => account.id === transaction.accountId);
+  return { ...transaction, currency: account?.currency ?? baseCurrency };
+}
+
+export const LOCKED_TRANSACTION_MESSAGE = "This transaction has been reconciled. Reopen its reconciliation to change it.";
+
+// Reconciled transactions are locked: they can't be edited or deleted until the reconciliation is reopened
+export function isTransactionLocked(transaction: Pick<Transaction, "reconciliationId">): boolean {
+  return transaction.reconciliationId != null;
+}
+
+// Every cleared balance starts from the opening balance, so it can't change while a reconciliation of the account is closed
+export function isOpeningBalanceLocked(account: Account, accountReconciliations: Reconciliation[], updates: Partial<InsertAccount>): boolean {
+  return updates.openingBalance !== undefined &&
+    parseFloat(updates.openingBalance) !== parseFloat(account.openingBalance) &&
+    accountReconciliations.some(reconciliation => !reconciliation.reopenedAt);
+}
+
+// Deleting a loan deletes its loan_received transaction, and editing the loan's name, principal or start date rewrites
+// it, so neither is allowed once that transaction is reconciled. Pass the updates to check an edit.
+export function isLoanReceiptLocked(loan: Loan, userTransactions: Transaction[], updates?: Partial<Pick<Loan, "name" | "principal" | "startDate">>): boolean {
+  if (updates) {
+    const changesReceipt = (updates.name && updates.name !== loan.name) ||
+      (updates.principal && parseFloat(updates.principal) !== parseFloat(loan.principal)) ||
+      (updates.startDate && new Date(updates.startDate).getTime() !== new Date(loan.startDate).getTime());
+    if (!changesReceipt) return false;
+  }
+  return userTransactions.some(t => t.loanId === loan.id && t.type === "loan_received" && isTransactionLocked(t));
+}
+
+export interface ReconciliationSummary {
+  clearedBalance: number;
+  difference: number; // statement balance minus cleared balance; zero once everything is ticked off
+}
+
+// The cleared balance is the opening balance plus every transaction already reconciled plus the ones ticked off now
+export function summarizeReconciliation(account: Account, accountTransactions: Transaction[], statementBalance: number, tickedIds: number[]): ReconciliationSummary {
+  const ticked = new Set(tickedIds);
+  const clearedBalance = accountTransactions
+    .filter(t => isTransactionLocked(t) || ticked.has(t.id))
+    .reduce((sum, t) => sum + accountBalanceChange(t, account.id), parseFloat(account.openingBalance));
+
+  return {
+    clearedBalance: Math.round(clearedBalance * 100) / 100,
+    difference: Math.round((statementBalance - clearedBalance) * 100) / 100,
+  };
+}
+
+// Why the ticked transactions can't be reconciled against a statement ending on statementDate, or undefined when they can
+export function getReconciliationError(account: Account, userTransactions: Transaction[], statementDate: Date, transactionIds: number[]): string | undefined {
+  const endOfStatement = new Date(statementDate);
+  endOfStatement.setHours(23, 59, 59, 999);
+
+  for (const id of transactionIds) {
+    const transaction = userTransactions.find(t => t.id === id);
+    if (!transaction) {
+      return "Transaction not found";
+    }
+    if (transaction.accountId !== account.id && transaction.toAccountId !== account.id) {
+      return `"${transaction.description}" is not recorded against this account`;
+    }
+    if (isTransactionLocked(transaction)) {
+      return `"${transaction.description}" has already been reconciled`;
+    }
+    if (new Date(transaction.date) > endOfStatement) {
+      return `"${transaction.description}" is dated after the statement`;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,56 @@
+import type { UploadAttachment } from "@shared/schema";
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const MAX_THUMBNAIL_BYTES = 200 * 1024;
+
+const extensions: Record<UploadAttachment["contentType"], string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+  "application/pdf": ".pdf",
+};
+
+// The first bytes every file of each type starts with, so a renamed file can't pass as a photo or PDF
+const signatures: Record<UploadAttachment["contentType"], (data: Buffer) => boolean> = {
+  "image/jpeg": data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  "image/png": data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/webp": data => data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP",
+  "image/gif": data => data.subarray(0, 4).toString("latin1") === "GIF8",
+  "application/pdf": data => data.subarray(0, 5).toString("latin1") === "%PDF-",
+};
+
+export interface DecodedAttachment {
+  data: Buffer;
+  thumbnail: Buffer | null;
+}
+
+export function attachmentExtension(contentType: UploadAttachment["contentType"]): string {
+  return extensions[contentType];
+}
+
+// Accepts plain base64 or a data: URL, which is what FileReader gives the browser
+export function decodeAttachment(upload: UploadAttachment): DecodedAttachment {
+  const decode = (value: string) => Buffer.from(value.replace(/^data:[^,]*,/, ""), "base64");
+  return {
+    data: decode(upload.data),
+    thumbnail: upload.thumbnail && upload.contentType.startsWith("image/") ? decode(upload.thumbnail) : null,
+  };
+}
+
+// Why an upload can't be stored, or undefined when it can
+export function getAttachmentUploadError(upload: UploadAttachment, decoded: DecodedAttachment): string | undefined {
+  if (decoded.data.length === 0) {
+    return "File is empty";
+  }
+  if (decoded.data.length > MAX_ATTACHMENT_BYTES) {
+    return `Files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`;
+  }
+  if (!signatures[upload.contentType](decoded.data)) {
+    return "The file doesn't look like the type it claims to be";
+  }
+  if (decoded.thumbnail && (decoded.thumbnail.length > MAX_THUMBNAIL_BYTES || !signatures["image/jpeg"](decoded.thumbnail))) {
+    return "Thumbnails must be JPEG images under 200 KB";
+  }
+  return undefined;
+}
@@ -0,0 +1,68 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Attachment } from "@shared/schema";
+
+// Where attachment bytes live. Rows in the attachments table only hold the key; swapping this for object
+// storage means implementing these three calls.
+export interface AttachmentStore {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Files under one directory on local disk, one per key
+export class LocalDiskAttachmentStore implements AttachmentStore {
+  constructor(private readonly rootDir: string) {}
+
+  // Keys are generated by newAttachmentKey, but refuse anything that would land outside the root anyway
+  private pathFor(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error("Invalid attachment key");
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return await fs.readFile(this.pathFor(key));
+  }
+
+  // Deleting a file that is already gone is not an error
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+}
+
+export const attachmentStore: AttachmentStore = new LocalDiskAttachmentStore(
+  process.env.ATTACHMENTS_DIR || path.resolve("uploads", "attachments")
+);
+
+export function newAttachmentKey(userId: string, extension: string): string {
+  return `${userId}/${randomUUID()}${extension}`;
+}
+
+// Remove the files behind attachment rows that have just been deleted. The rows are already gone, so a file
+// that can't be removed is logged and left behind rather than failing the delete.
+export async function removeAttachmentFiles(removed: Attachment[]): Promise<void> {
+  for (const attachment of removed) {
+    for (const key of [attachment.storageKey, attachment.thumbnailKey]) {
+      if (!key) continue;
+      try {
+        await attachmentStore.delete(key);
+      } catch (error) {
+        console.error(`Failed to remove attachment file ${key}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, Request, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { useMemoryStorage } from "./db";
+import { replitAuthProvider } from "./replitAuth";
+import { localAuthProvider } from "./localAuth";
+
+declare module "express-session" {
+  interface SessionData {
+    // Guest user whose data should move to the account that finishes signing in
+    upgradeGuestUserId?: string;
+  }
+}
+
+export const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Every provider puts the same shape on req.user: routes only rely on claims.sub and expires_at
+export interface AuthProvider {
+  name: "replit" | "local";
+  // Where the browser goes to sign in
+  loginUrl: string;
+  setup(app: Express): Promise<void>;
+  // Try to extend an expired session; providers without refresh tokens leave it expired
+  refresh?(user: any): Promise<boolean>;
+}
+
+const providers: Record<AuthProvider["name"], AuthProvider> = {
+  replit: replitAuthProvider,
+  local: localAuthProvider,
+};
+
+// AUTH_PROVIDER picks the provider explicitly; otherwise Replit deployments keep OIDC and everything else signs in locally
+function getAuthProvider(): AuthProvider {
+  const name = process.env.AUTH_PROVIDER ?? (process.env.REPLIT_DOMAINS ? "replit" : "local");
+  const provider = providers[name as AuthProvider["name"]];
+  if (!provider) {
+    throw new Error(`Unknown AUTH_PROVIDER "${name}". Use one of: ${Object.keys(providers).join(", ")}`);
+  }
+  return provider;
+}
+
+export const authProvider = getAuthProvider();
+
+// Sessions live next to the rest of the data: in Postgres normally, in process memory with STORAGE=memory
+let memorySessionStore: session.Store | undefined;
+
+function createSessionStore(): session.Store {
+  if (useMemoryStorage) {
+    const MemoryStore = createMemoryStore(session);
+    memorySessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }); // prune expired sessions daily
+    return memorySessionStore;
+  }
+
+  const pgStore = connectPg(session);
+  return new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: SESSION_TTL,
+    tableName: "sessions",
+  });
+}
+
+export function getSession() {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("Environment variable SESSION_SECRET not provided");
+  }
+
+  return session({
+    secret: process.env.SESSION_SECRET,
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Local installs are often served over plain http in development
+      secure: authProvider.name === "replit" || process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL,
+    },
+  });
+}
+
+// Signs a user out everywhere, e.g. after their password changes
+export async function destroyUserSessions(userId: string): Promise<void> {
+  if (!memorySessionStore) {
+    await storage.deleteUserSessions(userId);
+    return;
+  }
+
+  const store = memorySessionStore;
+  const all = await new Promise<Record<string, session.SessionData>>((resolve, reject) => {
+    store.all!((err, sessions) => (err ? reject(err) : resolve((sessions ?? {}) as Record<string, session.SessionData>)));
+  });
+  const sids = Object.keys(all).filter(sid => (all[sid] as any).passport?.user?.claims?.sub === userId);
+  await Promise.all(sids.map(sid => new Promise<void>((resolve, reject) => {
+    store.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  })));
+}
+
+// Log the user in, then move any guest data the session was carrying across.
+// Resolves to undefined when there was no guest to upgrade, otherwise whether the move succeeded.
+export async function logInAndUpgradeGuest(req: Request, user: Express.User): Promise<boolean | undefined> {
+  // Read before login regenerates the session
+  const guestUserId = req.session.upgradeGuestUserId;
+
+  await new Promise<void>((resolve, reject) => {
+    req.login(user, (err) => (err ? reject(err) : resolve()));
+  });
+  if (!guestUserId) return undefined;
+
+  const userId = (user as any).claims.sub;
+  try {
+    await storage.migrateUserData(guestUserId, userId);
+    log(`moved guest data into account ${userId}`, "auth");
+    return true;
+  } catch (error) {
+    console.error("Guest data migration failed:", error);
+    return false;
+  }
+}
+
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  await authProvider.setup(app);
+
+  app.get("/api/auth/config", (_req, res) => {
+    res.json({ provider: authProvider.name, loginUrl: authProvider.loginUrl });
+  });
+
+  // Guests (even with an expired session) start a normal login that carries their data across
+  app.get("/api/upgrade-guest", (req, res) => {
+    const user = req.user as any;
+    const guestUserId = user?.claims?.sub;
+    if (!req.isAuthenticated() || !guestUserId?.startsWith("guest-")) {
+      return res.redirect(authProvider.loginUrl);
+    }
+
+    req.session.upgradeGuestUserId = guestUserId;
+    req.session.save(() => res.redirect(authProvider.loginUrl));
+  });
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user as any;
+
+  if (!req.isAuthenticated() || !user.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now <= user.expires_at) {
+    return next();
+  }
+
+  // Handle guest users - they expire after 24 hours
+  if (user.claims?.sub?.startsWith('guest-')) {
+    return res.status(401).json({ message: "Guest session expired" });
+  }
+
+  if (!authProvider.refresh) {
+    return res.status(401).json({ message: "Session expired" });
+  }
+
+  const refreshed = await authProvider.refresh(user);
+  if (!refreshed) {
+    return res.redirect(authProvider.loginUrl);
+  }
+  return next();
+};
+
+// Maintenance endpoints are limited to the user ids listed in ADMIN_USER_IDS (comma separated); use after isAuthenticated
+export const isAdmin: RequestHandler = (req, res, next) => {
+  const adminUserIds = (process.env.ADMIN_USER_IDS ?? "").split(",").map(id => id.trim()).filter(Boolean);
+  const userId = (req.user as any)?.claims?.sub;
+  if (!userId || !adminUserIds.includes(userId)) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+  next();
+};
@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { getNextBudgetPeriod, calculateRollover, findConflictingBudget } from "./budget-rules";
+import type { Budget } from "@shared/schema";
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+// Upper bound on how many missed periods a single run catches up per budget
+const MAX_RENEWALS_PER_RUN = 366;
+
+// Renew an ended budget period after period until the newest one is still running, carrying money
+// across each time. Stops early when the user has already set up a budget for the next period by hand.
+async function renewBudget(budget: Budget, asOf: Date): Promise<Budget[]> {
+  const userId = budget.userId!;
+  const renewed: Budget[] = [];
+  let current = budget;
+  let next = getNextBudgetPeriod(current);
+
+  while (next.startDate <= asOf && renewed.length < MAX_RENEWALS_PER_RUN) {
+    const conflictingBudget = findConflictingBudget(await storage.getBudgets(userId), { category: current.category, ...next });
+    if (conflictingBudget) {
+      // That budget takes over, so stop trying to renew this one
+      await storage.updateBudget(userId, current.id, { autoRenew: false });
+      break;
+    }
+
+    const spending = await storage.getBudgetSpending(userId, current.id);
+    if (!spending) break;
+    const rolloverAmount = calculateRollover(spending.budget, spending.spent);
+    current = await storage.renewBudget(userId, current, { ...next, rolloverAmount: rolloverAmount.toFixed(2) });
+    renewed.push(current);
+    next = getNextBudgetPeriod(current);
+  }
+
+  return renewed;
+}
+
+// Renew every ended auto-renewing budget, optionally limited to a single user
+export async function renewDueBudgets(asOf: Date = new Date(), userId?: string): Promise<Budget[]> {
+  const dueBudgets = await storage.getDueBudgetRenewals(asOf);
+  const renewed: Budget[] = [];
+
+  for (const budget of dueBudgets) {
+    if (userId && budget.userId !== userId) continue;
+    try {
+      renewed.push(...await renewBudget(budget, asOf));
+    } catch (error) {
+      console.error(`Failed to renew budget ${budget.id}:`, error);
+    }
+  }
+
+  return renewed;
+}
+
+let isRunning = false;
+
+async function runScheduledRenewal() {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    const renewed = await renewDueBudgets();
+    if (renewed.length > 0) {
+      log(`renewed ${renewed.length} budget(s)`, "budgets");
+    }
+  } catch (error) {
+    console.error("Budget renewal job failed:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startBudgetRenewalScheduler() {
+  runScheduledRenewal();
+  setInterval(runScheduledRenewal, SCHEDULER_INTERVAL_MS);
+}
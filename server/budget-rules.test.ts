@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { budgetSpendingFor, calculateRollover, deriveBudgets, getBudgetedPeriods } from "./budget-rules";
+import { createCurrencyConverter } from "@shared/currency-conversion";
+import type { Budget, Transaction } from "@shared/schema";
+
+function budget(values: Partial<Budget>): Budget {
+  return {
+    id: 1,
+    userId: "user-1",
+    category: "food",
+    amount: "100.00",
+    spent: "0.00",
+    period: "monthly",
+    startDate: new Date(2026, 8, 1),
+    endDate: new Date(2026, 8, 30),
+    icon: "🍔",
+    description: null,
+    autoRenew: false,
+    rolloverMode: "reset",
+    rolloverAmount: "0.00",
+    previousBudgetId: null,
+    ...values,
+  };
+}
+
+function transaction(values: Partial<Transaction>): Transaction {
+  return {
+    id: 1,
+    userId: "user-1",
+    amount: "10.00",
+    description: "Groceries",
+    category: "food",
+    type: "expense",
+    date: new Date(2026, 8, 10, 12),
+    time: null,
+    savingsGoalId: null,
+    loanId: null,
+    accountId: null,
+    toAccountId: null,
+    reconciliationId: null,
+    splits: null,
+    payeeId: null,
+    tags: [],
+    currency: "MWK",
+    investmentId: null,
+    ...values,
+  };
+}
+
+describe("budgetSpendingFor", () => {
+  const food = budget({});
+
+  it("counts only the split lines in the budget's category", () => {
+    const split = transaction({
+      amount: "100.00",
+      category: "split",
+      splits: [{ category: "food", amount: "60.00" }, { category: "transport", amount: "40.00" }],
+    });
+    expect(budgetSpendingFor(food, split)).toBe(60);
+  });
+
+  it("counts spending late on the last day but not the day after", () => {
+    expect(budgetSpendingFor(food, transaction({ date: new Date(2026, 8, 30, 23, 30) }))).toBe(10);
+    expect(budgetSpendingFor(food, transaction({ date: new Date(2026, 9, 1, 0, 30) }))).toBe(0);
+  });
+
+  it("ignores income and transfers", () => {
+    expect(budgetSpendingFor(food, transaction({ type: "income" }))).toBe(0);
+    expect(budgetSpendingFor(food, transaction({ type: "transfer" }))).toBe(0);
+  });
+});
+
+describe("calculateRollover", () => {
+  it("carries what is left, including anything carried in", () => {
+    expect(calculateRollover(budget({ rolloverMode: "carry_unspent", rolloverAmount: "20.00" }), 90)).toBe(30);
+    expect(calculateRollover(budget({ rolloverMode: "carry_unspent" }), 130)).toBe(0);
+  });
+
+  it("carries only a deficit when set to carry overspending", () => {
+    expect(calculateRollover(budget({ rolloverMode: "carry_overspend" }), 130)).toBe(-30);
+    expect(calculateRollover(budget({ rolloverMode: "carry_overspend" }), 70)).toBe(0);
+  });
+
+  it("starts each period afresh when set to reset", () => {
+    expect(calculateRollover(budget({ rolloverMode: "reset" }), 70)).toBe(0);
+  });
+});
+
+describe("getBudgetedPeriods", () => {
+  it("joins overlapping periods and keeps gaps between them", () => {
+    const periods = getBudgetedPeriods([
+      budget({ startDate: new Date(2026, 8, 15), endDate: new Date(2026, 9, 14) }),
+      budget({ startDate: new Date(2026, 8, 1), endDate: new Date(2026, 8, 30) }),
+      budget({ startDate: new Date(2026, 11, 1), endDate: new Date(2026, 11, 31) }),
+    ]);
+
+    expect(periods).toEqual([
+      { start: new Date(2026, 8, 1), end: new Date(2026, 9, 14, 23, 59, 59, 999) },
+      { start: new Date(2026, 11, 1), end: new Date(2026, 11, 31, 23, 59, 59, 999) },
+    ]);
+  });
+});
+
+describe("deriveBudgets", () => {
+  it("works out what a renewed budget carries in from its predecessor's spending", () => {
+    const september = budget({ id: 1, rolloverMode: "carry_unspent" });
+    const october = budget({
+      id: 2,
+      startDate: new Date(2026, 9, 1),
+      endDate: new Date(2026, 9, 31),
+      rolloverMode: "carry_unspent",
+      rolloverAmount: "90.00", // stale: written before the second September expense
+      previousBudgetId: 1,
+    });
+    const spending = [
+      transaction({ id: 1, amount: "10.00" }),
+      transaction({ id: 2, amount: "25.00", date: new Date(2026, 8, 20, 12) }),
+      transaction({ id: 3, amount: "5.00", date: new Date(2026, 9, 2, 12) }),
+    ];
+
+    const [derivedSeptember, derivedOctober] = deriveBudgets([september, october], spending, createCurrencyConverter("MWK", []));
+
+    expect(derivedSeptember.spent).toBe(35);
+    expect(derivedOctober.budget.rolloverAmount).toBe("65.00");
+    expect(derivedOctober.budget.spent).toBe("5.00");
+  });
+});
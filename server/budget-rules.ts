@@ -0,0 +1,176 @@
+import { addDays, addWeeks, addMonths, addYears, endOfDay } from "date-fns";
+import type { Budget, BudgetTemplate, ApplyBudgetTemplate, InsertBudget, Transaction } from "@shared/schema";
+import { getCategoryAmount } from "@shared/transaction-splits";
+import { convertTransaction, type CurrencyConverter } from "@shared/currency-conversion";
+
+type BudgetPeriod = Pick<Budget, "category" | "startDate" | "endDate">;
+
+// Two budgets conflict when they share a category and their date ranges overlap
+export function budgetsOverlap(a: BudgetPeriod, b: BudgetPeriod): boolean {
+  if (a.category !== b.category) return false;
+
+  const aStartDate = new Date(a.startDate);
+  const aEndDate = new Date(a.endDate);
+  const bStartDate = new Date(b.startDate);
+  const bEndDate = new Date(b.endDate);
+
+  // Check for any overlap in date ranges
+  return (aStartDate <= bEndDate && aEndDate >= bStartDate);
+}
+
+// Find an existing budget that conflicts with the candidate, skipping the budget being edited
+export function findConflictingBudget<T extends BudgetPeriod & { id: number }>(existingBudgets: T[], candidate: BudgetPeriod, excludeId?: number): T | undefined {
+  return existingBudgets.find(existing => existing.id !== excludeId && budgetsOverlap(existing, candidate));
+}
+
+export function budgetConflictMessage(category: string): string {
+  return `A budget for ${category} already exists for this time period. Please choose a different category or time period.`;
+}
+
+export function batchConflictMessage(categories: string[]): string {
+  return `Budgets for ${categories.join(", ")} already exist or overlap for this time period. Leave those categories out or choose a different time period.`;
+}
+
+// Categories in a batch that clash with an existing budget or with another budget in the same batch
+export function findBatchConflicts(existingBudgets: Array<BudgetPeriod & { id: number }>, candidates: BudgetPeriod[]): string[] {
+  const conflicts = candidates.filter((candidate, index) =>
+    findConflictingBudget(existingBudgets, candidate) ||
+    candidates.some((other, otherIndex) => otherIndex !== index && budgetsOverlap(other, candidate))
+  );
+  return Array.from(new Set(conflicts.map(candidate => candidate.category)));
+}
+
+// The budgets a template produces for one period. Percentage lines are taken of the income given
+// when applying, falling back to the income saved with the template; fixed lines are used as they are.
+export function buildTemplateBudgets(template: BudgetTemplate, options: ApplyBudgetTemplate): InsertBudget[] {
+  const income = parseFloat(options.income ?? template.income ?? "");
+  if (template.allocations.some(allocation => allocation.type === "percentage") && !(income > 0)) {
+    throw new Error("An income is needed to work out the percentage allocations");
+  }
+
+  return template.allocations.map(allocation => {
+    const value = parseFloat(allocation.value);
+    const amount = allocation.type === "percentage" ? Math.round(income * value) / 100 : value;
+    return {
+      category: allocation.category,
+      icon: allocation.icon,
+      amount: amount.toFixed(2),
+      period: options.period,
+      startDate: options.startDate,
+      endDate: options.endDate,
+      description: allocation.type === "percentage"
+        ? `From the ${template.name} template - ${value}% of income`
+        : `From the ${template.name} template`,
+    };
+  });
+}
+
+export const BUDGET_SPENDING_TYPES = ["expense", "loan_repayment"];
+
+// How much of a transaction counts towards a budget: expenses and loan repayments dated inside the
+// budget period, and of a split transaction only the lines in the budget's category. The end date is
+// stored as midnight, so the period runs to the end of that day.
+export function budgetSpendingFor(budget: BudgetPeriod, transaction: Pick<Transaction, "type" | "category" | "amount" | "date" | "splits">): number {
+  const isSpending = BUDGET_SPENDING_TYPES.includes(transaction.type);
+  const inPeriod = new Date(transaction.date) >= new Date(budget.startDate) && new Date(transaction.date) <= endOfDay(new Date(budget.endDate));
+  return isSpending && inPeriod ? getCategoryAmount(transaction, budget.category) : 0;
+}
+
+// The stretches of time a set of budgets covers, overlapping periods joined up and each running to the end of its
+// last day. Only transactions inside them can count towards any of the budgets.
+export function getBudgetedPeriods(userBudgets: Pick<Budget, "startDate" | "endDate">[]): Array<{ start: Date; end: Date }> {
+  const periods = userBudgets
+    .map(budget => ({ start: new Date(budget.startDate), end: endOfDay(new Date(budget.endDate)) }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const joined: Array<{ start: Date; end: Date }> = [];
+  for (const period of periods) {
+    const last = joined[joined.length - 1];
+    if (last && period.start <= last.end) {
+      if (period.end > last.end) last.end = period.end;
+    } else {
+      joined.push(period);
+    }
+  }
+  return joined;
+}
+
+export interface BudgetSpendingLine {
+  transaction: Transaction;
+  amount: number; // in the base currency
+}
+
+export interface BudgetSpending {
+  budget: Budget;
+  spent: number;
+  transactions: BudgetSpendingLine[];
+}
+
+// The transactions that make up a budget's spend, oldest first
+function getBudgetSpending(budget: Budget, transactions: Transaction[], converter: CurrencyConverter): BudgetSpending {
+  const lines = transactions
+    .map(transaction => ({ transaction, amount: budgetSpendingFor(budget, convertTransaction(transaction, converter.baseCurrency, converter)) }))
+    .filter(line => line.amount > 0)
+    .sort((a, b) => new Date(a.transaction.date).getTime() - new Date(b.transaction.date).getTime());
+  const spent = Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+  return { budget: { ...budget, spent: spent.toFixed(2) }, spent, transactions: lines };
+}
+
+// Budgets are always served with spent and carried-in money worked out from the transactions, whatever
+// the stored columns say, so a late entry in an earlier period still flows through to the periods after it.
+// Budgets are set in the base currency, so spending in other currencies counts at its date's rate.
+export function deriveBudgets(userBudgets: Budget[], transactions: Transaction[], converter: CurrencyConverter): BudgetSpending[] {
+  const derived = new Map<number, BudgetSpending>();
+  // Renewals are always inserted after their predecessor, so id order visits every predecessor first
+  for (const budget of [...userBudgets].sort((a, b) => a.id - b.id)) {
+    const previous = budget.previousBudgetId != null ? derived.get(budget.previousBudgetId) : undefined;
+    const rolloverAmount = previous ? calculateRollover(previous.budget, previous.spent).toFixed(2) : budget.rolloverAmount;
+    derived.set(budget.id, getBudgetSpending({ ...budget, rolloverAmount }, transactions, converter));
+  }
+  return userBudgets.map(budget => derived.get(budget.id)!);
+}
+
+// The period after a budget: it starts the day after the budget ends and runs for one weekly/monthly/yearly period
+export function getNextBudgetPeriod(budget: Pick<Budget, "period" | "endDate">): { startDate: Date; endDate: Date } {
+  const startDate = addDays(new Date(budget.endDate), 1);
+  switch (budget.period) {
+    case "weekly": return { startDate, endDate: addDays(addWeeks(startDate, 1), -1) };
+    case "monthly": return { startDate, endDate: addDays(addMonths(startDate, 1), -1) };
+    case "yearly": return { startDate, endDate: addDays(addYears(startDate, 1), -1) };
+    default: throw new Error(`Unknown budget period: ${budget.period}`);
+  }
+}
+
+// Money carried into the next period. What is left counts anything already carried into this one,
+// so a deficit keeps shrinking the following budgets until it is spent back under.
+export function calculateRollover(budget: Pick<Budget, "amount" | "rolloverAmount" | "rolloverMode">, spent: number): number {
+  const leftover = Math.round((parseFloat(budget.amount) + parseFloat(budget.rolloverAmount) - spent) * 100) / 100;
+  switch (budget.rolloverMode) {
+    case "carry_unspent": return Math.max(0, leftover);
+    case "carry_overspend": return Math.min(0, leftover);
+    default: return 0;
+  }
+}
+
+// A budget and the budgets it was renewed from, oldest first
+export function getBudgetChain(userBudgets: Budget[], id: number): Budget[] {
+  const byId = new Map(userBudgets.map(budget => [budget.id, budget]));
+  const chain: Budget[] = [];
+  for (let budget = byId.get(id); budget && !chain.includes(budget); budget = budget.previousBudgetId != null ? byId.get(budget.previousBudgetId) : undefined) {
+    chain.unshift(budget);
+  }
+  return chain;
+}
+
+// Derived figures for every budget whose stored spent or rolloverAmount column has drifted from them
+export function findStaleBudgets(allBudgets: Budget[], allTransactions: Transaction[], converterFor: (userId: string | null) => CurrencyConverter): Budget[] {
+  const userIds = Array.from(new Set(allBudgets.map(budget => budget.userId)));
+  return userIds.flatMap(userId => {
+    const userBudgets = allBudgets.filter(budget => budget.userId === userId);
+    return deriveBudgets(userBudgets, allTransactions.filter(transaction => transaction.userId === userId), converterFor(userId))
+      .map(({ budget }) => budget)
+      .filter((derived, index) =>
+        parseFloat(userBudgets[index].spent) !== parseFloat(derived.spent) ||
+        parseFloat(userBudgets[index].rolloverAmount) !== parseFloat(derived.rolloverAmount)
+      );
+  });
+}
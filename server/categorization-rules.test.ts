@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { applyCategorizationRules, getCategorizationRuleError, planCategorizationRun, ruleMatches } from "./categorization-rules";
+import type { Category, CategorizationRule, InsertCategorizationRule, Transaction } from "@shared/schema";
+
+const userCategories: Category[] = [
+  { id: 1, userId: "user-1", value: "transport", name: "Transport", icon: "🚌", color: "#6b7280", kind: "expense", parentId: null, isArchived: false },
+];
+
+function rule(values: Partial<CategorizationRule>): CategorizationRule {
+  return {
+    id: 1,
+    userId: "user-1",
+    name: "Fuel",
+    priority: 0,
+    isActive: true,
+    matchType: "contains",
+    pattern: "puma",
+    minAmount: null,
+    maxAmount: null,
+    transactionType: null,
+    category: "transport",
+    savingsGoalId: null,
+    loanId: null,
+    createdAt: new Date(2026, 0, 1),
+    ...values,
+  };
+}
+
+function transaction(values: Partial<Transaction>): Transaction {
+  return {
+    id: 1,
+    userId: "user-1",
+    amount: "50.00",
+    description: "Puma Area 47",
+    category: "other",
+    type: "expense",
+    date: new Date(2026, 8, 10, 12),
+    time: null,
+    savingsGoalId: null,
+    loanId: null,
+    accountId: null,
+    toAccountId: null,
+    reconciliationId: null,
+    splits: null,
+    payeeId: null,
+    tags: [],
+    currency: "MWK",
+    investmentId: null,
+    ...values,
+  };
+}
+
+const regexRule = (pattern: string): InsertCategorizationRule => ({ name: "Regex", matchType: "regex", pattern, category: "transport" });
+
+describe("getCategorizationRuleError", () => {
+  it("accepts a bounded regular expression", () => {
+    expect(getCategorizationRuleError(regexRule("^(puma|engen)\\s+\\w+"), userCategories, [], [])).toBeUndefined();
+  });
+
+  it("rejects invalid, overlong and nested repeating patterns", () => {
+    expect(getCategorizationRuleError(regexRule("(puma"), userCategories, [], [])).toBe("The pattern isn't a valid regular expression");
+    expect(getCategorizationRuleError(regexRule("a".repeat(201)), userCategories, [], [])).toBe("Keep the pattern to 200 characters or fewer");
+    for (const pattern of ["(a+)+$", "(a|ab)*c", "(?:\\d+\\s?){2,}x"]) {
+      expect(getCategorizationRuleError(regexRule(pattern), userCategories, [], []))
+        .toBe("The pattern nests repeats, like (a+)+, which can take too long to match");
+    }
+  });
+
+  it("treats repeats inside a character class as plain characters", () => {
+    expect(getCategorizationRuleError(regexRule("([+*]x)+"), userCategories, [], [])).toBeUndefined();
+  });
+
+  it("needs a category the user has", () => {
+    expect(getCategorizationRuleError({ name: "Food", matchType: "contains", pattern: "shoprite", category: "food" }, userCategories, [], []))
+      .toBe("Category not found");
+  });
+});
+
+describe("ruleMatches", () => {
+  it("matches regular expressions without regard to case", () => {
+    expect(ruleMatches(rule({ matchType: "regex", pattern: "^puma\\b" }), transaction({}))).toBe(true);
+    expect(ruleMatches(rule({ matchType: "regex", pattern: "^engen\\b" }), transaction({}))).toBe(false);
+  });
+
+  it("never runs a risky pattern saved before the checks existed", () => {
+    expect(ruleMatches(rule({ matchType: "regex", pattern: "(a+)+$" }), transaction({ description: "a".repeat(40) + "!" }))).toBe(false);
+  });
+
+  it("checks the amount range and type", () => {
+    expect(ruleMatches(rule({ minAmount: "60.00" }), transaction({}))).toBe(false);
+    expect(ruleMatches(rule({ transactionType: "income" }), transaction({}))).toBe(false);
+    expect(ruleMatches(rule({ maxAmount: "50.00", transactionType: "expense" }), transaction({}))).toBe(true);
+  });
+});
+
+describe("applyCategorizationRules", () => {
+  it("uses the first matching active rule in priority order", () => {
+    const rules = [
+      rule({ id: 1, priority: 2, category: "transport" }),
+      rule({ id: 2, priority: 1, category: "fuel" }),
+      rule({ id: 3, priority: 0, category: "other", isActive: false }),
+    ];
+    expect(applyCategorizationRules(rules, transaction({})).category).toBe("fuel");
+  });
+
+  it("leaves transfers and split transactions as they are", () => {
+    const transfer = transaction({ type: "transfer", category: "transfer" });
+    const split = transaction({ category: "split", splits: [{ category: "food", amount: "30.00" }, { category: "other", amount: "20.00" }] });
+
+    expect(applyCategorizationRules([rule({})], transfer)).toBe(transfer);
+    expect(applyCategorizationRules([rule({})], split)).toBe(split);
+  });
+});
+
+describe("planCategorizationRun", () => {
+  it("lists changes for unlocked transactions the rules would change", () => {
+    const userTransactions = [
+      transaction({ id: 1 }),
+      transaction({ id: 2, reconciliationId: 7 }),
+      transaction({ id: 3, category: "transport" }),
+      transaction({ id: 4, description: "Shoprite" }),
+    ];
+
+    const changes = planCategorizationRun([rule({})], userTransactions);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      transactionId: 1,
+      ruleId: 1,
+      before: { category: "other", savingsGoalId: null, loanId: null },
+      after: { category: "transport", savingsGoalId: null, loanId: null },
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import type { Category, CategorizationRule, InsertCategorizationRule, Loan, SavingsGoal, Transaction } from "@shared/schema";
+import { SPLIT_CATEGORY } from "@shared/transaction-splits";
+import { descriptionTokens, type ImportPreviewRow } from "./statement-import";
+
+// Past transactions at least this similar to a new description count towards a suggestion
+const SUGGESTION_SIMILARITY = 0.5;
+
+// Regex rules run on every new, imported and re-categorized transaction, so they are kept short and free of
+// nested repetition that could backtrack for seconds on one description
+const MAX_PATTERN_LENGTH = 200;
+
+const GOAL_TRANSACTION_TYPES = ["savings_deposit", "savings_withdrawal"];
+const LOAN_TRANSACTION_TYPES = ["loan_repayment"];
+
+type MatchableTransaction = Pick<Transaction, "description" | "amount" | "type">;
+type CategorizableTransaction = MatchableTransaction & Pick<Transaction, "category"> & {
+  savingsGoalId?: number | null;
+  loanId?: number | null;
+  splits?: Transaction["splits"];
+};
+
+export interface CategorizationSuggestion {
+  source: "rule" | "history";
+  ruleId?: number;
+  category?: string;
+  savingsGoalId?: number;
+  loanId?: number;
+}
+
+export interface CategorizationChange {
+  transactionId: number;
+  ruleId: number;
+  description: string;
+  date: Date;
+  amount: string;
+  type: string;
+  before: { category: string; savingsGoalId: number | null; loanId: number | null };
+  after: { category: string; savingsGoalId: number | null; loanId: number | null };
+}
+
+// Why a regex could backtrack catastrophically, or undefined when it is safe to run: a repeated group that itself
+// repeats or alternates, like (a+)+ or (a|ab)*, can try exponentially many ways to match before failing
+function getPatternRiskError(pattern: string): string | undefined {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Keep the pattern to ${MAX_PATTERN_LENGTH} characters or fewer`;
+  }
+
+  // One entry per open group: whether anything inside it repeats or alternates
+  const groups: boolean[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      // A character class is a single character however many alternatives it lists
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push(false);
+      if (pattern[i + 1] === "?") i++;
+    } else if (char === ")") {
+      const inner = groups.pop() ?? false;
+      const next = pattern[i + 1];
+      if (inner && (next === "*" || next === "+" || next === "{")) {
+        return "The pattern nests repeats, like (a+)+, which can take too long to match";
+      }
+      if (groups.length > 0) groups[groups.length - 1] = groups[groups.length - 1] || inner;
+    } else if (char === "*" || char === "+" || char === "?" || char === "{" || char === "|") {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+  return undefined;
+}
+
+// Why a rule can't be saved, or undefined when it can
+export function getCategorizationRuleError(rule: InsertCategorizationRule, userCategories: Category[], userGoals: SavingsGoal[], userLoans: Loan[]): string | undefined {
+  if (!!rule.matchType !== !!rule.pattern) {
+    return "Choose how to match the description and what to match it against";
+  }
+  if (rule.matchType === "regex") {
+    try {
+      new RegExp(rule.pattern!, "i");
+    } catch {
+      return "The pattern isn't a valid regular expression";
+    }
+    const riskError = getPatternRiskError(rule.pattern!);
+    if (riskError) return riskError;
+  }
+  if (rule.minAmount != null && rule.maxAmount != null && parseFloat(rule.minAmount) > parseFloat(rule.maxAmount)) {
+    return "The minimum amount is more than the maximum";
+  }
+  if (!rule.pattern && rule.minAmount == null && rule.maxAmount == null && !rule.transactionType) {
+    return "A rule needs at least one condition";
+  }
+  if (!rule.category && rule.savingsGoalId == null && rule.loanId == null) {
+    return "A rule needs to set a category, savings goal or loan";
+  }
+  if (rule.category && !userCategories.some(category => category.value === rule.category)) {
+    return "Category not found";
+  }
+
+  // Goals and loans only mean something on the transaction types that move money in or out of them
+  if (rule.savingsGoalId != null) {
+    if (!GOAL_TRANSACTION_TYPES.includes(rule.transactionType ?? "")) {
+      return "Rules that set a savings goal must only match savings deposits or withdrawals";
+    }
+    if (!userGoals.some(goal => goal.id === rule.savingsGoalId)) {
+      return "Savings goal not found";
+    }
+  }
+  if (rule.loanId != null) {
+    if (!LOAN_TRANSACTION_TYPES.includes(rule.transactionType ?? "")) {
+      return "Rules that set a loan must only match loan repayments";
+    }
+    if (!userLoans.some(loan => loan.id === rule.loanId)) {
+      return "Loan not found";
+    }
+  }
+  return undefined;
+}
+
+// Each rule's regex, compiled the first time the rule is matched. Rules are loaded fresh for every request, so this
+// compiles each one once per run rather than once per transaction. Null when the pattern is invalid, or was saved
+// before the checks above and is too risky to run.
+const compiledPatterns = new WeakMap<CategorizationRule, RegExp | null>();
+
+function compiledPattern(rule: CategorizationRule): RegExp | null {
+  let compiled = compiledPatterns.get(rule);
+  if (compiled === undefined) {
+    try {
+      compiled = getPatternRiskError(rule.pattern!) ? null : new RegExp(rule.pattern!, "i");
+    } catch {
+      compiled = null;
+    }
+    compiledPatterns.set(rule, compiled);
+  }
+  return compiled;
+}
+
+// Whether a transaction meets every condition the rule sets
+export function ruleMatches(rule: CategorizationRule, transaction: MatchableTransaction): boolean {
+  if (rule.transactionType && rule.transactionType !== transaction.type) return false;
+
+  const amount = parseFloat(transaction.amount);
+  if (rule.minAmount != null && amount < parseFloat(rule.minAmount)) return false;
+  if (rule.maxAmount != null && amount > parseFloat(rule.maxAmount)) return false;
+
+  if (rule.pattern) {
+    const description = transaction.description.trim().toLowerCase();
+    const pattern = rule.pattern.trim().toLowerCase();
+    switch (rule.matchType) {
+      case "exact":
+        return description === pattern;
+      case "regex":
+        return compiledPattern(rule)?.test(transaction.description) ?? false;
+      default:
+        return description.includes(pattern);
+    }
+  }
+  return true;
+}
+
+// The first active rule, in priority order, that the transaction matches
+export function findMatchingRule(rules: CategorizationRule[], transaction: MatchableTransaction): CategorizationRule | undefined {
+  return rules
+    .filter(rule => rule.isActive)
+    .sort((a, b) => a.priority - b.priority || a.id - b.id)
+    .find(rule => ruleMatches(rule, transaction));
+}
+
+// Split transactions and transfers keep their own categories, and a received loan stays tied to the loan it created
+function isCategorizable(transaction: CategorizableTransaction): boolean {
+  return transaction.type !== "transfer" && transaction.type !== "loan_received" &&
+    transaction.category !== SPLIT_CATEGORY && !(transaction.splits && transaction.splits.length > 0);
+}
+
+// The transaction with whatever the first matching rule sets; unchanged when no rule matches
+export function applyCategorizationRules<T extends CategorizableTransaction>(rules: CategorizationRule[], transaction: T): T {
+  if (!isCategorizable(transaction)) return transaction;
+  const rule = findMatchingRule(rules, transaction);
+  if (!rule) return transaction;
+
+  return {
+    ...transaction,
+    category: rule.category ?? transaction.category,
+    savingsGoalId: rule.savingsGoalId ?? transaction.savingsGoalId,
+    loanId: rule.loanId ?? transaction.loanId,
+  };
+}
+
+// Share of the shorter description's words that the other one also has, so "Shoprite Area 3" and "Shoprite Mall"
+// count as alike where the duplicate check would not
+function descriptionOverlap(a: string, b: string): number {
+  const tokensA = descriptionTokens(a);
+  const tokensB = descriptionTokens(b);
+  const shorter = Math.min(tokensA.size, tokensB.size);
+  if (shorter === 0) return 0;
+  return Array.from(tokensA).filter(token => tokensB.has(token)).length / shorter;
+}
+
+// The category most used by the user's past transactions of the same type with a similar description
+export function suggestCategoryFromHistory(transaction: Pick<Transaction, "description" | "type">, history: Transaction[]): string | undefined {
+  const scores = new Map<string, number>();
+  for (const past of history) {
+    if (past.type !== transaction.type || !isCategorizable(past)) continue;
+    const similarity = descriptionOverlap(past.description, transaction.description);
+    if (similarity >= SUGGESTION_SIMILARITY) {
+      scores.set(past.category, (scores.get(past.category) ?? 0) + similarity);
+    }
+  }
+
+  let best: string | undefined;
+  scores.forEach((score, category) => {
+    if (best === undefined || score > scores.get(best)!) best = category;
+  });
+  return best;
+}
+
+// A rule's answer when one matches, otherwise a guess from similar past transactions
+export function suggestCategorization(rules: CategorizationRule[], history: Transaction[], transaction: MatchableTransaction): CategorizationSuggestion | undefined {
+  const rule = findMatchingRule(rules, transaction);
+  if (rule) {
+    return {
+      source: "rule",
+      ruleId: rule.id,
+      category: rule.category ?? undefined,
+      savingsGoalId: rule.savingsGoalId ?? undefined,
+      loanId: rule.loanId ?? undefined,
+    };
+  }
+
+  const category = suggestCategoryFromHistory(transaction, history);
+  return category ? { source: "history", category } : undefined;
+}
+
+// Statement rows that came without a category of their own (they hold the fallback) get one from the rules, or
+// failing that from similar past transactions
+export function categorizePreviewRows(rows: ImportPreviewRow[], rules: CategorizationRule[], history: Transaction[], defaultCategory: string): ImportPreviewRow[] {
+  return rows.map(row => {
+    const fallback = row.type === "income" ? "income" : defaultCategory;
+    if (row.error || row.category !== fallback) return row;
+
+    const suggestion = suggestCategorization(rules, history, { ...row, amount: row.amount ?? "0" });
+    return suggestion?.category ? { ...row, category: suggestion.category, categorizedBy: suggestion.source } : row;
+  });
+}
+
+// What running the rules over existing transactions would change. Reconciled transactions are locked and left alone.
+export function planCategorizationRun(rules: CategorizationRule[], userTransactions: Transaction[]): CategorizationChange[] {
+  const changes: CategorizationChange[] = [];
+  for (const transaction of userTransactions) {
+    if (transaction.reconciliationId != null || !isCategorizable(transaction)) continue;
+    const rule = findMatchingRule(rules, transaction);
+    if (!rule) continue;
+
+    const before = { category: transaction.category, savingsGoalId: transaction.savingsGoalId, loanId: transaction.loanId };
+    const after = {
+      category: rule.category ?? before.category,
+      savingsGoalId: rule.savingsGoalId ?? before.savingsGoalId,
+      loanId: rule.loanId ?? before.loanId,
+    };
+    if (after.category === before.category && after.savingsGoalId === before.savingsGoalId && after.loanId === before.loanId) continue;
+
+    changes.push({
+      transactionId: transaction.id,
+      ruleId: rule.id,
+      description: transaction.description,
+      date: transaction.date,
+      amount: transaction.amount,
+      type: transaction.type,
+      before,
+      after,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,180 @@
+import type { BudgetTemplateAllocation, Category, InsertCategory, RecurringTransactionTemplate, TransactionSplit } from "@shared/schema";
+import { DEFAULT_CATEGORIES, RESERVED_CATEGORY_VALUES, formatCategoryValue } from "@shared/categories";
+import { budgetsOverlap } from "./budget-rules";
+import type { UserDataSnapshot } from "./storage";
+
+export type NewCategory = InsertCategory & { value: string };
+
+// The defaults, plus a category for every value already in use so existing transactions and budgets keep theirs
+export function buildStarterCategories(usedValues: string[]): NewCategory[] {
+  const starters: NewCategory[] = DEFAULT_CATEGORIES.map(category => ({ ...category }));
+  for (const value of Array.from(new Set(usedValues))) {
+    if (RESERVED_CATEGORY_VALUES.includes(value) || starters.some(category => category.value === value)) continue;
+    starters.push({ value, name: formatCategoryValue(value) });
+  }
+  return starters;
+}
+
+// Why a category can't take this value, or undefined when it can
+export function getCategoryValueError(userCategories: Category[], value: string, categoryId?: number): string | undefined {
+  if (!value || RESERVED_CATEGORY_VALUES.includes(value)) {
+    return "That name is reserved; choose another";
+  }
+  const existing = userCategories.find(category => category.value === value && category.id !== categoryId);
+  if (existing) {
+    return `A category called ${existing.name} already exists. Merge the two instead.`;
+  }
+  return undefined;
+}
+
+// Why a category can't sit under this parent, or undefined when it can. A category can't be nested under itself or
+// one of its own subcategories, and income and expense categories don't mix.
+export function getCategoryParentError(userCategories: Category[], parentId: number | null | undefined, kind: string, categoryId?: number): string | undefined {
+  if (parentId == null) return undefined;
+
+  const byId = new Map(userCategories.map(category => [category.id, category]));
+  const parent = byId.get(parentId);
+  if (!parent) {
+    return "Parent category not found";
+  }
+  if (parent.kind !== kind) {
+    return `A ${kind} category can't be nested under a ${parent.kind} category`;
+  }
+
+  for (let ancestor: Category | undefined = parent; ancestor; ancestor = ancestor.parentId != null ? byId.get(ancestor.parentId) : undefined) {
+    if (ancestor.id === categoryId) {
+      return "A category can't be nested under itself or one of its subcategories";
+    }
+  }
+  return undefined;
+}
+
+// Every row a rename or merge has to change so nothing is left pointing at the old value
+export interface CategoryRewrite {
+  transactions: Array<{ id: number; category: string; splits: TransactionSplit[] | null }>;
+  budgets: Array<{ id: number; category?: string; amount?: string }>;
+  deletedBudgetIds: number[];
+  recurringTransactions: Array<{ id: number; template: RecurringTransactionTemplate }>;
+  budgetTemplates: Array<{ id: number; allocations: BudgetTemplateAllocation[] }>;
+  envelopeMoves: Array<{ id: number; fromCategory: string | null; toCategory: string | null }>;
+  categorizationRules: Array<{ id: number; category: string }>;
+}
+
+type RewriteSource = Pick<UserDataSnapshot, "transactions" | "budgets" | "recurringTransactions" | "budgetTemplates" | "envelopeMoves" | "categorizationRules">;
+
+const addAmounts = (a: string, b: string) => ((Math.round(parseFloat(a) * 100) + Math.round(parseFloat(b) * 100)) / 100).toFixed(2);
+
+// Split lines that end up in the same category are added together; a split left with a single line stops being a split
+function rewriteCategoryLines(category: string, splits: TransactionSplit[] | null | undefined, from: string, to: string) {
+  const newCategory = category === from ? to : category;
+  if (!splits || !splits.some(split => split.category === from)) {
+    return { category: newCategory, splits: splits ?? null, changed: newCategory !== category };
+  }
+
+  const lines: TransactionSplit[] = [];
+  for (const split of splits) {
+    const splitCategory = split.category === from ? to : split.category;
+    const line = lines.find(existing => existing.category === splitCategory);
+    if (line) line.amount = addAmounts(line.amount, split.amount);
+    else lines.push({ category: splitCategory, amount: split.amount });
+  }
+  return lines.length > 1
+    ? { category: newCategory, splits: lines, changed: true }
+    : { category: lines[0].category, splits: null, changed: true };
+}
+
+// Move every reference from one category value to another. When merging, a budget that overlaps one the target
+// already has is folded into it, and template lines of the same kind are added together (otherwise the first is kept).
+// Reconciled transactions are locked, so a rename or merge that would change any of them waits until their
+// reconciliations are reopened. Undefined when nothing locked is in the way.
+export function getLockedRewriteError(data: Pick<RewriteSource, "transactions">, rewrite: CategoryRewrite): string | undefined {
+  const rewrittenIds = new Set(rewrite.transactions.map(transaction => transaction.id));
+  const locked = data.transactions.filter(transaction => rewrittenIds.has(transaction.id) && transaction.reconciliationId != null).length;
+  if (locked === 0) return undefined;
+  return `${locked} reconciled transaction${locked === 1 ? " uses" : "s use"} this category. Reopen ${locked === 1 ? "its reconciliation" : "their reconciliations"} first.`;
+}
+
+export function planCategoryRewrite(data: RewriteSource, from: string, to: string): CategoryRewrite {
+  const rewrite: CategoryRewrite = {
+    transactions: [],
+    budgets: [],
+    deletedBudgetIds: [],
+    recurringTransactions: [],
+    budgetTemplates: [],
+    envelopeMoves: [],
+    categorizationRules: [],
+  };
+
+  for (const transaction of data.transactions) {
+    const { category, splits, changed } = rewriteCategoryLines(transaction.category, transaction.splits, from, to);
+    if (changed) rewrite.transactions.push({ id: transaction.id, category, splits });
+  }
+
+  const targetAmounts = new Map<number, string>();
+  for (const budget of data.budgets) {
+    if (budget.category !== from) continue;
+    const target = data.budgets.find(existing => existing.category === to && budgetsOverlap(existing, { ...budget, category: to }));
+    if (target) {
+      targetAmounts.set(target.id, addAmounts(targetAmounts.get(target.id) ?? target.amount, budget.amount));
+      rewrite.deletedBudgetIds.push(budget.id);
+    } else {
+      rewrite.budgets.push({ id: budget.id, category: to });
+    }
+  }
+  targetAmounts.forEach((amount, id) => rewrite.budgets.push({ id, amount }));
+
+  for (const rule of data.recurringTransactions) {
+    const { category, splits, changed } = rewriteCategoryLines(rule.template.category, rule.template.splits, from, to);
+    if (changed) rewrite.recurringTransactions.push({ id: rule.id, template: { ...rule.template, category, splits } });
+  }
+
+  for (const template of data.budgetTemplates) {
+    if (!template.allocations.some(allocation => allocation.category === from)) continue;
+    const allocations: BudgetTemplateAllocation[] = [];
+    for (const allocation of template.allocations) {
+      const category = allocation.category === from ? to : allocation.category;
+      const existing = allocations.find(line => line.category === category);
+      if (!existing) allocations.push({ ...allocation, category });
+      else if (existing.type === allocation.type) existing.value = addAmounts(existing.value, allocation.value);
+    }
+    rewrite.budgetTemplates.push({ id: template.id, allocations });
+  }
+
+  for (const move of data.envelopeMoves) {
+    if (move.fromCategory !== from && move.toCategory !== from) continue;
+    rewrite.envelopeMoves.push({
+      id: move.id,
+      fromCategory: move.fromCategory === from ? to : move.fromCategory,
+      toCategory: move.toCategory === from ? to : move.toCategory,
+    });
+  }
+
+  for (const rule of data.categorizationRules) {
+    if (rule.category === from) rewrite.categorizationRules.push({ id: rule.id, category: to });
+  }
+
+  return rewrite;
+}
+
+// Whether any transaction, budget, recurring rule, template or categorization rule still uses the value
+export function isCategoryInUse(data: RewriteSource, value: string): boolean {
+  const usesValue = (lines: { category: string; splits?: TransactionSplit[] | null }) =>
+    lines.category === value || (lines.splits ?? []).some(split => split.category === value);
+
+  return data.transactions.some(usesValue) ||
+    data.recurringTransactions.some(rule => usesValue(rule.template)) ||
+    data.budgets.some(budget => budget.category === value) ||
+    data.budgetTemplates.some(template => template.allocations.some(allocation => allocation.category === value)) ||
+    data.categorizationRules.some(rule => rule.category === value);
+}
+
+// Whether a category sits somewhere beneath another
+export function isSubcategoryOf(userCategories: Category[], categoryId: number, ancestorId: number): boolean {
+  const byId = new Map(userCategories.map(category => [category.id, category]));
+  const seen = new Set<number>();
+  for (let category = byId.get(categoryId); category?.parentId != null && !seen.has(category.id); category = byId.get(category.parentId)) {
+    seen.add(category.id);
+    if (category.parentId === ancestorId) return true;
+  }
+  return false;
+}
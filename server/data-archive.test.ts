@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { ARCHIVE_VERSION, buildArchive, parseArchive } from "./data-archive";
+import { MemStorage } from "./memStorage";
+import { insertTransactionSchema } from "@shared/schema";
+
+// An export from the first release, which only had these five tables
+const version1Archive = {
+  version: 1,
+  exportedAt: "2026-01-15T10:00:00.000Z",
+  transactions: [
+    { id: 1, amount: "45.50", description: "Shoprite", category: "food", type: "expense", date: "2026-01-10T12:00:00.000Z", time: null, savingsGoalId: null, loanId: null },
+  ],
+  budgets: [
+    { id: 1, category: "food", amount: "300.00", spent: "45.50", period: "monthly", startDate: "2026-01-01T00:00:00.000Z", endDate: "2026-01-31T00:00:00.000Z", icon: "🍔", description: null },
+  ],
+  savingsGoals: [],
+  loans: [],
+  recurringTransactions: [],
+};
+
+describe("parseArchive", () => {
+  it("fills in everything added since version 1", () => {
+    const archive = parseArchive(version1Archive);
+
+    expect(archive.transactions[0]).toMatchObject({ accountId: null, reconciliationId: null, splits: null, tags: [], currency: "MWK" });
+    expect(archive.budgets[0]).toMatchObject({ autoRenew: false, rolloverMode: "reset", rolloverAmount: "0", previousBudgetId: null });
+    expect(archive.accounts).toEqual([]);
+    expect(archive.investments).toEqual([]);
+  });
+
+  it("reads back an archive this version wrote", async () => {
+    const storage = new MemStorage();
+    await storage.createTransaction("user-1", insertTransactionSchema.parse({
+      type: "expense",
+      amount: "12.00",
+      description: "Bus",
+      category: "transport",
+      date: "2026-09-10T12:00:00.000Z",
+      tags: ["commute"],
+    }));
+
+    const archive = parseArchive(JSON.parse(JSON.stringify(buildArchive(undefined, await storage.exportUserData("user-1")))));
+
+    expect(archive.version).toBe(ARCHIVE_VERSION);
+    expect(archive.transactions.map(transaction => transaction.tags)).toEqual([["commute"]]);
+  });
+
+  it("refuses archives from a newer version", () => {
+    expect(() => parseArchive({ ...version1Archive, version: ARCHIVE_VERSION + 1 }))
+      .toThrow(`Archive version ${ARCHIVE_VERSION + 1} is newer than this app supports (${ARCHIVE_VERSION})`);
+  });
+});
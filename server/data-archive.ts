@@ -0,0 +1,235 @@
+import { z } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import {
+  accounts,
+  categories,
+  payees,
+  savedViews,
+  savedViewFiltersSchema,
+  reconciliations,
+  transactions,
+  budgets,
+  budgetTemplates,
+  budgetTemplateAllocationSchema,
+  envelopeMoves,
+  categorizationRules,
+  savingsGoals,
+  loans,
+  recurringTransactions,
+  recurringTransactionTemplateSchema,
+  exchangeRates,
+  userSettings,
+  assets,
+  assetValuations,
+  netWorthSnapshots,
+  investments,
+  investmentLots,
+  investmentPrices,
+  transactionSplitSchema,
+  type User,
+} from "@shared/schema";
+import type { UserDataSnapshot } from "./storage";
+
+// Bump whenever the archive layout changes; older archives are upgraded in upgradeArchive
+export const ARCHIVE_VERSION = 2;
+
+// Archived rows drop userId (restored onto the importing account) and read dates back from ISO strings
+const archivedAccountSchema = createSelectSchema(accounts).omit({ userId: true });
+
+const archivedCategorySchema = createSelectSchema(categories).omit({ userId: true });
+
+const archivedPayeeSchema = createSelectSchema(payees).omit({ userId: true }).extend({
+  aliases: z.array(z.string()),
+  createdAt: z.coerce.date(),
+});
+
+const archivedSavedViewSchema = createSelectSchema(savedViews).omit({ userId: true }).extend({
+  filters: savedViewFiltersSchema,
+  createdAt: z.coerce.date(),
+});
+
+const archivedReconciliationSchema = createSelectSchema(reconciliations).omit({ userId: true }).extend({
+  statementDate: z.coerce.date(),
+  reconciledAt: z.coerce.date(),
+  reopenedAt: z.coerce.date().nullable(),
+});
+
+const archivedTransactionSchema = createSelectSchema(transactions).omit({ userId: true }).extend({
+  date: z.coerce.date(),
+  splits: z.array(transactionSplitSchema).nullable(),
+  tags: z.array(z.string()),
+});
+
+const archivedBudgetSchema = createSelectSchema(budgets).omit({ userId: true }).extend({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+});
+
+const archivedBudgetTemplateSchema = createSelectSchema(budgetTemplates).omit({ userId: true }).extend({
+  allocations: z.array(budgetTemplateAllocationSchema),
+  createdAt: z.coerce.date().nullable(),
+});
+
+const archivedEnvelopeMoveSchema = createSelectSchema(envelopeMoves).omit({ userId: true }).extend({
+  createdAt: z.coerce.date(),
+});
+
+const archivedCategorizationRuleSchema = createSelectSchema(categorizationRules).omit({ userId: true }).extend({
+  createdAt: z.coerce.date(),
+});
+
+const archivedSavingsGoalSchema = createSelectSchema(savingsGoals).omit({ userId: true }).extend({
+  startDate: z.coerce.date(),
+  deadline: z.coerce.date().nullable(),
+});
+
+const archivedLoanSchema = createSelectSchema(loans).omit({ userId: true }).extend({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable(),
+});
+
+const archivedRecurringTransactionSchema = createSelectSchema(recurringTransactions).omit({ userId: true }).extend({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable(),
+  nextRunDate: z.coerce.date().nullable(),
+  lastRunAt: z.coerce.date().nullable(),
+  template: recurringTransactionTemplateSchema,
+});
+
+const archivedExchangeRateSchema = createSelectSchema(exchangeRates).omit({ userId: true }).extend({
+  effectiveDate: z.coerce.date(),
+  createdAt: z.coerce.date(),
+});
+
+const archivedUserSettingsSchema = createSelectSchema(userSettings).omit({ userId: true }).extend({
+  updatedAt: z.coerce.date().nullable(),
+});
+
+const archivedAssetSchema = createSelectSchema(assets).omit({ userId: true }).extend({
+  createdAt: z.coerce.date(),
+});
+
+const archivedAssetValuationSchema = createSelectSchema(assetValuations).omit({ userId: true }).extend({
+  valuedAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+});
+
+const archivedNetWorthSnapshotSchema = createSelectSchema(netWorthSnapshots).omit({ userId: true }).extend({
+  createdAt: z.coerce.date(),
+});
+
+const archivedInvestmentSchema = createSelectSchema(investments).omit({ userId: true }).extend({
+  createdAt: z.coerce.date(),
+});
+
+const archivedInvestmentLotSchema = createSelectSchema(investmentLots).omit({ userId: true }).extend({
+  tradedAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+});
+
+const archivedInvestmentPriceSchema = createSelectSchema(investmentPrices).omit({ userId: true }).extend({
+  pricedAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+});
+
+export const dataArchiveSchema = z.object({
+  version: z.number().int().min(1),
+  exportedAt: z.string(),
+  user: z.object({
+    email: z.string().nullable().optional(),
+    firstName: z.string().nullable().optional(),
+    lastName: z.string().nullable().optional(),
+  }).optional(),
+  accounts: z.array(archivedAccountSchema).default([]),
+  categories: z.array(archivedCategorySchema).default([]),
+  payees: z.array(archivedPayeeSchema).default([]),
+  savedViews: z.array(archivedSavedViewSchema).default([]),
+  reconciliations: z.array(archivedReconciliationSchema).default([]),
+  transactions: z.array(archivedTransactionSchema).default([]),
+  budgets: z.array(archivedBudgetSchema).default([]),
+  budgetTemplates: z.array(archivedBudgetTemplateSchema).default([]),
+  envelopeMoves: z.array(archivedEnvelopeMoveSchema).default([]),
+  categorizationRules: z.array(archivedCategorizationRuleSchema).default([]),
+  savingsGoals: z.array(archivedSavingsGoalSchema).default([]),
+  loans: z.array(archivedLoanSchema).default([]),
+  recurringTransactions: z.array(archivedRecurringTransactionSchema).default([]),
+  exchangeRates: z.array(archivedExchangeRateSchema).default([]),
+  userSettings: z.array(archivedUserSettingsSchema).max(1).default([]),
+  assets: z.array(archivedAssetSchema).default([]),
+  assetValuations: z.array(archivedAssetValuationSchema).default([]),
+  netWorthSnapshots: z.array(archivedNetWorthSnapshotSchema).default([]),
+  investments: z.array(archivedInvestmentSchema).default([]),
+  investmentLots: z.array(archivedInvestmentLotSchema).default([]),
+  investmentPrices: z.array(archivedInvestmentPriceSchema).default([]),
+});
+
+export const dataImportRequestSchema = z.object({
+  archive: z.unknown(),
+  mode: z.enum(["merge", "replace"]).default("merge"),
+});
+
+export type DataArchive = z.infer<typeof dataArchiveSchema>;
+
+export function buildArchive(user: User | undefined, data: UserDataSnapshot) {
+  const stripUserId = <T extends { userId: string | null }>(rows: T[]) => rows.map(({ userId, ...row }) => row);
+
+  return {
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: user ? { email: user.email, firstName: user.firstName, lastName: user.lastName } : undefined,
+    accounts: stripUserId(data.accounts),
+    categories: stripUserId(data.categories),
+    payees: stripUserId(data.payees),
+    savedViews: stripUserId(data.savedViews),
+    reconciliations: stripUserId(data.reconciliations),
+    transactions: stripUserId(data.transactions),
+    budgets: stripUserId(data.budgets),
+    budgetTemplates: stripUserId(data.budgetTemplates),
+    envelopeMoves: stripUserId(data.envelopeMoves),
+    categorizationRules: stripUserId(data.categorizationRules),
+    savingsGoals: stripUserId(data.savingsGoals),
+    loans: stripUserId(data.loans),
+    recurringTransactions: stripUserId(data.recurringTransactions),
+    exchangeRates: stripUserId(data.exchangeRates),
+    userSettings: stripUserId(data.userSettings),
+    assets: stripUserId(data.assets),
+    assetValuations: stripUserId(data.assetValuations),
+    netWorthSnapshots: stripUserId(data.netWorthSnapshots),
+    investments: stripUserId(data.investments),
+    investmentLots: stripUserId(data.investmentLots),
+    investmentPrices: stripUserId(data.investmentPrices),
+  };
+}
+
+// Check the version before validating the body so newer archives get a clear error
+export function parseArchive(raw: unknown): DataArchive {
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (typeof version !== "number") {
+    throw new Error("Not a Personal Finance Navigator archive");
+  }
+  if (version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${version} is newer than this app supports (${ARCHIVE_VERSION})`);
+  }
+  return dataArchiveSchema.parse(upgradeArchive(raw as Record<string, unknown>, version));
+}
+
+// Columns version 2 added to tables version 1 already had, with the value version 1 rows get
+const version1Columns: Record<"transactions" | "budgets" | "savingsGoals" | "loans", Record<string, unknown>> = {
+  transactions: { accountId: null, toAccountId: null, reconciliationId: null, splits: null, payeeId: null, tags: [], currency: "MWK", investmentId: null },
+  budgets: { autoRenew: false, rolloverMode: "reset", rolloverAmount: "0", previousBudgetId: null },
+  savingsGoals: { currency: "MWK" },
+  loans: { currency: "MWK" },
+};
+
+// Version 1 archives only hold transactions, budgets, savings goals, loans and recurring transactions. Every other
+// table is simply missing, which the schema defaults to [], and their rows start out with the columns above at their
+// defaults: no account, split, payee, tags or holding, no budget rollover, and amounts in MWK.
+function upgradeArchive(raw: Record<string, unknown>, version: number): Record<string, unknown> {
+  if (version >= 2) return raw;
+  const upgraded = { ...raw };
+  for (const [table, columns] of Object.entries(version1Columns)) {
+    const rows = upgraded[table];
+    if (Array.isArray(rows)) upgraded[table] = rows.map((row) => ({ ...columns, ...row }));
+  }
+  return upgraded;
+}
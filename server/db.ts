@@ -2,11 +2,19 @@ import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
+// STORAGE=memory keeps all data in process (tests, demos) and never touches Postgres
+export const useMemoryStorage = process.env.STORAGE === "memory";
+
+if (!process.env.DATABASE_URL && !useMemoryStorage) {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
 }
 
-const sql = neon(process.env.DATABASE_URL!);
-export const db = drizzle(sql, { schema });
\ No newline at end of file
+function createDatabase() {
+  const sql = neon(process.env.DATABASE_URL!);
+  return drizzle(sql, { schema });
+}
+
+// Left unset in memory mode; only DatabaseStorage reads it
+export const db = (useMemoryStorage ? undefined : createDatabase()) as ReturnType<typeof createDatabase>;
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { buildEnvelopeMonth, getEnvelopeMonthRange, getEnvelopeMoveError, planEnvelopeMove } from "./envelope-rules";
+import { budgetConflictMessage } from "./budget-rules";
+import { DEFAULT_SETTINGS } from "@shared/user-settings";
+import { insertEnvelopeMoveSchema, type Budget, type Transaction } from "@shared/schema";
+
+function budget(values: Partial<Budget>): Budget {
+  return {
+    id: 1,
+    userId: "user-1",
+    category: "food",
+    amount: "300.00",
+    spent: "100.00",
+    period: "monthly",
+    startDate: new Date(2026, 8, 1),
+    endDate: new Date(2026, 8, 30),
+    icon: "🍔",
+    description: null,
+    autoRenew: false,
+    rolloverMode: "reset",
+    rolloverAmount: "0.00",
+    previousBudgetId: null,
+    ...values,
+  };
+}
+
+function income(amount: string, date: Date): Transaction {
+  return {
+    id: 1,
+    userId: "user-1",
+    amount,
+    description: "Salary",
+    category: "salary",
+    type: "income",
+    date,
+    time: null,
+    savingsGoalId: null,
+    loanId: null,
+    accountId: null,
+    toAccountId: null,
+    reconciliationId: null,
+    splits: null,
+    payeeId: null,
+    tags: [],
+    currency: "MWK",
+    investmentId: null,
+  };
+}
+
+const move = (values: Record<string, unknown>) => insertEnvelopeMoveSchema.parse({ month: "2026-09", ...values });
+
+describe("getEnvelopeMonthRange", () => {
+  it("runs a calendar month to the end of its last day", () => {
+    expect(getEnvelopeMonthRange("2026-09", DEFAULT_SETTINGS)).toEqual({
+      startDate: new Date(2026, 8, 1),
+      endDate: new Date(2026, 8, 30, 23, 59, 59, 999),
+    });
+  });
+});
+
+describe("buildEnvelopeMonth", () => {
+  it("hands out the month's income across its monthly budgets", () => {
+    const userBudgets = [budget({}), budget({ id: 2, category: "rent", period: "yearly", amount: "5000.00" })];
+    const userTransactions = [income("1000.00", new Date(2026, 8, 25)), income("400.00", new Date(2026, 9, 1))];
+
+    const month = buildEnvelopeMonth("2026-09", DEFAULT_SETTINGS, userBudgets, userTransactions, []);
+
+    expect(month.income).toBe(1000);
+    expect(month.assigned).toBe(300);
+    expect(month.unassigned).toBe(700);
+    expect(month.envelopes.map(envelope => [envelope.budget.category, envelope.available])).toEqual([["food", 200]]);
+  });
+});
+
+describe("envelope moves", () => {
+  const userBudgets = [budget({})];
+  const month = buildEnvelopeMonth("2026-09", DEFAULT_SETTINGS, userBudgets, [income("1000.00", new Date(2026, 8, 25))], []);
+
+  it("only moves money that is unassigned or already in the envelope", () => {
+    expect(getEnvelopeMoveError(month, userBudgets, move({ toCategory: "food", amount: "800" })))
+      .toBe("Only 700.00 of this month's income is still unassigned");
+    expect(getEnvelopeMoveError(month, userBudgets, move({ fromCategory: "food", toCategory: "transport", amount: "400" })))
+      .toBe("The food envelope only has 300.00 assigned");
+    expect(getEnvelopeMoveError(month, userBudgets, move({ fromCategory: "rent", amount: "10" })))
+      .toBe("There is no rent envelope this month");
+  });
+
+  it("won't open an envelope over a budget the category already has", () => {
+    const weekly = budget({ id: 3, category: "transport", period: "weekly", startDate: new Date(2026, 8, 7), endDate: new Date(2026, 8, 13) });
+    expect(getEnvelopeMoveError(month, [...userBudgets, weekly], move({ toCategory: "transport", amount: "50" })))
+      .toBe(budgetConflictMessage("transport"));
+  });
+
+  it("takes the amount off one envelope and opens the other's budget", () => {
+    const changes = planEnvelopeMove(month, move({ fromCategory: "food", toCategory: "transport", amount: "50", icon: "🚌" }));
+
+    expect(changes.updates).toEqual([{ id: 1, amount: "250.00" }]);
+    expect(changes.create).toMatchObject({
+      category: "transport",
+      amount: "50.00",
+      period: "monthly",
+      startDate: month.startDate,
+      endDate: month.endDate,
+      icon: "🚌",
+    });
+  });
+});
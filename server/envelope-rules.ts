@@ -0,0 +1,137 @@
+import type { Budget, EnvelopeMove, InsertBudget, InsertEnvelopeMove, Transaction } from "@shared/schema";
+import { findConflictingBudget, budgetConflictMessage } from "./budget-rules";
+import { getFinancialMonth, getFinancialMonthKey, type MonthSettings } from "@shared/financial-period";
+
+const DEFAULT_ENVELOPE_ICON = "📝";
+
+export interface Envelope {
+  budget: Budget;
+  assigned: number;
+  spent: number;
+  available: number; // assigned plus anything carried in, less what has been spent
+}
+
+export interface EnvelopeMonth {
+  month: string;
+  startDate: Date;
+  endDate: Date;
+  income: number;
+  assigned: number;
+  unassigned: number; // negative when more has been assigned than was earned
+  envelopes: Envelope[];
+  moves: EnvelopeMove[];
+}
+
+// The budget changes a move makes, applied together with logging the move
+export interface EnvelopeBudgetChanges {
+  updates: Array<{ id: number; amount: string }>;
+  create?: InsertBudget;
+}
+
+// Envelope months are the user's budget months, named like getFinancialMonthKey names them
+export function getCurrentEnvelopeMonth(settings: MonthSettings, now: Date = new Date()): string {
+  return getFinancialMonthKey(now, settings);
+}
+
+// 'YYYY-MM' to the budget month named after it, e.g. 25 May - 24 June with payday months. The range ends at the
+// last moment of its final day, so income recorded later that day still counts.
+export function getEnvelopeMonthRange(month: string, settings: MonthSettings): { startDate: Date; endDate: Date } {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const { start, end } = getFinancialMonth(new Date(year, monthIndex - 1, settings.budgetMonthStartDay), settings);
+  return { startDate: start, endDate: end };
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// A month's envelopes are its monthly budgets; the income to hand out is what was recorded as income that month
+export function buildEnvelopeMonth(month: string, settings: MonthSettings, userBudgets: Budget[], userTransactions: Transaction[], moves: EnvelopeMove[]): EnvelopeMonth {
+  const { startDate, endDate } = getEnvelopeMonthRange(month, settings);
+  const inMonth = (date: Date) => new Date(date) >= startDate && new Date(date) <= endDate;
+
+  const income = userTransactions
+    .filter(transaction => transaction.type === "income" && inMonth(transaction.date))
+    .reduce((sum, transaction) => sum + parseFloat(transaction.amount), 0);
+
+  const envelopes = userBudgets
+    .filter(budget => budget.period === "monthly" && inMonth(budget.startDate))
+    .sort((a, b) => a.id - b.id)
+    .map(budget => {
+      const assigned = parseFloat(budget.amount);
+      const spent = parseFloat(budget.spent);
+      return { budget, assigned, spent, available: assigned + parseFloat(budget.rolloverAmount) - spent };
+    });
+
+  const assigned = envelopes.reduce((sum, envelope) => sum + envelope.assigned, 0);
+
+  return {
+    month,
+    startDate,
+    endDate,
+    income,
+    assigned,
+    unassigned: (toCents(income) - toCents(assigned)) / 100,
+    envelopes,
+    moves,
+  };
+}
+
+function findEnvelope(envelopeMonth: EnvelopeMonth, category: string): Envelope | undefined {
+  return envelopeMonth.envelopes.find(envelope => envelope.budget.category === category);
+}
+
+// Why a move can't be made, or undefined when it can. Money can only come out of what is unassigned or already in
+// the envelope, and a new envelope mustn't clash with a budget the user set up for that category some other way.
+export function getEnvelopeMoveError(envelopeMonth: EnvelopeMonth, userBudgets: Budget[], move: InsertEnvelopeMove): string | undefined {
+  const amount = toCents(parseFloat(move.amount));
+
+  if (move.fromCategory == null) {
+    if (amount > toCents(envelopeMonth.unassigned)) {
+      return `Only ${Math.max(envelopeMonth.unassigned, 0).toFixed(2)} of this month's income is still unassigned`;
+    }
+  } else {
+    const from = findEnvelope(envelopeMonth, move.fromCategory);
+    if (!from) {
+      return `There is no ${move.fromCategory} envelope this month`;
+    }
+    if (amount > toCents(from.assigned)) {
+      return `The ${move.fromCategory} envelope only has ${from.assigned.toFixed(2)} assigned`;
+    }
+  }
+
+  if (move.toCategory != null && !findEnvelope(envelopeMonth, move.toCategory)) {
+    const { startDate, endDate } = envelopeMonth;
+    if (findConflictingBudget(userBudgets, { category: move.toCategory, startDate, endDate })) {
+      return budgetConflictMessage(move.toCategory);
+    }
+  }
+  return undefined;
+}
+
+// Take the amount off the source envelope and add it to the destination, opening the destination's budget if needed
+export function planEnvelopeMove(envelopeMonth: EnvelopeMonth, move: InsertEnvelopeMove): EnvelopeBudgetChanges {
+  const amount = toCents(parseFloat(move.amount));
+  const changes: EnvelopeBudgetChanges = { updates: [] };
+
+  if (move.fromCategory != null) {
+    const from = findEnvelope(envelopeMonth, move.fromCategory)!;
+    changes.updates.push({ id: from.budget.id, amount: ((toCents(from.assigned) - amount) / 100).toFixed(2) });
+  }
+
+  if (move.toCategory != null) {
+    const to = findEnvelope(envelopeMonth, move.toCategory);
+    if (to) {
+      changes.updates.push({ id: to.budget.id, amount: ((toCents(to.assigned) + amount) / 100).toFixed(2) });
+    } else {
+      changes.create = {
+        category: move.toCategory,
+        amount: (amount / 100).toFixed(2),
+        period: "monthly",
+        startDate: envelopeMonth.startDate,
+        endDate: envelopeMonth.endDate,
+        icon: move.icon || DEFAULT_ENVELOPE_ICON,
+        description: "Envelope",
+      };
+    }
+  }
+  return changes;
+}
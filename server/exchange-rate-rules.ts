@@ -0,0 +1,61 @@
+import { insertExchangeRateSchema, type InsertExchangeRate } from "@shared/schema";
+import { parseCsv, parseStatementDate } from "./statement-import";
+
+export interface ExchangeRateCsvResult {
+  rates: InsertExchangeRate[];
+  errors: string[];
+}
+
+// Header names each column may go by, compared lower case with spaces and underscores dropped
+const columnNames = {
+  fromCurrency: ["from", "fromcurrency", "currency", "source", "base"],
+  toCurrency: ["to", "tocurrency", "target", "quote"],
+  rate: ["rate", "exchangerate", "value"],
+  effectiveDate: ["date", "effectivedate", "effective", "day"],
+} as const;
+
+const dayString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Rates from CSV text with a header row naming the from, to, rate and date columns. Rows that don't parse are
+// reported by row number and left out; the rest can still be saved.
+export function parseExchangeRateCsv(csv: string): ExchangeRateCsvResult {
+  const { headers, rows } = parseCsv(csv);
+  const normalized = headers.map(header => header.toLowerCase().replace(/[\s_-]/g, ""));
+  const columns = Object.fromEntries(
+    Object.entries(columnNames).map(([field, names]) => [field, normalized.findIndex(header => (names as readonly string[]).includes(header))])
+  ) as Record<keyof typeof columnNames, number>;
+
+  const missing = Object.entries(columns).filter(([, index]) => index === -1).map(([field]) => field);
+  if (missing.length > 0) {
+    return { rates: [], errors: [`The header row needs from, to, rate and date columns (missing ${missing.join(", ")})`] };
+  }
+
+  const rates: InsertExchangeRate[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // the header is row 1
+    const date = parseStatementDate(row[columns.effectiveDate] ?? "");
+    const parsed = insertExchangeRateSchema.safeParse({
+      fromCurrency: row[columns.fromCurrency] ?? "",
+      toCurrency: row[columns.toCurrency] ?? "",
+      rate: (row[columns.rate] ?? "").replace(/,/g, ""),
+      effectiveDate: date ? dayString(date) : "",
+    });
+    if (parsed.success) {
+      rates.push(parsed.data);
+    } else {
+      errors.push(`Row ${rowNumber}: ${parsed.error.errors[0].message}`);
+    }
+  });
+  return { rates: uniqueExchangeRates(rates), errors };
+}
+
+// One rate per pair and day, the last one given winning, since saving replaces the pair's rate for that day
+export function uniqueExchangeRates(rates: InsertExchangeRate[]): InsertExchangeRate[] {
+  const byKey = new Map<string, InsertExchangeRate>();
+  for (const rate of rates) {
+    byKey.set(`${rate.fromCurrency}:${rate.toCurrency}:${rate.effectiveDate.getTime()}`, rate);
+  }
+  return Array.from(byKey.values());
+}
@@ -0,0 +1,492 @@
+import type { Transaction, SavingsGoal, Loan, Account, Asset, AssetValuation, Investment, InvestmentLot, InvestmentPrice } from "@shared/schema";
+import { convertTransaction, toBaseTransactions, type CurrencyConverter } from "@shared/currency-conversion";
+import { getFinancialMonth, type DateRange, type MonthSettings } from "@shared/financial-period";
+
+// Pure calculations shared by every IStorage implementation, so the database and
+// in-memory storage always agree on loan figures and the financial summary
+
+export interface LoanInterestSummary {
+  totalInterest: number;
+  currentBalance: number;
+  monthlyPayment: number;
+  payoffDate: Date | null;
+}
+
+export interface LoanProgressSummary {
+  principalProgress: number | null;
+  interestProgress: number | null;
+  totalPaid: number;
+  principalPaid: number;
+  interestPaid: number;
+  currentBalance: number;
+}
+
+export interface AccountBalance {
+  id: number;
+  name: string;
+  type: string;
+  currency: string;
+  isArchived: boolean;
+  openingBalance: number;
+  balance: number; // in the account's own currency
+  baseBalance: number; // the balance in the user's base currency at today's rate
+}
+
+export interface AssetValue extends Asset {
+  value: number | null; // the latest valuation in the asset's own currency, null before the first one
+  valuedAt: Date | null;
+  baseValue: number; // the value in the user's base currency at today's rate
+}
+
+// A holding worked out from its lots with average cost: a sale takes its units out at the average cost of the units
+// held, so what is left keeps the same average. Amounts are in the holding's own currency unless marked base.
+export interface HoldingValue extends Investment {
+  quantity: number; // units still held
+  costBasis: number; // what the units still held cost, fees included
+  averageCost: number; // per unit
+  price: number | null; // the latest price entered or traded at, null before the first one
+  pricedAt: Date | null;
+  marketValue: number;
+  unrealizedGain: number; // market value less cost basis
+  realizedGain: number; // sale proceeds after fees less the average cost of the units sold
+  income: number; // dividends and coupons from the income transactions linked to the holding
+  baseMarketValue: number; // the market value in the user's base currency at today's rate
+}
+
+// Every amount is in the base currency
+export interface FinancialSummary {
+  baseCurrency: string;
+  // Currencies counted one to one because the user has no rate for them yet
+  missingRates: string[];
+  // Accounts, assets, investments and savings goal balances, less what is owed on loans
+  netWorth: number;
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  totalAccounts: number;
+  totalAssets: number;
+  totalInvestments: number;
+  totalSavings: number;
+  totalDebt: number;
+  accounts: AccountBalance[];
+}
+
+const INFLOW_TYPES = ["income", "savings_withdrawal", "loan_received"];
+const OUTFLOW_TYPES = ["expense", "savings_deposit", "loan_repayment"];
+
+// Calculate amortized monthly payment with different compounding frequencies
+export function calculateAmortizedPayment(principal: number, annualRate: number, termMonths: number, compoundFrequency: string = "monthly"): number {
+  if (annualRate === 0) {
+    // If no interest, simply divide principal by term
+    return principal / termMonths;
+  }
+
+  // Get compounding periods per year
+  const compoundingPeriodsPerYear = getCompoundingPeriodsPerYear(compoundFrequency);
+
+  // Calculate effective monthly rate
+  const annualRateDecimal = annualRate / 100;
+  const effectiveAnnualRate = Math.pow(1 + (annualRateDecimal / compoundingPeriodsPerYear), compoundingPeriodsPerYear) - 1;
+  const monthlyRate = Math.pow(1 + effectiveAnnualRate, 1/12) - 1;
+
+  // Standard amortization formula with effective monthly rate
+  const payment = principal * (monthlyRate * Math.pow(1 + monthlyRate, termMonths)) /
+                 (Math.pow(1 + monthlyRate, termMonths) - 1);
+
+  return payment;
+}
+
+export function getCompoundingPeriodsPerYear(frequency: string): number {
+  switch (frequency) {
+    case "daily": return 365;
+    case "weekly": return 52;
+    case "biweekly": return 26;
+    case "monthly": return 12;
+    case "quarterly": return 4;
+    case "semiannually": return 2;
+    case "annually": return 1;
+    default: return 12; // Default to monthly
+  }
+}
+
+// Calculate principal progress for any loan type
+export function calculatePrincipalProgress(loan: Loan, repayments: Transaction[]): number {
+  const principal = parseFloat(loan.principal);
+
+  if (loan.interestType === "simple") {
+    // For simple interest, use payment-based calculation
+    const totalPaid = repayments.reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+
+    const annualRate = parseFloat(loan.interestRate) / 100;
+    const termYears = (loan.termMonths || 12) / 12;
+    const totalInterest = principal * annualRate * termYears;
+
+    // For simple interest, payments go to interest first, then principal
+    let principalPaid = 0;
+    if (totalPaid > totalInterest) {
+      principalPaid = totalPaid - totalInterest;
+    }
+
+    return Math.min((principalPaid / principal) * 100, 100);
+  } else {
+    // For compound interest, calculate based on time elapsed and amortization schedule
+    const now = new Date();
+    const startDate = new Date(loan.startDate);
+    const termMonths = loan.termMonths || 12;
+    const monthlyPayment = parseFloat(loan.monthlyPayment || "0");
+    const annualRate = parseFloat(loan.interestRate) / 100;
+    const monthlyRate = annualRate / 12;
+
+    // Calculate months elapsed since loan start
+    const monthsElapsed = Math.max(0,
+      (now.getFullYear() - startDate.getFullYear()) * 12 +
+      (now.getMonth() - startDate.getMonth())
+    );
+
+    // Don't exceed the loan term
+    const effectiveMonthsElapsed = Math.min(monthsElapsed, termMonths);
+
+    if (effectiveMonthsElapsed === 0 || monthlyPayment === 0) {
+      return 0;
+    }
+
+    // Use standard amortization formula to calculate remaining balance
+    if (monthlyRate === 0) {
+      // No interest case
+      const principalPaid = Math.min(effectiveMonthsElapsed * monthlyPayment, principal);
+      return (principalPaid / principal) * 100;
+    }
+
+    // Standard amortization formula for remaining balance
+    const remainingBalance = principal * Math.pow(1 + monthlyRate, effectiveMonthsElapsed) -
+      monthlyPayment * ((Math.pow(1 + monthlyRate, effectiveMonthsElapsed) - 1) / monthlyRate);
+
+    const principalPaid = Math.max(0, principal - Math.max(0, remainingBalance));
+    return Math.min((principalPaid / principal) * 100, 100);
+  }
+}
+
+// Calculate dynamic current balance based on principal progress
+export function calculateDynamicBalance(loan: Loan, repayments: Transaction[]): number {
+  const principal = parseFloat(loan.principal);
+  const principalProgress = calculatePrincipalProgress(loan, repayments);
+
+  // Current balance = principal - (principal * progress percentage)
+  return principal - (principal * (principalProgress / 100));
+}
+
+export function calculateLoanInterest(loan: Loan, repayments: Transaction[]): LoanInterestSummary {
+  const principal = parseFloat(loan.principal);
+  const currentBalance = calculateDynamicBalance(loan, repayments);
+  const annualRate = parseFloat(loan.interestRate) / 100;
+  const termMonths = loan.termMonths || 12;
+
+  if (loan.interestType === "simple") {
+    // Simple interest calculation: I = P * R * T
+    const termYears = termMonths / 12;
+    const totalInterest = principal * annualRate * termYears;
+    const totalAmount = principal + totalInterest;
+    const suggestedMonthlyPayment = totalAmount / termMonths;
+
+    return {
+      totalInterest,
+      currentBalance,
+      monthlyPayment: suggestedMonthlyPayment, // Suggested payment for simple interest
+      payoffDate: null, // Will be calculated based on actual payments
+    };
+  } else {
+    // Compound interest (amortized loan) calculation
+    const monthlyPayment = parseFloat(loan.monthlyPayment || "0");
+    const now = new Date();
+
+    let totalInterest = 0;
+    let payoffDate: Date | null = null;
+
+    // For amortized loans with monthly payments
+    if (monthlyPayment > 0) {
+      const monthlyRate = annualRate / 12;
+
+      if (monthlyRate > 0) {
+        // Calculate remaining months to pay off the loan
+        const remainingMonths = Math.ceil(
+          -Math.log(1 - (currentBalance * monthlyRate) / monthlyPayment) /
+          Math.log(1 + monthlyRate)
+        );
+
+        if (remainingMonths > 0 && isFinite(remainingMonths)) {
+          // Calculate total interest that will be paid
+          totalInterest = (monthlyPayment * remainingMonths) - currentBalance;
+
+          // Calculate payoff date
+          payoffDate = new Date(now);
+          payoffDate.setMonth(payoffDate.getMonth() + remainingMonths);
+        }
+      } else {
+        // No interest case
+        const remainingMonths = Math.ceil(currentBalance / monthlyPayment);
+        payoffDate = new Date(now);
+        payoffDate.setMonth(payoffDate.getMonth() + remainingMonths);
+      }
+    }
+
+    return {
+      totalInterest: Math.max(0, totalInterest),
+      currentBalance,
+      monthlyPayment,
+      payoffDate
+    };
+  }
+}
+
+// Calculate loan progress for any loan type with dynamic balance
+export function calculateLoanProgress(loan: Loan, repayments: Transaction[]): LoanProgressSummary {
+  const totalPaid = repayments.reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+
+  const principal = parseFloat(loan.principal);
+  let principalProgress = 0;
+  let interestProgress = 0;
+  let principalPaid = 0;
+  let interestPaid = 0;
+
+  if (loan.interestType === "simple") {
+    const annualRate = parseFloat(loan.interestRate) / 100;
+    const termYears = (loan.termMonths || 12) / 12;
+    const totalInterest = principal * annualRate * termYears;
+
+    // For simple interest, payments go to interest first, then principal
+    if (totalPaid <= totalInterest) {
+      // Still paying off interest
+      interestPaid = totalPaid;
+      principalPaid = 0;
+    } else {
+      // Interest fully paid, now paying principal
+      interestPaid = totalInterest;
+      principalPaid = totalPaid - totalInterest;
+    }
+
+    principalProgress = (principalPaid / principal) * 100;
+    interestProgress = totalInterest > 0 ? (interestPaid / totalInterest) * 100 : 100;
+  } else {
+    // For compound interest, use time-based calculation
+    principalProgress = calculatePrincipalProgress(loan, repayments);
+
+    // For compound loans, calculate interest progress based on time elapsed
+    const now = new Date();
+    const startDate = new Date(loan.startDate);
+    const termMonths = loan.termMonths || 12;
+    const monthsElapsed = Math.max(0,
+      (now.getFullYear() - startDate.getFullYear()) * 12 +
+      (now.getMonth() - startDate.getMonth())
+    );
+    const effectiveMonthsElapsed = Math.min(monthsElapsed, termMonths);
+
+    // Interest progress based on time elapsed
+    interestProgress = termMonths > 0 ? (effectiveMonthsElapsed / termMonths) * 100 : 0;
+
+    // Calculate principal and interest paid based on progress
+    principalPaid = (principalProgress / 100) * principal;
+
+    // For compound loans, interest paid is more complex, use simplified calculation
+    const monthlyPayment = parseFloat(loan.monthlyPayment || "0");
+    const totalScheduledPayments = monthlyPayment * effectiveMonthsElapsed;
+    interestPaid = Math.max(0, totalScheduledPayments - principalPaid);
+  }
+
+  // Calculate dynamic current balance
+  const currentBalance = calculateDynamicBalance(loan, repayments);
+
+  return {
+    principalProgress: Math.min(principalProgress, 100),
+    interestProgress: Math.min(interestProgress, 100),
+    totalPaid,
+    principalPaid,
+    interestPaid,
+    currentBalance,
+  };
+}
+
+// How much a transaction moves the balance of one account, in the transaction's currency. Transfers leave the
+// source account and land in the destination, so they never change the overall total.
+export function accountBalanceChange(transaction: Transaction, accountId: number): number {
+  const amount = parseFloat(transaction.amount);
+  if (transaction.type === "transfer") {
+    let change = 0;
+    if (transaction.accountId === accountId) change -= amount;
+    if (transaction.toAccountId === accountId) change += amount;
+    return change;
+  }
+  if (transaction.accountId !== accountId) return 0;
+  if (INFLOW_TYPES.includes(transaction.type)) return amount;
+  if (OUTFLOW_TYPES.includes(transaction.type)) return -amount;
+  return 0;
+}
+
+// Running balance of every account: opening balance plus everything recorded against it, with a transaction in
+// another currency converted into the account's currency at its date's rate
+export function calculateAccountBalances(userAccounts: Account[], allUserTransactions: Transaction[], converter: CurrencyConverter, now: Date = new Date()): AccountBalance[] {
+  return userAccounts.map(account => {
+    const openingBalance = parseFloat(account.openingBalance);
+    const balance = allUserTransactions.reduce((sum, t) => {
+      const change = accountBalanceChange(t, account.id);
+      return change === 0 ? sum : sum + converter.convert(change, t.currency, account.currency, t.date);
+    }, openingBalance);
+    return {
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      currency: account.currency,
+      isArchived: account.isArchived,
+      openingBalance,
+      balance,
+      baseBalance: converter.toBase(balance, account.currency, now),
+    };
+  });
+}
+
+// The parts of net worth a monthly snapshot keeps, as stored decimals
+export function toNetWorthSnapshot(summary: FinancialSummary) {
+  return {
+    currency: summary.baseCurrency,
+    accounts: summary.totalAccounts.toFixed(2),
+    assets: summary.totalAssets.toFixed(2),
+    investments: summary.totalInvestments.toFixed(2),
+    savings: summary.totalSavings.toFixed(2),
+    debt: summary.totalDebt.toFixed(2),
+    netWorth: summary.netWorth.toFixed(2),
+  };
+}
+
+// Every asset at its latest valuation on or before asOf
+export function calculateAssetValues(userAssets: Asset[], valuations: AssetValuation[], converter: CurrencyConverter, asOf: Date = new Date()): AssetValue[] {
+  return userAssets.map(asset => {
+    const latest = valuations
+      .filter(valuation => valuation.assetId === asset.id && new Date(valuation.valuedAt) <= asOf)
+      .reduce<AssetValuation | undefined>((found, valuation) =>
+        !found || new Date(valuation.valuedAt) >= new Date(found.valuedAt) ? valuation : found, undefined);
+    const value = latest ? parseFloat(latest.value) : null;
+    return {
+      ...asset,
+      value,
+      valuedAt: latest ? new Date(latest.valuedAt) : null,
+      baseValue: value === null ? 0 : converter.toBase(value, asset.currency, asOf),
+    };
+  });
+}
+
+// Lots in the order they were traded; lots on the same day go in the order they were entered
+export function sortLots<T extends Pick<InvestmentLot, "tradedAt"> & { id?: number }>(lots: T[]): T[] {
+  return [...lots].sort((a, b) => new Date(a.tradedAt).getTime() - new Date(b.tradedAt).getTime() || (a.id ?? Infinity) - (b.id ?? Infinity));
+}
+
+// Every holding as of asOf, from its lots, its price history and the income transactions linked to it
+export function calculateHoldings(userInvestments: Investment[], lots: InvestmentLot[], prices: InvestmentPrice[], userTransactions: Transaction[], converter: CurrencyConverter, asOf: Date = new Date()): HoldingValue[] {
+  return userInvestments.map(investment => {
+    const holdingLots = sortLots(lots.filter(lot => lot.investmentId === investment.id && new Date(lot.tradedAt) <= asOf));
+
+    let quantity = 0;
+    let costBasis = 0;
+    let realizedGain = 0;
+    for (const lot of holdingLots) {
+      const units = parseFloat(lot.quantity);
+      const price = parseFloat(lot.price);
+      const fees = parseFloat(lot.fees);
+      if (lot.kind === "buy") {
+        quantity += units;
+        costBasis += units * price + fees;
+      } else {
+        const soldCost = quantity > 0 ? costBasis * Math.min(units / quantity, 1) : 0;
+        realizedGain += units * price - fees - soldCost;
+        costBasis -= soldCost;
+        quantity = Math.max(quantity - units, 0);
+      }
+    }
+
+    // The latest price entered by hand, or traded at when that is more recent; a price entered for the same day wins
+    const latestPrice = prices
+      .filter(price => price.investmentId === investment.id && new Date(price.pricedAt) <= asOf)
+      .reduce<InvestmentPrice | undefined>((found, price) =>
+        !found || new Date(price.pricedAt) >= new Date(found.pricedAt) ? price : found, undefined);
+    const latestLot = holdingLots[holdingLots.length - 1];
+    const useLot = latestLot && (!latestPrice || new Date(latestLot.tradedAt) > new Date(latestPrice.pricedAt));
+    const price = useLot ? parseFloat(latestLot.price) : latestPrice ? parseFloat(latestPrice.price) : null;
+    const pricedAt = useLot ? new Date(latestLot.tradedAt) : latestPrice ? new Date(latestPrice.pricedAt) : null;
+
+    const income = userTransactions
+      .filter(transaction => transaction.investmentId === investment.id && transaction.type === "income" && new Date(transaction.date) <= asOf)
+      .reduce((sum, transaction) => sum + parseFloat(convertTransaction(transaction, investment.currency, converter).amount), 0);
+
+    const marketValue = price === null ? 0 : quantity * price;
+    return {
+      ...investment,
+      quantity,
+      costBasis,
+      averageCost: quantity > 0 ? costBasis / quantity : 0,
+      price,
+      pricedAt,
+      marketValue,
+      unrealizedGain: marketValue - costBasis,
+      realizedGain,
+      income,
+      baseMarketValue: converter.toBase(marketValue, investment.currency, asOf),
+    };
+  });
+}
+
+// What a savings goal holds, in the base currency: its starting savings plus deposits less withdrawals linked to it.
+// The transactions are already in the base currency.
+function calculateGoalBalance(goal: SavingsGoal, baseTransactions: Transaction[], converter: CurrencyConverter, now: Date): number {
+  return baseTransactions
+    .filter(transaction => transaction.savingsGoalId === goal.id)
+    .reduce((sum, transaction) => {
+      if (transaction.type === "savings_deposit") return sum + parseFloat(transaction.amount);
+      if (transaction.type === "savings_withdrawal") return sum - parseFloat(transaction.amount);
+      return sum;
+    }, converter.toBase(parseFloat(goal.startingSavings), goal.currency, now));
+}
+
+// The month the financial summary reports on: the user's budget month, e.g. payday to payday
+export function getCurrentMonthRange(settings: MonthSettings, now: Date = new Date()): DateRange {
+  return getFinancialMonth(now, settings);
+}
+
+// Transactions count at the rate on their own date; balances, valuations and loans at today's rate
+export function summarizeFinances(monthlyTransactions: Transaction[], allUserTransactions: Transaction[], userSavingsGoals: SavingsGoal[], userLoans: Loan[], userAccounts: Account[], userAssets: Asset[], valuations: AssetValuation[], userInvestments: Investment[], lots: InvestmentLot[], prices: InvestmentPrice[], converter: CurrencyConverter, now: Date = new Date()): FinancialSummary {
+  const accounts = calculateAccountBalances(userAccounts, allUserTransactions, converter, now);
+  const assets = calculateAssetValues(userAssets.filter(asset => !asset.isArchived), valuations, converter, now);
+  const holdings = calculateHoldings(userInvestments.filter(investment => !investment.isArchived), lots, prices, allUserTransactions, converter, now);
+  monthlyTransactions = toBaseTransactions(monthlyTransactions, converter);
+  allUserTransactions = toBaseTransactions(allUserTransactions, converter);
+
+  // Amounts are stored as positive numbers, so the type says which way the money went
+  const monthlyIncome = monthlyTransactions
+    .filter(t => INFLOW_TYPES.includes(t.type))
+    .reduce((sum, t) => sum + parseFloat(t.amount), 0);
+
+  const monthlyExpenses = monthlyTransactions
+    .filter(t => OUTFLOW_TYPES.includes(t.type))
+    .reduce((sum, t) => sum + parseFloat(t.amount), 0);
+
+  const totalSavings = userSavingsGoals.reduce((sum, goal) => sum + calculateGoalBalance(goal, allUserTransactions, converter, now), 0);
+
+  const totalDebt = userLoans.reduce((sum, loan) => {
+    return sum + converter.toBase(parseFloat(loan.currentBalance), loan.currency, now);
+  }, 0);
+
+  const totalAccounts = accounts.reduce((sum, account) => sum + account.baseBalance, 0);
+  const totalAssets = assets.reduce((sum, asset) => sum + asset.baseValue, 0);
+  const totalInvestments = holdings.reduce((sum, holding) => sum + holding.baseMarketValue, 0);
+  const netWorth = totalAccounts + totalAssets + totalInvestments + totalSavings - totalDebt;
+
+  return {
+    baseCurrency: converter.baseCurrency,
+    missingRates: converter.missingRates(),
+    netWorth,
+    monthlyIncome,
+    monthlyExpenses,
+    totalAccounts,
+    totalAssets,
+    totalInvestments,
+    totalSavings,
+    totalDebt,
+    accounts,
+  };
+}
@@ -1,9 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startRecurringScheduler } from "./recurring";
+import { startBudgetRenewalScheduler } from "./budget-renewal";
+import { startNetWorthSnapshotScheduler } from "./net-worth-snapshots";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "10mb" })); // statement imports and data restores post whole files
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -67,6 +70,9 @@ app.use((req, res, next) => {
       reusePort: true,
     }, () => {
       log(`serving on port ${port}`);
+      startRecurringScheduler();
+      startBudgetRenewalScheduler();
+      startNetWorthSnapshotScheduler();
     });
   } catch (error) {
     console.error("Failed to start server:", error);
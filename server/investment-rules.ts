@@ -0,0 +1,31 @@
+import type { Investment, InvestmentLot } from "@shared/schema";
+import { sortLots } from "./finance-calculations";
+
+type LotUnits = Pick<InvestmentLot, "kind" | "quantity" | "tradedAt"> & { id?: number };
+
+// Why a holding's lots don't add up, or undefined when they do: no sale may take out more units than were held on
+// its date. Check the lots as they will be after the change, so deleting a buy is caught as well as adding a sale.
+export function getLotHistoryError(lots: LotUnits[]): string | undefined {
+  let quantity = 0;
+  for (const lot of sortLots(lots)) {
+    quantity += lot.kind === "buy" ? parseFloat(lot.quantity) : -parseFloat(lot.quantity);
+    // Allow for rounding in fractional unit trust units
+    if (quantity < -1e-6) {
+      return `You held fewer units than you sold on ${new Date(lot.tradedAt).toLocaleDateString()}`;
+    }
+  }
+  return undefined;
+}
+
+// Only income can be linked to a holding, as a dividend or coupon paid on it. Returns why the link is not valid,
+// or undefined when it is.
+export function getTransactionInvestmentError(transaction: { type?: string; investmentId?: number | null }, userInvestments: Investment[]): string | undefined {
+  if (transaction.investmentId == null) return undefined;
+  if (!userInvestments.some(investment => investment.id === transaction.investmentId)) {
+    return "Investment not found";
+  }
+  if (transaction.type !== "income") {
+    return "Only income can be linked to an investment";
+  }
+  return undefined;
+}
@@ -0,0 +1,218 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express } from "express";
+import { rateLimit } from "express-rate-limit";
+import { z } from "zod";
+import { storage } from "./storage";
+import { destroyUserSessions, logInAndUpgradeGuest, SESSION_TTL, type AuthProvider } from "./auth";
+import {
+  localSignupSchema,
+  localLoginSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  type User,
+} from "@shared/schema";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+const RESET_TOKEN_TTL = 60 * 60 * 1000; // 1 hour
+
+// Slows down password guessing and stops the reset endpoint being used to flood the log, per client IP
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  limit: 10,
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  message: { message: "Too many sign in attempts. Try again in a few minutes." },
+});
+
+const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  limit: 5,
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  message: { message: "Too many password reset requests. Try again later." },
+});
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Reset tokens are only ever stored hashed, so a leaked table can't be used to take over accounts
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Same session shape the OIDC provider produces, so req.user.claims.sub keeps working everywhere
+function buildSessionUser(user: User) {
+  return {
+    claims: {
+      sub: user.id,
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+      profile_image_url: user.profileImageUrl,
+    },
+    expires_at: Math.floor((Date.now() + SESSION_TTL) / 1000),
+  };
+}
+
+// The Host header is client controlled, so reset links only point at the configured APP_URL
+function buildResetLink(token: string): string {
+  const path = `/?resetToken=${token}`;
+  const baseUrl = process.env.APP_URL?.replace(/\/+$/, "");
+  return baseUrl ? `${baseUrl}${path}` : `${path} (set APP_URL to log full links)`;
+}
+
+// The unique constraints decide whether a username or email is free, so two signups can't both claim one
+function getSignupConflictMessage(error: unknown): string | undefined {
+  const message = error instanceof Error ? error.message : "";
+  if (message.includes("users_username_unique")) return "That username is already taken";
+  if (message.includes("users_email_unique")) return "An account with that email already exists";
+  return undefined;
+}
+
+// Accepts either the username or the email address an account signed up with
+async function findLocalUser(identifier: string): Promise<User | undefined> {
+  const user = identifier.includes("@")
+    ? await storage.getUserByEmail(identifier)
+    : await storage.getUserByUsername(identifier);
+  return user?.passwordHash ? user : undefined;
+}
+
+async function setupLocalAuth(app: Express) {
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await findLocalUser(username.trim());
+        if (!user || !(await verifyPassword(password, user.passwordHash!))) {
+          return done(null, false);
+        }
+        done(null, buildSessionUser(user));
+      } catch (error) {
+        done(error);
+      }
+    })
+  );
+
+  // The landing page hosts the sign in form; this keeps old links working
+  app.get("/api/login", (_req, res) => {
+    res.redirect(localAuthProvider.loginUrl);
+  });
+
+  app.post("/api/auth/signup", async (req, res) => {
+    try {
+      const data = localSignupSchema.parse(req.body);
+      const username = data.username.toLowerCase();
+      const email = data.email?.toLowerCase();
+
+      const user = await storage.upsertUser({
+        id: randomUUID(),
+        username,
+        email: email ?? null,
+        firstName: data.firstName || null,
+        lastName: data.lastName || null,
+        passwordHash: await hashPassword(data.password),
+      });
+
+      const upgraded = await logInAndUpgradeGuest(req, buildSessionUser(user));
+      res.status(201).json({ upgraded });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid signup data", errors: error.errors });
+      }
+      const conflict = getSignupConflictMessage(error);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+      console.error("Error signing up:", error);
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/auth/login", loginLimiter, (req, res, next) => {
+    const parsed = localLoginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid login data", errors: parsed.error.errors });
+    }
+
+    passport.authenticate("local", async (err: any, user: any) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Incorrect username or password" });
+      }
+
+      try {
+        const upgraded = await logInAndUpgradeGuest(req, user);
+        res.json({ upgraded });
+      } catch (loginErr) {
+        next(loginErr);
+      }
+    })(req, res, next);
+  });
+
+  // There is no mail delivery for self-hosted installs, so the reset link is written to the server log.
+  // The response is the same whether or not the account exists.
+  app.post("/api/auth/forgot-password", passwordResetLimiter, async (req, res) => {
+    try {
+      const { username } = passwordResetRequestSchema.parse(req.body);
+      const user = await findLocalUser(username);
+      if (user) {
+        const token = randomBytes(32).toString("hex");
+        await storage.createPasswordResetToken(user.id, hashResetToken(token), new Date(Date.now() + RESET_TOKEN_TTL));
+        console.log(`Password reset link for ${user.username ?? user.email}: ${buildResetLink(token)}`);
+      }
+      res.json({ message: "If that account exists, a password reset link has been issued" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      console.error("Error issuing password reset:", error);
+      res.status(500).json({ message: "Failed to issue password reset" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = passwordResetSchema.parse(req.body);
+      const resetToken = await storage.consumePasswordResetToken(hashResetToken(token));
+      if (!resetToken) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.updateUserPassword(resetToken.userId, await hashPassword(password));
+      // Anyone signed in with the old password is signed out
+      await destroyUserSessions(resetToken.userId);
+      res.json({ message: "Password updated" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  app.get("/api/logout", (req, res) => {
+    req.logout(() => res.redirect("/"));
+  });
+}
+
+export const localAuthProvider: AuthProvider = {
+  name: "local",
+  loginUrl: "/login",
+  setup: setupLocalAuth,
+};
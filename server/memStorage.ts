@@ -0,0 +1,1828 @@
+import type {
+  Transaction,
+  InsertTransaction,
+  TransactionQuery,
+  Account,
+  InsertAccount,
+  Category,
+  InsertCategory,
+  Payee,
+  InsertPayee,
+  SavedView,
+  InsertSavedView,
+  Reconciliation,
+  InsertReconciliation,
+  Budget,
+  InsertBudget,
+  BudgetTemplate,
+  InsertBudgetTemplate,
+  EnvelopeMove,
+  InsertEnvelopeMove,
+  CategorizationRule,
+  InsertCategorizationRule,
+  SavingsGoal,
+  InsertSavingsGoal,
+  Loan,
+  InsertLoan,
+  Attachment,
+  InsertAttachment,
+  ExchangeRate,
+  InsertExchangeRate,
+  Asset,
+  InsertAsset,
+  AssetValuation,
+  InsertAssetValuation,
+  NetWorthSnapshot,
+  Investment,
+  InsertInvestment,
+  InvestmentLot,
+  InsertInvestmentLot,
+  InvestmentPrice,
+  InsertInvestmentPrice,
+  UserSettings,
+  UpdateUserSettings,
+  RecurringTransaction,
+  InsertRecurringTransaction,
+  User,
+  UpsertUser,
+  PasswordResetToken,
+} from "@shared/schema";
+import type {
+  IStorage,
+  UserDataSnapshot,
+  UserDataRestore,
+  UserDataRestoreResult,
+  UserDataRestoreSummary,
+  UserDataMigrationResult,
+  BudgetSpendingRebuildResult,
+  BudgetRenewal,
+  RecurringProgress,
+} from "./storage";
+import type { EnvelopeBudgetChanges } from "./envelope-rules";
+import type { CategoryRewrite, NewCategory } from "./category-rules";
+import type { CategorizationChange } from "./categorization-rules";
+import {
+  compareSortKeys,
+  decodeCursor,
+  matchesTransactionQuery,
+  sortValue,
+  summarizeTransactions,
+  toTransactionPage,
+  toTransactionFacets,
+  type TransactionPage,
+  type TransactionFacets,
+} from "./transaction-query";
+import { remapSavedViewFilters } from "./saved-view-rules";
+import { findKeptAttachments, recurringRuleKey } from "./restore-rules";
+import { removeAttachmentFiles } from "./attachment-store";
+import { createCurrencyConverter, convertTransaction, toBaseTransactions, DEFAULT_CURRENCY, type CurrencyConverter } from "@shared/currency-conversion";
+import { withDefaultSettings } from "@shared/user-settings";
+import { budgetsOverlap, findConflictingBudget, deriveBudgets, findStaleBudgets, getBudgetChain, type BudgetSpending } from "./budget-rules";
+import {
+  calculateAmortizedPayment,
+  calculateLoanInterest,
+  calculateLoanProgress,
+  getCurrentMonthRange,
+  summarizeFinances,
+  toNetWorthSnapshot,
+  sortLots,
+  type LoanInterestSummary,
+  type LoanProgressSummary,
+  type FinancialSummary,
+} from "./finance-calculations";
+
+// Postgres hands decimal columns back as strings padded to the column scale ("12.5" -> "12.50")
+function toDecimal<T extends string | null | undefined>(value: T): T {
+  if (value === null || value === undefined) return value;
+  const parsed = parseFloat(value);
+  return (isNaN(parsed) ? value : parsed.toFixed(2)) as T;
+}
+
+function normalizeDecimals<T>(row: T, fields: Array<keyof T>): T {
+  for (const field of fields) {
+    row[field] = toDecimal(row[field] as string | null) as T[keyof T];
+  }
+  return row;
+}
+
+// Build a new row; undefined values fall back to the column default, like they do with drizzle
+function withDefaults<T extends object>(defaults: Partial<T>, values: object): T {
+  return applyUpdates({ ...defaults } as T, values as Partial<T>);
+}
+
+// Drizzle skips undefined values in .set(), so do the same here
+function applyUpdates<T extends object>(row: T, updates: Partial<T>): T {
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== undefined) (row as any)[key] = value;
+  }
+  return row;
+}
+
+const byDate = (a: { date: Date }, b: { date: Date }) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+const transactionDecimals: Array<keyof Transaction> = ["amount"];
+const accountDecimals: Array<keyof Account> = ["openingBalance"];
+const reconciliationDecimals: Array<keyof Reconciliation> = ["statementBalance"];
+const budgetDecimals: Array<keyof Budget> = ["amount", "spent", "rolloverAmount"];
+const budgetTemplateDecimals: Array<keyof BudgetTemplate> = ["income"];
+const envelopeMoveDecimals: Array<keyof EnvelopeMove> = ["amount"];
+const categorizationRuleDecimals: Array<keyof CategorizationRule> = ["minAmount", "maxAmount"];
+const savingsGoalDecimals: Array<keyof SavingsGoal> = ["targetAmount", "currentAmount", "startingSavings"];
+const loanDecimals: Array<keyof Loan> = ["principal", "currentBalance", "interestRate", "monthlyPayment"];
+const assetValuationDecimals: Array<keyof AssetValuation> = ["value"];
+const investmentLotDecimals: Array<keyof InvestmentLot> = ["quantity", "price", "fees"];
+const investmentPriceDecimals: Array<keyof InvestmentPrice> = ["price"];
+
+// In-memory storage for tests and demo mode. Mirrors DatabaseStorage, including the column
+// defaults, unique and foreign key checks the database would otherwise enforce.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private accounts = new Map<number, Account>();
+  private categories = new Map<number, Category>();
+  private payees = new Map<number, Payee>();
+  private savedViews = new Map<number, SavedView>();
+  private reconciliations = new Map<number, Reconciliation>();
+  private transactions = new Map<number, Transaction>();
+  private budgets = new Map<number, Budget>();
+  private budgetTemplates = new Map<number, BudgetTemplate>();
+  private envelopeMoves = new Map<number, EnvelopeMove>();
+  private categorizationRules = new Map<number, CategorizationRule>();
+  private savingsGoals = new Map<number, SavingsGoal>();
+  private loans = new Map<number, Loan>();
+  private recurringTransactions = new Map<number, RecurringTransaction>();
+  private attachments = new Map<number, Attachment>();
+  private exchangeRates = new Map<number, ExchangeRate>();
+  private userSettings = new Map<string, UserSettings>(); // keyed by user id
+  private assets = new Map<number, Asset>();
+  private assetValuations = new Map<number, AssetValuation>();
+  private netWorthSnapshots = new Map<number, NetWorthSnapshot>();
+  private investments = new Map<number, Investment>();
+  private investmentLots = new Map<number, InvestmentLot>();
+  private investmentPrices = new Map<number, InvestmentPrice>();
+  private passwordResetTokens = new Map<number, PasswordResetToken>();
+  private nextIds = {
+    accounts: 1,
+    categories: 1,
+    payees: 1,
+    savedViews: 1,
+    reconciliations: 1,
+    transactions: 1,
+    budgets: 1,
+    budgetTemplates: 1,
+    envelopeMoves: 1,
+    categorizationRules: 1,
+    savingsGoals: 1,
+    loans: 1,
+    recurringTransactions: 1,
+    attachments: 1,
+    exchangeRates: 1,
+    assets: 1,
+    assetValuations: 1,
+    netWorthSnapshots: 1,
+    investments: 1,
+    investmentLots: 1,
+    investmentPrices: 1,
+    passwordResetTokens: 1,
+  };
+
+  private nextId(table: keyof MemStorage["nextIds"]): number {
+    return this.nextIds[table]++;
+  }
+
+  // Rows are copied on the way out so callers can't mutate stored state, like rows read from the database
+  private copy<T>(row: T): T {
+    return structuredClone(row);
+  }
+
+  private copyAll<T>(rows: Iterable<T>): T[] {
+    return Array.from(rows, row => this.copy(row));
+  }
+
+  private owned<T extends { userId: string | null }>(table: Map<number, T>, userId: string): T[] {
+    return Array.from(table.values()).filter(row => row.userId === userId);
+  }
+
+  private findOwned<T extends { id: number; userId: string | null }>(table: Map<number, T>, userId: string, id: number): T | undefined {
+    const row = table.get(id);
+    return row && row.userId === userId ? row : undefined;
+  }
+
+  private assertUnique(field: "email" | "username", value: string | null | undefined, id: string) {
+    if (value == null) return;
+    const taken = Array.from(this.users.values()).some(user => user.id !== id && user[field] === value);
+    if (taken) {
+      throw new Error(`duplicate key value violates unique constraint "users_${field}_unique"`);
+    }
+  }
+
+  private assertTransactionReferences(transaction: Pick<Transaction, "savingsGoalId" | "loanId" | "accountId" | "toAccountId" | "reconciliationId" | "payeeId" | "investmentId">) {
+    if (transaction.accountId != null && !this.accounts.has(transaction.accountId)) {
+      throw new Error('insert or update on table "transactions" violates foreign key constraint "transactions_account_id_accounts_id_fk"');
+    }
+    if (transaction.toAccountId != null && !this.accounts.has(transaction.toAccountId)) {
+      throw new Error('insert or update on table "transactions" violates foreign key constraint "transactions_to_account_id_accounts_id_fk"');
+    }
+    if (transaction.savingsGoalId != null && !this.savingsGoals.has(transaction.savingsGoalId)) {
+      throw new Error('insert or update on table "transactions" violates foreign key constraint "transactions_savings_goal_id_savings_goals_id_fk"');
+    }
+    if (transaction.loanId != null && !this.loans.has(transaction.loanId)) {
+      throw new Error('insert or update on table "transactions" violates foreign key constraint "transactions_loan_id_loans_id_fk"');
+    }
+    if (transaction.reconciliationId != null && !this.reconciliations.has(transaction.reconciliationId)) {
+      throw new Error('insert or update on table "transactions" violates foreign key constraint "transactions_reconciliation_id_reconciliations_id_fk"');
+    }
+    if (transaction.payeeId != null && !this.payees.has(transaction.payeeId)) {
+      throw new Error('insert or update on table "transactions" violates foreign key constraint "transactions_payee_id_payees_id_fk"');
+    }
+    if (transaction.investmentId != null && !this.investments.has(transaction.investmentId)) {
+      throw new Error('insert or update on table "transactions" violates foreign key constraint "transactions_investment_id_investments_id_fk"');
+    }
+  }
+
+  // Accounts, goals and loans can't be deleted while a transaction still points at them
+  private deleteReferencedRow(field: "savingsGoalId" | "loanId" | "accountId", id: number) {
+    const referenced = Array.from(this.transactions.values()).some(transaction =>
+      transaction[field] === id || (field === "accountId" && transaction.toAccountId === id)
+    ) || (field === "accountId" && Array.from(this.reconciliations.values()).some(reconciliation => reconciliation.accountId === id));
+    const table = { savingsGoalId: "savings_goals", loanId: "loans", accountId: "accounts" }[field];
+    if (referenced) {
+      throw new Error(`update or delete on table "${table}" violates foreign key constraint on table "transactions"`);
+    }
+    if (field === "loanId") this.loans.delete(id);
+    else if (field === "accountId") this.accounts.delete(id);
+    else this.savingsGoals.delete(id);
+
+    // Categorization rules only lose the goal or loan they set (ON DELETE SET NULL)
+    if (field !== "accountId") {
+      for (const rule of Array.from(this.categorizationRules.values())) {
+        if (rule[field] === id) rule[field] = null;
+      }
+    }
+  }
+
+  // ON DELETE CASCADE from transactions and loans: drop attachment rows whose owner is gone and hand them back
+  // so their files can be removed
+  private cascadeAttachments(): Attachment[] {
+    const removed: Attachment[] = [];
+    for (const attachment of Array.from(this.attachments.values())) {
+      const orphaned = (attachment.transactionId != null && !this.transactions.has(attachment.transactionId))
+        || (attachment.loanId != null && !this.loans.has(attachment.loanId));
+      if (orphaned) {
+        this.attachments.delete(attachment.id);
+        removed.push(attachment);
+      }
+    }
+    return removed;
+  }
+
+  private insertTransaction(userId: string, insertTransaction: InsertTransaction & { reconciliationId?: number | null }): Transaction {
+    const transaction = normalizeDecimals(withDefaults<Transaction>({
+      id: this.nextId("transactions"),
+      date: new Date(),
+      time: null,
+      savingsGoalId: null,
+      loanId: null,
+      accountId: null,
+      toAccountId: null,
+      reconciliationId: null,
+      splits: null,
+      payeeId: null,
+      tags: [],
+      currency: "MWK",
+      investmentId: null,
+    }, { ...insertTransaction, userId }), transactionDecimals);
+    this.assertTransactionReferences(transaction);
+    this.transactions.set(transaction.id, transaction);
+    return transaction;
+  }
+
+  private insertAccount(userId: string, values: InsertAccount): Account {
+    const account = normalizeDecimals(withDefaults<Account>({
+      id: this.nextId("accounts"),
+      openingBalance: "0",
+      currency: "MWK",
+      isArchived: false,
+    }, { ...values, userId }), accountDecimals);
+    this.accounts.set(account.id, account);
+    return account;
+  }
+
+  private insertCategory(userId: string, values: NewCategory & Partial<Pick<Category, "parentId">>): Category {
+    if (this.owned(this.categories, userId).some(category => category.value === values.value)) {
+      throw new Error('duplicate key value violates unique constraint "IDX_categories_user_value"');
+    }
+    const category = withDefaults<Category>({
+      id: this.nextId("categories"),
+      icon: "📝",
+      color: "#6b7280",
+      kind: "expense",
+      parentId: null,
+      isArchived: false,
+    }, { ...values, userId });
+    this.categories.set(category.id, category);
+    return category;
+  }
+
+  private insertPayee(userId: string, values: InsertPayee & { createdAt?: Date }): Payee {
+    const payee = withDefaults<Payee>({
+      id: this.nextId("payees"),
+      aliases: [],
+      createdAt: new Date(),
+    }, { ...values, userId });
+    this.payees.set(payee.id, payee);
+    return payee;
+  }
+
+  // Saving a pair's rate for a day it already has replaces the rate, like the upsert DatabaseStorage runs
+  private upsertExchangeRate(userId: string, values: InsertExchangeRate & { createdAt?: Date }): ExchangeRate {
+    const rate = parseFloat(values.rate).toFixed(8);
+    const existing = this.owned(this.exchangeRates, userId).find(row =>
+      row.fromCurrency === values.fromCurrency &&
+      row.toCurrency === values.toCurrency &&
+      new Date(row.effectiveDate).getTime() === new Date(values.effectiveDate).getTime()
+    );
+    if (existing) return applyUpdates(existing, { rate });
+    const row = withDefaults<ExchangeRate>({
+      id: this.nextId("exchangeRates"),
+      createdAt: new Date(),
+    }, { ...values, rate, userId });
+    this.exchangeRates.set(row.id, row);
+    return row;
+  }
+
+  private insertAsset(userId: string, values: Omit<InsertAsset, "value"> & { createdAt?: Date }): Asset {
+    const asset = withDefaults<Asset>({
+      id: this.nextId("assets"),
+      currency: "MWK",
+      notes: null,
+      isArchived: false,
+      createdAt: new Date(),
+    }, { ...values, userId });
+    this.assets.set(asset.id, asset);
+    return asset;
+  }
+
+  private insertAssetValuation(userId: string, assetId: number, values: InsertAssetValuation & { createdAt?: Date }): AssetValuation {
+    if (!this.assets.has(assetId)) {
+      throw new Error('insert or update on table "asset_valuations" violates foreign key constraint "asset_valuations_asset_id_assets_id_fk"');
+    }
+    const valuation = normalizeDecimals(withDefaults<AssetValuation>({
+      id: this.nextId("assetValuations"),
+      note: null,
+      createdAt: new Date(),
+    }, { ...values, userId, assetId }), assetValuationDecimals);
+    this.assetValuations.set(valuation.id, valuation);
+    return valuation;
+  }
+
+  private insertInvestment(userId: string, values: InsertInvestment & { createdAt?: Date }): Investment {
+    const investment = withDefaults<Investment>({
+      id: this.nextId("investments"),
+      symbol: null,
+      currency: "MWK",
+      notes: null,
+      isArchived: false,
+      createdAt: new Date(),
+    }, { ...values, userId });
+    this.investments.set(investment.id, investment);
+    return investment;
+  }
+
+  private insertInvestmentLot(userId: string, investmentId: number, values: InsertInvestmentLot & { createdAt?: Date }): InvestmentLot {
+    if (!this.investments.has(investmentId)) {
+      throw new Error('insert or update on table "investment_lots" violates foreign key constraint "investment_lots_investment_id_investments_id_fk"');
+    }
+    const lot = normalizeDecimals(withDefaults<InvestmentLot>({
+      id: this.nextId("investmentLots"),
+      fees: "0",
+      note: null,
+      createdAt: new Date(),
+    }, { ...values, userId, investmentId }), investmentLotDecimals);
+    this.investmentLots.set(lot.id, lot);
+    return lot;
+  }
+
+  private insertInvestmentPrice(userId: string, investmentId: number, values: InsertInvestmentPrice & { createdAt?: Date }): InvestmentPrice {
+    if (!this.investments.has(investmentId)) {
+      throw new Error('insert or update on table "investment_prices" violates foreign key constraint "investment_prices_investment_id_investments_id_fk"');
+    }
+    const price = normalizeDecimals(withDefaults<InvestmentPrice>({
+      id: this.nextId("investmentPrices"),
+      createdAt: new Date(),
+    }, { ...values, userId, investmentId }), investmentPriceDecimals);
+    this.investmentPrices.set(price.id, price);
+    return price;
+  }
+
+  // Recording a month that already has a snapshot replaces it, like the upsert DatabaseStorage runs
+  private upsertNetWorthSnapshot(userId: string, values: Omit<NetWorthSnapshot, "id" | "userId" | "createdAt"> & { createdAt?: Date }): NetWorthSnapshot {
+    const existing = this.owned(this.netWorthSnapshots, userId).find(snapshot => snapshot.month === values.month);
+    if (existing) return applyUpdates(existing, { ...values, createdAt: values.createdAt ?? new Date() });
+    const snapshot = withDefaults<NetWorthSnapshot>({
+      id: this.nextId("netWorthSnapshots"),
+      createdAt: new Date(),
+    }, { ...values, userId });
+    this.netWorthSnapshots.set(snapshot.id, snapshot);
+    return snapshot;
+  }
+
+  private converterFor(userId: string | null): CurrencyConverter {
+    const baseCurrency = (userId && this.userSettings.get(userId)?.baseCurrency) || DEFAULT_CURRENCY;
+    return createCurrencyConverter(baseCurrency, Array.from(this.exchangeRates.values()).filter(rate => rate.userId === userId));
+  }
+
+  private insertSavedView(userId: string, values: InsertSavedView & { createdAt?: Date }): SavedView {
+    const view = withDefaults<SavedView>({
+      id: this.nextId("savedViews"),
+      isPinned: true,
+      createdAt: new Date(),
+    }, { ...values, userId });
+    this.savedViews.set(view.id, view);
+    return view;
+  }
+
+  // Subcategories of a deleted category move up to the top level (ON DELETE SET NULL)
+  private deleteCategoryRow(id: number) {
+    this.categories.delete(id);
+    for (const category of Array.from(this.categories.values())) {
+      if (category.parentId === id) category.parentId = null;
+    }
+  }
+
+  private insertReconciliation(userId: string, values: Omit<Reconciliation, "id" | "userId" | "reconciledAt" | "reopenedAt"> & Partial<Reconciliation>): Reconciliation {
+    if (!this.accounts.has(values.accountId)) {
+      throw new Error('insert or update on table "reconciliations" violates foreign key constraint "reconciliations_account_id_accounts_id_fk"');
+    }
+    const reconciliation = normalizeDecimals(withDefaults<Reconciliation>({
+      id: this.nextId("reconciliations"),
+      reconciledAt: new Date(),
+      reopenedAt: null,
+    }, { ...values, userId }), reconciliationDecimals);
+    this.reconciliations.set(reconciliation.id, reconciliation);
+    return reconciliation;
+  }
+
+  private insertBudget(userId: string, values: InsertBudget & Partial<Pick<Budget, "spent" | "rolloverAmount" | "previousBudgetId">>): Budget {
+    if (values.previousBudgetId != null && !this.budgets.has(values.previousBudgetId)) {
+      throw new Error('insert or update on table "budgets" violates foreign key constraint "budgets_previous_budget_id_budgets_id_fk"');
+    }
+    const budget = normalizeDecimals(withDefaults<Budget>({
+      id: this.nextId("budgets"),
+      spent: "0",
+      period: "monthly",
+      description: null,
+      autoRenew: false,
+      rolloverMode: "reset",
+      rolloverAmount: "0",
+      previousBudgetId: null,
+    }, { ...values, userId }), budgetDecimals);
+    this.budgets.set(budget.id, budget);
+    return budget;
+  }
+
+  private insertBudgetTemplate(userId: string, values: InsertBudgetTemplate & { createdAt?: Date | null }): BudgetTemplate {
+    const template = normalizeDecimals(withDefaults<BudgetTemplate>({
+      id: this.nextId("budgetTemplates"),
+      income: null,
+      createdAt: new Date(),
+    }, { ...values, userId }), budgetTemplateDecimals);
+    this.budgetTemplates.set(template.id, template);
+    return template;
+  }
+
+  private insertEnvelopeMove(userId: string, values: Omit<InsertEnvelopeMove, "icon"> & { createdAt?: Date }): EnvelopeMove {
+    const move = normalizeDecimals(withDefaults<EnvelopeMove>({
+      id: this.nextId("envelopeMoves"),
+      fromCategory: null,
+      toCategory: null,
+      note: null,
+      createdAt: new Date(),
+    }, { ...values, userId }), envelopeMoveDecimals);
+    this.envelopeMoves.set(move.id, move);
+    return move;
+  }
+
+  private insertCategorizationRule(userId: string, values: InsertCategorizationRule & { createdAt?: Date }): CategorizationRule {
+    if (values.savingsGoalId != null && !this.savingsGoals.has(values.savingsGoalId)) {
+      throw new Error('insert or update on table "categorization_rules" violates foreign key constraint "categorization_rules_savings_goal_id_savings_goals_id_fk"');
+    }
+    if (values.loanId != null && !this.loans.has(values.loanId)) {
+      throw new Error('insert or update on table "categorization_rules" violates foreign key constraint "categorization_rules_loan_id_loans_id_fk"');
+    }
+    const rule = normalizeDecimals(withDefaults<CategorizationRule>({
+      id: this.nextId("categorizationRules"),
+      priority: 0,
+      isActive: true,
+      matchType: null,
+      pattern: null,
+      minAmount: null,
+      maxAmount: null,
+      transactionType: null,
+      category: null,
+      savingsGoalId: null,
+      loanId: null,
+      createdAt: new Date(),
+    }, { ...values, userId }), categorizationRuleDecimals);
+    this.categorizationRules.set(rule.id, rule);
+    return rule;
+  }
+
+  // Renewed budgets lose the link to a deleted predecessor (ON DELETE SET NULL)
+  private deleteBudgetRow(id: number) {
+    this.budgets.delete(id);
+    for (const budget of Array.from(this.budgets.values())) {
+      if (budget.previousBudgetId === id) budget.previousBudgetId = null;
+    }
+  }
+
+  private insertSavingsGoal(userId: string, insertGoal: InsertSavingsGoal & { currentAmount?: string }): SavingsGoal {
+    const goal = normalizeDecimals(withDefaults<SavingsGoal>({
+      id: this.nextId("savingsGoals"),
+      currentAmount: "0",
+      startingSavings: "0",
+      startDate: new Date(),
+      deadline: null,
+      currency: "MWK",
+    }, { ...insertGoal, userId }), savingsGoalDecimals);
+    this.savingsGoals.set(goal.id, goal);
+    return goal;
+  }
+
+  private insertLoan(userId: string, insertLoan: InsertLoan & { monthlyPayment?: string | null }): Loan {
+    const loan = normalizeDecimals(withDefaults<Loan>({
+      id: this.nextId("loans"),
+      interestRate: "0.00",
+      interestType: "compound",
+      compoundFrequency: null,
+      endDate: null,
+      monthlyPayment: null,
+      lender: null,
+      description: null,
+      status: "active",
+      currency: "MWK",
+    }, { ...insertLoan, userId }), loanDecimals);
+    this.loans.set(loan.id, loan);
+    return loan;
+  }
+
+  private insertRecurringTransaction(userId: string, values: Omit<Partial<RecurringTransaction>, "id" | "userId">): RecurringTransaction {
+    const rule = withDefaults<RecurringTransaction>({
+      id: this.nextId("recurringTransactions"),
+      intervalDays: null,
+      endDate: null,
+      maxOccurrences: null,
+      occurrenceCount: 0,
+      nextRunDate: null,
+      lastRunAt: null,
+      isActive: true,
+    }, { ...values, userId });
+    this.recurringTransactions.set(rule.id, rule);
+    return rule;
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && this.copy(user);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = this.users.get(userData.id);
+    const user = existing
+      ? applyUpdates({ ...existing }, { ...userData, updatedAt: new Date() })
+      : withDefaults<User>({
+          email: null,
+          username: null,
+          passwordHash: null,
+          firstName: null,
+          lastName: null,
+          profileImageUrl: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }, userData);
+    this.assertUnique("email", user.email, user.id);
+    this.assertUnique("username", user.username, user.id);
+    this.users.set(user.id, user);
+    return this.copy(user);
+  }
+
+  // Local accounts
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(u => u.username === username.toLowerCase());
+    return user && this.copy(user);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(u => u.email === email.toLowerCase());
+    return user && this.copy(user);
+  }
+
+  async updateUserPassword(id: string, passwordHash: string): Promise<void> {
+    const user = this.users.get(id);
+    if (user) applyUpdates(user, { passwordHash, updatedAt: new Date() });
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    if (Array.from(this.passwordResetTokens.values()).some(token => token.tokenHash === tokenHash)) {
+      throw new Error('duplicate key value violates unique constraint "password_reset_tokens_token_hash_unique"');
+    }
+    const token: PasswordResetToken = { id: this.nextId("passwordResetTokens"), userId, tokenHash, expiresAt, usedAt: null };
+    this.passwordResetTokens.set(token.id, token);
+    return this.copy(token);
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const now = new Date();
+    const token = Array.from(this.passwordResetTokens.values()).find(t =>
+      t.tokenHash === tokenHash && !t.usedAt && new Date(t.expiresAt) > now
+    );
+    if (!token) return undefined;
+    token.usedAt = now;
+    return this.copy(token);
+  }
+
+  // In memory mode sessions live in the session store, which auth clears itself
+  async deleteUserSessions(_userId: string): Promise<void> {}
+
+  // Transactions
+  async getTransactions(userId: string): Promise<Transaction[]> {
+    return this.copyAll(this.owned(this.transactions, userId).sort(byDate)).reverse();
+  }
+
+  async getTransaction(userId: string, id: number): Promise<Transaction | undefined> {
+    const transaction = this.findOwned(this.transactions, userId, id);
+    return transaction && this.copy(transaction);
+  }
+
+  async getTransactionsByCategory(userId: string, category: string): Promise<Transaction[]> {
+    return this.copyAll(this.owned(this.transactions, userId).filter(t =>
+      t.category === category || (t.splits ?? []).some(split => split.category === category)
+    ));
+  }
+
+  async queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage> {
+    const matching = this.owned(this.transactions, userId).filter(transaction => matchesTransactionQuery(transaction, query));
+    const direction = query.order === "asc" ? 1 : -1;
+    const key = (transaction: Transaction) => ({ value: sortValue(transaction, query.sort), id: transaction.id });
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+    const rows = matching
+      .filter(transaction => !cursor || compareSortKeys(query.sort, key(transaction), cursor) * direction > 0)
+      .sort((a, b) => compareSortKeys(query.sort, key(a), key(b)) * direction)
+      .slice(0, query.limit + 1);
+    return toTransactionPage(this.copyAll(rows), query, summarizeTransactions(toBaseTransactions(matching, this.converterFor(userId))));
+  }
+
+  async getTransactionFacets(userId: string): Promise<TransactionFacets> {
+    const userTransactions = this.owned(this.transactions, userId);
+    return toTransactionFacets(userTransactions.map(t => t.category), userTransactions.flatMap(t => t.tags ?? []));
+  }
+
+  async createTransaction(userId: string, insertTransaction: InsertTransaction): Promise<Transaction> {
+    return this.copy(this.insertTransaction(userId, insertTransaction));
+  }
+
+  async createTransactions(userId: string, insertTransactions: InsertTransaction[]): Promise<Transaction[]> {
+    return this.copyAll(insertTransactions.map(insertTransaction => this.insertTransaction(userId, insertTransaction)));
+  }
+
+  async updateTransaction(userId: string, id: number, updates: Partial<InsertTransaction>): Promise<Transaction> {
+    const transaction = this.findOwned(this.transactions, userId, id);
+    if (!transaction) {
+      throw new Error("Transaction not found");
+    }
+
+    // If this is a loan_received transaction, sync changes to the loan
+    if (transaction.type === "loan_received" && transaction.loanId) {
+      const loan = this.findOwned(this.loans, userId, transaction.loanId);
+      if (loan) {
+        if (updates.description) loan.name = updates.description;
+        if (updates.amount) {
+          loan.principal = toDecimal(updates.amount);
+          loan.currentBalance = toDecimal(updates.amount);
+        }
+        if (updates.date) loan.startDate = updates.date;
+      }
+    }
+
+    const updated = normalizeDecimals(applyUpdates({ ...transaction }, updates as Partial<Transaction>), transactionDecimals);
+    this.assertTransactionReferences(updated);
+    this.transactions.set(id, updated);
+    return this.copy(updated);
+  }
+
+  async deleteTransaction(userId: string, id: number): Promise<void> {
+    const transaction = this.findOwned(this.transactions, userId, id);
+    if (!transaction) return;
+
+    // If this is a loan_received transaction, delete the corresponding loan
+    if (transaction.type === "loan_received" && transaction.loanId && this.findOwned(this.loans, userId, transaction.loanId)) {
+      this.deleteReferencedRow("loanId", transaction.loanId);
+    }
+
+    this.transactions.delete(id);
+    await removeAttachmentFiles(this.cascadeAttachments());
+  }
+
+  // Accounts
+  async getAccounts(userId: string): Promise<Account[]> {
+    return this.copyAll(this.owned(this.accounts, userId));
+  }
+
+  async getAccount(userId: string, id: number): Promise<Account | undefined> {
+    const account = this.findOwned(this.accounts, userId, id);
+    return account && this.copy(account);
+  }
+
+  async createAccount(userId: string, insertAccount: InsertAccount): Promise<Account> {
+    return this.copy(this.insertAccount(userId, insertAccount));
+  }
+
+  async updateAccount(userId: string, id: number, updates: Partial<Account>): Promise<Account> {
+    const account = this.findOwned(this.accounts, userId, id);
+    if (!account) {
+      throw new Error("Account not found");
+    }
+    return this.copy(normalizeDecimals(applyUpdates(account, updates), accountDecimals));
+  }
+
+  async deleteAccount(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.accounts, userId, id)) this.deleteReferencedRow("accountId", id);
+  }
+
+  // Categories
+  async getCategories(userId: string): Promise<Category[]> {
+    return this.copyAll(this.owned(this.categories, userId).sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  async getCategory(userId: string, id: number): Promise<Category | undefined> {
+    const category = this.findOwned(this.categories, userId, id);
+    return category && this.copy(category);
+  }
+
+  async createCategories(userId: string, newCategories: NewCategory[]): Promise<Category[]> {
+    // Check every value first so a duplicate leaves none of them behind, like the single insert does
+    const values = new Set(this.owned(this.categories, userId).map(category => category.value));
+    for (const category of newCategories) {
+      if (values.has(category.value)) {
+        throw new Error('duplicate key value violates unique constraint "IDX_categories_user_value"');
+      }
+      values.add(category.value);
+    }
+    return this.copyAll(newCategories.map(category => this.insertCategory(userId, category)));
+  }
+
+  async updateCategory(userId: string, id: number, updates: Partial<InsertCategory>): Promise<Category> {
+    const category = this.findOwned(this.categories, userId, id);
+    if (!category) {
+      throw new Error("Category not found");
+    }
+    return this.copy(applyUpdates(category, updates as Partial<Category>));
+  }
+
+  async deleteCategory(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.categories, userId, id)) this.deleteCategoryRow(id);
+  }
+
+  async renameCategory(userId: string, id: number, rename: { name: string; value: string }, rewrite: CategoryRewrite): Promise<Category> {
+    const category = this.findOwned(this.categories, userId, id);
+    if (category) applyUpdates(category, rename);
+    this.applyCategoryRewrite(userId, rewrite);
+    return (await this.getCategory(userId, id))!;
+  }
+
+  async mergeCategories(userId: string, sourceId: number, targetId: number, rewrite: CategoryRewrite): Promise<Category> {
+    this.applyCategoryRewrite(userId, rewrite);
+    if (this.findOwned(this.categories, userId, sourceId)) {
+      for (const category of this.owned(this.categories, userId)) {
+        if (category.parentId === sourceId) category.parentId = targetId;
+      }
+      this.categories.delete(sourceId);
+    }
+    return (await this.getCategory(userId, targetId))!;
+  }
+
+  private applyCategoryRewrite(userId: string, rewrite: CategoryRewrite) {
+    for (const { id, ...changes } of rewrite.transactions) {
+      const transaction = this.findOwned(this.transactions, userId, id);
+      if (transaction && transaction.reconciliationId == null) applyUpdates(transaction, changes);
+    }
+    for (const { id, ...changes } of rewrite.budgets) {
+      const budget = this.findOwned(this.budgets, userId, id);
+      if (budget) normalizeDecimals(applyUpdates(budget, changes), budgetDecimals);
+    }
+    for (const id of rewrite.deletedBudgetIds) {
+      if (this.findOwned(this.budgets, userId, id)) this.deleteBudgetRow(id);
+    }
+    for (const { id, template } of rewrite.recurringTransactions) {
+      const rule = this.findOwned(this.recurringTransactions, userId, id);
+      if (rule) rule.template = template;
+    }
+    for (const { id, allocations } of rewrite.budgetTemplates) {
+      const template = this.findOwned(this.budgetTemplates, userId, id);
+      if (template) template.allocations = allocations;
+    }
+    for (const { id, ...changes } of rewrite.envelopeMoves) {
+      const move = this.findOwned(this.envelopeMoves, userId, id);
+      if (move) applyUpdates(move, changes);
+    }
+    for (const { id, category } of rewrite.categorizationRules) {
+      const rule = this.findOwned(this.categorizationRules, userId, id);
+      if (rule) rule.category = category;
+    }
+  }
+
+  // Payees
+  async getPayees(userId: string): Promise<Payee[]> {
+    return this.copyAll(this.owned(this.payees, userId).sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  async getPayee(userId: string, id: number): Promise<Payee | undefined> {
+    const payee = this.findOwned(this.payees, userId, id);
+    return payee && this.copy(payee);
+  }
+
+  async createPayee(userId: string, insertPayee: InsertPayee): Promise<Payee> {
+    return this.copy(this.insertPayee(userId, insertPayee));
+  }
+
+  async updatePayee(userId: string, id: number, updates: Partial<InsertPayee>): Promise<Payee> {
+    const payee = this.findOwned(this.payees, userId, id);
+    if (!payee) {
+      throw new Error("Payee not found");
+    }
+    return this.copy(applyUpdates(payee, updates as Partial<Payee>));
+  }
+
+  // Linked transactions only lose the link (ON DELETE SET NULL)
+  async deletePayee(userId: string, id: number): Promise<void> {
+    if (!this.findOwned(this.payees, userId, id)) return;
+    this.payees.delete(id);
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (transaction.payeeId === id) transaction.payeeId = null;
+    }
+  }
+
+  async linkPayees(userId: string, links: Array<{ id: number; payeeId: number }>): Promise<void> {
+    const targets = links.map(({ id, payeeId }) => {
+      const transaction = this.findOwned(this.transactions, userId, id);
+      if (transaction) this.assertTransactionReferences({ ...transaction, payeeId });
+      return transaction;
+    });
+    links.forEach(({ payeeId }, index) => {
+      const transaction = targets[index];
+      if (transaction) transaction.payeeId = payeeId;
+    });
+  }
+
+  // Settings
+  async getSettings(userId: string): Promise<UserSettings> {
+    return this.copy(withDefaultSettings(userId, this.userSettings.get(userId)));
+  }
+
+  async updateSettings(userId: string, updates: UpdateUserSettings): Promise<UserSettings> {
+    const settings = applyUpdates(withDefaultSettings(userId, this.userSettings.get(userId)), { ...updates, updatedAt: new Date() });
+    this.userSettings.set(userId, settings);
+    return this.copy(settings);
+  }
+
+  // Currencies
+  async getBaseCurrency(userId: string): Promise<string> {
+    return this.userSettings.get(userId)?.baseCurrency ?? DEFAULT_CURRENCY;
+  }
+
+  async getCurrencyConverter(userId: string): Promise<CurrencyConverter> {
+    return this.converterFor(userId);
+  }
+
+  async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+    return this.copyAll(this.owned(this.exchangeRates, userId).sort((a, b) =>
+      new Date(b.effectiveDate).getTime() - new Date(a.effectiveDate).getTime() ||
+      a.fromCurrency.localeCompare(b.fromCurrency) ||
+      a.toCurrency.localeCompare(b.toCurrency)
+    ));
+  }
+
+  async saveExchangeRates(userId: string, rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    return this.copyAll(rates.map(rate => this.upsertExchangeRate(userId, rate)));
+  }
+
+  async deleteExchangeRate(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.exchangeRates, userId, id)) this.exchangeRates.delete(id);
+  }
+
+  // Saved views
+  async getSavedViews(userId: string): Promise<SavedView[]> {
+    return this.copyAll(this.owned(this.savedViews, userId));
+  }
+
+  async getSavedView(userId: string, id: number): Promise<SavedView | undefined> {
+    const view = this.findOwned(this.savedViews, userId, id);
+    return view && this.copy(view);
+  }
+
+  async createSavedView(userId: string, insertView: InsertSavedView): Promise<SavedView> {
+    return this.copy(this.insertSavedView(userId, insertView));
+  }
+
+  async updateSavedView(userId: string, id: number, updates: Partial<InsertSavedView>): Promise<SavedView> {
+    const view = this.findOwned(this.savedViews, userId, id);
+    if (!view) {
+      throw new Error("Saved view not found");
+    }
+    return this.copy(applyUpdates(view, updates as Partial<SavedView>));
+  }
+
+  async deleteSavedView(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.savedViews, userId, id)) this.savedViews.delete(id);
+  }
+
+  // Reconciliations
+  async getReconciliations(userId: string, accountId: number): Promise<Reconciliation[]> {
+    const byStatement = (a: Reconciliation, b: Reconciliation) =>
+      new Date(a.statementDate).getTime() - new Date(b.statementDate).getTime() || a.id - b.id;
+    return this.copyAll(this.owned(this.reconciliations, userId).filter(r => r.accountId === accountId).sort(byStatement)).reverse();
+  }
+
+  async getReconciliation(userId: string, id: number): Promise<Reconciliation | undefined> {
+    const reconciliation = this.findOwned(this.reconciliations, userId, id);
+    return reconciliation && this.copy(reconciliation);
+  }
+
+  async createReconciliation(userId: string, accountId: number, insertReconciliation: InsertReconciliation, transactionIds: number[]): Promise<Reconciliation> {
+    const reconciliation = this.insertReconciliation(userId, { ...insertReconciliation, accountId });
+    for (const id of transactionIds) {
+      const transaction = this.findOwned(this.transactions, userId, id);
+      if (transaction && transaction.reconciliationId == null) {
+        transaction.reconciliationId = reconciliation.id;
+      }
+    }
+    return this.copy(reconciliation);
+  }
+
+  async reopenReconciliation(userId: string, id: number): Promise<Reconciliation> {
+    const reconciliation = this.findOwned(this.reconciliations, userId, id);
+    if (!reconciliation) {
+      throw new Error("Reconciliation not found");
+    }
+    for (const transaction of this.owned(this.transactions, userId)) {
+      if (transaction.reconciliationId === id) transaction.reconciliationId = null;
+    }
+    reconciliation.reopenedAt = new Date();
+    return this.copy(reconciliation);
+  }
+
+  // Budgets
+  private getDerivedBudgets(userId: string): BudgetSpending[] {
+    return deriveBudgets(this.owned(this.budgets, userId), this.owned(this.transactions, userId), this.converterFor(userId));
+  }
+
+  async getBudgets(userId: string): Promise<Budget[]> {
+    return this.copyAll(this.getDerivedBudgets(userId).map(({ budget }) => budget));
+  }
+
+  async getBudget(userId: string, id: number): Promise<Budget | undefined> {
+    const spending = await this.getBudgetSpending(userId, id);
+    return spending?.budget;
+  }
+
+  async getBudgetSpending(userId: string, id: number): Promise<BudgetSpending | undefined> {
+    const spending = this.getDerivedBudgets(userId).find(({ budget }) => budget.id === id);
+    return spending && this.copy(spending);
+  }
+
+  async createBudget(userId: string, insertBudget: InsertBudget): Promise<Budget> {
+    const budget = this.insertBudget(userId, insertBudget);
+    return (await this.getBudget(userId, budget.id))!;
+  }
+
+  async createBudgets(userId: string, insertBudgets: InsertBudget[]): Promise<Budget[]> {
+    const createdIds = new Set(insertBudgets.map(insertBudget => this.insertBudget(userId, insertBudget).id));
+    return (await this.getBudgets(userId)).filter(budget => createdIds.has(budget.id));
+  }
+
+  async updateBudget(userId: string, id: number, updates: Partial<Budget>): Promise<Budget> {
+    const budget = this.findOwned(this.budgets, userId, id);
+    if (!budget) {
+      throw new Error("Budget not found");
+    }
+    normalizeDecimals(applyUpdates(budget, updates), budgetDecimals);
+    return (await this.getBudget(userId, id))!;
+  }
+
+  async deleteBudget(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.budgets, userId, id)) this.deleteBudgetRow(id);
+  }
+
+  async getDueBudgetRenewals(asOf: Date): Promise<Budget[]> {
+    const renewedIds = new Set(Array.from(this.budgets.values()).map(budget => budget.previousBudgetId));
+    return this.copyAll(Array.from(this.budgets.values()).filter(budget =>
+      budget.autoRenew && new Date(budget.endDate) < asOf && !renewedIds.has(budget.id)
+    ));
+  }
+
+  async renewBudget(userId: string, previous: Budget, next: BudgetRenewal): Promise<Budget> {
+    const { id, spent, ...settings } = previous;
+    const budget = this.insertBudget(userId, { ...settings, ...next, previousBudgetId: previous.id } as InsertBudget & Partial<Budget>);
+    return (await this.getBudget(userId, budget.id))!;
+  }
+
+  async getBudgetHistory(userId: string, id: number): Promise<BudgetSpending[]> {
+    const derived = this.getDerivedBudgets(userId);
+    const chainIds = getBudgetChain(derived.map(({ budget }) => budget), id).map(budget => budget.id);
+    return this.copy(chainIds.map(chainId => derived.find(({ budget }) => budget.id === chainId)!));
+  }
+
+  async rebuildBudgetSpending(): Promise<BudgetSpendingRebuildResult> {
+    const staleBudgets = findStaleBudgets(Array.from(this.budgets.values()), Array.from(this.transactions.values()), userId => this.converterFor(userId));
+    for (const { id, spent, rolloverAmount } of staleBudgets) {
+      applyUpdates(this.budgets.get(id)!, { spent, rolloverAmount });
+    }
+    return { budgets: this.budgets.size, corrected: staleBudgets.length };
+  }
+
+  // Budget Templates
+  async getBudgetTemplates(userId: string): Promise<BudgetTemplate[]> {
+    return this.copyAll(this.owned(this.budgetTemplates, userId).sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  async getBudgetTemplate(userId: string, id: number): Promise<BudgetTemplate | undefined> {
+    const template = this.findOwned(this.budgetTemplates, userId, id);
+    return template && this.copy(template);
+  }
+
+  async createBudgetTemplate(userId: string, insertTemplate: InsertBudgetTemplate): Promise<BudgetTemplate> {
+    return this.copy(this.insertBudgetTemplate(userId, insertTemplate));
+  }
+
+  async updateBudgetTemplate(userId: string, id: number, updates: Partial<InsertBudgetTemplate>): Promise<BudgetTemplate> {
+    const template = this.findOwned(this.budgetTemplates, userId, id);
+    if (!template) {
+      throw new Error("Budget template not found");
+    }
+    return this.copy(normalizeDecimals(applyUpdates(template, updates as Partial<BudgetTemplate>), budgetTemplateDecimals));
+  }
+
+  async deleteBudgetTemplate(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.budgetTemplates, userId, id)) this.budgetTemplates.delete(id);
+  }
+
+  // Categorization rules
+  async getCategorizationRules(userId: string): Promise<CategorizationRule[]> {
+    return this.copyAll(this.owned(this.categorizationRules, userId).sort((a, b) => a.priority - b.priority || a.id - b.id));
+  }
+
+  async getCategorizationRule(userId: string, id: number): Promise<CategorizationRule | undefined> {
+    const rule = this.findOwned(this.categorizationRules, userId, id);
+    return rule && this.copy(rule);
+  }
+
+  async createCategorizationRule(userId: string, insertRule: InsertCategorizationRule): Promise<CategorizationRule> {
+    return this.copy(this.insertCategorizationRule(userId, insertRule));
+  }
+
+  async updateCategorizationRule(userId: string, id: number, updates: Partial<InsertCategorizationRule>): Promise<CategorizationRule> {
+    const rule = this.findOwned(this.categorizationRules, userId, id);
+    if (!rule) {
+      throw new Error("Categorization rule not found");
+    }
+    return this.copy(normalizeDecimals(applyUpdates(rule, updates as Partial<CategorizationRule>), categorizationRuleDecimals));
+  }
+
+  async deleteCategorizationRule(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.categorizationRules, userId, id)) this.categorizationRules.delete(id);
+  }
+
+  async categorizeTransactions(userId: string, changes: CategorizationChange[]): Promise<void> {
+    // Check every change first so a bad reference leaves nothing half applied
+    const targets = changes.map(({ transactionId, after }) => {
+      const transaction = this.findOwned(this.transactions, userId, transactionId);
+      if (transaction) this.assertTransactionReferences({ ...transaction, ...after });
+      return transaction;
+    });
+    changes.forEach(({ after }, index) => {
+      const transaction = targets[index];
+      if (transaction && transaction.reconciliationId == null) applyUpdates(transaction, after);
+    });
+  }
+
+  // Envelopes
+  async getEnvelopeMoves(userId: string, month: string): Promise<EnvelopeMove[]> {
+    return this.copyAll(this.owned(this.envelopeMoves, userId).filter(move => move.month === month).sort((a, b) => a.id - b.id));
+  }
+
+  async recordEnvelopeMove(userId: string, move: Omit<InsertEnvelopeMove, "icon">, changes: EnvelopeBudgetChanges): Promise<EnvelopeMove> {
+    for (const { id, amount } of changes.updates) {
+      const budget = this.findOwned(this.budgets, userId, id);
+      if (budget) normalizeDecimals(applyUpdates(budget, { amount }), budgetDecimals);
+    }
+    if (changes.create) {
+      this.insertBudget(userId, changes.create);
+    }
+    return this.copy(this.insertEnvelopeMove(userId, move));
+  }
+
+  // Savings Goals
+  async getSavingsGoals(userId: string): Promise<SavingsGoal[]> {
+    return this.copyAll(this.owned(this.savingsGoals, userId));
+  }
+
+  async getSavingsGoal(userId: string, id: number): Promise<SavingsGoal | undefined> {
+    const goal = this.findOwned(this.savingsGoals, userId, id);
+    return goal && this.copy(goal);
+  }
+
+  async createSavingsGoal(userId: string, insertGoal: InsertSavingsGoal): Promise<SavingsGoal> {
+    return this.copy(this.insertSavingsGoal(userId, insertGoal));
+  }
+
+  async updateSavingsGoal(userId: string, id: number, updates: Partial<SavingsGoal>): Promise<SavingsGoal> {
+    const goal = this.findOwned(this.savingsGoals, userId, id);
+    if (!goal) {
+      throw new Error("Savings goal not found");
+    }
+    return this.copy(normalizeDecimals(applyUpdates(goal, updates), savingsGoalDecimals));
+  }
+
+  async deleteSavingsGoal(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.savingsGoals, userId, id)) this.deleteReferencedRow("savingsGoalId", id);
+  }
+
+  // Loans
+  async getLoans(userId: string): Promise<Loan[]> {
+    return this.copyAll(this.owned(this.loans, userId));
+  }
+
+  async getLoan(userId: string, id: number): Promise<Loan | undefined> {
+    const loan = this.findOwned(this.loans, userId, id);
+    return loan && this.copy(loan);
+  }
+
+  async createLoan(userId: string, insertLoan: InsertLoan): Promise<Loan> {
+    let monthlyPayment = null;
+
+    // Only calculate monthly payment for compound interest loans
+    if (insertLoan.interestType === "compound") {
+      monthlyPayment = calculateAmortizedPayment(
+        parseFloat(insertLoan.principal),
+        parseFloat(insertLoan.interestRate || "0"),
+        insertLoan.termMonths,
+        insertLoan.compoundFrequency || "monthly"
+      ).toFixed(2);
+    }
+
+    const loan = this.insertLoan(userId, {
+      ...insertLoan,
+      monthlyPayment,
+      compoundFrequency: insertLoan.interestType === "simple" ? null : insertLoan.compoundFrequency,
+    });
+
+    // Create corresponding loan_received transaction
+    this.insertTransaction(userId, {
+      amount: insertLoan.principal,
+      description: insertLoan.name,
+      category: "loan",
+      type: "loan_received",
+      date: insertLoan.startDate,
+      time: null,
+      loanId: loan.id,
+    });
+
+    return this.copy(loan);
+  }
+
+  async updateLoan(userId: string, id: number, updates: Partial<Loan>): Promise<Loan> {
+    const currentLoan = this.findOwned(this.loans, userId, id);
+    if (!currentLoan) {
+      throw new Error("Loan not found");
+    }
+
+    // If key loan parameters are being updated, recalculate monthly payment
+    if (updates.principal || updates.interestRate || updates.termMonths || updates.compoundFrequency || updates.interestType) {
+      const principal = parseFloat(updates.principal || currentLoan.principal);
+      const interestRate = parseFloat(updates.interestRate || currentLoan.interestRate);
+      const termMonths = updates.termMonths || currentLoan.termMonths;
+      const interestType = updates.interestType || currentLoan.interestType || "compound";
+
+      if (interestType === "compound") {
+        const compoundFrequency = updates.compoundFrequency || currentLoan.compoundFrequency || "monthly";
+        updates.monthlyPayment = calculateAmortizedPayment(principal, interestRate, termMonths, compoundFrequency).toFixed(2);
+      } else {
+        // Simple interest loans don't use monthly payments or compound frequency
+        updates.monthlyPayment = null;
+        updates.compoundFrequency = null;
+      }
+    }
+
+    const loan = normalizeDecimals(applyUpdates(currentLoan, updates), loanDecimals);
+
+    // Update corresponding loan_received transaction if relevant fields changed
+    if (updates.name || updates.principal || updates.startDate) {
+      for (const transaction of this.owned(this.transactions, userId)) {
+        if (transaction.loanId !== id || transaction.type !== "loan_received") continue;
+        if (updates.name) transaction.description = updates.name;
+        if (updates.principal) transaction.amount = toDecimal(updates.principal);
+        if (updates.startDate) transaction.date = updates.startDate;
+      }
+    }
+
+    return this.copy(loan);
+  }
+
+  async deleteLoan(userId: string, id: number): Promise<void> {
+    // Delete corresponding loan_received transaction first
+    for (const transaction of this.owned(this.transactions, userId)) {
+      if (transaction.loanId === id && transaction.type === "loan_received") {
+        this.transactions.delete(transaction.id);
+      }
+    }
+    if (this.findOwned(this.loans, userId, id)) this.deleteReferencedRow("loanId", id);
+    await removeAttachmentFiles(this.cascadeAttachments());
+  }
+
+  // Assets
+  async getAssets(userId: string): Promise<Asset[]> {
+    return this.copyAll(this.owned(this.assets, userId));
+  }
+
+  async getAsset(userId: string, id: number): Promise<Asset | undefined> {
+    const asset = this.findOwned(this.assets, userId, id);
+    return asset && this.copy(asset);
+  }
+
+  async createAsset(userId: string, { value, ...insertAsset }: InsertAsset): Promise<Asset> {
+    const asset = this.insertAsset(userId, insertAsset);
+    if (value !== undefined) this.insertAssetValuation(userId, asset.id, { value, valuedAt: new Date() });
+    return this.copy(asset);
+  }
+
+  async updateAsset(userId: string, id: number, updates: Partial<Omit<InsertAsset, "value">>): Promise<Asset> {
+    const asset = this.findOwned(this.assets, userId, id);
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+    return this.copy(applyUpdates(asset, updates));
+  }
+
+  async deleteAsset(userId: string, id: number): Promise<void> {
+    if (!this.findOwned(this.assets, userId, id)) return;
+    this.assets.delete(id);
+    // ON DELETE CASCADE
+    for (const valuation of Array.from(this.assetValuations.values())) {
+      if (valuation.assetId === id) this.assetValuations.delete(valuation.id);
+    }
+  }
+
+  async getAssetValuations(userId: string, assetId?: number): Promise<AssetValuation[]> {
+    return this.copyAll(this.owned(this.assetValuations, userId)
+      .filter(valuation => assetId === undefined || valuation.assetId === assetId)
+      .sort((a, b) => new Date(b.valuedAt).getTime() - new Date(a.valuedAt).getTime() || b.id - a.id));
+  }
+
+  async createAssetValuation(userId: string, assetId: number, valuation: InsertAssetValuation): Promise<AssetValuation> {
+    return this.copy(this.insertAssetValuation(userId, assetId, valuation));
+  }
+
+  async deleteAssetValuation(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.assetValuations, userId, id)) this.assetValuations.delete(id);
+  }
+
+  // Investments
+  async getInvestments(userId: string): Promise<Investment[]> {
+    return this.copyAll(this.owned(this.investments, userId));
+  }
+
+  async getInvestment(userId: string, id: number): Promise<Investment | undefined> {
+    const investment = this.findOwned(this.investments, userId, id);
+    return investment && this.copy(investment);
+  }
+
+  async createInvestment(userId: string, investment: InsertInvestment): Promise<Investment> {
+    return this.copy(this.insertInvestment(userId, investment));
+  }
+
+  async updateInvestment(userId: string, id: number, updates: Partial<InsertInvestment>): Promise<Investment> {
+    const investment = this.findOwned(this.investments, userId, id);
+    if (!investment) {
+      throw new Error("Investment not found");
+    }
+    return this.copy(applyUpdates(investment, updates));
+  }
+
+  // Lots and prices go with the holding (ON DELETE CASCADE); linked transactions only lose the link (ON DELETE SET NULL)
+  async deleteInvestment(userId: string, id: number): Promise<void> {
+    if (!this.findOwned(this.investments, userId, id)) return;
+    this.investments.delete(id);
+    for (const table of [this.investmentLots, this.investmentPrices] as Map<number, { investmentId: number }>[]) {
+      for (const [rowId, row] of Array.from(table.entries())) {
+        if (row.investmentId === id) table.delete(rowId);
+      }
+    }
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (transaction.investmentId === id) transaction.investmentId = null;
+    }
+  }
+
+  async getInvestmentLots(userId: string, investmentId?: number): Promise<InvestmentLot[]> {
+    return this.copyAll(sortLots(this.owned(this.investmentLots, userId)
+      .filter(lot => investmentId === undefined || lot.investmentId === investmentId)));
+  }
+
+  async createInvestmentLot(userId: string, investmentId: number, lot: InsertInvestmentLot): Promise<InvestmentLot> {
+    return this.copy(this.insertInvestmentLot(userId, investmentId, lot));
+  }
+
+  async deleteInvestmentLot(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.investmentLots, userId, id)) this.investmentLots.delete(id);
+  }
+
+  async getInvestmentPrices(userId: string, investmentId?: number): Promise<InvestmentPrice[]> {
+    return this.copyAll(this.owned(this.investmentPrices, userId)
+      .filter(price => investmentId === undefined || price.investmentId === investmentId)
+      .sort((a, b) => new Date(b.pricedAt).getTime() - new Date(a.pricedAt).getTime() || b.id - a.id));
+  }
+
+  async createInvestmentPrice(userId: string, investmentId: number, price: InsertInvestmentPrice): Promise<InvestmentPrice> {
+    return this.copy(this.insertInvestmentPrice(userId, investmentId, price));
+  }
+
+  async deleteInvestmentPrice(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.investmentPrices, userId, id)) this.investmentPrices.delete(id);
+  }
+
+  // Attachments
+  async getTransactionAttachments(userId: string, transactionId: number): Promise<Attachment[]> {
+    return this.copyAll(this.owned(this.attachments, userId).filter(attachment => attachment.transactionId === transactionId));
+  }
+
+  async getLoanAttachments(userId: string, loanId: number): Promise<Attachment[]> {
+    return this.copyAll(this.owned(this.attachments, userId).filter(attachment => attachment.loanId === loanId));
+  }
+
+  async getAttachment(userId: string, id: number): Promise<Attachment | undefined> {
+    const attachment = this.findOwned(this.attachments, userId, id);
+    return attachment && this.copy(attachment);
+  }
+
+  async createAttachment(userId: string, insertAttachment: InsertAttachment): Promise<Attachment> {
+    if (insertAttachment.transactionId != null && !this.transactions.has(insertAttachment.transactionId)) {
+      throw new Error('insert or update on table "attachments" violates foreign key constraint "attachments_transaction_id_transactions_id_fk"');
+    }
+    if (insertAttachment.loanId != null && !this.loans.has(insertAttachment.loanId)) {
+      throw new Error('insert or update on table "attachments" violates foreign key constraint "attachments_loan_id_loans_id_fk"');
+    }
+    const attachment = withDefaults<Attachment>({
+      id: this.nextId("attachments"),
+      transactionId: null,
+      loanId: null,
+      thumbnailKey: null,
+      createdAt: new Date(),
+    }, { ...insertAttachment, userId });
+    this.attachments.set(attachment.id, attachment);
+    return this.copy(attachment);
+  }
+
+  async deleteAttachment(userId: string, id: number): Promise<void> {
+    const attachment = this.findOwned(this.attachments, userId, id);
+    if (!attachment) return;
+    this.attachments.delete(id);
+    await removeAttachmentFiles([attachment]);
+  }
+
+  async getLoanRepayments(userId: string, loanId: number): Promise<Transaction[]> {
+    return this.copyAll(
+      this.owned(this.transactions, userId)
+        .filter(t => t.type === "loan_repayment" && t.loanId === loanId)
+        .sort(byDate)
+    );
+  }
+
+  private async getLoanRepaymentsInLoanCurrency(userId: string, loan: Loan): Promise<Transaction[]> {
+    const converter = this.converterFor(userId);
+    return (await this.getLoanRepayments(userId, loan.id)).map(repayment => convertTransaction(repayment, loan.currency, converter));
+  }
+
+  async calculateLoanInterest(userId: string, loan: Loan): Promise<LoanInterestSummary> {
+    return calculateLoanInterest(loan, await this.getLoanRepaymentsInLoanCurrency(userId, loan));
+  }
+
+  async calculateLoanProgress(userId: string, loan: Loan): Promise<LoanProgressSummary> {
+    return calculateLoanProgress(loan, await this.getLoanRepaymentsInLoanCurrency(userId, loan));
+  }
+
+  // Recurring Transactions
+  async getRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+    return this.copyAll(
+      this.owned(this.recurringTransactions, userId)
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
+    );
+  }
+
+  async getRecurringTransaction(userId: string, id: number): Promise<RecurringTransaction | undefined> {
+    const rule = this.findOwned(this.recurringTransactions, userId, id);
+    return rule && this.copy(rule);
+  }
+
+  async createRecurringTransaction(userId: string, insertRule: InsertRecurringTransaction): Promise<RecurringTransaction> {
+    return this.copy(this.insertRecurringTransaction(userId, { ...insertRule, nextRunDate: insertRule.startDate }));
+  }
+
+  async updateRecurringTransaction(userId: string, id: number, updates: Partial<RecurringTransaction>): Promise<RecurringTransaction> {
+    const rule = this.findOwned(this.recurringTransactions, userId, id);
+    if (!rule) {
+      throw new Error("Recurring transaction not found");
+    }
+    return this.copy(applyUpdates(rule, updates));
+  }
+
+  async deleteRecurringTransaction(userId: string, id: number): Promise<void> {
+    if (this.findOwned(this.recurringTransactions, userId, id)) this.recurringTransactions.delete(id);
+  }
+
+  async getDueRecurringTransactions(asOf: Date, userId?: string): Promise<RecurringTransaction[]> {
+    return this.copyAll(
+      Array.from(this.recurringTransactions.values()).filter(rule =>
+        (!userId || rule.userId === userId) && rule.isActive && rule.nextRunDate !== null && new Date(rule.nextRunDate) <= asOf
+      )
+    );
+  }
+
+  async advanceRecurringTransaction(userId: string, id: number, expectedCount: number, progress: RecurringProgress): Promise<boolean> {
+    const rule = this.findOwned(this.recurringTransactions, userId, id);
+    if (!rule || rule.occurrenceCount !== expectedCount) return false;
+    applyUpdates(rule, progress);
+    return true;
+  }
+
+  // Data export / restore
+  async exportUserData(userId: string): Promise<UserDataSnapshot> {
+    return {
+      accounts: this.copyAll(this.owned(this.accounts, userId)),
+      categories: this.copyAll(this.owned(this.categories, userId)),
+      payees: this.copyAll(this.owned(this.payees, userId)),
+      savedViews: this.copyAll(this.owned(this.savedViews, userId)),
+      reconciliations: this.copyAll(this.owned(this.reconciliations, userId)),
+      transactions: this.copyAll(this.owned(this.transactions, userId).sort(byDate)),
+      budgets: this.copyAll(this.getDerivedBudgets(userId).map(({ budget }) => budget)),
+      budgetTemplates: this.copyAll(this.owned(this.budgetTemplates, userId)),
+      envelopeMoves: this.copyAll(this.owned(this.envelopeMoves, userId)),
+      categorizationRules: this.copyAll(this.owned(this.categorizationRules, userId)),
+      savingsGoals: this.copyAll(this.owned(this.savingsGoals, userId)),
+      loans: this.copyAll(this.owned(this.loans, userId)),
+      recurringTransactions: this.copyAll(this.owned(this.recurringTransactions, userId)),
+      exchangeRates: this.copyAll(this.owned(this.exchangeRates, userId)),
+      userSettings: this.copyAll(Array.from(this.userSettings.values()).filter(settings => settings.userId === userId)),
+      assets: this.copyAll(this.owned(this.assets, userId)),
+      assetValuations: this.copyAll(this.owned(this.assetValuations, userId)),
+      netWorthSnapshots: this.copyAll(this.owned(this.netWorthSnapshots, userId).sort((a, b) => a.month.localeCompare(b.month))),
+      investments: this.copyAll(this.owned(this.investments, userId)),
+      investmentLots: this.copyAll(this.owned(this.investmentLots, userId)),
+      investmentPrices: this.copyAll(this.owned(this.investmentPrices, userId)),
+    };
+  }
+
+  async restoreUserData(userId: string, data: UserDataRestore, options: { replace: boolean }): Promise<UserDataRestoreSummary> {
+    // Nothing below can fail halfway, so no rollback is needed here. Merging keeps the account's settings if it has any.
+    const restoredSettings = options.replace || !this.userSettings.has(userId) ? data.userSettings.slice(0, 1) : [];
+    // Attachments on rows the archive brings back are detached before clearing and re-linked to the restored rows
+    const keptAttachments = options.replace ? findKeptAttachments(this.owned(this.attachments, userId), {
+      transactions: this.owned(this.transactions, userId),
+      loans: this.owned(this.loans, userId),
+    }, data) : [];
+    for (const attachment of keptAttachments) {
+      this.attachments.set(attachment.id, { ...attachment, transactionId: null, loanId: null });
+    }
+    if (options.replace) {
+      this.userSettings.delete(userId);
+      for (const table of [this.transactions, this.recurringTransactions, this.budgets, this.budgetTemplates, this.envelopeMoves, this.categorizationRules, this.categories, this.payees, this.savedViews, this.exchangeRates, this.netWorthSnapshots, this.assetValuations, this.assets, this.investmentPrices, this.investmentLots, this.investments, this.savingsGoals, this.loans, this.reconciliations, this.accounts] as Map<number, { userId: string | null }>[]) {
+        for (const [id, row] of Array.from(table.entries())) {
+          if (row.userId === userId) table.delete(id);
+        }
+      }
+      await removeAttachmentFiles(this.cascadeAttachments());
+    }
+
+    const accountIdMap = new Map<number, number>();
+    for (const { id, ...account } of data.accounts) {
+      accountIdMap.set(id, this.insertAccount(userId, account as InsertAccount).id);
+    }
+
+    const reconciliationIdMap = new Map<number, number>();
+    for (const { id, ...reconciliation } of data.reconciliations) {
+      const accountId = accountIdMap.get(reconciliation.accountId);
+      if (accountId === undefined) continue;
+      reconciliationIdMap.set(id, this.insertReconciliation(userId, { ...reconciliation, accountId }).id);
+    }
+
+    const goalIdMap = new Map<number, number>();
+    for (const { id, ...goal } of data.savingsGoals) {
+      goalIdMap.set(id, this.insertSavingsGoal(userId, goal as InsertSavingsGoal).id);
+    }
+
+    const loanIdMap = new Map<number, number>();
+    for (const { id, ...loan } of data.loans) {
+      loanIdMap.set(id, this.insertLoan(userId, loan as InsertLoan).id);
+    }
+
+    const payeeIdMap = new Map<number, number>();
+    for (const { id, ...payee } of data.payees) {
+      payeeIdMap.set(id, this.insertPayee(userId, payee).id);
+    }
+
+    const assetIdMap = new Map<number, number>();
+    for (const { id, ...asset } of data.assets) {
+      assetIdMap.set(id, this.insertAsset(userId, asset as Omit<InsertAsset, "value">).id);
+    }
+
+    const investmentIdMap = new Map<number, number>();
+    for (const { id, ...investment } of data.investments) {
+      investmentIdMap.set(id, this.insertInvestment(userId, investment as InsertInvestment).id);
+    }
+
+    const remapAccountId = (accountId: number | null | undefined) => accountId != null ? accountIdMap.get(accountId) ?? null : null;
+    const remapGoalId = (goalId: number | null | undefined) => goalId != null ? goalIdMap.get(goalId) ?? null : null;
+    const remapLoanId = (loanId: number | null | undefined) => loanId != null ? loanIdMap.get(loanId) ?? null : null;
+    const remapReconciliationId = (reconciliationId: number | null) => reconciliationId != null ? reconciliationIdMap.get(reconciliationId) ?? null : null;
+    const remapPayeeId = (payeeId: number | null | undefined) => payeeId != null ? payeeIdMap.get(payeeId) ?? null : null;
+    const remapInvestmentId = (investmentId: number | null | undefined) => investmentId != null ? investmentIdMap.get(investmentId) ?? null : null;
+
+    const transactionIdMap = new Map<number, number>();
+    for (const { id, ...transaction } of data.transactions) {
+      const created = this.insertTransaction(userId, {
+        ...transaction,
+        savingsGoalId: remapGoalId(transaction.savingsGoalId) ?? undefined,
+        loanId: remapLoanId(transaction.loanId),
+        accountId: remapAccountId(transaction.accountId),
+        toAccountId: remapAccountId(transaction.toAccountId),
+        reconciliationId: remapReconciliationId(transaction.reconciliationId),
+        payeeId: remapPayeeId(transaction.payeeId),
+        investmentId: remapInvestmentId(transaction.investmentId),
+      });
+      transactionIdMap.set(id, created.id);
+    }
+    for (const attachment of keptAttachments) {
+      this.attachments.set(attachment.id, {
+        ...attachment,
+        transactionId: attachment.transactionId != null ? transactionIdMap.get(attachment.transactionId)! : null,
+        loanId: remapLoanId(attachment.loanId),
+      });
+    }
+    // Oldest first, so each renewed budget can point at its restored predecessor. A budget overlapping one the
+    // account already has is folded into it in merge mode.
+    const budgetIdMap = new Map<number, number>();
+    const mergedBudgets: UserDataRestoreSummary["mergedBudgets"] = [];
+    for (const { id, ...budget } of [...data.budgets].sort((a, b) => a.id - b.id)) {
+      const keptBudget = findConflictingBudget(this.owned(this.budgets, userId), budget);
+      if (keptBudget) {
+        mergedBudgets.push({ category: budget.category, keptBudgetId: keptBudget.id });
+        continue;
+      }
+      const previousBudgetId = budget.previousBudgetId != null ? budgetIdMap.get(budget.previousBudgetId) ?? null : null;
+      budgetIdMap.set(id, this.insertBudget(userId, { ...budget, previousBudgetId } as InsertBudget & Partial<Budget>).id);
+    }
+    for (const { id, ...template } of data.budgetTemplates) {
+      this.insertBudgetTemplate(userId, template);
+    }
+    // The account's own categories win in merge mode; parents are linked once every category is in
+    const keptCategoryValues = new Set(this.owned(this.categories, userId).map(category => category.value));
+    const restoredCategories = data.categories.filter(category => !keptCategoryValues.has(category.value));
+    const categoryIdMap = new Map<number, Category>();
+    for (const { id, ...category } of restoredCategories) {
+      categoryIdMap.set(id, this.insertCategory(userId, { ...category, parentId: null } as NewCategory));
+    }
+    for (const category of restoredCategories) {
+      const parentValue = data.categories.find(parent => parent.id === category.parentId)?.value;
+      const parent = this.owned(this.categories, userId).find(existing => existing.value === parentValue);
+      if (parent) categoryIdMap.get(category.id)!.parentId = parent.id;
+    }
+    for (const { id, ...move } of data.envelopeMoves) {
+      this.insertEnvelopeMove(userId, move);
+    }
+    for (const { id, ...rule } of data.categorizationRules) {
+      this.insertCategorizationRule(userId, {
+        ...rule,
+        savingsGoalId: remapGoalId(rule.savingsGoalId),
+        loanId: remapLoanId(rule.loanId),
+      } as InsertCategorizationRule);
+    }
+    for (const { id, ...view } of data.savedViews) {
+      this.insertSavedView(userId, {
+        ...view,
+        filters: remapSavedViewFilters(view.filters, { payeeId: remapPayeeId, accountId: remapAccountId, savingsGoalId: remapGoalId, loanId: remapLoanId }),
+      });
+    }
+    // The account's own rate for a pair and day wins in merge mode
+    const rateKey = (rate: Pick<ExchangeRate, "fromCurrency" | "toCurrency" | "effectiveDate">) =>
+      `${rate.fromCurrency}:${rate.toCurrency}:${new Date(rate.effectiveDate).getTime()}`;
+    const keptRateKeys = new Set(this.owned(this.exchangeRates, userId).map(rateKey));
+    const restoredRates = data.exchangeRates.filter(rate => !keptRateKeys.has(rateKey(rate)));
+    for (const { id, ...rate } of restoredRates) {
+      this.upsertExchangeRate(userId, rate);
+    }
+    for (const settings of restoredSettings) {
+      this.userSettings.set(userId, { ...settings, userId });
+    }
+    // Valuations of assets missing from the archive are dropped
+    const restoredValuations = data.assetValuations.filter(valuation => assetIdMap.has(valuation.assetId));
+    for (const { id, assetId, ...valuation } of restoredValuations) {
+      this.insertAssetValuation(userId, assetIdMap.get(assetId)!, valuation as InsertAssetValuation);
+    }
+    // So are lots and prices of investments missing from it
+    const restoredLots = data.investmentLots.filter(lot => investmentIdMap.has(lot.investmentId));
+    for (const { id, investmentId, ...lot } of restoredLots) {
+      this.insertInvestmentLot(userId, investmentIdMap.get(investmentId)!, lot as InsertInvestmentLot);
+    }
+    const restoredPrices = data.investmentPrices.filter(price => investmentIdMap.has(price.investmentId));
+    for (const { id, investmentId, ...price } of restoredPrices) {
+      this.insertInvestmentPrice(userId, investmentIdMap.get(investmentId)!, price as InsertInvestmentPrice);
+    }
+    // The account's own snapshot for a month wins in merge mode
+    const keptSnapshotMonths = new Set(this.owned(this.netWorthSnapshots, userId).map(snapshot => snapshot.month));
+    const restoredSnapshots = data.netWorthSnapshots.filter(snapshot => !keptSnapshotMonths.has(snapshot.month));
+    for (const { id, ...snapshot } of restoredSnapshots) {
+      this.upsertNetWorthSnapshot(userId, snapshot);
+    }
+    // A recurring rule the account already has would post every occurrence twice, so merging skips it
+    const keptRuleIds = new Map(this.owned(this.recurringTransactions, userId).map(rule => [recurringRuleKey(rule), rule.id]));
+    const skippedRecurringTransactions: UserDataRestoreSummary["skippedRecurringTransactions"] = [];
+    const restoredRecurring = data.recurringTransactions.filter(rule => {
+      const keptRuleId = keptRuleIds.get(recurringRuleKey(rule));
+      if (keptRuleId === undefined) return true;
+      skippedRecurringTransactions.push({ description: rule.template.description, keptRuleId });
+      return false;
+    });
+    for (const { id, ...rule } of restoredRecurring) {
+      this.insertRecurringTransaction(userId, {
+        ...rule,
+        template: {
+          ...rule.template,
+          savingsGoalId: remapGoalId(rule.template.savingsGoalId) ?? undefined,
+          loanId: remapLoanId(rule.template.loanId),
+          accountId: remapAccountId(rule.template.accountId),
+          toAccountId: remapAccountId(rule.template.toAccountId),
+          payeeId: remapPayeeId(rule.template.payeeId),
+          investmentId: remapInvestmentId(rule.template.investmentId),
+        },
+      });
+    }
+
+    const restored: UserDataRestoreResult = {
+      accounts: data.accounts.length,
+      categories: restoredCategories.length,
+      payees: data.payees.length,
+      savedViews: data.savedViews.length,
+      reconciliations: reconciliationIdMap.size,
+      transactions: data.transactions.length,
+      budgets: budgetIdMap.size,
+      budgetTemplates: data.budgetTemplates.length,
+      envelopeMoves: data.envelopeMoves.length,
+      categorizationRules: data.categorizationRules.length,
+      savingsGoals: data.savingsGoals.length,
+      loans: data.loans.length,
+      recurringTransactions: restoredRecurring.length,
+      exchangeRates: restoredRates.length,
+      userSettings: restoredSettings.length,
+      assets: data.assets.length,
+      assetValuations: restoredValuations.length,
+      netWorthSnapshots: restoredSnapshots.length,
+      investments: data.investments.length,
+      investmentLots: restoredLots.length,
+      investmentPrices: restoredPrices.length,
+    };
+    return { restored, mergedBudgets, skippedRecurringTransactions };
+  }
+
+  async migrateUserData(fromUserId: string, toUserId: string): Promise<UserDataMigrationResult> {
+    const source = await this.exportUserData(fromUserId);
+    const target = await this.exportUserData(toUserId);
+
+    for (const table of [this.accounts, this.reconciliations, this.transactions, this.budgetTemplates, this.envelopeMoves, this.categorizationRules, this.payees, this.savedViews, this.savingsGoals, this.loans, this.recurringTransactions, this.attachments, this.assets, this.assetValuations, this.investments, this.investmentLots, this.investmentPrices] as Map<number, { userId: string | null }>[]) {
+      for (const row of Array.from(table.values())) {
+        if (row.userId === fromUserId) row.userId = toUserId;
+      }
+    }
+
+    // Same merge rule as DatabaseStorage: the account's own overlapping budget wins, and its derived spending then includes the guest's
+    const mergedBudgets: UserDataMigrationResult["mergedBudgets"] = [];
+    for (const guestBudget of source.budgets) {
+      const keptBudget = target.budgets.find(existing => budgetsOverlap(existing, guestBudget));
+      if (keptBudget) {
+        mergedBudgets.push({ category: guestBudget.category, keptBudgetId: keptBudget.id });
+        this.deleteBudgetRow(guestBudget.id);
+      } else {
+        applyUpdates(this.budgets.get(guestBudget.id)!, { userId: toUserId });
+      }
+    }
+
+    // And for rates: the account's own rate for the same pair and day wins over the guest's
+    let keptRates = 0;
+    for (const guestRate of source.exchangeRates) {
+      const sameDay = (existing: ExchangeRate) => existing.fromCurrency === guestRate.fromCurrency &&
+        existing.toCurrency === guestRate.toCurrency &&
+        new Date(existing.effectiveDate).getTime() === new Date(guestRate.effectiveDate).getTime();
+      if (target.exchangeRates.some(sameDay)) {
+        keptRates++;
+        this.exchangeRates.delete(guestRate.id);
+      } else {
+        applyUpdates(this.exchangeRates.get(guestRate.id)!, { userId: toUserId });
+      }
+    }
+
+    // A snapshot the account already has for the month wins over the guest's
+    let keptSnapshots = 0;
+    for (const guestSnapshot of source.netWorthSnapshots) {
+      if (target.netWorthSnapshots.some(existing => existing.month === guestSnapshot.month)) {
+        keptSnapshots++;
+        this.netWorthSnapshots.delete(guestSnapshot.id);
+      } else {
+        applyUpdates(this.netWorthSnapshots.get(guestSnapshot.id)!, { userId: toUserId });
+      }
+    }
+
+    // The account's own settings win; a guest's only carry over to an account that never changed any
+    const guestSettings = this.userSettings.get(fromUserId);
+    const keptSettings = guestSettings && this.userSettings.has(toUserId) ? 1 : 0;
+    this.userSettings.delete(fromUserId);
+    if (guestSettings && !keptSettings) this.userSettings.set(toUserId, { ...guestSettings, userId: toUserId });
+
+    // Same rule for categories: one the account already has (by value) replaces the guest's and takes over its subcategories
+    let keptCategories = 0;
+    for (const guestCategory of source.categories) {
+      const keptCategory = target.categories.find(existing => existing.value === guestCategory.value);
+      if (keptCategory) {
+        keptCategories++;
+        for (const category of Array.from(this.categories.values())) {
+          if (category.parentId === guestCategory.id) category.parentId = keptCategory.id;
+        }
+        this.categories.delete(guestCategory.id);
+      } else {
+        applyUpdates(this.categories.get(guestCategory.id)!, { userId: toUserId });
+      }
+    }
+
+    this.users.delete(fromUserId);
+
+    return {
+      moved: {
+        accounts: source.accounts.length,
+        categories: source.categories.length - keptCategories,
+        payees: source.payees.length,
+        savedViews: source.savedViews.length,
+        reconciliations: source.reconciliations.length,
+        transactions: source.transactions.length,
+        budgets: source.budgets.length - mergedBudgets.length,
+        budgetTemplates: source.budgetTemplates.length,
+        envelopeMoves: source.envelopeMoves.length,
+        categorizationRules: source.categorizationRules.length,
+        savingsGoals: source.savingsGoals.length,
+        loans: source.loans.length,
+        recurringTransactions: source.recurringTransactions.length,
+        exchangeRates: source.exchangeRates.length - keptRates,
+        userSettings: source.userSettings.length - keptSettings,
+        assets: source.assets.length,
+        assetValuations: source.assetValuations.length,
+        netWorthSnapshots: source.netWorthSnapshots.length - keptSnapshots,
+        investments: source.investments.length,
+        investmentLots: source.investmentLots.length,
+        investmentPrices: source.investmentPrices.length,
+      },
+      mergedBudgets,
+    };
+  }
+
+  // Financial Summary
+  async getFinancialSummary(userId: string): Promise<FinancialSummary> {
+    const { start, end } = getCurrentMonthRange(await this.getSettings(userId));
+    const userTransactions = this.owned(this.transactions, userId);
+    const monthlyTransactions = userTransactions.filter(t => new Date(t.date) >= start && new Date(t.date) <= end);
+
+    return summarizeFinances(
+      this.copyAll(monthlyTransactions),
+      await this.getTransactions(userId),
+      await this.getSavingsGoals(userId),
+      await this.getLoans(userId),
+      await this.getAccounts(userId),
+      await this.getAssets(userId),
+      await this.getAssetValuations(userId),
+      await this.getInvestments(userId),
+      await this.getInvestmentLots(userId),
+      await this.getInvestmentPrices(userId),
+      this.converterFor(userId)
+    );
+  }
+
+  // Net worth history
+  async getNetWorthSnapshots(userId: string): Promise<NetWorthSnapshot[]> {
+    return this.copyAll(this.owned(this.netWorthSnapshots, userId).sort((a, b) => a.month.localeCompare(b.month)));
+  }
+
+  async recordNetWorthSnapshot(userId: string, month: string): Promise<NetWorthSnapshot> {
+    const summary = await this.getFinancialSummary(userId);
+    return this.copy(this.upsertNetWorthSnapshot(userId, { ...toNetWorthSnapshot(summary), month }));
+  }
+
+  async getUsersWithoutNetWorthSnapshot(month: string): Promise<string[]> {
+    const recorded = new Set(Array.from(this.netWorthSnapshots.values()).filter(snapshot => snapshot.month === month).map(snapshot => snapshot.userId));
+    return Array.from(this.users.keys()).filter(userId => !recorded.has(userId));
+  }
+}
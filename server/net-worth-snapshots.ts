@@ -0,0 +1,50 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import type { NetWorthSnapshot } from "@shared/schema";
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+// 'YYYY-MM' of the calendar month a snapshot taken at the given time belongs to
+export function getSnapshotMonth(now: Date = new Date()): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+}
+
+// Record this month's net worth for every user who has no snapshot for it yet. Runs hourly, so each user gets
+// their snapshot within an hour of the month starting (or of signing up) and keeps it for the rest of the month.
+export async function takeDueNetWorthSnapshots(now: Date = new Date()): Promise<NetWorthSnapshot[]> {
+  const month = getSnapshotMonth(now);
+  const userIds = await storage.getUsersWithoutNetWorthSnapshot(month);
+  const recorded: NetWorthSnapshot[] = [];
+
+  for (const userId of userIds) {
+    try {
+      recorded.push(await storage.recordNetWorthSnapshot(userId, month));
+    } catch (error) {
+      console.error(`Failed to record net worth snapshot for user ${userId}:`, error);
+    }
+  }
+
+  return recorded;
+}
+
+let isRunning = false;
+
+async function runScheduledSnapshots() {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    const recorded = await takeDueNetWorthSnapshots();
+    if (recorded.length > 0) {
+      log(`recorded ${recorded.length} net worth snapshot(s)`, "net-worth");
+    }
+  } catch (error) {
+    console.error("Net worth snapshot job failed:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startNetWorthSnapshotScheduler() {
+  runScheduledSnapshots();
+  setInterval(runScheduledSnapshots, SCHEDULER_INTERVAL_MS);
+}
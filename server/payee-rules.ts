@@ -0,0 +1,150 @@
+import type { Payee, Transaction } from "@shared/schema";
+
+// Card and bank boilerplate that says nothing about who was paid
+const NOISE_WORDS = new Set(["pos", "purchase", "card", "debit", "credit", "payment", "pmt", "ref", "txn", "trx", "ltd", "limited", "the"]);
+
+// Months of history the trend covers, ending with the current month
+const TREND_MONTHS = 6;
+
+// Transaction types where money goes to the payee; everything else on a payee counts as received from them
+const SPENDING_TYPES = ["expense", "loan_repayment"];
+
+export interface PayeeStats {
+  transactionCount: number;
+  totalSpent: number;
+  totalReceived: number;
+  averageTicket: number; // average spend per visit
+  visitsPerMonth: number;
+  firstVisit: Date | null;
+  lastVisit: Date | null;
+  trend: Array<{ month: string; spent: number; visits: number }>; // oldest first
+}
+
+export interface PayeeSuggestion {
+  name: string;
+  transactionCount: number;
+  totalSpent: number;
+}
+
+// The words of a description that identify who was paid: lower case, no reference numbers or card boilerplate
+export function normalizePayeeText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9&']+/)
+    .filter(word => word.length > 1 && !/\d/.test(word) && !NOISE_WORDS.has(word));
+}
+
+// The payee whose name or alias appears, word for word, in the description. The longest match wins so
+// "Shoprite Express" beats "Shoprite".
+export function matchPayee(userPayees: Payee[], description: string): Payee | undefined {
+  const words = normalizePayeeText(description);
+  let best: { payee: Payee; length: number } | undefined;
+
+  for (const payee of userPayees) {
+    for (const alias of [payee.name, ...payee.aliases]) {
+      const aliasWords = normalizePayeeText(alias);
+      if (aliasWords.length === 0 || (best && aliasWords.length <= best.length)) continue;
+      const found = words.some((_, start) => aliasWords.every((word, offset) => words[start + offset] === word));
+      if (found) best = { payee, length: aliasWords.length };
+    }
+  }
+  return best?.payee;
+}
+
+// Why a payee can't take this name, or undefined when it can
+export function getPayeeNameError(userPayees: Payee[], name: string, payeeId?: number): string | undefined {
+  if (normalizePayeeText(name).length === 0) {
+    return "Use a name with at least one word in it";
+  }
+  const existing = userPayees.find(payee => payee.id !== payeeId && payee.name.trim().toLowerCase() === name.trim().toLowerCase());
+  if (existing) {
+    return `You already have a payee called ${existing.name}`;
+  }
+  return undefined;
+}
+
+// Why a transaction can't point at its payee, or undefined when it can
+export function getTransactionPayeeError(transaction: { payeeId?: number | null }, userPayees: Payee[]): string | undefined {
+  if (transaction.payeeId != null && !userPayees.some(payee => payee.id === transaction.payeeId)) {
+    return "Payee not found";
+  }
+  return undefined;
+}
+
+// A new transaction the client left without a payee (undefined, not null) gets the one its description names
+export function withMatchedPayee<T extends { description: string; type: string; payeeId?: number | null }>(userPayees: Payee[], transaction: T): T {
+  if (transaction.payeeId !== undefined || transaction.type === "transfer") return transaction;
+  const payee = matchPayee(userPayees, transaction.description);
+  return payee ? { ...transaction, payeeId: payee.id } : transaction;
+}
+
+// Transactions without a payee that now match one, e.g. after a payee is added or given a new alias
+export function planPayeeLinks(userPayees: Payee[], userTransactions: Transaction[]): Array<{ id: number; payeeId: number }> {
+  const links: Array<{ id: number; payeeId: number }> = [];
+  for (const transaction of userTransactions) {
+    if (transaction.payeeId != null || transaction.type === "transfer") continue;
+    const payee = matchPayee(userPayees, transaction.description);
+    if (payee) links.push({ id: transaction.id, payeeId: payee.id });
+  }
+  return links;
+}
+
+// Names that keep turning up in descriptions no payee matches yet, most used first
+export function suggestPayees(userTransactions: Transaction[], limit = 10): PayeeSuggestion[] {
+  const groups = new Map<string, PayeeSuggestion>();
+  for (const transaction of userTransactions) {
+    if (transaction.payeeId != null || transaction.type === "transfer") continue;
+    const words = normalizePayeeText(transaction.description).slice(0, 2);
+    if (words.length === 0) continue;
+
+    const key = words.join(" ");
+    const group = groups.get(key) ?? {
+      name: words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" "),
+      transactionCount: 0,
+      totalSpent: 0,
+    };
+    group.transactionCount++;
+    if (SPENDING_TYPES.includes(transaction.type)) group.totalSpent += parseFloat(transaction.amount);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .filter(group => group.transactionCount >= 2)
+    .sort((a, b) => b.transactionCount - a.transactionCount || b.totalSpent - a.totalSpent)
+    .slice(0, limit)
+    .map(group => ({ ...group, totalSpent: Math.round(group.totalSpent * 100) / 100 }));
+}
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+// Spend, visit frequency, average ticket and monthly trend for one payee's transactions
+export function buildPayeeStats(payeeTransactions: Transaction[], asOf = new Date()): PayeeStats {
+  const dates = payeeTransactions.map(transaction => new Date(transaction.date)).sort((a, b) => a.getTime() - b.getTime());
+  const spending = payeeTransactions.filter(transaction => SPENDING_TYPES.includes(transaction.type));
+  const total = (rows: Transaction[]) => Math.round(rows.reduce((sum, row) => sum + parseFloat(row.amount), 0) * 100) / 100;
+
+  const trend: PayeeStats["trend"] = [];
+  for (let i = TREND_MONTHS - 1; i >= 0; i--) {
+    const month = monthKey(new Date(asOf.getFullYear(), asOf.getMonth() - i, 1));
+    const inMonth = payeeTransactions.filter(transaction => monthKey(new Date(transaction.date)) === month);
+    trend.push({ month, spent: total(inMonth.filter(transaction => SPENDING_TYPES.includes(transaction.type))), visits: inMonth.length });
+  }
+
+  // Frequency counts whole months from the first visit to now, so a payee seen twice this month is 2 a month
+  const firstVisit = dates[0] ?? null;
+  const monthsActive = firstVisit
+    ? (asOf.getFullYear() - firstVisit.getFullYear()) * 12 + asOf.getMonth() - firstVisit.getMonth() + 1
+    : 0;
+  const totalSpent = total(spending);
+
+  return {
+    transactionCount: payeeTransactions.length,
+    totalSpent,
+    totalReceived: total(payeeTransactions.filter(transaction => !SPENDING_TYPES.includes(transaction.type))),
+    averageTicket: spending.length > 0 ? Math.round((totalSpent / spending.length) * 100) / 100 : 0,
+    visitsPerMonth: monthsActive > 0 ? Math.round((payeeTransactions.length / monthsActive) * 10) / 10 : 0,
+    firstVisit,
+    lastVisit: dates[dates.length - 1] ?? null,
+    trend,
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { getOccurrenceDate, getUpcomingOccurrences, getUpcomingRangeError, hasRecurrenceEnded, materializeDueRecurringTransactions } from "./recurring";
+import { insertRecurringTransactionSchema, type RecurringTransaction } from "@shared/schema";
+
+// Materializing goes through the app's storage, so it runs against a MemStorage here
+vi.mock("./storage", async () => {
+  const { MemStorage } = await import("./memStorage");
+  return { storage: new MemStorage() };
+});
+vi.mock("./vite", () => ({ log: () => undefined }));
+
+function rule(values: Partial<RecurringTransaction>): RecurringTransaction {
+  return {
+    id: 1,
+    userId: "user-1",
+    frequency: "monthly",
+    intervalDays: null,
+    startDate: new Date(2026, 0, 31),
+    endType: "never",
+    endDate: null,
+    maxOccurrences: null,
+    occurrenceCount: 0,
+    nextRunDate: null,
+    lastRunAt: null,
+    isActive: true,
+    template: { type: "expense", amount: "50", category: "bills", description: "Internet" },
+    ...values,
+  };
+}
+
+function addRule(userId: string, values: Record<string, unknown> = {}) {
+  return storage.createRecurringTransaction(userId, insertRecurringTransactionSchema.parse({
+    frequency: "monthly",
+    startDate: "2026-07-01T09:00:00.000Z",
+    template: { type: "expense", amount: "50", category: "bills", description: "Internet" },
+    ...values,
+  }));
+}
+
+describe("getOccurrenceDate", () => {
+  it("comes back to the 31st after a short month", () => {
+    const monthly = rule({});
+    expect(getOccurrenceDate(monthly, 1)).toEqual(new Date(2026, 1, 28));
+    expect(getOccurrenceDate(monthly, 2)).toEqual(new Date(2026, 2, 31));
+  });
+
+  it("steps custom rules by their interval", () => {
+    expect(getOccurrenceDate(rule({ frequency: "custom", intervalDays: 10 }), 3)).toEqual(new Date(2026, 2, 2));
+  });
+});
+
+describe("hasRecurrenceEnded", () => {
+  it("stops after the set number of occurrences", () => {
+    const limited = rule({ endType: "after_occurrences", maxOccurrences: 3 });
+    expect(hasRecurrenceEnded(limited, 2)).toBe(false);
+    expect(hasRecurrenceEnded(limited, 3)).toBe(true);
+  });
+
+  it("stops at the first occurrence after the end date", () => {
+    const ending = rule({ endType: "on_date", endDate: new Date(2026, 2, 15) });
+    expect(hasRecurrenceEnded(ending, 1)).toBe(false);
+    expect(hasRecurrenceEnded(ending, 2)).toBe(true);
+  });
+});
+
+describe("getUpcomingOccurrences", () => {
+  it("lists the occurrences in the range that haven't been posted yet", () => {
+    const posted = rule({ occurrenceCount: 1 });
+    expect(getUpcomingOccurrences(posted, new Date(2026, 0, 1), new Date(2026, 3, 30))).toEqual([
+      new Date(2026, 1, 28),
+      new Date(2026, 2, 31),
+      new Date(2026, 3, 30),
+    ]);
+  });
+
+  it("projects nothing for a paused rule", () => {
+    expect(getUpcomingOccurrences(rule({ isActive: false }), new Date(2026, 0, 1), new Date(2026, 11, 31))).toEqual([]);
+  });
+});
+
+describe("getUpcomingRangeError", () => {
+  const now = new Date(2026, 9, 1);
+
+  it("accepts a range of up to a year", () => {
+    expect(getUpcomingRangeError(new Date(2026, 9, 1), new Date(2027, 8, 30), now)).toBeUndefined();
+  });
+
+  it("rejects ranges that are backwards, too long or too far ahead", () => {
+    expect(getUpcomingRangeError(new Date(2026, 9, 2), new Date(2026, 9, 1), now)).toBe("The range ends before it starts");
+    expect(getUpcomingRangeError(new Date(2026, 0, 1), new Date(2027, 5, 1), now)).toBe("Choose a range of at most 366 days");
+    expect(getUpcomingRangeError(new Date(2037, 0, 1), new Date(2037, 1, 1), now)).toBe("Upcoming transactions can only be projected 10 years ahead");
+  });
+});
+
+describe("materializeDueRecurringTransactions", () => {
+  it("posts every missed occurrence once and nothing on the next run", async () => {
+    const userId = "user-catch-up";
+    await addRule(userId);
+    const asOf = new Date("2026-09-15T12:00:00.000Z");
+
+    const created = await materializeDueRecurringTransactions(asOf, userId);
+    const again = await materializeDueRecurringTransactions(asOf, userId);
+
+    expect(created.map(transaction => new Date(transaction.date).toISOString())).toEqual([
+      "2026-07-01T09:00:00.000Z",
+      "2026-08-01T09:00:00.000Z",
+      "2026-09-01T09:00:00.000Z",
+    ]);
+    expect(again).toEqual([]);
+  });
+
+  it("posts each occurrence once when runs overlap", async () => {
+    const userId = "user-overlap";
+    await addRule(userId);
+    const asOf = new Date("2026-09-15T12:00:00.000Z");
+
+    const runs = await Promise.all([
+      materializeDueRecurringTransactions(asOf, userId),
+      materializeDueRecurringTransactions(asOf),
+    ]);
+
+    expect(runs.flat().filter(transaction => transaction.userId === userId)).toHaveLength(3);
+    expect(await storage.getTransactions(userId)).toHaveLength(3);
+  });
+
+  it("stops a rule once it has posted its last occurrence", async () => {
+    const userId = "user-limited";
+    const limited = await addRule(userId, { endType: "after_occurrences", maxOccurrences: 2 });
+
+    const created = await materializeDueRecurringTransactions(new Date("2026-09-15T12:00:00.000Z"), userId);
+
+    expect(created).toHaveLength(2);
+    const stored = await storage.getRecurringTransaction(userId, limited.id);
+    expect(stored?.isActive).toBe(false);
+    expect(stored?.nextRunDate).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import { addDays, addWeeks, addMonths, addYears } from "date-fns";
+import { storage } from "./storage";
+import { log } from "./vite";
+import type { RecurringTransaction, Transaction } from "@shared/schema";
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+// Upper bound on how many missed occurrences a single run catches up per rule
+const MAX_OCCURRENCES_PER_RUN = 366;
+// Projections walk each rule from its next occurrence to the end of the range, so both how long the range is and how
+// far ahead it ends are bounded to keep one request from looping for millions of occurrences
+const MAX_UPCOMING_RANGE_DAYS = 366;
+const MAX_UPCOMING_YEARS_AHEAD = 10;
+
+type RecurrenceSchedule = Pick<RecurringTransaction, "frequency" | "intervalDays" | "startDate" | "endType" | "endDate" | "maxOccurrences">;
+
+// Date of the nth occurrence (0-based), always counted from the start date so that
+// monthly rules anchored on the 31st come back to the 31st after a short month
+export function getOccurrenceDate(schedule: RecurrenceSchedule, index: number): Date {
+  const start = new Date(schedule.startDate);
+  switch (schedule.frequency) {
+    case "daily": return addDays(start, index);
+    case "weekly": return addWeeks(start, index);
+    case "biweekly": return addWeeks(start, index * 2);
+    case "monthly": return addMonths(start, index);
+    case "yearly": return addYears(start, index);
+    case "custom": return addDays(start, index * (schedule.intervalDays || 1));
+    default: throw new Error(`Unknown recurrence frequency: ${schedule.frequency}`);
+  }
+}
+
+// Whether the end condition stops the rule before the nth occurrence
+export function hasRecurrenceEnded(schedule: RecurrenceSchedule, index: number): boolean {
+  if (schedule.endType === "after_occurrences") {
+    return index >= (schedule.maxOccurrences || 0);
+  }
+  if (schedule.endType === "on_date" && schedule.endDate) {
+    return getOccurrenceDate(schedule, index) > new Date(schedule.endDate);
+  }
+  return false;
+}
+
+// Throws when the end condition or custom interval is incomplete
+export function validateRecurrenceRule(rule: Partial<RecurrenceSchedule>) {
+  if (rule.frequency === "custom" && (!rule.intervalDays || rule.intervalDays < 1)) {
+    throw new Error("Custom frequency needs an interval of at least one day");
+  }
+  if (rule.endType === "on_date" && !rule.endDate) {
+    throw new Error("An end date is required");
+  }
+  if (rule.endType === "after_occurrences" && (!rule.maxOccurrences || rule.maxOccurrences < 1)) {
+    throw new Error("Number of occurrences must be at least 1");
+  }
+}
+
+// Next occurrence date for a rule that has already produced `occurrenceCount` transactions
+export function getNextRunDate(schedule: RecurrenceSchedule, occurrenceCount: number): Date | null {
+  if (hasRecurrenceEnded(schedule, occurrenceCount)) {
+    return null;
+  }
+  return getOccurrenceDate(schedule, occurrenceCount);
+}
+
+// Occurrence index of the first occurrence on or after the given date
+export function skipMissedOccurrences(schedule: RecurrenceSchedule, occurrenceCount: number, until: Date): number {
+  let index = occurrenceCount;
+  while (!hasRecurrenceEnded(schedule, index) && getOccurrenceDate(schedule, index) < until) {
+    index++;
+  }
+  return index;
+}
+
+// Why a range can't be projected, or undefined when it can
+export function getUpcomingRangeError(from: Date, to: Date, now: Date = new Date()): string | undefined {
+  if (to < from) {
+    return "The range ends before it starts";
+  }
+  if (to > addDays(from, MAX_UPCOMING_RANGE_DAYS)) {
+    return `Choose a range of at most ${MAX_UPCOMING_RANGE_DAYS} days`;
+  }
+  if (to > addYears(now, MAX_UPCOMING_YEARS_AHEAD)) {
+    return `Upcoming transactions can only be projected ${MAX_UPCOMING_YEARS_AHEAD} years ahead`;
+  }
+  return undefined;
+}
+
+// Occurrences of a rule that have not been materialized yet and fall within [from, to]
+export function getUpcomingOccurrences(rule: RecurringTransaction, from: Date, to: Date): Date[] {
+  const occurrences: Date[] = [];
+  if (!rule.isActive) {
+    return occurrences;
+  }
+
+  for (let index = rule.occurrenceCount; !hasRecurrenceEnded(rule, index); index++) {
+    const date = getOccurrenceDate(rule, index);
+    if (date > to) break;
+    if (date >= from) occurrences.push(date);
+  }
+  return occurrences;
+}
+
+// Turn one rule's due occurrences into real transactions through storage.createTransaction,
+// exactly as manual entries are recorded. Each occurrence is claimed by moving the rule on before its transaction
+// is posted, so a run that fails partway or races another run never posts the same occurrence twice.
+async function materializeRule(rule: RecurringTransaction, asOf: Date): Promise<Transaction[]> {
+  const userId = rule.userId!;
+  const created: Transaction[] = [];
+  let occurrenceCount = rule.occurrenceCount;
+  let nextRunDate = getNextRunDate(rule, occurrenceCount);
+  let lastRunAt = rule.lastRunAt;
+
+  // A rule that was changed so it has already ended just stops
+  if (!nextRunDate) {
+    await storage.advanceRecurringTransaction(userId, rule.id, occurrenceCount, { occurrenceCount, nextRunDate, lastRunAt, isActive: false });
+    return created;
+  }
+
+  while (nextRunDate && nextRunDate <= asOf && created.length < MAX_OCCURRENCES_PER_RUN) {
+    const followingRunDate = getNextRunDate(rule, occurrenceCount + 1);
+    const claimed = await storage.advanceRecurringTransaction(userId, rule.id, occurrenceCount, {
+      occurrenceCount: occurrenceCount + 1,
+      nextRunDate: followingRunDate,
+      lastRunAt: new Date(),
+      isActive: followingRunDate !== null,
+    });
+    if (!claimed) break;
+
+    try {
+      created.push(await storage.createTransaction(userId, {
+        ...rule.template,
+        date: nextRunDate,
+      }));
+    } catch (error) {
+      // Hand the occurrence back so the next run posts it
+      await storage.advanceRecurringTransaction(userId, rule.id, occurrenceCount + 1, {
+        occurrenceCount,
+        nextRunDate,
+        lastRunAt,
+        isActive: true,
+      });
+      throw error;
+    }
+    occurrenceCount++;
+    nextRunDate = followingRunDate;
+    lastRunAt = new Date();
+  }
+
+  return created;
+}
+
+// Runs for the same user queue up behind each other, so the scheduler and a request saving or running a rule never
+// work through the same due rules at once
+const userRuns = new Map<string, Promise<unknown>>();
+
+function runForUser<T>(userId: string, run: () => Promise<T>): Promise<T> {
+  const previous = userRuns.get(userId) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(run);
+  userRuns.set(userId, current);
+  current.finally(() => {
+    if (userRuns.get(userId) === current) userRuns.delete(userId);
+  }).catch(() => undefined);
+  return current;
+}
+
+async function materializeUserRules(userId: string, asOf: Date): Promise<Transaction[]> {
+  const created: Transaction[] = [];
+  for (const rule of await storage.getDueRecurringTransactions(asOf, userId)) {
+    try {
+      created.push(...await materializeRule(rule, asOf));
+    } catch (error) {
+      console.error(`Failed to materialize recurring transaction ${rule.id}:`, error);
+    }
+  }
+  return created;
+}
+
+// Materialize every due occurrence, optionally limited to a single user
+export async function materializeDueRecurringTransactions(asOf: Date = new Date(), userId?: string): Promise<Transaction[]> {
+  const userIds = userId
+    ? [userId]
+    : Array.from(new Set((await storage.getDueRecurringTransactions(asOf)).map(rule => rule.userId!)));
+  const created: Transaction[] = [];
+
+  for (const id of userIds) {
+    created.push(...await runForUser(id, () => materializeUserRules(id, asOf)));
+  }
+
+  return created;
+}
+
+let isRunning = false;
+
+async function runScheduledMaterialization() {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    const created = await materializeDueRecurringTransactions();
+    if (created.length > 0) {
+      log(`created ${created.length} recurring transaction(s)`, "recurring");
+    }
+  } catch (error) {
+    console.error("Recurring transaction job failed:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startRecurringScheduler() {
+  runScheduledMaterialization();
+  setInterval(runScheduledMaterialization, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,51 @@
+import type { Attachment, Loan, RecurringTransaction, Transaction } from "@shared/schema";
+
+type RecurringRuleIdentity = Pick<RecurringTransaction, "frequency" | "intervalDays" | "startDate" | "template">;
+
+// Two recurring rules are the same when they run on the same schedule and post the same transaction. Linked accounts,
+// goals, loans and payees are left out because restoring gives them new ids.
+export function recurringRuleKey(rule: RecurringRuleIdentity): string {
+  const { template } = rule;
+  return JSON.stringify([
+    rule.frequency,
+    rule.intervalDays ?? null,
+    new Date(rule.startDate).getTime(),
+    template.type,
+    template.category,
+    template.description,
+    parseFloat(template.amount).toFixed(2),
+    template.currency ?? null,
+  ]);
+}
+
+type RestorableTransaction = Pick<Transaction, "id" | "date" | "type" | "amount" | "description">;
+type RestorableLoan = Pick<Loan, "id" | "name" | "principal" | "startDate">;
+
+// Attachments a replacing restore can keep. Archives carry no attachment files, so when an account restores its own
+// export, receipts are re-linked to the restored transactions and loans instead of being deleted with the rows they
+// were on. A row only counts as coming back when the archive has it under the same id and it reads the same, so an
+// archive from another server can't pick up attachments through an id that happens to match.
+export function findKeptAttachments(
+  userAttachments: Attachment[],
+  current: { transactions: RestorableTransaction[]; loans: RestorableLoan[] },
+  archived: { transactions: RestorableTransaction[]; loans: RestorableLoan[] },
+): Attachment[] {
+  const sameTransaction = (a: RestorableTransaction, b: RestorableTransaction) =>
+    new Date(a.date).getTime() === new Date(b.date).getTime() && a.type === b.type &&
+    parseFloat(a.amount) === parseFloat(b.amount) && a.description === b.description;
+  const sameLoan = (a: RestorableLoan, b: RestorableLoan) =>
+    a.name === b.name && parseFloat(a.principal) === parseFloat(b.principal) &&
+    new Date(a.startDate).getTime() === new Date(b.startDate).getTime();
+
+  const restoredTransactionIds = new Set(archived.transactions
+    .filter(row => current.transactions.some(transaction => transaction.id === row.id && sameTransaction(transaction, row)))
+    .map(row => row.id));
+  const restoredLoanIds = new Set(archived.loans
+    .filter(row => current.loans.some(loan => loan.id === row.id && sameLoan(loan, row)))
+    .map(row => row.id));
+
+  return userAttachments.filter(attachment =>
+    (attachment.transactionId == null || restoredTransactionIds.has(attachment.transactionId)) &&
+    (attachment.loanId == null || restoredLoanIds.has(attachment.loanId))
+  );
+}
@@ -1,13 +1,153 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated, isAdmin } from "./auth";
 import {
   insertTransactionSchema,
+  insertAccountSchema,
+  insertCategorySchema,
+  renameCategorySchema,
+  mergeCategorySchema,
+  insertReconciliationSchema,
   insertBudgetSchema,
+  insertBudgetTemplateSchema,
+  applyBudgetTemplateSchema,
+  insertEnvelopeMoveSchema,
+  envelopeMonthSchema,
+  insertCategorizationRuleSchema,
+  insertPayeeSchema,
+  insertSavedViewSchema,
+  uploadAttachmentSchema,
+  transactionQuerySchema,
+  runCategorizationRulesSchema,
+  applyCategorizationRulesSchema,
   insertSavingsGoalSchema,
-  insertLoanSchema
+  insertLoanSchema,
+  insertRecurringTransactionSchema,
+  insertExchangeRateSchema,
+  importExchangeRatesSchema,
+  insertAssetSchema,
+  insertAssetValuationSchema,
+  insertInvestmentSchema,
+  insertInvestmentLotSchema,
+  insertInvestmentPriceSchema,
+  updateUserSettingsSchema,
+  currencyCodeSchema,
+  type Category,
+  type Attachment,
+  type UploadAttachment,
 } from "@shared/schema";
+import {
+  materializeDueRecurringTransactions,
+  getUpcomingRangeError,
+  getUpcomingOccurrences,
+  getNextRunDate,
+  skipMissedOccurrences,
+  validateRecurrenceRule
+} from "./recurring";
+import {
+  importPreviewRequestSchema,
+  detectImportFormat,
+  parseStatement,
+  suggestColumnMapping,
+  buildPreviewRows,
+  flagDuplicates
+} from "./statement-import";
+import { buildArchive, parseArchive, dataImportRequestSchema } from "./data-archive";
+import { findConflictingBudget, budgetConflictMessage, findBatchConflicts, batchConflictMessage, buildTemplateBudgets } from "./budget-rules";
+import { renewDueBudgets } from "./budget-renewal";
+import { getSnapshotMonth } from "./net-worth-snapshots";
+import { calculateAssetValues, calculateHoldings } from "./finance-calculations";
+import { buildEnvelopeMonth, getCurrentEnvelopeMonth, getEnvelopeMoveError, planEnvelopeMove } from "./envelope-rules";
+import { getSplitError, getCategoryAmounts } from "@shared/transaction-splits";
+import { toCategoryValue } from "@shared/categories";
+import {
+  buildStarterCategories,
+  getCategoryValueError,
+  getCategoryParentError,
+  planCategoryRewrite,
+  getLockedRewriteError,
+  isCategoryInUse,
+  isSubcategoryOf,
+} from "./category-rules";
+import {
+  getCategorizationRuleError,
+  applyCategorizationRules,
+  suggestCategorization,
+  categorizePreviewRows,
+  planCategorizationRun,
+} from "./categorization-rules";
+import {
+  getPayeeNameError,
+  getTransactionPayeeError,
+  withMatchedPayee,
+  planPayeeLinks,
+  suggestPayees,
+  buildPayeeStats,
+} from "./payee-rules";
+import { getSavedViewNameError, toTransactionQuery, transactionsToCsv } from "./saved-view-rules";
+import { attachmentStore, newAttachmentKey } from "./attachment-store";
+import { parseExchangeRateCsv } from "./exchange-rate-rules";
+import { getLotHistoryError, getTransactionInvestmentError } from "./investment-rules";
+import { toBaseTransactions } from "@shared/currency-conversion";
+import { attachmentExtension, decodeAttachment, getAttachmentUploadError } from "./attachment-rules";
+import {
+  getTransactionAccountError,
+  withTransactionCurrency,
+  getReconciliationError,
+  isTransactionLocked,
+  summarizeReconciliation,
+  LOCKED_TRANSACTION_MESSAGE,
+  isOpeningBalanceLocked,
+  isLoanReceiptLocked,
+} from "./account-rules";
+
+// A user's categories, starting them off with the defaults plus every category their data already uses
+async function getUserCategories(userId: string): Promise<Category[]> {
+  const userCategories = await storage.getCategories(userId);
+  if (userCategories.length > 0) return userCategories;
+
+  const [userTransactions, userBudgets] = await Promise.all([storage.getTransactions(userId), storage.getBudgets(userId)]);
+  const usedValues = [
+    ...userTransactions.flatMap(transaction => getCategoryAmounts(transaction).map(line => line.category)),
+    ...userBudgets.map(budget => budget.category),
+  ];
+  await storage.createCategories(userId, buildStarterCategories(usedValues));
+  return await storage.getCategories(userId);
+}
+
+// Write an uploaded file (and its thumbnail) to the attachment store, then record it against its transaction or
+// loan. Files written for a row that then fails to save are removed again.
+async function storeAttachment(
+  userId: string,
+  owner: { transactionId: number } | { loanId: number },
+  upload: UploadAttachment
+): Promise<{ attachment?: Attachment; error?: string }> {
+  const decoded = decodeAttachment(upload);
+  const error = getAttachmentUploadError(upload, decoded);
+  if (error) return { error };
+
+  const storageKey = newAttachmentKey(userId, attachmentExtension(upload.contentType));
+  const thumbnailKey = decoded.thumbnail ? newAttachmentKey(userId, ".jpg") : null;
+  try {
+    await attachmentStore.save(storageKey, decoded.data);
+    if (thumbnailKey && decoded.thumbnail) await attachmentStore.save(thumbnailKey, decoded.thumbnail);
+    const attachment = await storage.createAttachment(userId, {
+      ...owner,
+      fileName: upload.fileName,
+      contentType: upload.contentType,
+      size: decoded.data.length,
+      storageKey,
+      thumbnailKey,
+    });
+    return { attachment };
+  } catch (saveError) {
+    await attachmentStore.delete(storageKey).catch(() => undefined);
+    if (thumbnailKey) await attachmentStore.delete(thumbnailKey).catch(() => undefined);
+    throw saveError;
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -53,17 +193,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         return res.json(guestUser);
       }
-      res.json(user);
+      if (!user) {
+        return res.json(user);
+      }
+      // Never send the password hash to the client
+      const { passwordHash, ...safeUser } = user;
+      res.json(safeUser);
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  // Transactions
+  // Transactions. Without a query string this is every transaction, which the summaries and reports work from;
+  // with one (filters, sort, cursor, limit) it is a single page plus totals for everything the filters match.
   app.get("/api/transactions", isAuthenticated, async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    // Asking for a page (limit or cursor) gets the filtered, paged shape; anything else still gets the plain list
+    if (req.query.limit !== undefined || req.query.cursor !== undefined) {
+      try {
+        const query = transactionQuerySchema.parse(req.query);
+        res.json(await storage.queryTransactions(userId, query));
+      } catch (error) {
+        res.status(400).json({ message: "Invalid transaction query", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+      return;
+    }
+
     try {
-      const userId = req.user.claims.sub;
       const transactions = await storage.getTransactions(userId);
       res.json(transactions);
     } catch (error) {
@@ -71,10 +228,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The categories and tags in use, for filter options and tag suggestions without loading every transaction
+  app.get("/api/transactions/facets", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await storage.getTransactionFacets(userId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transaction categories and tags" });
+    }
+  });
+
   app.post("/api/transactions", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const transaction = insertTransactionSchema.parse(req.body);
+      // Categorization rules fill in the category, goal or loan unless the client has the user's own choice
+      const { applyRules } = z.object({ applyRules: z.boolean().default(true) }).parse(req.body);
+      const parsed = insertTransactionSchema.parse(req.body);
+      const categorized = applyRules ? applyCategorizationRules(await storage.getCategorizationRules(userId), parsed) : parsed;
+      const [userPayees, userAccounts, userInvestments, baseCurrency] = await Promise.all([
+        storage.getPayees(userId),
+        storage.getAccounts(userId),
+        storage.getInvestments(userId),
+        storage.getBaseCurrency(userId),
+      ]);
+      const transaction = withTransactionCurrency(withMatchedPayee(userPayees, categorized), userAccounts, baseCurrency);
+
+      const transactionError = getTransactionAccountError(transaction, userAccounts) ??
+        getSplitError(transaction) ??
+        getTransactionPayeeError(transaction, userPayees) ??
+        getTransactionInvestmentError(transaction, userInvestments);
+      if (transactionError) {
+        return res.status(400).json({ message: transactionError });
+      }
+
       const created = await storage.createTransaction(userId, transaction);
       res.status(201).json(created);
     } catch (error) {
@@ -92,6 +278,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate the update data
       const validatedUpdates = insertTransactionSchema.partial().parse(updates);
       console.log("Validated updates:", validatedUpdates);
+
+      // Account and split rules apply to the transaction as it will look after the update
+      const current = await storage.getTransaction(userId, id);
+      if (current && isTransactionLocked(current)) {
+        return res.status(409).json({ message: LOCKED_TRANSACTION_MESSAGE });
+      }
+      if (current) {
+        const merged = { ...current, ...validatedUpdates };
+        const transactionError = getTransactionAccountError(merged, await storage.getAccounts(userId)) ??
+          getSplitError(merged) ??
+          getTransactionPayeeError(merged, await storage.getPayees(userId)) ??
+          getTransactionInvestmentError(merged, await storage.getInvestments(userId));
+        if (transactionError) {
+          return res.status(400).json({ message: transactionError });
+        }
+      }
       
       const updated = await storage.updateTransaction(userId, id, validatedUpdates);
       res.json(updated);
@@ -105,6 +307,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
+
+      const current = await storage.getTransaction(userId, id);
+      if (current && isTransactionLocked(current)) {
+        return res.status(409).json({ message: LOCKED_TRANSACTION_MESSAGE });
+      }
+
       await storage.deleteTransaction(userId, id);
       res.status(204).send();
     } catch (error) {
@@ -112,266 +320,1684 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Budgets
-  app.get("/api/budgets", isAuthenticated, async (req: any, res) => {
+  // Statement import - parse an uploaded CSV/OFX/QIF file and flag likely duplicates
+  app.post("/api/statement-import/preview", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      console.log("Fetching budgets for user:", userId);
-      const budgets = await storage.getBudgets(userId);
-      console.log("Fetched budgets:", budgets);
-      res.json(budgets);
+      const request = importPreviewRequestSchema.parse(req.body);
+      const format = request.format ?? detectImportFormat(request.content, request.fileName);
+      const table = parseStatement(request.content, format);
+
+      if (table.rows.length === 0) {
+        return res.status(400).json({ message: "No transactions found in the file" });
+      }
+
+      const mapping = request.mapping ?? suggestColumnMapping(table.headers);
+      const existingTransactions = await storage.getTransactions(userId);
+      const rules = await storage.getCategorizationRules(userId);
+      const rows = categorizePreviewRows(
+        flagDuplicates(buildPreviewRows(table, mapping, request), existingTransactions),
+        rules,
+        existingTransactions,
+        request.defaultCategory
+      );
+
+      res.json({ format, headers: table.headers, mapping, rows });
     } catch (error) {
-      console.error("Budget fetch error:", error);
-      res.status(500).json({ message: "Failed to fetch budgets", error: error instanceof Error ? error.message : "Unknown error" });
+      console.error("Statement preview error:", error);
+      res.status(400).json({ message: "Could not read statement file", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.post("/api/budgets", isAuthenticated, async (req: any, res) => {
+  // Statement import - insert the confirmed rows in one request
+  app.post("/api/statement-import", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      console.log("Budget creation request body:", req.body);
-      const budget = insertBudgetSchema.parse(req.body);
-      console.log("Parsed budget data:", budget);
-      
-      // Check for existing budgets with same category and overlapping time periods
-      const existingBudgets = await storage.getBudgets(userId);
-      const newStartDate = new Date(budget.startDate);
-      const newEndDate = new Date(budget.endDate);
-      
-      const conflictingBudget = existingBudgets.find(existing => {
-        if (existing.category !== budget.category) return false;
-        
-        const existingStartDate = new Date(existing.startDate);
-        const existingEndDate = new Date(existing.endDate);
-        
-        // Check for any overlap in date ranges
-        return (newStartDate <= existingEndDate && newEndDate >= existingStartDate);
-      });
-      
-      if (conflictingBudget) {
-        return res.status(400).json({
-          message: `A budget for ${budget.category} already exists for this time period. Please choose a different category or time period.`
-        });
+      const { transactions } = z.object({
+        transactions: z.array(insertTransactionSchema).min(1, "Select at least one transaction"),
+      }).parse(req.body);
+
+      const userAccounts = await storage.getAccounts(userId);
+      const userPayees = await storage.getPayees(userId);
+      const userInvestments = await storage.getInvestments(userId);
+      const baseCurrency = await storage.getBaseCurrency(userId);
+      const matched = transactions.map(t => withTransactionCurrency(withMatchedPayee(userPayees, t), userAccounts, baseCurrency));
+      const transactionError = matched.map(t =>
+        getTransactionAccountError(t, userAccounts) ?? getSplitError(t) ?? getTransactionPayeeError(t, userPayees) ??
+          getTransactionInvestmentError(t, userInvestments)
+      ).find(Boolean);
+      if (transactionError) {
+        return res.status(400).json({ message: transactionError });
       }
-      
-      const created = await storage.createBudget(userId, budget);
+
+      const created = await storage.createTransactions(userId, matched);
+      res.status(201).json({ imported: created.length });
+    } catch (error) {
+      console.error("Statement import error:", error);
+      res.status(400).json({ message: "Failed to import transactions", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Accounts
+  app.get("/api/accounts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const accounts = await storage.getAccounts(userId);
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching accounts:", error);
+      res.status(500).json({ message: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post("/api/accounts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const account = insertAccountSchema.parse(req.body);
+      const created = await storage.createAccount(userId, { ...account, currency: account.currency ?? await storage.getBaseCurrency(userId) });
       res.status(201).json(created);
     } catch (error) {
-      console.error("Budget creation error:", error);
-      res.status(400).json({ message: "Invalid budget data", error: error instanceof Error ? error.message : "Unknown error" });
+      console.error("Account creation error:", error);
+      res.status(400).json({ message: "Invalid account data", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.put("/api/budgets/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/accounts/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const updates = req.body;
-      console.log("Budget update request:", { userId, id, updates });
-      
-      // Validate the update data
-      const validatedUpdates = insertBudgetSchema.partial().parse(updates);
-      console.log("Validated budget updates:", validatedUpdates);
-      
-      // If category, startDate, or endDate are being updated, check for conflicts
-      if (validatedUpdates.category || validatedUpdates.startDate || validatedUpdates.endDate) {
-        const existingBudgets = await storage.getBudgets(userId);
-        const currentBudget = existingBudgets.find(b => b.id === id);
-        
-        if (currentBudget) {
-          // Create the updated budget data
-          const updatedBudget = {
-            ...currentBudget,
-            ...validatedUpdates
-          };
-          
-          const newStartDate = new Date(updatedBudget.startDate);
-          const newEndDate = new Date(updatedBudget.endDate);
-          
-          // Check for conflicts with other budgets (excluding the current one)
-          const conflictingBudget = existingBudgets.find(existing => {
-            if (existing.id === id) return false; // Skip the current budget
-            if (existing.category !== updatedBudget.category) return false;
-            
-            const existingStartDate = new Date(existing.startDate);
-            const existingEndDate = new Date(existing.endDate);
-            
-            // Check for any overlap in date ranges
-            return (newStartDate <= existingEndDate && newEndDate >= existingStartDate);
-          });
-          
-          if (conflictingBudget) {
-            return res.status(400).json({
-              message: `A budget for ${updatedBudget.category} already exists for this time period. Please choose a different category or time period.`
-            });
-          }
-        }
+      const validatedUpdates = insertAccountSchema.partial().parse(req.body);
+      const current = await storage.getAccount(userId, id);
+      if (current && isOpeningBalanceLocked(current, await storage.getReconciliations(userId, id), validatedUpdates)) {
+        return res.status(409).json({ message: LOCKED_TRANSACTION_MESSAGE });
       }
-      
-      const updated = await storage.updateBudget(userId, id, validatedUpdates);
+      const updated = await storage.updateAccount(userId, id, validatedUpdates);
       res.json(updated);
     } catch (error) {
-      console.error("Budget update error:", error);
-      res.status(400).json({ message: "Failed to update budget", error: error instanceof Error ? error.message : "Unknown error" });
+      console.error("Account update error:", error);
+      res.status(400).json({ message: "Failed to update account", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.delete("/api/budgets/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/accounts/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      await storage.deleteBudget(userId, id);
+
+      // Accounts with history are archived instead, so past balances and transfers stay intact
+      const usesAccount = (t: { accountId?: number | null; toAccountId?: number | null }) => t.accountId === id || t.toAccountId === id;
+      const [transactions, rules, reconciliations] = await Promise.all([
+        storage.getTransactions(userId),
+        storage.getRecurringTransactions(userId),
+        storage.getReconciliations(userId, id),
+      ]);
+      if (transactions.some(usesAccount) || rules.some(rule => usesAccount(rule.template)) || reconciliations.length > 0) {
+        return res.status(409).json({ message: "This account has transactions. Archive it instead of deleting it." });
+      }
+
+      await storage.deleteAccount(userId, id);
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete budget" });
+      console.error("Account deletion error:", error);
+      res.status(500).json({ message: "Failed to delete account" });
     }
   });
 
-  // Savings Goals
-  app.get("/api/goals", isAuthenticated, async (req: any, res) => {
+  // Categories
+  app.get("/api/categories", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const goals = await storage.getSavingsGoals(userId);
-      res.json(goals);
+      const userCategories = await getUserCategories(userId);
+      res.json(userCategories);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch savings goals" });
+      res.status(500).json({ message: "Failed to fetch categories" });
     }
   });
 
-  app.post("/api/goals", isAuthenticated, async (req: any, res) => {
+  app.post("/api/categories", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const goal = insertSavingsGoalSchema.parse(req.body);
-      const created = await storage.createSavingsGoal(userId, goal);
+      const category = insertCategorySchema.parse(req.body);
+      const value = toCategoryValue(category.name);
+      const userCategories = await getUserCategories(userId);
+
+      const categoryError = getCategoryValueError(userCategories, value) ??
+        getCategoryParentError(userCategories, category.parentId, category.kind ?? "expense");
+      if (categoryError) {
+        return res.status(400).json({ message: categoryError });
+      }
+
+      const [created] = await storage.createCategories(userId, [{ ...category, value }]);
       res.status(201).json(created);
     } catch (error) {
-      console.error("Goal creation error:", error);
-      res.status(400).json({ message: "Invalid savings goal data", error: error instanceof Error ? error.message : "Unknown error" });
+      res.status(400).json({ message: "Invalid category data", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.put("/api/goals/:id", isAuthenticated, async (req: any, res) => {
+  // Icon, color, kind, parent and archiving; renaming goes through /rename so references are rewritten
+  app.put("/api/categories/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      // Validate the update data using the same schema
-      const validatedData = insertSavingsGoalSchema.parse(req.body);
-      const updated = await storage.updateSavingsGoal(userId, id, validatedData);
+      const updates = insertCategorySchema.omit({ name: true }).partial().parse(req.body);
+      const userCategories = await getUserCategories(userId);
+      const category = userCategories.find(c => c.id === id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      const kind = updates.kind ?? category.kind;
+      const parentId = updates.parentId !== undefined ? updates.parentId : category.parentId;
+      const parentError = getCategoryParentError(userCategories, parentId, kind, id);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+      if (userCategories.some(c => c.parentId === id && c.kind !== kind)) {
+        return res.status(400).json({ message: `Move its subcategories out before making it an ${kind} category` });
+      }
+
+      const updated = await storage.updateCategory(userId, id, updates);
       res.json(updated);
     } catch (error) {
-      console.error("Goal update error:", error);
-      res.status(400).json({ message: "Failed to update savings goal", error: error instanceof Error ? error.message : "Unknown error" });
+      res.status(400).json({ message: "Failed to update category", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.delete("/api/goals/:id", isAuthenticated, async (req: any, res) => {
+  // Rename a category, rewriting the transactions, budgets and everything else that refer to it
+  app.post("/api/categories/:id/rename", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      await storage.deleteSavingsGoal(userId, id);
-      res.status(204).send();
+      const { name } = renameCategorySchema.parse(req.body);
+      const userCategories = await getUserCategories(userId);
+      const category = userCategories.find(c => c.id === id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      const value = toCategoryValue(name);
+      const valueError = getCategoryValueError(userCategories, value, id);
+      if (valueError) {
+        return res.status(400).json({ message: valueError });
+      }
+
+      const userData = await storage.exportUserData(userId);
+      const rewrite = planCategoryRewrite(userData, category.value, value);
+      const lockedError = getLockedRewriteError(userData, rewrite);
+      if (lockedError) {
+        return res.status(409).json({ message: lockedError });
+      }
+      const renamed = await storage.renameCategory(userId, id, { name, value }, rewrite);
+      res.json(renamed);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete savings goal" });
+      console.error("Category rename error:", error);
+      res.status(400).json({ message: "Failed to rename category", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Loans routes
-  app.get("/api/loans", isAuthenticated, async (req: any, res) => {
+  // Fold one category into another: its transactions, budgets and subcategories move across and it is removed
+  app.post("/api/categories/:id/merge", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const loans = await storage.getLoans(userId);
-      res.json(loans);
+      const id = parseInt(req.params.id);
+      const { targetId } = mergeCategorySchema.parse(req.body);
+      const userCategories = await getUserCategories(userId);
+      const source = userCategories.find(c => c.id === id);
+      const target = userCategories.find(c => c.id === targetId);
+      if (!source || !target) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      if (source.id === target.id) {
+        return res.status(400).json({ message: "Choose a different category to merge into" });
+      }
+      if (source.kind !== target.kind) {
+        return res.status(400).json({ message: "Only categories of the same kind can be merged" });
+      }
+      if (isSubcategoryOf(userCategories, target.id, source.id)) {
+        return res.status(400).json({ message: "A category can't be merged into one of its own subcategories" });
+      }
+
+      const userData = await storage.exportUserData(userId);
+      const rewrite = planCategoryRewrite(userData, source.value, target.value);
+      const lockedError = getLockedRewriteError(userData, rewrite);
+      if (lockedError) {
+        return res.status(409).json({ message: lockedError });
+      }
+      const merged = await storage.mergeCategories(userId, source.id, target.id, rewrite);
+      res.json(merged);
     } catch (error) {
-      console.error("Error fetching loans:", error);
-      res.status(500).json({ message: "Failed to fetch loans" });
+      console.error("Category merge error:", error);
+      res.status(400).json({ message: "Failed to merge categories", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.post("/api/loans", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/categories/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const loanData = {
-        ...req.body,
-        startDate: new Date(req.body.startDate),
-        endDate: req.body.endDate ? new Date(req.body.endDate) : null
-      };
-      const loan = await storage.createLoan(userId, loanData);
-      res.json(loan);
+      const id = parseInt(req.params.id);
+      const category = await storage.getCategory(userId, id);
+      if (!category) {
+        return res.status(204).send();
+      }
+
+      // Categories still in use are archived or merged instead, so nothing is left without a category
+      if (isCategoryInUse(await storage.exportUserData(userId), category.value)) {
+        return res.status(409).json({ message: "This category is in use. Archive it or merge it into another instead." });
+      }
+
+      await storage.deleteCategory(userId, id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error creating loan:", error);
-      res.status(500).json({ message: "Failed to create loan" });
+      res.status(500).json({ message: "Failed to delete category" });
     }
   });
 
-  app.put("/api/loans/:id", isAuthenticated, async (req: any, res) => {
+  // Categorization rules - set the category, savings goal or loan of matching transactions
+  app.get("/api/categorization-rules", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const id = parseInt(req.params.id);
-      const updateData = {
-        ...req.body,
-        startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
-        endDate: req.body.endDate ? new Date(req.body.endDate) : null
-      };
-      const loan = await storage.updateLoan(userId, id, updateData);
-      res.json(loan);
+      const rules = await storage.getCategorizationRules(userId);
+      res.json(rules);
     } catch (error) {
-      console.error("Error updating loan:", error);
-      res.status(500).json({ message: "Failed to update loan" });
+      res.status(500).json({ message: "Failed to fetch categorization rules" });
     }
   });
 
-  app.delete("/api/loans/:id", isAuthenticated, async (req: any, res) => {
+  app.post("/api/categorization-rules", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const id = parseInt(req.params.id);
-      await storage.deleteLoan(userId, id);
-      res.json({ message: "Loan deleted successfully" });
+      const rule = insertCategorizationRuleSchema.parse(req.body);
+
+      const ruleError = getCategorizationRuleError(rule, await getUserCategories(userId), await storage.getSavingsGoals(userId), await storage.getLoans(userId));
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+
+      const created = await storage.createCategorizationRule(userId, rule);
+      res.status(201).json(created);
     } catch (error) {
-      console.error("Error deleting loan:", error);
-      res.status(500).json({ message: "Failed to delete loan" });
+      res.status(400).json({ message: "Invalid categorization rule data", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.get("/api/loans/:id/interest", isAuthenticated, async (req: any, res) => {
+  app.put("/api/categorization-rules/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const loan = await storage.getLoan(userId, id);
-      if (!loan) {
-        return res.status(404).json({ message: "Loan not found" });
+      const updates = insertCategorizationRuleSchema.partial().parse(req.body);
+      const current = await storage.getCategorizationRule(userId, id);
+      if (!current) {
+        return res.status(404).json({ message: "Categorization rule not found" });
       }
-      const interestData = await storage.calculateLoanInterest(userId, loan);
-      res.json(interestData);
+
+      // The rule has to make sense as it will look after the update
+      const ruleError = getCategorizationRuleError(
+        insertCategorizationRuleSchema.parse({ ...current, ...updates }),
+        await getUserCategories(userId),
+        await storage.getSavingsGoals(userId),
+        await storage.getLoans(userId)
+      );
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+
+      const updated = await storage.updateCategorizationRule(userId, id, updates);
+      res.json(updated);
     } catch (error) {
-      console.error("Error calculating loan interest:", error);
-      res.status(500).json({ message: "Failed to calculate loan interest" });
+      res.status(400).json({ message: "Failed to update categorization rule", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.get("/api/loans/:id/progress", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/categorization-rules/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const loan = await storage.getLoan(userId, id);
-      if (!loan) {
-        return res.status(404).json({ message: "Loan not found" });
-      }
-      const progress = await storage.calculateLoanProgress(userId, loan);
-      res.json(progress);
+      await storage.deleteCategorizationRule(userId, id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error calculating loan progress:", error);
-      res.status(500).json({ message: "Failed to calculate loan progress" });
+      res.status(500).json({ message: "Failed to delete categorization rule" });
     }
   });
 
-  // Financial Summary
-  app.get("/api/financial-summary", isAuthenticated, async (req: any, res) => {
+  // What the rules, or failing them the user's similar past transactions, say about a transaction being entered
+  app.get("/api/categorization-rules/suggest", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const summary = await storage.getFinancialSummary(userId);
-      res.json(summary);
+      const { description, amount, type } = z.object({
+        description: z.string().trim().min(1),
+        amount: z.string().default("0"),
+        type: z.string().default("expense"),
+      }).parse(req.query);
+
+      const [rules, history] = await Promise.all([storage.getCategorizationRules(userId), storage.getTransactions(userId)]);
+      res.json(suggestCategorization(rules, history, { description, amount, type }) ?? null);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch financial summary" });
+      res.status(400).json({ message: "Invalid suggestion request", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Preview what re-running the rules over existing transactions would change
+  app.post("/api/categorization-rules/preview", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { ruleIds } = runCategorizationRulesSchema.parse(req.body);
+      const rules = (await storage.getCategorizationRules(userId)).filter(rule => !ruleIds || ruleIds.includes(rule.id));
+      const changes = planCategorizationRun(rules, await storage.getTransactions(userId));
+      res.json({ changes });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to preview categorization rules", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Apply the previewed changes the user kept. The plan is worked out again so only what the rules still say is written.
+  app.post("/api/categorization-rules/apply", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { ruleIds, transactionIds } = applyCategorizationRulesSchema.parse(req.body);
+      const rules = (await storage.getCategorizationRules(userId)).filter(rule => !ruleIds || ruleIds.includes(rule.id));
+      const changes = planCategorizationRun(rules, await storage.getTransactions(userId))
+        .filter(change => transactionIds.includes(change.transactionId));
+
+      await storage.categorizeTransactions(userId, changes);
+      res.json({ updated: changes.length });
+    } catch (error) {
+      console.error("Categorization rule apply error:", error);
+      res.status(400).json({ message: "Failed to apply categorization rules", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Payees - who the money went to or came from, matched from transaction descriptions by name or alias
+  app.get("/api/payees", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const payees = await storage.getPayees(userId);
+      res.json(payees);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payees" });
+    }
+  });
+
+  // Names that keep turning up in transactions no payee matches yet
+  app.get("/api/payees/suggestions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [userTransactions, converter] = await Promise.all([storage.getTransactions(userId), storage.getCurrencyConverter(userId)]);
+      res.json(suggestPayees(toBaseTransactions(userTransactions, converter)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to suggest payees" });
+    }
+  });
+
+  app.get("/api/payees/:id/stats", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const payee = await storage.getPayee(userId, id);
+      if (!payee) {
+        return res.status(404).json({ message: "Payee not found" });
+      }
+
+      const payeeTransactions = (await storage.getTransactions(userId)).filter(t => t.payeeId === id);
+      res.json(buildPayeeStats(toBaseTransactions(payeeTransactions, await storage.getCurrencyConverter(userId))));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payee stats" });
+    }
+  });
+
+  // Existing transactions without a payee are linked to the new one when their description matches
+  app.post("/api/payees", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const payee = insertPayeeSchema.parse(req.body);
+      const payeeError = getPayeeNameError(await storage.getPayees(userId), payee.name);
+      if (payeeError) {
+        return res.status(400).json({ message: payeeError });
+      }
+
+      const created = await storage.createPayee(userId, payee);
+      const links = planPayeeLinks(await storage.getPayees(userId), await storage.getTransactions(userId));
+      await storage.linkPayees(userId, links);
+      res.status(201).json({ payee: created, linked: links.length });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid payee data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // A new name or alias also picks up the unlinked transactions it now matches; linked ones keep their payee
+  app.put("/api/payees/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const updates = insertPayeeSchema.partial().parse(req.body);
+      const userPayees = await storage.getPayees(userId);
+      if (!userPayees.some(payee => payee.id === id)) {
+        return res.status(404).json({ message: "Payee not found" });
+      }
+
+      const payeeError = updates.name !== undefined ? getPayeeNameError(userPayees, updates.name, id) : undefined;
+      if (payeeError) {
+        return res.status(400).json({ message: payeeError });
+      }
+
+      const updated = await storage.updatePayee(userId, id, updates);
+      const links = planPayeeLinks(await storage.getPayees(userId), await storage.getTransactions(userId));
+      await storage.linkPayees(userId, links);
+      res.json({ payee: updated, linked: links.length });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update payee", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/payees/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      await storage.deletePayee(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete payee" });
+    }
+  });
+
+  // Saved views - named transaction filters, run afresh on every request so relative periods stay current
+  app.get("/api/saved-views", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const views = await storage.getSavedViews(userId);
+      res.json(views);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch saved views" });
+    }
+  });
+
+  app.post("/api/saved-views", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const view = insertSavedViewSchema.parse(req.body);
+      const nameError = getSavedViewNameError(await storage.getSavedViews(userId), view.name);
+      if (nameError) {
+        return res.status(400).json({ message: nameError });
+      }
+
+      const created = await storage.createSavedView(userId, view);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid saved view data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/saved-views/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const updates = insertSavedViewSchema.partial().parse(req.body);
+      const userViews = await storage.getSavedViews(userId);
+      if (!userViews.some(view => view.id === id)) {
+        return res.status(404).json({ message: "Saved view not found" });
+      }
+
+      const nameError = updates.name !== undefined ? getSavedViewNameError(userViews, updates.name, id) : undefined;
+      if (nameError) {
+        return res.status(400).json({ message: nameError });
+      }
+
+      const updated = await storage.updateSavedView(userId, id, updates);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update saved view", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/saved-views/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      await storage.deleteSavedView(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete saved view" });
+    }
+  });
+
+  // One page of the view's live results, with totals over everything it matches; takes cursor and limit like GET /api/transactions
+  app.get("/api/saved-views/:id/transactions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const view = await storage.getSavedView(userId, parseInt(req.params.id));
+      if (!view) {
+        return res.status(404).json({ message: "Saved view not found" });
+      }
+
+      const query = toTransactionQuery(view.filters, { cursor: req.query.cursor, limit: req.query.limit });
+      res.json(await storage.queryTransactions(userId, query));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid transaction query", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Every transaction in the view as CSV, read a page at a time
+  app.get("/api/saved-views/:id/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const view = await storage.getSavedView(userId, parseInt(req.params.id));
+      if (!view) {
+        return res.status(404).json({ message: "Saved view not found" });
+      }
+
+      const rows = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.queryTransactions(userId, toTransactionQuery(view.filters, { cursor, limit: 200 }));
+        rows.push(...page.transactions);
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      const slug = view.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "view";
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${slug}-${new Date().toISOString().split('T')[0]}.csv"`);
+      res.send(transactionsToCsv(rows));
+    } catch (error) {
+      console.error("Saved view export error:", error);
+      res.status(500).json({ message: "Failed to export saved view" });
+    }
+  });
+
+  // Attachments - receipts and documents on transactions and loans
+  app.get("/api/transactions/:id/attachments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await storage.getTransactionAttachments(userId, parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/transactions/:id/attachments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const transactionId = parseInt(req.params.id);
+      const upload = uploadAttachmentSchema.parse(req.body);
+      if (!(await storage.getTransactions(userId)).some(t => t.id === transactionId)) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      const { attachment, error } = await storeAttachment(userId, { transactionId }, upload);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      res.status(201).json(attachment);
+    } catch (error) {
+      console.error("Attachment upload error:", error);
+      res.status(400).json({ message: "Failed to attach file", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.get("/api/loans/:id/attachments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await storage.getLoanAttachments(userId, parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/loans/:id/attachments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const loanId = parseInt(req.params.id);
+      const upload = uploadAttachmentSchema.parse(req.body);
+      if (!(await storage.getLoan(userId, loanId))) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+
+      const { attachment, error } = await storeAttachment(userId, { loanId }, upload);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      res.status(201).json(attachment);
+    } catch (error) {
+      console.error("Attachment upload error:", error);
+      res.status(400).json({ message: "Failed to attach file", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // The file itself, shown in the browser rather than downloaded; ?thumbnail=true gives the image thumbnail
+  app.get("/api/attachments/:id/file", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const attachment = await storage.getAttachment(userId, parseInt(req.params.id));
+      const wantsThumbnail = req.query.thumbnail === "true";
+      const key = wantsThumbnail ? attachment?.thumbnailKey : attachment?.storageKey;
+      if (!attachment || !key) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const data = await attachmentStore.read(key);
+      res.setHeader("Content-Type", wantsThumbnail ? "image/jpeg" : attachment.contentType);
+      res.setHeader("Content-Disposition", `inline; filename="${attachment.fileName.replace(/[^\x20-\x7e]|["\\]/g, "_")}"`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(data);
+    } catch (error) {
+      console.error("Attachment read error:", error);
+      res.status(500).json({ message: "Failed to read attachment" });
+    }
+  });
+
+  app.delete("/api/attachments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteAttachment(userId, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Reconciliations - check an account against a statement and lock the transactions that match
+  app.get("/api/accounts/:id/reconciliations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const accountId = parseInt(req.params.id);
+      const reconciliations = await storage.getReconciliations(userId, accountId);
+      res.json(reconciliations);
+    } catch (error) {
+      console.error("Error fetching reconciliations:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliations" });
+    }
+  });
+
+  app.post("/api/accounts/:id/reconciliations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const accountId = parseInt(req.params.id);
+      const { transactionIds, ...reconciliation } = insertReconciliationSchema.extend({
+        transactionIds: z.array(z.number().int()),
+      }).parse(req.body);
+
+      const account = await storage.getAccount(userId, accountId);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const userTransactions = await storage.getTransactions(userId);
+      const reconciliationError = getReconciliationError(account, userTransactions, reconciliation.statementDate, transactionIds);
+      if (reconciliationError) {
+        return res.status(400).json({ message: reconciliationError });
+      }
+
+      // Only a statement that balances exactly can be closed
+      const { clearedBalance, difference } = summarizeReconciliation(account, userTransactions, parseFloat(reconciliation.statementBalance), transactionIds);
+      if (difference !== 0) {
+        return res.status(400).json({
+          message: `The cleared balance is ${difference > 0 ? "short of" : "over"} the statement balance by ${Math.abs(difference).toFixed(2)}`,
+          clearedBalance,
+          difference,
+        });
+      }
+
+      const created = await storage.createReconciliation(userId, accountId, reconciliation, transactionIds);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Reconciliation error:", error);
+      res.status(400).json({ message: "Invalid reconciliation data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Reopening unlocks the transactions again. Only the latest statement can be reopened so earlier ones keep adding up.
+  app.post("/api/reconciliations/:id/reopen", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+
+      const reconciliation = await storage.getReconciliation(userId, id);
+      if (!reconciliation) {
+        return res.status(404).json({ message: "Reconciliation not found" });
+      }
+      if (reconciliation.reopenedAt) {
+        return res.status(409).json({ message: "This reconciliation is already reopened" });
+      }
+      const [latest] = (await storage.getReconciliations(userId, reconciliation.accountId)).filter(r => !r.reopenedAt);
+      if (latest.id !== reconciliation.id) {
+        return res.status(409).json({ message: "Reopen the most recent reconciliation of this account first" });
+      }
+
+      const reopened = await storage.reopenReconciliation(userId, id);
+      res.json(reopened);
+    } catch (error) {
+      console.error("Reconciliation reopen error:", error);
+      res.status(500).json({ message: "Failed to reopen reconciliation" });
+    }
+  });
+
+  // Budgets
+  app.get("/api/budgets", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      console.log("Fetching budgets for user:", userId);
+      // Catch up on renewals the hourly job has not reached yet
+      await renewDueBudgets(new Date(), userId);
+      const budgets = await storage.getBudgets(userId);
+      console.log("Fetched budgets:", budgets);
+      res.json(budgets);
+    } catch (error) {
+      console.error("Budget fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch budgets", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/budgets", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      console.log("Budget creation request body:", req.body);
+      const budget = insertBudgetSchema.parse(req.body);
+      console.log("Parsed budget data:", budget);
+      
+      // Check for existing budgets with same category and overlapping time periods
+      const existingBudgets = await storage.getBudgets(userId);
+      const conflictingBudget = findConflictingBudget(existingBudgets, budget);
+      
+      if (conflictingBudget) {
+        return res.status(400).json({
+          message: budgetConflictMessage(budget.category)
+        });
+      }
+      
+      const created = await storage.createBudget(userId, budget);
+
+      // A budget whose period has already ended is renewed straight away
+      await renewDueBudgets(new Date(), userId);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Budget creation error:", error);
+      res.status(400).json({ message: "Invalid budget data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Create several budgets at once, all or nothing
+  app.post("/api/budgets/batch", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const budgets = z.array(insertBudgetSchema).min(1).parse(req.body.budgets);
+
+      const conflicts = findBatchConflicts(await storage.getBudgets(userId), budgets);
+      if (conflicts.length > 0) {
+        return res.status(400).json({ message: batchConflictMessage(conflicts), conflicts });
+      }
+
+      const created = await storage.createBudgets(userId, budgets);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Budget batch creation error:", error);
+      res.status(400).json({ message: "Invalid budget data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/budgets/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const updates = req.body;
+      console.log("Budget update request:", { userId, id, updates });
+      
+      // Validate the update data
+      const validatedUpdates = insertBudgetSchema.partial().parse(updates);
+      console.log("Validated budget updates:", validatedUpdates);
+      
+      // If category, startDate, or endDate are being updated, check for conflicts
+      if (validatedUpdates.category || validatedUpdates.startDate || validatedUpdates.endDate) {
+        const existingBudgets = await storage.getBudgets(userId);
+        const currentBudget = existingBudgets.find(b => b.id === id);
+        
+        if (currentBudget) {
+          // Create the updated budget data
+          const updatedBudget = {
+            ...currentBudget,
+            ...validatedUpdates
+          };
+          
+          // Check for conflicts with other budgets (excluding the current one)
+          const conflictingBudget = findConflictingBudget(existingBudgets, updatedBudget, id);
+          
+          if (conflictingBudget) {
+            return res.status(400).json({
+              message: budgetConflictMessage(updatedBudget.category)
+            });
+          }
+        }
+      }
+      
+      const updated = await storage.updateBudget(userId, id, validatedUpdates);
+      res.json(updated);
+    } catch (error) {
+      console.error("Budget update error:", error);
+      res.status(400).json({ message: "Failed to update budget", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/budgets/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      await storage.deleteBudget(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete budget" });
+    }
+  });
+
+  // The transactions that make up a budget's spent figure
+  app.get("/api/budgets/:id/spending", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const spending = await storage.getBudgetSpending(userId, id);
+      if (!spending) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+      res.json(spending);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch budget spending" });
+    }
+  });
+
+  // Budget Templates
+  app.get("/api/budget-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const templates = await storage.getBudgetTemplates(userId);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch budget templates" });
+    }
+  });
+
+  app.post("/api/budget-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const template = insertBudgetTemplateSchema.parse(req.body);
+      const created = await storage.createBudgetTemplate(userId, template);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid budget template data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/budget-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const updates = insertBudgetTemplateSchema.partial().parse(req.body);
+      const updated = await storage.updateBudgetTemplate(userId, id, updates);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update budget template", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/budget-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      await storage.deleteBudgetTemplate(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete budget template" });
+    }
+  });
+
+  // Create every budget in the template for one period, all or nothing, refusing any that would overlap
+  app.post("/api/budget-templates/:id/apply", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const template = await storage.getBudgetTemplate(userId, id);
+      if (!template) {
+        return res.status(404).json({ message: "Budget template not found" });
+      }
+
+      const budgets = buildTemplateBudgets(template, applyBudgetTemplateSchema.parse(req.body));
+      const conflicts = findBatchConflicts(await storage.getBudgets(userId), budgets);
+      if (conflicts.length > 0) {
+        return res.status(400).json({ message: batchConflictMessage(conflicts), conflicts });
+      }
+
+      const created = await storage.createBudgets(userId, budgets);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Budget template apply error:", error);
+      res.status(400).json({ message: "Failed to apply budget template", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Every period of a renewing budget, oldest first, with its spending
+  app.get("/api/budgets/:id/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const history = await storage.getBudgetHistory(userId, id);
+      if (history.length === 0) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+      res.json(history.map(({ budget, spent }) => ({ budget, spent })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch budget history" });
+    }
+  });
+
+  // Rewrite the stored spent column of every budget from the transactions
+  app.post("/api/admin/budgets/rebuild-spending", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const result = await storage.rebuildBudgetSpending();
+      console.log("Rebuilt budget spending:", result);
+      res.json(result);
+    } catch (error) {
+      console.error("Budget spending rebuild error:", error);
+      res.status(500).json({ message: "Failed to rebuild budget spending", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Envelopes: a month's income handed out to category envelopes, with what is still unassigned and the log of moves
+  app.get("/api/envelopes", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settings = await storage.getSettings(userId);
+      const month = envelopeMonthSchema.parse(req.query.month ?? getCurrentEnvelopeMonth(settings));
+      await renewDueBudgets(new Date(), userId);
+      const [userBudgets, userTransactions, moves, converter] = await Promise.all([
+        storage.getBudgets(userId),
+        storage.getTransactions(userId),
+        storage.getEnvelopeMoves(userId, month),
+        storage.getCurrencyConverter(userId),
+      ]);
+      res.json(buildEnvelopeMonth(month, settings, userBudgets, toBaseTransactions(userTransactions, converter), moves));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to fetch envelopes", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Assign unassigned income to an envelope, move money between envelopes or hand it back; every move is logged
+  app.post("/api/envelopes/moves", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const move = insertEnvelopeMoveSchema.parse(req.body);
+      const [userBudgets, userTransactions, moves, converter, settings] = await Promise.all([
+        storage.getBudgets(userId),
+        storage.getTransactions(userId),
+        storage.getEnvelopeMoves(userId, move.month),
+        storage.getCurrencyConverter(userId),
+        storage.getSettings(userId),
+      ]);
+      const envelopeMonth = buildEnvelopeMonth(move.month, settings, userBudgets, toBaseTransactions(userTransactions, converter), moves);
+
+      const moveError = getEnvelopeMoveError(envelopeMonth, userBudgets, move);
+      if (moveError) {
+        return res.status(400).json({ message: moveError });
+      }
+
+      const { icon, ...entry } = move;
+      const created = await storage.recordEnvelopeMove(userId, entry, planEnvelopeMove(envelopeMonth, move));
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid envelope move", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Savings Goals
+  app.get("/api/goals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const goals = await storage.getSavingsGoals(userId);
+      res.json(goals);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch savings goals" });
+    }
+  });
+
+  app.post("/api/goals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const goal = insertSavingsGoalSchema.parse(req.body);
+      const created = await storage.createSavingsGoal(userId, { ...goal, currency: goal.currency ?? await storage.getBaseCurrency(userId) });
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Goal creation error:", error);
+      res.status(400).json({ message: "Invalid savings goal data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/goals/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      // Validate the update data using the same schema
+      const validatedData = insertSavingsGoalSchema.parse(req.body);
+      const updated = await storage.updateSavingsGoal(userId, id, validatedData);
+      res.json(updated);
+    } catch (error) {
+      console.error("Goal update error:", error);
+      res.status(400).json({ message: "Failed to update savings goal", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/goals/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      await storage.deleteSavingsGoal(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete savings goal" });
+    }
+  });
+
+  // Loans routes
+  app.get("/api/loans", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const loans = await storage.getLoans(userId);
+      res.json(loans);
+    } catch (error) {
+      console.error("Error fetching loans:", error);
+      res.status(500).json({ message: "Failed to fetch loans" });
+    }
+  });
+
+  app.post("/api/loans", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const loanData = {
+        ...req.body,
+        startDate: new Date(req.body.startDate),
+        endDate: req.body.endDate ? new Date(req.body.endDate) : null,
+        currency: currencyCodeSchema.optional().parse(req.body.currency) ?? await storage.getBaseCurrency(userId),
+      };
+      const loan = await storage.createLoan(userId, loanData);
+      res.json(loan);
+    } catch (error) {
+      console.error("Error creating loan:", error);
+      res.status(500).json({ message: "Failed to create loan" });
+    }
+  });
+
+  app.put("/api/loans/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const updateData = {
+        ...req.body,
+        startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
+        endDate: req.body.endDate ? new Date(req.body.endDate) : null,
+        currency: currencyCodeSchema.optional().parse(req.body.currency),
+      };
+      const current = await storage.getLoan(userId, id);
+      if (current && isLoanReceiptLocked(current, await storage.getTransactions(userId), updateData)) {
+        return res.status(409).json({ message: LOCKED_TRANSACTION_MESSAGE });
+      }
+      const loan = await storage.updateLoan(userId, id, updateData);
+      res.json(loan);
+    } catch (error) {
+      console.error("Error updating loan:", error);
+      res.status(500).json({ message: "Failed to update loan" });
+    }
+  });
+
+  app.delete("/api/loans/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const loan = await storage.getLoan(userId, id);
+      if (loan && isLoanReceiptLocked(loan, await storage.getTransactions(userId))) {
+        return res.status(409).json({ message: LOCKED_TRANSACTION_MESSAGE });
+      }
+      await storage.deleteLoan(userId, id);
+      res.json({ message: "Loan deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting loan:", error);
+      res.status(500).json({ message: "Failed to delete loan" });
+    }
+  });
+
+  app.get("/api/loans/:id/interest", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const loan = await storage.getLoan(userId, id);
+      if (!loan) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      const interestData = await storage.calculateLoanInterest(userId, loan);
+      res.json(interestData);
+    } catch (error) {
+      console.error("Error calculating loan interest:", error);
+      res.status(500).json({ message: "Failed to calculate loan interest" });
+    }
+  });
+
+  app.get("/api/loans/:id/progress", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const loan = await storage.getLoan(userId, id);
+      if (!loan) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      const progress = await storage.calculateLoanProgress(userId, loan);
+      res.json(progress);
+    } catch (error) {
+      console.error("Error calculating loan progress:", error);
+      res.status(500).json({ message: "Failed to calculate loan progress" });
+    }
+  });
+
+  // Recurring Transactions
+  app.get("/api/recurring", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rules = await storage.getRecurringTransactions(userId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching recurring transactions:", error);
+      res.status(500).json({ message: "Failed to fetch recurring transactions" });
+    }
+  });
+
+  // Projected occurrences that have not been turned into transactions yet
+  app.get("/api/recurring/upcoming", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const from = req.query.from ? new Date(req.query.from as string) : new Date();
+      const to = req.query.to ? new Date(req.query.to as string) : new Date(from.getTime() + 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      const rangeError = getUpcomingRangeError(from, to);
+      if (rangeError) {
+        return res.status(400).json({ message: rangeError });
+      }
+
+      const rules = await storage.getRecurringTransactions(userId);
+      const occurrences = rules.flatMap(rule =>
+        getUpcomingOccurrences(rule, from, to).map(date => ({
+          recurringTransactionId: rule.id,
+          date,
+          ...rule.template,
+        }))
+      );
+      occurrences.sort((a, b) => a.date.getTime() - b.date.getTime());
+      res.json(occurrences);
+    } catch (error) {
+      console.error("Error projecting recurring transactions:", error);
+      res.status(500).json({ message: "Failed to fetch upcoming recurring transactions" });
+    }
+  });
+
+  app.post("/api/recurring", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = insertRecurringTransactionSchema.parse(req.body);
+      validateRecurrenceRule(parsed);
+
+      const userAccounts = await storage.getAccounts(userId);
+      const rule = { ...parsed, template: withTransactionCurrency(parsed.template, userAccounts, await storage.getBaseCurrency(userId)) };
+      const transactionError = getTransactionAccountError(rule.template, userAccounts) ??
+        getSplitError(rule.template) ??
+        getTransactionPayeeError(rule.template, await storage.getPayees(userId)) ??
+        getTransactionInvestmentError(rule.template, await storage.getInvestments(userId));
+      if (transactionError) {
+        return res.status(400).json({ message: transactionError });
+      }
+
+      const created = await storage.createRecurringTransaction(userId, rule);
+
+      // Occurrences dated today or earlier are recorded straight away
+      await materializeDueRecurringTransactions(new Date(), userId);
+      const refreshed = await storage.getRecurringTransaction(userId, created.id);
+      res.status(201).json(refreshed);
+    } catch (error) {
+      console.error("Recurring transaction creation error:", error);
+      res.status(400).json({ message: "Invalid recurring transaction data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/recurring/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const current = await storage.getRecurringTransaction(userId, id);
+      if (!current) {
+        return res.status(404).json({ message: "Recurring transaction not found" });
+      }
+
+      const validatedUpdates = insertRecurringTransactionSchema.partial().parse(req.body);
+      const merged = { ...current, ...validatedUpdates };
+      validateRecurrenceRule(merged);
+
+      const transactionError = getTransactionAccountError(merged.template, await storage.getAccounts(userId)) ??
+        getSplitError(merged.template) ??
+        getTransactionPayeeError(merged.template, await storage.getPayees(userId)) ??
+        getTransactionInvestmentError(merged.template, await storage.getInvestments(userId));
+      if (transactionError) {
+        return res.status(400).json({ message: transactionError });
+      }
+
+      // Resuming a paused rule skips the occurrences that fell due while it was paused
+      let occurrenceCount = current.occurrenceCount;
+      if (!current.isActive && validatedUpdates.isActive) {
+        occurrenceCount = skipMissedOccurrences(merged, occurrenceCount, new Date());
+      }
+
+      // Schedule changes recompute the next run from the occurrences already recorded
+      const nextRunDate = getNextRunDate(merged, occurrenceCount);
+      const updated = await storage.updateRecurringTransaction(userId, id, {
+        ...validatedUpdates,
+        occurrenceCount,
+        nextRunDate,
+        isActive: nextRunDate !== null && merged.isActive,
+      });
+
+      await materializeDueRecurringTransactions(new Date(), userId);
+      res.json(await storage.getRecurringTransaction(userId, id) ?? updated);
+    } catch (error) {
+      console.error("Recurring transaction update error:", error);
+      res.status(400).json({ message: "Failed to update recurring transaction", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/recurring/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      await storage.deleteRecurringTransaction(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete recurring transaction" });
+    }
+  });
+
+  // Record any due occurrences now instead of waiting for the scheduled job
+  app.post("/api/recurring/run", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const created = await materializeDueRecurringTransactions(new Date(), userId);
+      res.json({ created: created.length, transactions: created });
+    } catch (error) {
+      console.error("Error running recurring transactions:", error);
+      res.status(500).json({ message: "Failed to run recurring transactions" });
+    }
+  });
+
+  // Settings: display preferences, budget month boundaries and the base currency every total is converted into
+  app.get("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await storage.getSettings(userId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = updateUserSettingsSchema.parse(req.body);
+      res.json(await storage.updateSettings(userId, updates));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid settings", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Currencies: the user's dated exchange rates into their base currency
+
+  app.get("/api/exchange-rates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await storage.getExchangeRates(userId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+
+  // Saving a rate for a pair and day that already has one replaces it
+  app.post("/api/exchange-rates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rate = insertExchangeRateSchema.parse(req.body);
+      const [saved] = await storage.saveExchangeRates(userId, [rate]);
+      res.status(201).json(saved);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid exchange rate", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // CSV import: rows that don't parse are reported back and the rest are saved
+  app.post("/api/exchange-rates/import", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { csv } = importExchangeRatesSchema.parse(req.body);
+      const { rates, errors } = parseExchangeRateCsv(csv);
+      if (rates.length === 0) {
+        return res.status(400).json({ message: errors[0] ?? "No exchange rates found in the file", errors });
+      }
+      const saved = await storage.saveExchangeRates(userId, rates);
+      res.status(201).json({ imported: saved.length, errors });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to import exchange rates", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/exchange-rates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteExchangeRate(userId, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete exchange rate" });
+    }
+  });
+
+  // Assets: things owned outside accounts, each worth its latest valuation
+
+  app.get("/api/assets", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [assets, valuations, converter] = await Promise.all([
+        storage.getAssets(userId),
+        storage.getAssetValuations(userId),
+        storage.getCurrencyConverter(userId),
+      ]);
+      res.json(calculateAssetValues(assets, valuations, converter));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch assets" });
+    }
+  });
+
+  app.post("/api/assets", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const asset = insertAssetSchema.parse(req.body);
+      const created = await storage.createAsset(userId, { ...asset, currency: asset.currency ?? await storage.getBaseCurrency(userId) });
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid asset data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/assets/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = insertAssetSchema.omit({ value: true }).partial().parse(req.body);
+      const updated = await storage.updateAsset(userId, parseInt(req.params.id), updates);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update asset", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/assets/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteAsset(userId, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete asset" });
+    }
+  });
+
+  app.get("/api/assets/:id/valuations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const asset = await storage.getAsset(userId, parseInt(req.params.id));
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      res.json(await storage.getAssetValuations(userId, asset.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch valuations" });
+    }
+  });
+
+  app.post("/api/assets/:id/valuations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const asset = await storage.getAsset(userId, parseInt(req.params.id));
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      const valuation = insertAssetValuationSchema.parse(req.body);
+      res.status(201).json(await storage.createAssetValuation(userId, asset.id, valuation));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid valuation", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/asset-valuations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteAssetValuation(userId, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete valuation" });
+    }
+  });
+
+  // Investments: holdings bought and sold in lots, priced by hand, with dividends and coupons as linked income
+
+  app.get("/api/investments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [userInvestments, lots, prices, userTransactions, converter] = await Promise.all([
+        storage.getInvestments(userId),
+        storage.getInvestmentLots(userId),
+        storage.getInvestmentPrices(userId),
+        storage.getTransactions(userId),
+        storage.getCurrencyConverter(userId),
+      ]);
+      res.json(calculateHoldings(userInvestments, lots, prices, userTransactions, converter));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch investments" });
+    }
+  });
+
+  app.post("/api/investments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const investment = insertInvestmentSchema.parse(req.body);
+      const created = await storage.createInvestment(userId, { ...investment, currency: investment.currency ?? await storage.getBaseCurrency(userId) });
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid investment data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/investments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = insertInvestmentSchema.partial().parse(req.body);
+      const updated = await storage.updateInvestment(userId, parseInt(req.params.id), updates);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update investment", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/investments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteInvestment(userId, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete investment" });
+    }
+  });
+
+  app.get("/api/investments/:id/lots", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const investment = await storage.getInvestment(userId, parseInt(req.params.id));
+      if (!investment) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+      res.json(await storage.getInvestmentLots(userId, investment.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lots" });
+    }
+  });
+
+  app.post("/api/investments/:id/lots", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const investment = await storage.getInvestment(userId, parseInt(req.params.id));
+      if (!investment) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+      const lot = insertInvestmentLotSchema.parse(req.body);
+
+      const lotError = getLotHistoryError([...await storage.getInvestmentLots(userId, investment.id), lot]);
+      if (lotError) {
+        return res.status(400).json({ message: lotError });
+      }
+
+      res.status(201).json(await storage.createInvestmentLot(userId, investment.id, lot));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid lot", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Removing a purchase is refused when a later sale would then sell units that were never held
+  app.delete("/api/investment-lots/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const lot = (await storage.getInvestmentLots(userId)).find(existing => existing.id === id);
+      if (lot) {
+        const remaining = (await storage.getInvestmentLots(userId, lot.investmentId)).filter(existing => existing.id !== id);
+        const lotError = getLotHistoryError(remaining);
+        if (lotError) {
+          return res.status(409).json({ message: lotError });
+        }
+      }
+
+      await storage.deleteInvestmentLot(userId, id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete lot" });
+    }
+  });
+
+  app.get("/api/investments/:id/prices", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const investment = await storage.getInvestment(userId, parseInt(req.params.id));
+      if (!investment) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+      res.json(await storage.getInvestmentPrices(userId, investment.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch prices" });
+    }
+  });
+
+  app.post("/api/investments/:id/prices", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const investment = await storage.getInvestment(userId, parseInt(req.params.id));
+      if (!investment) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+      const price = insertInvestmentPriceSchema.parse(req.body);
+      res.status(201).json(await storage.createInvestmentPrice(userId, investment.id, price));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid price", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/investment-prices/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.deleteInvestmentPrice(userId, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete price" });
+    }
+  });
+
+  // Dividends and coupons: the income transactions linked to the holding, newest first
+  app.get("/api/investments/:id/income", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const investment = await storage.getInvestment(userId, parseInt(req.params.id));
+      if (!investment) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+      const userTransactions = await storage.getTransactions(userId);
+      res.json(userTransactions.filter(transaction => transaction.investmentId === investment.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch investment income" });
+    }
+  });
+
+  // Data export / restore
+  app.get("/api/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [user, data] = await Promise.all([storage.getUser(userId), storage.exportUserData(userId)]);
+      const fileName = `finance-navigator-${new Date().toISOString().split('T')[0]}.json`;
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.json(buildArchive(user, data));
+    } catch (error) {
+      console.error("Data export error:", error);
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  app.post("/api/import", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      let request, data;
+      try {
+        request = dataImportRequestSchema.parse(req.body);
+        data = parseArchive(request.archive);
+      } catch (error) {
+        return res.status(400).json({ message: "Invalid archive", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+
+      const summary = await storage.restoreUserData(userId, data, { replace: request.mode === "replace" });
+      res.json(summary);
+    } catch (error) {
+      console.error("Data import error:", error);
+      res.status(500).json({ message: "Failed to restore data", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Financial Summary
+  app.get("/api/financial-summary", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const summary = await storage.getFinancialSummary(userId);
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch financial summary" });
+    }
+  });
+
+  // Net worth over time: the monthly snapshots, oldest first
+  app.get("/api/net-worth/snapshots", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await storage.getNetWorthSnapshots(userId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch net worth history" });
+    }
+  });
+
+  // Record this month's snapshot now instead of waiting for the scheduled job, replacing one taken earlier
+  app.post("/api/net-worth/snapshots", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.status(201).json(await storage.recordNetWorthSnapshot(userId, getSnapshotMonth()));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record net worth snapshot" });
     }
   });
 
@@ -0,0 +1,55 @@
+import { transactionQuerySchema, type SavedView, type SavedViewFilters, type Transaction, type TransactionQuery } from "@shared/schema";
+
+type IdRemap = (id: number | null | undefined) => number | null;
+
+// The transaction query a view runs, for one page starting at the cursor
+export function toTransactionQuery(filters: SavedViewFilters, page: { cursor?: unknown; limit?: unknown } = {}): TransactionQuery {
+  const { reconciled, ...rest } = filters;
+  return transactionQuerySchema.parse({
+    ...rest,
+    reconciled: reconciled === undefined ? undefined : String(reconciled),
+    cursor: page.cursor,
+    limit: page.limit,
+  });
+}
+
+// Why a view can't take this name, or undefined when it can
+export function getSavedViewNameError(userViews: SavedView[], name: string, viewId?: number): string | undefined {
+  const existing = userViews.find(view => view.id !== viewId && view.name.trim().toLowerCase() === name.trim().toLowerCase());
+  return existing ? `You already have a view called ${existing.name}` : undefined;
+}
+
+// The saved filters with their payee, account, goal and loan pointed at restored ids. A filter on something that
+// didn't survive is dropped rather than left pointing at another user's row.
+export function remapSavedViewFilters(
+  filters: SavedViewFilters,
+  remap: { payeeId: IdRemap; accountId: IdRemap; savingsGoalId: IdRemap; loanId: IdRemap }
+): SavedViewFilters {
+  const remapped = { ...filters };
+  for (const key of ["payeeId", "accountId", "savingsGoalId", "loanId"] as const) {
+    if (remapped[key] === undefined) continue;
+    const id = remap[key](remapped[key]);
+    if (id == null) {
+      delete remapped[key];
+    } else {
+      remapped[key] = id;
+    }
+  }
+  return remapped;
+}
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Spreadsheet friendly export of a view's transactions, one row each, split lines joined into the category column
+export function transactionsToCsv(rows: Transaction[]): string {
+  const header = ["Date", "Description", "Type", "Category", "Amount", "Tags"];
+  const lines = rows.map(transaction => [
+    new Date(transaction.date).toISOString().split("T")[0],
+    transaction.description,
+    transaction.type,
+    transaction.splits?.length ? transaction.splits.map(split => `${split.category} ${split.amount}`).join("; ") : transaction.category,
+    transaction.amount,
+    transaction.tags.join("; "),
+  ].map(csvField).join(","));
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPreviewRows,
+  detectImportFormat,
+  flagDuplicates,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  parseStatementAmount,
+  parseStatementDate,
+} from "./statement-import";
+import type { Transaction } from "@shared/schema";
+
+const OFX = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240125120000[-5:EST]
+<TRNAMT>-45.50
+<NAME>Shoprite Area 3
+<MEMO>Card 1234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240126
+<TRNAMT>1000.00
+<NAME>Salary
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const QIF = `!Type:Bank
+D01/25/2024
+T-45.50
+PShoprite
+LGroceries:Food
+^
+D01/26/2024
+T1,000.00
+PSalary
+^`;
+
+describe("detectImportFormat", () => {
+  it("goes by the file extension, then the content", () => {
+    expect(detectImportFormat("", "statement.QFX")).toBe("ofx");
+    expect(detectImportFormat(OFX)).toBe("ofx");
+    expect(detectImportFormat(QIF)).toBe("qif");
+    expect(detectImportFormat("Date,Amount\n2024-01-25,10")).toBe("csv");
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quoted fields with delimiters, escaped quotes and line breaks", () => {
+    const table = parseCsv('Date,Description,Amount\r\n2024-01-25,"Shoprite, Area 3",-45.50\n2024-01-26,"The ""big"" shop\nsecond line",-10\n\n');
+
+    expect(table.headers).toEqual(["Date", "Description", "Amount"]);
+    expect(table.rows).toEqual([
+      ["2024-01-25", "Shoprite, Area 3", "-45.50"],
+      ["2024-01-26", 'The "big" shop\nsecond line', "-10"],
+    ]);
+  });
+
+  it("picks up semicolon separated files", () => {
+    expect(parseCsv("Date;Amount\n25.01.2024;-1,50").rows).toEqual([["25.01.2024", "-1,50"]]);
+  });
+});
+
+describe("parseOfx", () => {
+  it("reads one row per statement transaction", () => {
+    expect(parseOfx(OFX).rows).toEqual([
+      ["20240125120000[-5:EST]", "-45.50", "Shoprite Area 3", "Card 1234", "DEBIT"],
+      ["20240126", "1000.00", "Salary", "", "CREDIT"],
+    ]);
+  });
+});
+
+describe("parseQif", () => {
+  it("reads one row per record", () => {
+    expect(parseQif(QIF).rows).toEqual([
+      ["01/25/2024", "-45.50", "Shoprite", "", "Groceries:Food"],
+      ["01/26/2024", "1,000.00", "Salary", "", ""],
+    ]);
+  });
+});
+
+describe("parseStatementDate", () => {
+  it("reads OFX, ISO, day-first and month-first dates", () => {
+    expect(parseStatementDate("20240125120000[-5:EST]")).toEqual(new Date(2024, 0, 25, 12));
+    expect(parseStatementDate("2024-01-25")).toEqual(new Date(2024, 0, 25, 12));
+    expect(parseStatementDate("05/01/2024")).toEqual(new Date(2024, 0, 5, 12));
+    expect(parseStatementDate("01/25/2024")).toEqual(new Date(2024, 0, 25, 12));
+    expect(parseStatementDate("05/01/24", "MDY")).toEqual(new Date(2024, 4, 1, 12));
+  });
+
+  it("rejects dates that don't exist", () => {
+    expect(parseStatementDate("31/02/2024")).toBeNull();
+    expect(parseStatementDate("soon")).toBeNull();
+  });
+});
+
+describe("parseStatementAmount", () => {
+  it("understands brackets, thousands separators and debit markers", () => {
+    expect(parseStatementAmount("(1,234.50)")).toBe(-1234.5);
+    expect(parseStatementAmount("MWK 1 234")).toBe(1234);
+    expect(parseStatementAmount("500.00 DR")).toBe(-500);
+    expect(parseStatementAmount("")).toBeNull();
+  });
+});
+
+describe("buildPreviewRows", () => {
+  it("turns negative amounts into expenses and flags rows it can't read", () => {
+    const rows = buildPreviewRows(
+      { headers: ["Date", "Description", "Amount"], rows: [["2024-01-25", "Shoprite", "-45.50"], ["2024-01-26", "Salary", "1000"], ["later", "Mystery", "5"]] },
+      { date: 0, description: 1, amount: 2 },
+      { dateFormat: "auto", defaultCategory: "other" }
+    );
+
+    expect(rows.map(row => [row.type, row.amount, row.category, row.error])).toEqual([
+      ["expense", "45.50", "other", undefined],
+      ["income", "1000.00", "income", undefined],
+      ["income", "5.00", "income", "Unrecognised date"],
+    ]);
+  });
+});
+
+describe("flagDuplicates", () => {
+  it("matches rows on amount, a nearby date and a similar description", () => {
+    const existing = [{ id: 9, amount: "45.50", date: new Date(2024, 0, 24, 12), description: "SHOPRITE AREA 3" }] as Transaction[];
+    const rows = buildPreviewRows(
+      { headers: [], rows: [["2024-01-25", "Shoprite Area 3", "-45.50"], ["2024-02-25", "Shoprite Area 3", "-45.50"]] },
+      { date: 0, description: 1, amount: 2 },
+      { dateFormat: "auto", defaultCategory: "other" }
+    );
+
+    expect(flagDuplicates(rows, existing).map(row => row.duplicateOf)).toEqual([9, undefined]);
+  });
+});
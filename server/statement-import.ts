@@ -0,0 +1,310 @@
+import { z } from "zod";
+import type { Transaction } from "@shared/schema";
+
+export const importFormats = ["csv", "ofx", "qif"] as const;
+export type ImportFormat = typeof importFormats[number];
+
+// Column index (into the parsed headers) for each transaction field
+export const importColumnMappingSchema = z.object({
+  date: z.number().int().min(0),
+  amount: z.number().int().min(0),
+  description: z.number().int().min(0),
+  category: z.number().int().min(0).nullable().optional(),
+  type: z.number().int().min(0).nullable().optional(),
+});
+
+export const importPreviewRequestSchema = z.object({
+  content: z.string().min(1, "File is empty"),
+  fileName: z.string().optional(),
+  format: z.enum(importFormats).optional(),
+  mapping: importColumnMappingSchema.optional(),
+  dateFormat: z.enum(["auto", "YMD", "DMY", "MDY"]).default("auto"),
+  defaultCategory: z.string().default("other"),
+});
+
+export type ImportColumnMapping = z.infer<typeof importColumnMappingSchema>;
+export type ImportPreviewRequest = z.infer<typeof importPreviewRequestSchema>;
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportPreviewRow {
+  rowIndex: number;
+  date: string | null;
+  amount: string | null;
+  description: string;
+  category: string;
+  type: "income" | "expense";
+  error?: string;
+  duplicateOf?: number; // id of the existing transaction this row appears to repeat
+  categorizedBy?: "rule" | "history"; // set when the category came from a rule or similar past transactions rather than the file
+}
+
+const DUPLICATE_DATE_WINDOW_DAYS = 3;
+const DUPLICATE_DESCRIPTION_SIMILARITY = 0.5;
+
+export function detectImportFormat(content: string, fileName?: string): ImportFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  if (extension === "csv") return "csv";
+
+  const head = content.slice(0, 1000).toUpperCase();
+  if (head.includes("<OFX>") || head.includes("OFXHEADER")) return "ofx";
+  if (head.trimStart().startsWith("!TYPE")) return "qif";
+  return "csv";
+}
+
+// RFC 4180 style parsing: quoted fields, escaped quotes and embedded newlines
+export function parseCsv(content: string): ParsedTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const delimiter = detectCsvDelimiter(content);
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      record.push(field.trim());
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field.trim());
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value !== ""));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers, rows };
+}
+
+function detectCsvDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+// OFX (SGML or XML flavour) - one row per <STMTTRN>
+export function parseOfx(content: string): ParsedTable {
+  const headers = ["Date", "Amount", "Name", "Memo", "Type"];
+  const rows: string[][] = [];
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  for (const block of blocks) {
+    const body = block.split(/<\/STMTTRN>/i)[0];
+    const tag = (name: string) => {
+      const match = body.match(new RegExp(`<${name}>([^<\\r\\n]*)`, "i"));
+      return match ? match[1].trim() : "";
+    };
+    rows.push([tag("DTPOSTED"), tag("TRNAMT"), tag("NAME") || tag("PAYEE"), tag("MEMO"), tag("TRNTYPE")]);
+  }
+
+  return { headers, rows };
+}
+
+// QIF - one row per record terminated by "^"
+export function parseQif(content: string): ParsedTable {
+  const headers = ["Date", "Amount", "Payee", "Memo", "Category"];
+  const rows: string[][] = [];
+  let current: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("!")) continue;
+    if (line === "^") {
+      if (Object.keys(current).length > 0) {
+        rows.push([current.D || "", current.T || current.U || "", current.P || "", current.M || "", current.L || ""]);
+      }
+      current = {};
+      continue;
+    }
+    current[line[0]] = line.slice(1).trim();
+  }
+
+  return { headers, rows };
+}
+
+export function parseStatement(content: string, format: ImportFormat): ParsedTable {
+  switch (format) {
+    case "ofx": return parseOfx(content);
+    case "qif": return parseQif(content);
+    default: return parseCsv(content);
+  }
+}
+
+// Guess the mapping from header names; OFX and QIF always come out in a fixed order
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const find = (patterns: RegExp[]) => {
+    const index = headers.findIndex(header => patterns.some(pattern => pattern.test(header)));
+    return index >= 0 ? index : null;
+  };
+
+  return {
+    date: find([/date/i, /posted/i]) ?? 0,
+    amount: find([/amount/i, /value/i, /sum/i]) ?? Math.min(1, headers.length - 1),
+    description: find([/desc/i, /payee/i, /name/i, /narration/i, /details/i, /memo/i]) ?? Math.min(2, headers.length - 1),
+    category: find([/categ/i]),
+    type: find([/^type$/i, /dr.?\/.?cr/i, /debit.?credit/i]),
+  };
+}
+
+// Parse a statement date. OFX dates look like 20240125120000[-5:EST]
+export function parseStatementDate(value: string, dateFormat: ImportPreviewRequest["dateFormat"] = "auto"): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact) {
+    return buildDate(+compact[1], +compact[2], +compact[3]);
+  }
+
+  const parts = trimmed.split(/[\/\-.'\s]+/).filter(Boolean).slice(0, 3);
+  if (parts.length < 3 || parts.some(part => !/^\d+$/.test(part))) {
+    const fallback = new Date(trimmed);
+    return isNaN(fallback.getTime()) ? null : fallback;
+  }
+
+  const [a, b, c] = parts.map(part => parseInt(part, 10));
+  let format = dateFormat;
+  if (format === "auto") {
+    if (parts[0].length === 4) format = "YMD";
+    else if (b > 12) format = "MDY";
+    else format = "DMY";
+  }
+
+  switch (format) {
+    case "YMD": return buildDate(a, b, c);
+    case "MDY": return buildDate(normalizeYear(c), a, b);
+    default: return buildDate(normalizeYear(c), b, a);
+  }
+}
+
+function normalizeYear(year: number): number {
+  if (year >= 100) return year;
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day, 12);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+// Accepts "1,234.50", "(1,234.50)", "-1234.5", "MWK 1 234" and trailing CR/DR markers
+export function parseStatementAmount(value: string): number | null {
+  let cleaned = value.trim();
+  if (!cleaned) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(cleaned)) {
+    sign = -1;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (/\bdr\b/i.test(cleaned)) sign = -1;
+
+  cleaned = cleaned.replace(/[^0-9.\-]/g, "");
+  const amount = parseFloat(cleaned);
+  return isNaN(amount) ? null : amount * sign;
+}
+
+function parseTypeValue(value: string): "income" | "expense" | null {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+  if (/^(income|credit|cr|deposit|dep|c)$/.test(normalized)) return "income";
+  if (/^(expense|debit|dr|withdrawal|payment|pos|atm|fee|d)$/.test(normalized)) return "expense";
+  return null;
+}
+
+function normalizeCategory(value: string | undefined, fallback: string): string {
+  const category = (value || "").split(":")[0].trim().toLowerCase().replace(/\s+/g, "_");
+  return category || fallback;
+}
+
+export function buildPreviewRows(table: ParsedTable, mapping: ImportColumnMapping, options: Pick<ImportPreviewRequest, "dateFormat" | "defaultCategory">): ImportPreviewRow[] {
+  return table.rows.map((row, rowIndex) => {
+    const date = parseStatementDate(row[mapping.date] ?? "", options.dateFormat);
+    const rawAmount = parseStatementAmount(row[mapping.amount] ?? "");
+    const description = (row[mapping.description] ?? "").trim();
+    const explicitType = mapping.type != null ? parseTypeValue(row[mapping.type] ?? "") : null;
+    const type = explicitType ?? (rawAmount !== null && rawAmount < 0 ? "expense" : "income");
+    const category = normalizeCategory(
+      mapping.category != null ? row[mapping.category] : undefined,
+      type === "income" ? "income" : options.defaultCategory
+    );
+
+    const previewRow: ImportPreviewRow = {
+      rowIndex,
+      date: date ? date.toISOString() : null,
+      amount: rawAmount !== null ? Math.abs(rawAmount).toFixed(2) : null,
+      description: description || "Imported transaction",
+      category,
+      type,
+    };
+
+    if (!date) previewRow.error = "Unrecognised date";
+    else if (rawAmount === null || rawAmount === 0) previewRow.error = "Missing amount";
+    return previewRow;
+  });
+}
+
+export function descriptionTokens(description: string): Set<string> {
+  return new Set(description.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1));
+}
+
+export function descriptionSimilarity(a: string, b: string): number {
+  const normalizedA = a.toLowerCase().trim();
+  const normalizedB = b.toLowerCase().trim();
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA.includes(normalizedB) || normalizedB.includes(normalizedA)) return 1;
+
+  const tokensA = descriptionTokens(a);
+  const tokensB = descriptionTokens(b);
+  const intersection = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  const union = new Set([...Array.from(tokensA), ...Array.from(tokensB)]).size;
+  return union === 0 ? 0 : intersection / union;
+}
+
+// Flag rows matching an existing transaction on amount, a nearby date and a similar description
+export function flagDuplicates(rows: ImportPreviewRow[], existing: Transaction[]): ImportPreviewRow[] {
+  const windowMs = DUPLICATE_DATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+  return rows.map(row => {
+    if (row.error || !row.date || !row.amount) return row;
+    const rowDate = new Date(row.date).getTime();
+
+    const duplicate = existing.find(transaction =>
+      parseFloat(transaction.amount).toFixed(2) === row.amount &&
+      Math.abs(new Date(transaction.date).getTime() - rowDate) <= windowMs &&
+      descriptionSimilarity(transaction.description, row.description) >= DUPLICATE_DESCRIPTION_SIMILARITY
+    );
+
+    return duplicate ? { ...row, duplicateOf: duplicate.id } : row;
+  });
+}
@@ -0,0 +1,353 @@
+import { randomUUID } from "crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemStorage } from "./memStorage";
+import type { IStorage } from "./storage";
+import { planCategoryRewrite } from "./category-rules";
+import { planCategorizationRun } from "./categorization-rules";
+import {
+  insertAccountSchema,
+  insertBudgetSchema,
+  insertCategorizationRuleSchema,
+  insertExchangeRateSchema,
+  insertLoanSchema,
+  insertReconciliationSchema,
+  insertRecurringTransactionSchema,
+  insertTransactionSchema,
+  transactionQuerySchema,
+} from "@shared/schema";
+
+// Every case runs against each IStorage implementation. DatabaseStorage needs a Postgres database with the schema
+// pushed, so it only joins in when DATABASE_URL is set.
+const implementations: Array<[string, () => Promise<IStorage>]> = [
+  ["MemStorage", async () => new MemStorage()],
+];
+if (process.env.DATABASE_URL) {
+  implementations.push(["DatabaseStorage", async () => new (await import("./storage")).DatabaseStorage()]);
+}
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let userId: string;
+
+  // A new user for every case keeps them apart when they share a database
+  beforeEach(async () => {
+    storage = await createStorage();
+    userId = `test-${randomUUID()}`;
+    await storage.upsertUser({ id: userId });
+  });
+
+  function addTransaction(values: { type: string; amount: string; date: string } & Record<string, unknown>) {
+    return storage.createTransaction(userId, insertTransactionSchema.parse({
+      category: "food",
+      description: "Groceries",
+      ...values,
+    }));
+  }
+
+  function addBudget(values: { amount: string; startDate: string; endDate: string; rolloverMode?: string }) {
+    return storage.createBudget(userId, insertBudgetSchema.parse({
+      category: "food",
+      icon: "🍔",
+      period: "monthly",
+      ...values,
+    }));
+  }
+
+  function addAccount(values: { name: string; type: string; openingBalance: string }) {
+    return storage.createAccount(userId, insertAccountSchema.parse(values));
+  }
+
+  describe("getFinancialSummary", () => {
+    it("counts income and expenses this month by which way the money went", async () => {
+      const today = new Date().toISOString();
+      await addTransaction({ type: "income", amount: "1000", date: today, category: "salary" });
+      await addTransaction({ type: "loan_received", amount: "500", date: today, category: "loan" });
+      await addTransaction({ type: "expense", amount: "200", date: today });
+      await addTransaction({ type: "savings_deposit", amount: "100", date: today, category: "savings" });
+      await addTransaction({ type: "expense", amount: "999", date: "2020-01-15T12:00:00.000Z" });
+
+      const summary = await storage.getFinancialSummary(userId);
+
+      expect(summary.monthlyIncome).toBe(1500);
+      expect(summary.monthlyExpenses).toBe(300);
+    });
+  });
+
+  describe("getBudgets", () => {
+    it("carries unspent money into the renewed period and recalculates it after a late entry", async () => {
+      const september = await addBudget({ amount: "100", startDate: "2026-09-01", endDate: "2026-09-30", rolloverMode: "carry_unspent" });
+      await addTransaction({ type: "expense", amount: "30", date: "2026-09-10T12:00:00.000Z" });
+      const october = await storage.renewBudget(userId, september, {
+        startDate: new Date("2026-10-01"),
+        endDate: new Date("2026-10-31"),
+        rolloverAmount: "70.00",
+      });
+
+      await addTransaction({ type: "expense", amount: "20", date: "2026-09-20T12:00:00.000Z" });
+
+      const renewed = (await storage.getBudgets(userId)).find(budget => budget.id === october.id);
+      expect(renewed?.rolloverAmount).toBe("50.00");
+    });
+
+    it("counts spending at any time on the budget's last day", async () => {
+      const budget = await addBudget({ amount: "100", startDate: "2026-09-01", endDate: "2026-09-30" });
+      const lastDay = new Date("2026-09-30");
+      lastDay.setHours(15);
+      await addTransaction({ type: "expense", amount: "40", date: lastDay.toISOString() });
+
+      const [derived] = await storage.getBudgets(userId);
+      expect(derived.id).toBe(budget.id);
+      expect(parseFloat(derived.spent)).toBe(40);
+    });
+  });
+
+  describe("queryTransactions", () => {
+    it("walks every match exactly once a page at a time", async () => {
+      for (let day = 1; day <= 5; day++) {
+        await addTransaction({ type: "expense", amount: "10", date: `2026-09-0${day}T12:00:00.000Z`, description: `Day ${day}` });
+      }
+
+      const seen: number[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.queryTransactions(userId, { sort: "date", order: "desc", limit: 2, cursor });
+        expect(page.summary.count).toBe(5);
+        expect(page.summary.expenses).toBe(50);
+        seen.push(...page.transactions.map(transaction => transaction.id));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      const all = await storage.getTransactions(userId);
+      expect(seen).toHaveLength(5);
+      expect(new Set(seen).size).toBe(5);
+      expect(seen).toEqual([...all].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(t => t.id));
+    });
+  });
+
+  describe("restoreUserData", () => {
+    it("skips budgets and recurring transactions the account already has when merging", async () => {
+      const budget = await addBudget({ amount: "100", startDate: "2026-09-01", endDate: "2026-09-30" });
+      const rule = await storage.createRecurringTransaction(userId, insertRecurringTransactionSchema.parse({
+        frequency: "monthly",
+        startDate: "2026-09-01",
+        template: { type: "expense", amount: "50", category: "bills", description: "Internet" },
+      }));
+      const backup = await storage.exportUserData(userId);
+
+      const summary = await storage.restoreUserData(userId, backup, { replace: false });
+
+      expect(summary.restored.budgets).toBe(0);
+      expect(summary.restored.recurringTransactions).toBe(0);
+      expect(summary.mergedBudgets).toEqual([{ category: "food", keptBudgetId: budget.id }]);
+      expect(summary.skippedRecurringTransactions).toEqual([{ description: "Internet", keptRuleId: rule.id }]);
+      expect(await storage.getBudgets(userId)).toHaveLength(1);
+      expect(await storage.getRecurringTransactions(userId)).toHaveLength(1);
+    });
+
+    it("restores everything into an account that is being replaced", async () => {
+      await addBudget({ amount: "100", startDate: "2026-09-01", endDate: "2026-09-30" });
+      await addTransaction({ type: "expense", amount: "30", date: "2026-09-10T12:00:00.000Z" });
+      const backup = await storage.exportUserData(userId);
+
+      const summary = await storage.restoreUserData(userId, backup, { replace: true });
+
+      expect(summary.restored.budgets).toBe(1);
+      expect(summary.restored.transactions).toBe(1);
+      expect(summary.mergedBudgets).toEqual([]);
+      expect(await storage.getTransactions(userId)).toHaveLength(1);
+    });
+
+    it("keeps the attachments of the transactions a replacing restore brings back", async () => {
+      const transaction = await addTransaction({ type: "expense", amount: "30", date: "2026-09-10T12:00:00.000Z" });
+      const other = await addTransaction({ type: "expense", amount: "12", date: "2026-09-11T12:00:00.000Z" });
+      await storage.createAttachment(userId, {
+        transactionId: transaction.id,
+        fileName: "receipt.jpg",
+        contentType: "image/jpeg",
+        size: 10,
+        storageKey: `${userId}/receipt.jpg`,
+      });
+      const backup = await storage.exportUserData(userId);
+      backup.transactions = backup.transactions.filter(row => row.id !== other.id);
+
+      await storage.restoreUserData(userId, backup, { replace: true });
+
+      const [restored] = await storage.getTransactions(userId);
+      const attachments = await storage.getTransactionAttachments(userId, restored.id);
+      expect(attachments.map(attachment => attachment.fileName)).toEqual(["receipt.jpg"]);
+    });
+  });
+
+  describe("transfers", () => {
+    it("moves money between accounts without counting as income or spending", async () => {
+      const today = new Date().toISOString();
+      const bank = await addAccount({ name: "Bank", type: "bank", openingBalance: "500" });
+      const wallet = await addAccount({ name: "Wallet", type: "cash", openingBalance: "100" });
+      await addTransaction({ type: "transfer", amount: "40", date: today, category: "transfer", description: "Cash out", accountId: bank.id, toAccountId: wallet.id });
+
+      const summary = await storage.getFinancialSummary(userId);
+
+      expect(summary.monthlyIncome).toBe(0);
+      expect(summary.monthlyExpenses).toBe(0);
+      expect(summary.accounts.find(account => account.id === bank.id)?.balance).toBe(460);
+      expect(summary.accounts.find(account => account.id === wallet.id)?.balance).toBe(140);
+      expect(summary.totalAccounts).toBe(600);
+    });
+  });
+
+  describe("splits", () => {
+    it("counts only the split lines in a budget's category and finds the transaction by any of them", async () => {
+      await addBudget({ amount: "100", startDate: "2026-09-01", endDate: "2026-09-30" });
+      await addTransaction({
+        type: "expense",
+        amount: "100",
+        date: "2026-09-10T12:00:00.000Z",
+        category: "split",
+        splits: [{ category: "food", amount: "60" }, { category: "transport", amount: "40" }],
+      });
+
+      const [budget] = await storage.getBudgets(userId);
+      const page = await storage.queryTransactions(userId, transactionQuerySchema.parse({ category: "transport" }));
+
+      expect(parseFloat(budget.spent)).toBe(60);
+      expect(page.summary.count).toBe(1);
+    });
+  });
+
+  describe("loans", () => {
+    it("pays interest first on a simple loan, counting repayments in other currencies at their rate", async () => {
+      await storage.saveExchangeRates(userId, [
+        insertExchangeRateSchema.parse({ fromCurrency: "USD", toCurrency: "MWK", rate: "100", effectiveDate: "2026-01-01" }),
+      ]);
+      const loan = await storage.createLoan(userId, insertLoanSchema.parse({
+        name: "Motorbike",
+        principal: "1200",
+        currentBalance: "1200",
+        interestRate: "10",
+        interestType: "simple",
+        termMonths: 12,
+        startDate: "2026-01-01",
+        loanType: "personal",
+      }));
+      await addTransaction({ type: "loan_repayment", amount: "220", date: "2026-02-01T12:00:00.000Z", category: "loan", loanId: loan.id });
+      await addTransaction({ type: "loan_repayment", amount: "1", date: "2026-03-01T12:00:00.000Z", category: "loan", loanId: loan.id, currency: "USD" });
+
+      const interest = await storage.calculateLoanInterest(userId, loan);
+
+      expect(interest.totalInterest).toBeCloseTo(120);
+      expect(interest.monthlyPayment).toBeCloseTo(110);
+      // 320 repaid: the first 120 covers the interest, the rest comes off the principal
+      expect(interest.currentBalance).toBeCloseTo(1000);
+      const received = (await storage.getTransactions(userId)).filter(transaction => transaction.type === "loan_received");
+      expect(received.map(transaction => [transaction.loanId, parseFloat(transaction.amount)])).toEqual([[loan.id, 1200]]);
+    });
+  });
+
+  describe("currency conversion", () => {
+    it("counts spending in the base currency at the rate in effect on its date", async () => {
+      await storage.saveExchangeRates(userId, [
+        insertExchangeRateSchema.parse({ fromCurrency: "USD", toCurrency: "MWK", rate: "1000", effectiveDate: "2026-01-01" }),
+        insertExchangeRateSchema.parse({ fromCurrency: "USD", toCurrency: "MWK", rate: "1500", effectiveDate: "2026-09-05" }),
+      ]);
+      await addBudget({ amount: "5000", startDate: "2026-09-01", endDate: "2026-09-30" });
+      await addTransaction({ type: "expense", amount: "1", date: "2026-09-02T12:00:00.000Z", currency: "USD" });
+      await addTransaction({ type: "expense", amount: "2", date: "2026-09-10T12:00:00.000Z", currency: "USD" });
+
+      const [budget] = await storage.getBudgets(userId);
+      expect(parseFloat(budget.spent)).toBe(4000);
+    });
+
+    it("reports currencies it has no rate for instead of leaving them out", async () => {
+      await addTransaction({ type: "expense", amount: "10", date: new Date().toISOString(), currency: "EUR" });
+
+      const summary = await storage.getFinancialSummary(userId);
+
+      expect(summary.missingRates).toEqual(["EUR"]);
+      expect(summary.monthlyExpenses).toBe(10);
+    });
+  });
+
+  describe("reconciliations", () => {
+    it("keeps reconciled transactions out of a category rename until the reconciliation is reopened", async () => {
+      const account = await addAccount({ name: "Bank", type: "bank", openingBalance: "0" });
+      const [food] = await storage.createCategories(userId, [{ name: "Food", value: "food" }]);
+      const reconciled = await addTransaction({ type: "expense", amount: "30", date: "2026-09-10T12:00:00.000Z", accountId: account.id });
+      const open = await addTransaction({ type: "expense", amount: "20", date: "2026-09-20T12:00:00.000Z", accountId: account.id });
+      const reconciliation = await storage.createReconciliation(userId, account.id, insertReconciliationSchema.parse({
+        statementDate: "2026-09-15",
+        statementBalance: "-30",
+      }), [reconciled.id]);
+
+      const rewrite = planCategoryRewrite(await storage.exportUserData(userId), "food", "groceries");
+      await storage.renameCategory(userId, food.id, { name: "Groceries", value: "groceries" }, rewrite);
+
+      expect((await storage.getTransaction(userId, reconciled.id))?.category).toBe("food");
+      expect((await storage.getTransaction(userId, reconciled.id))?.reconciliationId).toBe(reconciliation.id);
+      expect((await storage.getTransaction(userId, open.id))?.category).toBe("groceries");
+
+      await storage.reopenReconciliation(userId, reconciliation.id);
+      expect((await storage.getTransaction(userId, reconciled.id))?.reconciliationId).toBeNull();
+    });
+  });
+
+  describe("categorization", () => {
+    it("writes what a rule run changes and never touches reconciled transactions", async () => {
+      const account = await addAccount({ name: "Bank", type: "bank", openingBalance: "0" });
+      await storage.createCategorizationRule(userId, insertCategorizationRuleSchema.parse({
+        name: "Fuel",
+        matchType: "contains",
+        pattern: "puma",
+        category: "transport",
+      }));
+      const fuel = await addTransaction({ type: "expense", amount: "50", date: "2026-09-10T12:00:00.000Z", description: "Puma fuel" });
+      const locked = await addTransaction({ type: "expense", amount: "45", date: "2026-09-11T12:00:00.000Z", description: "Puma station", accountId: account.id });
+      await addTransaction({ type: "expense", amount: "30", date: "2026-09-12T12:00:00.000Z", description: "Shoprite" });
+      await storage.createReconciliation(userId, account.id, insertReconciliationSchema.parse({
+        statementDate: "2026-09-30",
+        statementBalance: "-45",
+      }), [locked.id]);
+
+      const changes = planCategorizationRun(await storage.getCategorizationRules(userId), await storage.getTransactions(userId));
+      expect(changes.map(change => change.transactionId)).toEqual([fuel.id]);
+
+      // Even a change that names a locked transaction leaves it as it was
+      await storage.categorizeTransactions(userId, [...changes, { ...changes[0], transactionId: locked.id }]);
+
+      const byId = new Map((await storage.getTransactions(userId)).map(transaction => [transaction.id, transaction.category]));
+      expect(byId.get(fuel.id)).toBe("transport");
+      expect(byId.get(locked.id)).toBe("food");
+    });
+  });
+
+  describe("recurring transactions", () => {
+    function addRule(ownerId: string) {
+      return storage.createRecurringTransaction(ownerId, insertRecurringTransactionSchema.parse({
+        frequency: "monthly",
+        startDate: "2026-09-01",
+        template: { type: "expense", amount: "50", category: "bills", description: "Internet" },
+      }));
+    }
+
+    it("lets only one run claim each occurrence", async () => {
+      const rule = await addRule(userId);
+      const progress = { occurrenceCount: 1, nextRunDate: new Date("2026-10-01"), lastRunAt: new Date(), isActive: true };
+
+      expect(await storage.advanceRecurringTransaction(userId, rule.id, 0, progress)).toBe(true);
+      expect(await storage.advanceRecurringTransaction(userId, rule.id, 0, progress)).toBe(false);
+
+      expect((await storage.getRecurringTransaction(userId, rule.id))?.occurrenceCount).toBe(1);
+      expect(await storage.getDueRecurringTransactions(new Date("2026-09-15"), userId)).toEqual([]);
+    });
+
+    it("returns one user's due rules, or everyone's", async () => {
+      const otherUserId = `test-${randomUUID()}`;
+      await storage.upsertUser({ id: otherUserId });
+      const own = await addRule(userId);
+      const other = await addRule(otherUserId);
+      const asOf = new Date("2026-09-15");
+
+      expect((await storage.getDueRecurringTransactions(asOf, userId)).map(rule => rule.id)).toEqual([own.id]);
+      expect((await storage.getDueRecurringTransactions(asOf)).map(rule => rule.id)).toEqual(expect.arrayContaining([own.id, other.id]));
+    });
+  });
+});
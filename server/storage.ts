@@ -1,41 +1,285 @@
 import {
   transactions,
+  transactionSearchVector,
+  accounts,
+  categories,
+  payees,
+  savedViews,
+  reconciliations,
   budgets,
+  budgetTemplates,
+  envelopeMoves,
+  categorizationRules,
   savingsGoals,
   loans,
+  recurringTransactions,
+  attachments,
+  exchangeRates,
+  assets,
+  assetValuations,
+  netWorthSnapshots,
+  investments,
+  investmentLots,
+  investmentPrices,
   users,
+  userSettings,
+  passwordResetTokens,
+  sessions,
   type Transaction,
   type InsertTransaction,
+  type TransactionQuery,
+  type Account,
+  type InsertAccount,
+  type Category,
+  type InsertCategory,
+  type Payee,
+  type InsertPayee,
+  type SavedView,
+  type InsertSavedView,
+  type Reconciliation,
+  type InsertReconciliation,
   type Budget,
   type InsertBudget,
+  type BudgetTemplate,
+  type InsertBudgetTemplate,
+  type EnvelopeMove,
+  type InsertEnvelopeMove,
+  type CategorizationRule,
+  type InsertCategorizationRule,
   type SavingsGoal,
   type InsertSavingsGoal,
   type Loan,
   type InsertLoan,
+  type Attachment,
+  type InsertAttachment,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type Asset,
+  type InsertAsset,
+  type AssetValuation,
+  type InsertAssetValuation,
+  type NetWorthSnapshot,
+  type Investment,
+  type InsertInvestment,
+  type InvestmentLot,
+  type InsertInvestmentLot,
+  type InvestmentPrice,
+  type InsertInvestmentPrice,
+  type UserSettings,
+  type UpdateUserSettings,
+  type RecurringTransaction,
+  type InsertRecurringTransaction,
   type User,
   type UpsertUser,
+  type PasswordResetToken,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, gte, lte } from "drizzle-orm";
+import { db, useMemoryStorage } from "./db";
+import { eq, and, or, ne, gt, gte, lt, lte, asc, desc, isNull, isNotNull, inArray, notInArray, notExists, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { BatchItem } from "drizzle-orm/batch";
+import { budgetsOverlap, findConflictingBudget, deriveBudgets, findStaleBudgets, getBudgetChain, getBudgetedPeriods, BUDGET_SPENDING_TYPES, type BudgetSpending } from "./budget-rules";
+import type { EnvelopeBudgetChanges } from "./envelope-rules";
+import type { CategoryRewrite, NewCategory } from "./category-rules";
+import type { CategorizationChange } from "./categorization-rules";
+import {
+  QUERY_INCOME_TYPES,
+  QUERY_EXPENSE_TYPES,
+  decodeCursor,
+  queryDateRange,
+  searchTerms,
+  summarizeTransactions,
+  toTransactionPage,
+  toTransactionFacets,
+  type TransactionPage,
+  type TransactionFacets,
+} from "./transaction-query";
+import { remapSavedViewFilters } from "./saved-view-rules";
+import { findKeptAttachments, recurringRuleKey } from "./restore-rules";
+import { removeAttachmentFiles } from "./attachment-store";
+import { createCurrencyConverter, convertTransaction, toBaseTransactions, type CurrencyConverter } from "@shared/currency-conversion";
+import { withDefaultSettings } from "@shared/user-settings";
+import { MemStorage } from "./memStorage";
+import {
+  calculateAmortizedPayment,
+  calculateLoanInterest,
+  calculateLoanProgress,
+  getCurrentMonthRange,
+  summarizeFinances,
+  toNetWorthSnapshot,
+  type LoanInterestSummary,
+  type LoanProgressSummary,
+  type FinancialSummary,
+} from "./finance-calculations";
+
+// Everything a user owns, as exported to and restored from a data archive
+export interface UserDataSnapshot {
+  accounts: Account[];
+  categories: Category[];
+  payees: Payee[];
+  savedViews: SavedView[];
+  reconciliations: Reconciliation[];
+  transactions: Transaction[];
+  budgets: Budget[];
+  budgetTemplates: BudgetTemplate[];
+  envelopeMoves: EnvelopeMove[];
+  categorizationRules: CategorizationRule[];
+  savingsGoals: SavingsGoal[];
+  loans: Loan[];
+  recurringTransactions: RecurringTransaction[];
+  exchangeRates: ExchangeRate[];
+  userSettings: UserSettings[]; // none until the user changes a setting
+  assets: Asset[];
+  assetValuations: AssetValuation[];
+  netWorthSnapshots: NetWorthSnapshot[];
+  investments: Investment[];
+  investmentLots: InvestmentLot[];
+  investmentPrices: InvestmentPrice[];
+}
+
+export type UserDataRestore = {
+  [K in keyof UserDataSnapshot]: Omit<UserDataSnapshot[K][number], "userId">[];
+};
+
+export type UserDataRestoreResult = {
+  [K in keyof UserDataSnapshot]: number;
+};
+
+export interface UserDataRestoreSummary {
+  restored: UserDataRestoreResult;
+  // When merging: archived budgets that overlapped one of the account's own budgets and were folded into it, and
+  // archived recurring rules the account already had, which would otherwise post every occurrence twice
+  mergedBudgets: Array<{ category: string; keptBudgetId: number }>;
+  skippedRecurringTransactions: Array<{ description: string; keptRuleId: number }>;
+}
+
+export interface UserDataMigrationResult {
+  moved: UserDataRestoreResult;
+  // Guest budgets that overlapped one of the account's own budgets and were folded into it
+  mergedBudgets: Array<{ category: string; keptBudgetId: number }>;
+}
+
+export type RecurringProgress = Pick<RecurringTransaction, "occurrenceCount" | "nextRunDate" | "lastRunAt" | "isActive">;
+
+export type BudgetRenewal = Pick<Budget, "startDate" | "endDate" | "rolloverAmount">;
+
+export interface BudgetSpendingRebuildResult {
+  budgets: number;
+  // Budgets whose stored spent or rolloverAmount column disagreed with their transactions
+  corrected: number;
+}
 
 export interface IStorage {
   // User operations (IMPORTANT) these user operations are mandatory for Replit Auth.
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
 
+  // Local accounts
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  updateUserPassword(id: string, passwordHash: string): Promise<void>;
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  deleteUserSessions(userId: string): Promise<void>;
+
   // Transactions
   getTransactions(userId: string): Promise<Transaction[]>;
+  getTransaction(userId: string, id: number): Promise<Transaction | undefined>;
   getTransactionsByCategory(userId: string, category: string): Promise<Transaction[]>;
+  // One page of the transactions matching the query, in its sort order
+  queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage>;
+  getTransactionFacets(userId: string): Promise<TransactionFacets>;
   createTransaction(userId: string, transaction: InsertTransaction): Promise<Transaction>;
+  createTransactions(userId: string, transactions: InsertTransaction[]): Promise<Transaction[]>;
   updateTransaction(userId: string, id: number, transaction: Partial<InsertTransaction>): Promise<Transaction>;
   deleteTransaction(userId: string, id: number): Promise<void>;
 
+  // Accounts
+  getAccounts(userId: string): Promise<Account[]>;
+  getAccount(userId: string, id: number): Promise<Account | undefined>;
+  createAccount(userId: string, account: InsertAccount): Promise<Account>;
+  updateAccount(userId: string, id: number, account: Partial<Account>): Promise<Account>;
+  deleteAccount(userId: string, id: number): Promise<void>;
+
+  // Settings: the stored row, or the defaults for a user who hasn't changed anything
+  getSettings(userId: string): Promise<UserSettings>;
+  updateSettings(userId: string, updates: UpdateUserSettings): Promise<UserSettings>;
+
+  // Currencies: the base currency every total is reported in (a setting), and the dated rates that convert into it
+  getBaseCurrency(userId: string): Promise<string>;
+  getCurrencyConverter(userId: string): Promise<CurrencyConverter>;
+  getExchangeRates(userId: string): Promise<ExchangeRate[]>;
+  // A rate for a pair and day the user already has replaces it; all of the rates are saved or none are
+  saveExchangeRates(userId: string, rates: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(userId: string, id: number): Promise<void>;
+
+  // Categories
+  getCategories(userId: string): Promise<Category[]>;
+  getCategory(userId: string, id: number): Promise<Category | undefined>;
+  createCategories(userId: string, categories: NewCategory[]): Promise<Category[]>;
+  updateCategory(userId: string, id: number, category: Partial<InsertCategory>): Promise<Category>;
+  deleteCategory(userId: string, id: number): Promise<void>;
+  // Rename and merge change the category together with every row the rewrite lists, all or nothing
+  renameCategory(userId: string, id: number, rename: { name: string; value: string }, rewrite: CategoryRewrite): Promise<Category>;
+  mergeCategories(userId: string, sourceId: number, targetId: number, rewrite: CategoryRewrite): Promise<Category>;
+
+  // Payees
+  getPayees(userId: string): Promise<Payee[]>;
+  getPayee(userId: string, id: number): Promise<Payee | undefined>;
+  createPayee(userId: string, payee: InsertPayee): Promise<Payee>;
+  updatePayee(userId: string, id: number, payee: Partial<InsertPayee>): Promise<Payee>;
+  deletePayee(userId: string, id: number): Promise<void>;
+  // Point each listed transaction at its payee, all or nothing
+  linkPayees(userId: string, links: Array<{ id: number; payeeId: number }>): Promise<void>;
+
+  // Saved views
+  getSavedViews(userId: string): Promise<SavedView[]>;
+  getSavedView(userId: string, id: number): Promise<SavedView | undefined>;
+  createSavedView(userId: string, view: InsertSavedView): Promise<SavedView>;
+  updateSavedView(userId: string, id: number, view: Partial<InsertSavedView>): Promise<SavedView>;
+  deleteSavedView(userId: string, id: number): Promise<void>;
+
+  // Reconciliations
+  getReconciliations(userId: string, accountId: number): Promise<Reconciliation[]>;
+  getReconciliation(userId: string, id: number): Promise<Reconciliation | undefined>;
+  createReconciliation(userId: string, accountId: number, reconciliation: InsertReconciliation, transactionIds: number[]): Promise<Reconciliation>;
+  reopenReconciliation(userId: string, id: number): Promise<Reconciliation>;
+
   // Budgets
   getBudgets(userId: string): Promise<Budget[]>;
   getBudget(userId: string, id: number): Promise<Budget | undefined>;
   createBudget(userId: string, budget: InsertBudget): Promise<Budget>;
+  // All or nothing: either every budget is created or none are
+  createBudgets(userId: string, budgets: InsertBudget[]): Promise<Budget[]>;
   updateBudget(userId: string, id: number, budget: Partial<Budget>): Promise<Budget>;
   deleteBudget(userId: string, id: number): Promise<void>;
+  // Spent and rolloverAmount are derived from the transactions on every read; the stored columns are only a copy rebuilt on demand
+  getBudgetSpending(userId: string, id: number): Promise<BudgetSpending | undefined>;
+  rebuildBudgetSpending(): Promise<BudgetSpendingRebuildResult>;
+  // Renewal: budgets set to auto-renew that have ended without a successor yet, across all users
+  getDueBudgetRenewals(asOf: Date): Promise<Budget[]>;
+  renewBudget(userId: string, previous: Budget, next: BudgetRenewal): Promise<Budget>;
+  // The budget and every period it was renewed from, oldest first
+  getBudgetHistory(userId: string, id: number): Promise<BudgetSpending[]>;
+
+  // Budget Templates
+  getBudgetTemplates(userId: string): Promise<BudgetTemplate[]>;
+  getBudgetTemplate(userId: string, id: number): Promise<BudgetTemplate | undefined>;
+  createBudgetTemplate(userId: string, template: InsertBudgetTemplate): Promise<BudgetTemplate>;
+  updateBudgetTemplate(userId: string, id: number, template: Partial<InsertBudgetTemplate>): Promise<BudgetTemplate>;
+  deleteBudgetTemplate(userId: string, id: number): Promise<void>;
+
+  // Envelopes: the log of a month's envelope moves, oldest first, and recording a move together with its budget changes
+  getEnvelopeMoves(userId: string, month: string): Promise<EnvelopeMove[]>;
+  recordEnvelopeMove(userId: string, move: Omit<InsertEnvelopeMove, "icon">, changes: EnvelopeBudgetChanges): Promise<EnvelopeMove>;
+
+  // Categorization rules, in the order they run
+  getCategorizationRules(userId: string): Promise<CategorizationRule[]>;
+  getCategorizationRule(userId: string, id: number): Promise<CategorizationRule | undefined>;
+  createCategorizationRule(userId: string, rule: InsertCategorizationRule): Promise<CategorizationRule>;
+  updateCategorizationRule(userId: string, id: number, rule: Partial<InsertCategorizationRule>): Promise<CategorizationRule>;
+  deleteCategorizationRule(userId: string, id: number): Promise<void>;
+  // Re-running rules over existing transactions: all of the changes are written or none are
+  categorizeTransactions(userId: string, changes: CategorizationChange[]): Promise<void>;
 
   // Savings Goals
   getSavingsGoals(userId: string): Promise<SavingsGoal[]>;
@@ -50,135 +294,71 @@ export interface IStorage {
   createLoan(userId: string, loan: InsertLoan): Promise<Loan>;
   updateLoan(userId: string, id: number, loan: Partial<Loan>): Promise<Loan>;
   deleteLoan(userId: string, id: number): Promise<void>;
-  calculateLoanInterest(userId: string, loan: Loan): Promise<{
-    totalInterest: number;
-    currentBalance: number;
-    monthlyPayment: number;
-    payoffDate: Date | null;
-  }>;
-  calculateLoanProgress(userId: string, loan: Loan): Promise<{
-    principalProgress: number | null;
-    interestProgress: number | null;
-    totalPaid: number;
-    principalPaid: number;
-    interestPaid: number;
-    currentBalance: number;
-  }>;
+  calculateLoanInterest(userId: string, loan: Loan): Promise<LoanInterestSummary>;
+  calculateLoanProgress(userId: string, loan: Loan): Promise<LoanProgressSummary>;
+
+  // Assets. Creating one with a value records that as its first valuation, dated today; deleting one deletes its valuations.
+  getAssets(userId: string): Promise<Asset[]>;
+  getAsset(userId: string, id: number): Promise<Asset | undefined>;
+  createAsset(userId: string, asset: InsertAsset): Promise<Asset>;
+  updateAsset(userId: string, id: number, asset: Partial<Omit<InsertAsset, "value">>): Promise<Asset>;
+  deleteAsset(userId: string, id: number): Promise<void>;
+  // Valuations of every asset, or of one, newest first
+  getAssetValuations(userId: string, assetId?: number): Promise<AssetValuation[]>;
+  createAssetValuation(userId: string, assetId: number, valuation: InsertAssetValuation): Promise<AssetValuation>;
+  deleteAssetValuation(userId: string, id: number): Promise<void>;
+
+  // Investments. Deleting a holding deletes its lots and prices; income transactions linked to it stay, unlinked.
+  getInvestments(userId: string): Promise<Investment[]>;
+  getInvestment(userId: string, id: number): Promise<Investment | undefined>;
+  createInvestment(userId: string, investment: InsertInvestment): Promise<Investment>;
+  updateInvestment(userId: string, id: number, investment: Partial<InsertInvestment>): Promise<Investment>;
+  deleteInvestment(userId: string, id: number): Promise<void>;
+  // Lots of every holding, or of one, in the order they were traded
+  getInvestmentLots(userId: string, investmentId?: number): Promise<InvestmentLot[]>;
+  createInvestmentLot(userId: string, investmentId: number, lot: InsertInvestmentLot): Promise<InvestmentLot>;
+  deleteInvestmentLot(userId: string, id: number): Promise<void>;
+  // Prices of every holding, or of one, newest first
+  getInvestmentPrices(userId: string, investmentId?: number): Promise<InvestmentPrice[]>;
+  createInvestmentPrice(userId: string, investmentId: number, price: InsertInvestmentPrice): Promise<InvestmentPrice>;
+  deleteInvestmentPrice(userId: string, id: number): Promise<void>;
+
+  // Attachments. Only the rows live here; routes write the files to the attachment store before creating a row,
+  // and deleting an attachment, its transaction or its loan removes the files as well.
+  getTransactionAttachments(userId: string, transactionId: number): Promise<Attachment[]>;
+  getLoanAttachments(userId: string, loanId: number): Promise<Attachment[]>;
+  getAttachment(userId: string, id: number): Promise<Attachment | undefined>;
+  createAttachment(userId: string, attachment: InsertAttachment): Promise<Attachment>;
+  deleteAttachment(userId: string, id: number): Promise<void>;
+
+  // Recurring Transactions
+  getRecurringTransactions(userId: string): Promise<RecurringTransaction[]>;
+  getRecurringTransaction(userId: string, id: number): Promise<RecurringTransaction | undefined>;
+  createRecurringTransaction(userId: string, rule: InsertRecurringTransaction): Promise<RecurringTransaction>;
+  updateRecurringTransaction(userId: string, id: number, rule: Partial<RecurringTransaction>): Promise<RecurringTransaction>;
+  deleteRecurringTransaction(userId: string, id: number): Promise<void>;
+  // Active rules with an occurrence due by asOf, for one user or for everyone
+  getDueRecurringTransactions(asOf: Date, userId?: string): Promise<RecurringTransaction[]>;
+  // Moves a rule on only while it still has expectedCount occurrences, so two runs can't both post the same one.
+  // False when another run got there first.
+  advanceRecurringTransaction(userId: string, id: number, expectedCount: number, progress: RecurringProgress): Promise<boolean>;
+
+  // Data export / restore
+  exportUserData(userId: string): Promise<UserDataSnapshot>;
+  restoreUserData(userId: string, data: UserDataRestore, options: { replace: boolean }): Promise<UserDataRestoreSummary>;
+  migrateUserData(fromUserId: string, toUserId: string): Promise<UserDataMigrationResult>;
 
   // Financial Summary
-  getFinancialSummary(userId: string): Promise<{
-    netWorth: number;
-    monthlyIncome: number;
-    monthlyExpenses: number;
-    totalSavings: number;
-    totalDebt: number;
-  }>;
+  getFinancialSummary(userId: string): Promise<FinancialSummary>;
+
+  // Net worth history: one snapshot per month ('YYYY-MM'), oldest first. Recording a month again replaces its snapshot.
+  getNetWorthSnapshots(userId: string): Promise<NetWorthSnapshot[]>;
+  recordNetWorthSnapshot(userId: string, month: string): Promise<NetWorthSnapshot>;
+  // Every user who has no snapshot for the month yet
+  getUsersWithoutNetWorthSnapshot(month: string): Promise<string[]>;
 }
 
 export class DatabaseStorage implements IStorage {
-  // Helper method to calculate amortized monthly payment with different compounding frequencies
-  private calculateAmortizedPayment(principal: number, annualRate: number, termMonths: number, compoundFrequency: string = "monthly"): number {
-    if (annualRate === 0) {
-      // If no interest, simply divide principal by term
-      return principal / termMonths;
-    }
-    
-    // Get compounding periods per year
-    const compoundingPeriodsPerYear = this.getCompoundingPeriodsPerYear(compoundFrequency);
-    
-    // Calculate effective monthly rate
-    const annualRateDecimal = annualRate / 100;
-    const effectiveAnnualRate = Math.pow(1 + (annualRateDecimal / compoundingPeriodsPerYear), compoundingPeriodsPerYear) - 1;
-    const monthlyRate = Math.pow(1 + effectiveAnnualRate, 1/12) - 1;
-    
-    // Standard amortization formula with effective monthly rate
-    const payment = principal * (monthlyRate * Math.pow(1 + monthlyRate, termMonths)) / 
-                   (Math.pow(1 + monthlyRate, termMonths) - 1);
-    
-    return payment;
-  }
-
-  // Helper method to get compounding periods per year
-  private getCompoundingPeriodsPerYear(frequency: string): number {
-    switch (frequency) {
-      case "daily": return 365;
-      case "weekly": return 52;
-      case "biweekly": return 26;
-      case "monthly": return 12;
-      case "quarterly": return 4;
-      case "semiannually": return 2;
-      case "annually": return 1;
-      default: return 12; // Default to monthly
-    }
-  }
-
-  // Calculate principal progress for any loan type
-  private async calculatePrincipalProgress(userId: string, loan: Loan): Promise<number> {
-    const principal = parseFloat(loan.principal);
-    
-    if (loan.interestType === "simple") {
-      // For simple interest, use payment-based calculation
-      const repayments = await this.getLoanRepayments(userId, loan.id);
-      const totalPaid = repayments.reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
-      
-      const annualRate = parseFloat(loan.interestRate) / 100;
-      const termYears = (loan.termMonths || 12) / 12;
-      const totalInterest = principal * annualRate * termYears;
-      
-      // For simple interest, payments go to interest first, then principal
-      let principalPaid = 0;
-      if (totalPaid > totalInterest) {
-        principalPaid = totalPaid - totalInterest;
-      }
-      
-      return Math.min((principalPaid / principal) * 100, 100);
-    } else {
-      // For compound interest, calculate based on time elapsed and amortization schedule
-      const now = new Date();
-      const startDate = new Date(loan.startDate);
-      const termMonths = loan.termMonths || 12;
-      const monthlyPayment = parseFloat(loan.monthlyPayment || "0");
-      const annualRate = parseFloat(loan.interestRate) / 100;
-      const monthlyRate = annualRate / 12;
-      
-      // Calculate months elapsed since loan start
-      const monthsElapsed = Math.max(0, 
-        (now.getFullYear() - startDate.getFullYear()) * 12 + 
-        (now.getMonth() - startDate.getMonth())
-      );
-      
-      // Don't exceed the loan term
-      const effectiveMonthsElapsed = Math.min(monthsElapsed, termMonths);
-      
-      if (effectiveMonthsElapsed === 0 || monthlyPayment === 0) {
-        return 0;
-      }
-      
-      // Use standard amortization formula to calculate remaining balance
-      if (monthlyRate === 0) {
-        // No interest case
-        const principalPaid = Math.min(effectiveMonthsElapsed * monthlyPayment, principal);
-        return (principalPaid / principal) * 100;
-      }
-      
-      // Standard amortization formula for remaining balance
-      const remainingBalance = principal * Math.pow(1 + monthlyRate, effectiveMonthsElapsed) - 
-        monthlyPayment * ((Math.pow(1 + monthlyRate, effectiveMonthsElapsed) - 1) / monthlyRate);
-      
-      const principalPaid = Math.max(0, principal - Math.max(0, remainingBalance));
-      return Math.min((principalPaid / principal) * 100, 100);
-    }
-  }
-
-  // Calculate dynamic current balance based on principal progress
-  private async calculateDynamicBalance(userId: string, loan: Loan): Promise<number> {
-    const principal = parseFloat(loan.principal);
-    const principalProgress = await this.calculatePrincipalProgress(userId, loan);
-    
-    // Current balance = principal - (principal * progress percentage)
-    return principal - (principal * (principalProgress / 100));
-  }
-
   // User operations (IMPORTANT) these user operations are mandatory for Replit Auth.
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -200,14 +380,136 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Local accounts
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username.toLowerCase()));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email.toLowerCase()));
+    return user;
+  }
+
+  async updateUserPassword(id: string, passwordHash: string): Promise<void> {
+    await db.update(users).set({ passwordHash, updatedAt: new Date() }).where(eq(users.id, id));
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const [token] = await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt }).returning();
+    return token;
+  }
+
+  // Marks the token used in the same statement that finds it, so a token can only ever be redeemed once
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  // Sessions are stored by connect-pg-simple as the serialized req.session
+  async deleteUserSessions(userId: string): Promise<void> {
+    await db.delete(sessions).where(sql`${sessions.sess} #>> '{passport,user,claims,sub}' = ${userId}`);
+  }
+
   // Transactions
   async getTransactions(userId: string): Promise<Transaction[]> {
     const result = await db.select().from(transactions).where(eq(transactions.userId, userId)).orderBy(transactions.date);
     return result.reverse();
   }
 
+  async getTransaction(userId: string, id: number): Promise<Transaction | undefined> {
+    const [transaction] = await db.select().from(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+    return transaction;
+  }
+
   async getTransactionsByCategory(userId: string, category: string): Promise<Transaction[]> {
-    return await db.select().from(transactions).where(and(eq(transactions.userId, userId), eq(transactions.category, category)));
+    // Split transactions match when any of their lines is in the category
+    return await db.select().from(transactions).where(and(
+      eq(transactions.userId, userId),
+      or(eq(transactions.category, category), sql`${transactions.splits} @> ${JSON.stringify([{ category }])}::jsonb`)
+    ));
+  }
+
+  async queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage> {
+    const { from, end } = queryDateRange(query);
+    const filters: (SQL | undefined)[] = [
+      eq(transactions.userId, userId),
+      from && gte(transactions.date, from),
+      end && lt(transactions.date, end),
+      query.type ? eq(transactions.type, query.type) : undefined,
+      query.category
+        ? or(eq(transactions.category, query.category), sql`${transactions.splits} @> ${JSON.stringify([{ category: query.category }])}::jsonb`)
+        : undefined,
+      query.tag
+        ? sql`exists (select 1 from jsonb_array_elements_text(${transactions.tags}) as tag(name) where lower(tag.name) = lower(${query.tag}))`
+        : undefined,
+      query.payeeId !== undefined ? eq(transactions.payeeId, query.payeeId) : undefined,
+      query.accountId !== undefined ? or(eq(transactions.accountId, query.accountId), eq(transactions.toAccountId, query.accountId)) : undefined,
+      query.savingsGoalId !== undefined ? eq(transactions.savingsGoalId, query.savingsGoalId) : undefined,
+      query.loanId !== undefined ? eq(transactions.loanId, query.loanId) : undefined,
+      query.minAmount !== undefined ? gte(transactions.amount, query.minAmount.toString()) : undefined,
+      query.maxAmount !== undefined ? lte(transactions.amount, query.maxAmount.toString()) : undefined,
+      query.reconciled === "true" ? isNotNull(transactions.reconciliationId) : undefined,
+      query.reconciled === "false" ? isNull(transactions.reconciliationId) : undefined,
+    ];
+    // Prefix matching on every word, served by the GIN search index
+    const terms = searchTerms(query.search);
+    if (terms.length > 0) {
+      filters.push(sql`${transactionSearchVector(transactions)} @@ to_tsquery('simple', ${terms.map(term => `${term}:*`).join(" & ")})`);
+    }
+
+    // Keyset pagination: continue strictly after the last row of the previous page
+    const sortColumn = transactions[query.sort];
+    const after = query.order === "asc" ? gt : lt;
+    const pageFilters = [...filters];
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      const value = query.sort === "date" ? new Date(cursor.value) : cursor.value;
+      pageFilters.push(or(after(sortColumn, value), and(eq(sortColumn, value), after(transactions.id, cursor.id))));
+    }
+
+    const order = query.order === "asc" ? asc : desc;
+    const inTypes = (types: string[]) => sql.join(types.map(type => sql`${type}`), sql`, `);
+    const converter = await this.getCurrencyConverter(userId);
+    // Totals of the base currency rows are summed in SQL; the few in other currencies are converted one by one
+    const [rows, [totals], foreignRows] = await Promise.all([
+      db.select().from(transactions)
+        .where(and(...pageFilters))
+        .orderBy(order(sortColumn), order(transactions.id))
+        .limit(query.limit + 1),
+      db.select({
+        count: sql<number>`count(*)::int`,
+        income: sql<string>`coalesce(sum(${transactions.amount}) filter (where ${transactions.type} in (${inTypes(QUERY_INCOME_TYPES)})), 0)`,
+        expenses: sql<string>`coalesce(sum(${transactions.amount}) filter (where ${transactions.type} in (${inTypes(QUERY_EXPENSE_TYPES)})), 0)`,
+      }).from(transactions).where(and(...filters, eq(transactions.currency, converter.baseCurrency))),
+      db.select({ type: transactions.type, amount: transactions.amount, currency: transactions.currency, date: transactions.date })
+        .from(transactions)
+        .where(and(...filters, ne(transactions.currency, converter.baseCurrency))),
+    ]);
+
+    const foreign = summarizeTransactions(toBaseTransactions(foreignRows, converter));
+    return toTransactionPage(rows, query, {
+      count: totals.count + foreign.count,
+      income: Math.round((parseFloat(totals.income) + foreign.income) * 100) / 100,
+      expenses: Math.round((parseFloat(totals.expenses) + foreign.expenses) * 100) / 100,
+    });
+  }
+
+  async getTransactionFacets(userId: string): Promise<TransactionFacets> {
+    const [categoryRows, tagRows] = await Promise.all([
+      db.selectDistinct({ category: transactions.category }).from(transactions).where(eq(transactions.userId, userId)),
+      // One row per tag use; only tagged transactions produce any
+      db.select({ tag: sql<string>`jsonb_array_elements_text(${transactions.tags})` }).from(transactions).where(eq(transactions.userId, userId)),
+    ]);
+    return toTransactionFacets(categoryRows.map(row => row.category), tagRows.map(row => row.tag));
   }
 
   async createTransaction(userId: string, insertTransaction: InsertTransaction): Promise<Transaction> {
@@ -216,35 +518,20 @@ export class DatabaseStorage implements IStorage {
       .values({ ...insertTransaction, userId })
       .returning();
 
-    // Loan repayment handling - balance is now calculated dynamically
-    // No manual balance updates needed as currentBalance is computed from payments
-
-    // Update budget spent amount if it's an expense or loan payment and within budget period
-    if (transaction.type === "expense" || transaction.type === "loan_repayment") {
-      const matchingBudgets = await db
-        .select()
-        .from(budgets)
-        .where(
-          and(
-            eq(budgets.userId, userId),
-            eq(budgets.category, transaction.category),
-            lte(budgets.startDate, transaction.date),
-            gte(budgets.endDate, transaction.date)
-          )
-        );
-
-      for (const budget of matchingBudgets) {
-        const newSpent = parseFloat(budget.spent) + parseFloat(transaction.amount);
-        await db
-          .update(budgets)
-          .set({ spent: newSpent.toString() })
-          .where(eq(budgets.id, budget.id));
-      }
-    }
+    // Loan balances and budget spending are calculated dynamically from transactions
+    // No manual updates needed here
 
     return transaction;
   }
 
+  async createTransactions(userId: string, insertTransactions: InsertTransaction[]): Promise<Transaction[]> {
+    if (insertTransactions.length === 0) return [];
+    return await db
+      .insert(transactions)
+      .values(insertTransactions.map(insertTransaction => ({ ...insertTransaction, userId })))
+      .returning();
+  }
+
   async updateTransaction(userId: string, id: number, updates: Partial<InsertTransaction>): Promise<Transaction> {
     const currentTransaction = await db.select().from(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
     if (!currentTransaction[0]) {
@@ -282,49 +569,349 @@ export class DatabaseStorage implements IStorage {
 
   async deleteTransaction(userId: string, id: number): Promise<void> {
     const [transaction] = await db.select().from(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+
+    // Attachment rows cascade with the transaction (and with its loan, below); their files go once the rows have
+    const removedLoanId = transaction?.type === "loan_received" ? transaction.loanId : null;
+    const removedAttachments = await db.select().from(attachments).where(and(
+      eq(attachments.userId, userId),
+      or(eq(attachments.transactionId, id), removedLoanId ? eq(attachments.loanId, removedLoanId) : undefined)
+    ));
     
     // If this is a loan_received transaction, delete the corresponding loan
     if (transaction && transaction.type === "loan_received" && transaction.loanId) {
       await db.delete(loans).where(and(eq(loans.id, transaction.loanId), eq(loans.userId, userId)));
     }
 
-    // Loan repayment reversal handling - balance is now calculated dynamically
-    // No manual balance updates needed as currentBalance is computed from payments
-
-    if (transaction && (transaction.type === "expense" || transaction.type === "loan_repayment")) {
-      // Update budget spent amount if within budget period
-      const matchingBudgets = await db
-        .select()
-        .from(budgets)
-        .where(
-          and(
-            eq(budgets.userId, userId),
-            eq(budgets.category, transaction.category),
-            lte(budgets.startDate, transaction.date),
-            gte(budgets.endDate, transaction.date)
-          )
-        );
+    // Loan repayment reversal and budget spending need no bookkeeping: both are calculated from the remaining transactions
 
-      for (const budget of matchingBudgets) {
-        const newSpent = parseFloat(budget.spent) - parseFloat(transaction.amount);
-        await db
-          .update(budgets)
-          .set({ spent: Math.max(0, newSpent).toString() })
-          .where(eq(budgets.id, budget.id));
-      }
-    }
-    
     await db.delete(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+    await removeAttachmentFiles(removedAttachments);
+  }
+
+  // Accounts
+  async getAccounts(userId: string): Promise<Account[]> {
+    return await db.select().from(accounts).where(eq(accounts.userId, userId)).orderBy(accounts.id);
+  }
+
+  async getAccount(userId: string, id: number): Promise<Account | undefined> {
+    const [account] = await db.select().from(accounts).where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+    return account;
+  }
+
+  async createAccount(userId: string, insertAccount: InsertAccount): Promise<Account> {
+    const [account] = await db
+      .insert(accounts)
+      .values({ ...insertAccount, userId })
+      .returning();
+    return account;
+  }
+
+  async updateAccount(userId: string, id: number, updates: Partial<Account>): Promise<Account> {
+    const [updated] = await db
+      .update(accounts)
+      .set(updates)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Account not found");
+    }
+    return updated;
+  }
+
+  async deleteAccount(userId: string, id: number): Promise<void> {
+    await db.delete(accounts).where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+  }
+
+  // Categories
+  async getCategories(userId: string): Promise<Category[]> {
+    return await db.select().from(categories).where(eq(categories.userId, userId)).orderBy(categories.name);
+  }
+
+  async getCategory(userId: string, id: number): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(and(eq(categories.id, id), eq(categories.userId, userId)));
+    return category;
+  }
+
+  async createCategories(userId: string, newCategories: NewCategory[]): Promise<Category[]> {
+    if (newCategories.length === 0) return [];
+    return await db
+      .insert(categories)
+      .values(newCategories.map(category => ({ ...category, userId })))
+      .returning();
+  }
+
+  async updateCategory(userId: string, id: number, updates: Partial<InsertCategory>): Promise<Category> {
+    const [updated] = await db
+      .update(categories)
+      .set(updates)
+      .where(and(eq(categories.id, id), eq(categories.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Category not found");
+    }
+    return updated;
+  }
+
+  async deleteCategory(userId: string, id: number): Promise<void> {
+    await db.delete(categories).where(and(eq(categories.id, id), eq(categories.userId, userId)));
+  }
+
+  async renameCategory(userId: string, id: number, rename: { name: string; value: string }, rewrite: CategoryRewrite): Promise<Category> {
+    const queries: BatchItem<"pg">[] = [
+      db.update(categories).set(rename).where(and(eq(categories.id, id), eq(categories.userId, userId))),
+      ...this.categoryRewriteQueries(userId, rewrite),
+    ];
+    await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+    return (await this.getCategory(userId, id))!;
+  }
+
+  async mergeCategories(userId: string, sourceId: number, targetId: number, rewrite: CategoryRewrite): Promise<Category> {
+    const queries: BatchItem<"pg">[] = [
+      ...this.categoryRewriteQueries(userId, rewrite),
+      // The source's subcategories move under the target before the source goes
+      db.update(categories).set({ parentId: targetId }).where(and(eq(categories.parentId, sourceId), eq(categories.userId, userId))),
+      db.delete(categories).where(and(eq(categories.id, sourceId), eq(categories.userId, userId))),
+    ];
+    await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+    return (await this.getCategory(userId, targetId))!;
+  }
+
+  // Reconciled transactions are never rewritten, even if one was locked after the route checked
+  private categoryRewriteQueries(userId: string, rewrite: CategoryRewrite): BatchItem<"pg">[] {
+    return [
+      ...rewrite.transactions.map(({ id, ...changes }) => db
+        .update(transactions).set(changes).where(and(eq(transactions.id, id), eq(transactions.userId, userId), isNull(transactions.reconciliationId)))),
+      ...rewrite.budgets.map(({ id, ...changes }) => db
+        .update(budgets).set(changes).where(and(eq(budgets.id, id), eq(budgets.userId, userId)))),
+      ...rewrite.deletedBudgetIds.map(id => db
+        .delete(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)))),
+      ...rewrite.recurringTransactions.map(({ id, template }) => db
+        .update(recurringTransactions).set({ template }).where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))),
+      ...rewrite.budgetTemplates.map(({ id, allocations }) => db
+        .update(budgetTemplates).set({ allocations }).where(and(eq(budgetTemplates.id, id), eq(budgetTemplates.userId, userId)))),
+      ...rewrite.envelopeMoves.map(({ id, ...changes }) => db
+        .update(envelopeMoves).set(changes).where(and(eq(envelopeMoves.id, id), eq(envelopeMoves.userId, userId)))),
+      ...rewrite.categorizationRules.map(({ id, category }) => db
+        .update(categorizationRules).set({ category }).where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)))),
+    ];
+  }
+
+  // Payees
+  async getPayees(userId: string): Promise<Payee[]> {
+    return await db.select().from(payees).where(eq(payees.userId, userId)).orderBy(payees.name);
+  }
+
+  async getPayee(userId: string, id: number): Promise<Payee | undefined> {
+    const [payee] = await db.select().from(payees).where(and(eq(payees.id, id), eq(payees.userId, userId)));
+    return payee;
+  }
+
+  async createPayee(userId: string, insertPayee: InsertPayee): Promise<Payee> {
+    const [payee] = await db
+      .insert(payees)
+      .values({ ...insertPayee, userId })
+      .returning();
+    return payee;
+  }
+
+  async updatePayee(userId: string, id: number, updates: Partial<InsertPayee>): Promise<Payee> {
+    const [updated] = await db
+      .update(payees)
+      .set(updates)
+      .where(and(eq(payees.id, id), eq(payees.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Payee not found");
+    }
+    return updated;
+  }
+
+  // Linked transactions keep everything but the link (ON DELETE SET NULL)
+  async deletePayee(userId: string, id: number): Promise<void> {
+    await db.delete(payees).where(and(eq(payees.id, id), eq(payees.userId, userId)));
+  }
+
+  async linkPayees(userId: string, links: Array<{ id: number; payeeId: number }>): Promise<void> {
+    if (links.length === 0) return;
+    const queries: BatchItem<"pg">[] = links.map(({ id, payeeId }) => db
+      .update(transactions)
+      .set({ payeeId })
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId))));
+    await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+  }
+
+  // Settings
+  async getSettings(userId: string): Promise<UserSettings> {
+    const [stored] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return withDefaultSettings(userId, stored);
+  }
+
+  async updateSettings(userId: string, updates: UpdateUserSettings): Promise<UserSettings> {
+    const [saved] = await db
+      .insert(userSettings)
+      .values({ ...updates, userId, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: userSettings.userId, set: { ...updates, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  // Currencies
+  async getBaseCurrency(userId: string): Promise<string> {
+    return (await this.getSettings(userId)).baseCurrency;
+  }
+
+  async getCurrencyConverter(userId: string): Promise<CurrencyConverter> {
+    const [baseCurrency, userRates] = await Promise.all([this.getBaseCurrency(userId), this.getExchangeRates(userId)]);
+    return createCurrencyConverter(baseCurrency, userRates);
+  }
+
+  async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+    return await db.select().from(exchangeRates).where(eq(exchangeRates.userId, userId))
+      .orderBy(desc(exchangeRates.effectiveDate), exchangeRates.fromCurrency, exchangeRates.toCurrency);
+  }
+
+  async saveExchangeRates(userId: string, rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    if (rates.length === 0) return [];
+    return await db
+      .insert(exchangeRates)
+      .values(rates.map(rate => ({ ...rate, userId })))
+      .onConflictDoUpdate({
+        target: [exchangeRates.userId, exchangeRates.fromCurrency, exchangeRates.toCurrency, exchangeRates.effectiveDate],
+        set: { rate: sql`excluded.rate` },
+      })
+      .returning();
+  }
+
+  async deleteExchangeRate(userId: string, id: number): Promise<void> {
+    await db.delete(exchangeRates).where(and(eq(exchangeRates.id, id), eq(exchangeRates.userId, userId)));
+  }
+
+  // Saved views
+  async getSavedViews(userId: string): Promise<SavedView[]> {
+    return await db.select().from(savedViews).where(eq(savedViews.userId, userId)).orderBy(savedViews.id);
+  }
+
+  async getSavedView(userId: string, id: number): Promise<SavedView | undefined> {
+    const [view] = await db.select().from(savedViews).where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)));
+    return view;
+  }
+
+  async createSavedView(userId: string, insertView: InsertSavedView): Promise<SavedView> {
+    const [view] = await db
+      .insert(savedViews)
+      .values({ ...insertView, userId })
+      .returning();
+    return view;
+  }
+
+  async updateSavedView(userId: string, id: number, updates: Partial<InsertSavedView>): Promise<SavedView> {
+    const [view] = await db
+      .update(savedViews)
+      .set(updates)
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)))
+      .returning();
+
+    if (!view) {
+      throw new Error("Saved view not found");
+    }
+
+    return view;
+  }
+
+  async deleteSavedView(userId: string, id: number): Promise<void> {
+    await db.delete(savedViews).where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)));
+  }
+
+  // Reconciliations
+  async getReconciliations(userId: string, accountId: number): Promise<Reconciliation[]> {
+    const result = await db
+      .select()
+      .from(reconciliations)
+      .where(and(eq(reconciliations.userId, userId), eq(reconciliations.accountId, accountId)))
+      .orderBy(reconciliations.statementDate, reconciliations.id);
+    return result.reverse();
+  }
+
+  async getReconciliation(userId: string, id: number): Promise<Reconciliation | undefined> {
+    const [reconciliation] = await db.select().from(reconciliations).where(and(eq(reconciliations.id, id), eq(reconciliations.userId, userId)));
+    return reconciliation;
+  }
+
+  // The ticked transactions are locked straight after the statement is recorded; the record is removed again if that fails
+  // Insert the reconciliation and lock its transactions in a single batch. The lock picks up the new id with currval,
+  // which within the batch's session is the id the insert has just taken.
+  async createReconciliation(userId: string, accountId: number, insertReconciliation: InsertReconciliation, transactionIds: number[]): Promise<Reconciliation> {
+    const [[reconciliation]] = await db.batch([
+      db
+        .insert(reconciliations)
+        .values({ ...insertReconciliation, userId, accountId })
+        .returning(),
+      db
+        .update(transactions)
+        .set({ reconciliationId: sql`currval(pg_get_serial_sequence('reconciliations', 'id'))` })
+        .where(and(eq(transactions.userId, userId), inArray(transactions.id, transactionIds), isNull(transactions.reconciliationId))),
+    ]);
+    return reconciliation;
+  }
+
+  // Unlock the transactions and mark the reconciliation reopened in a single batch
+  async reopenReconciliation(userId: string, id: number): Promise<Reconciliation> {
+    const [, [reopened]] = await db.batch([
+      db
+        .update(transactions)
+        .set({ reconciliationId: null })
+        .where(and(eq(transactions.userId, userId), eq(transactions.reconciliationId, id))),
+      db
+        .update(reconciliations)
+        .set({ reopenedAt: new Date() })
+        .where(and(eq(reconciliations.id, id), eq(reconciliations.userId, userId)))
+        .returning(),
+    ]);
+
+    if (!reopened) {
+      throw new Error("Reconciliation not found");
+    }
+    return reopened;
   }
 
   // Budgets
+  // Only expenses and loan repayments dated inside one of the budgets ever count towards them
+  private async getSpendingTransactions(userId: string, userBudgets: Budget[]): Promise<Transaction[]> {
+    const periods = getBudgetedPeriods(userBudgets);
+    if (periods.length === 0) return [];
+    return await db.select().from(transactions).where(and(
+      eq(transactions.userId, userId),
+      inArray(transactions.type, BUDGET_SPENDING_TYPES),
+      or(...periods.map(period => and(gte(transactions.date, period.start), lte(transactions.date, period.end))))
+    ));
+  }
+
+  // Every budget of the user with its derived spending; renewed budgets need their predecessors to work out what was carried in
+  private async getDerivedBudgets(userId: string): Promise<BudgetSpending[]> {
+    const userBudgets = await db.select().from(budgets).where(eq(budgets.userId, userId));
+    const [spendingTransactions, converter] = await Promise.all([
+      this.getSpendingTransactions(userId, userBudgets),
+      this.getCurrencyConverter(userId),
+    ]);
+    return deriveBudgets(userBudgets, spendingTransactions, converter);
+  }
+
   async getBudgets(userId: string): Promise<Budget[]> {
-    return await db.select().from(budgets).where(eq(budgets.userId, userId));
+    const derived = await this.getDerivedBudgets(userId);
+    return derived.map(({ budget }) => budget);
   }
 
   async getBudget(userId: string, id: number): Promise<Budget | undefined> {
-    const [budget] = await db.select().from(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
-    return budget || undefined;
+    const spending = await this.getBudgetSpending(userId, id);
+    return spending?.budget;
+  }
+
+  async getBudgetSpending(userId: string, id: number): Promise<BudgetSpending | undefined> {
+    const derived = await this.getDerivedBudgets(userId);
+    return derived.find(({ budget }) => budget.id === id);
   }
 
   async createBudget(userId: string, insertBudget: InsertBudget): Promise<Budget> {
@@ -332,7 +919,18 @@ export class DatabaseStorage implements IStorage {
       .insert(budgets)
       .values({ ...insertBudget, userId })
       .returning();
-    return budget;
+    return (await this.getBudget(userId, budget.id))!;
+  }
+
+  async createBudgets(userId: string, insertBudgets: InsertBudget[]): Promise<Budget[]> {
+    if (insertBudgets.length === 0) return [];
+    // A single multi-row insert, so a failure leaves none of them behind
+    const created = await db
+      .insert(budgets)
+      .values(insertBudgets.map(insertBudget => ({ ...insertBudget, userId })))
+      .returning();
+    const createdIds = new Set(created.map(budget => budget.id));
+    return (await this.getBudgets(userId)).filter(budget => createdIds.has(budget.id));
   }
 
   async updateBudget(userId: string, id: number, updates: Partial<Budget>): Promise<Budget> {
@@ -345,13 +943,178 @@ export class DatabaseStorage implements IStorage {
     if (!updated) {
       throw new Error("Budget not found");
     }
-    return updated;
+    return (await this.getBudget(userId, updated.id))!;
   }
 
   async deleteBudget(userId: string, id: number): Promise<void> {
     await db.delete(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
   }
 
+  async getDueBudgetRenewals(asOf: Date): Promise<Budget[]> {
+    const successors = alias(budgets, "successors");
+    return await db
+      .select()
+      .from(budgets)
+      .where(
+        and(
+          eq(budgets.autoRenew, true),
+          lt(budgets.endDate, asOf),
+          notExists(db.select().from(successors).where(eq(successors.previousBudgetId, budgets.id)))
+        )
+      );
+  }
+
+  async renewBudget(userId: string, previous: Budget, next: BudgetRenewal): Promise<Budget> {
+    const { id, spent, ...settings } = previous;
+    const [budget] = await db
+      .insert(budgets)
+      .values({ ...settings, ...next, userId, previousBudgetId: previous.id })
+      .returning();
+    return (await this.getBudget(userId, budget.id))!;
+  }
+
+  async getBudgetHistory(userId: string, id: number): Promise<BudgetSpending[]> {
+    const derived = await this.getDerivedBudgets(userId);
+    const chainIds = getBudgetChain(derived.map(({ budget }) => budget), id).map(budget => budget.id);
+    return chainIds.map(chainId => derived.find(({ budget }) => budget.id === chainId)!);
+  }
+
+  // Bring the stored spent and rolloverAmount columns of every budget back in line with the transactions. Users are
+  // done one at a time, so only one user's budgets and spending are in memory at once. Budgets without an owner are
+  // never served and are left alone.
+  async rebuildBudgetSpending(): Promise<BudgetSpendingRebuildResult> {
+    const owners = await db.selectDistinct({ userId: budgets.userId }).from(budgets).where(isNotNull(budgets.userId));
+    const result: BudgetSpendingRebuildResult = { budgets: 0, corrected: 0 };
+
+    for (const { userId } of owners) {
+      const userBudgets = await db.select().from(budgets).where(eq(budgets.userId, userId!));
+      const [spendingTransactions, converter] = await Promise.all([
+        this.getSpendingTransactions(userId!, userBudgets),
+        this.getCurrencyConverter(userId!),
+      ]);
+      const staleBudgets = findStaleBudgets(userBudgets, spendingTransactions, () => converter);
+      if (staleBudgets.length > 0) {
+        const queries: BatchItem<"pg">[] = staleBudgets.map(budget => db
+          .update(budgets)
+          .set({ spent: budget.spent, rolloverAmount: budget.rolloverAmount })
+          .where(eq(budgets.id, budget.id)));
+        await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+      }
+      result.budgets += userBudgets.length;
+      result.corrected += staleBudgets.length;
+    }
+
+    return result;
+  }
+
+  // Budget Templates
+  async getBudgetTemplates(userId: string): Promise<BudgetTemplate[]> {
+    return await db.select().from(budgetTemplates).where(eq(budgetTemplates.userId, userId)).orderBy(budgetTemplates.name);
+  }
+
+  async getBudgetTemplate(userId: string, id: number): Promise<BudgetTemplate | undefined> {
+    const [template] = await db.select().from(budgetTemplates).where(and(eq(budgetTemplates.id, id), eq(budgetTemplates.userId, userId)));
+    return template;
+  }
+
+  async createBudgetTemplate(userId: string, insertTemplate: InsertBudgetTemplate): Promise<BudgetTemplate> {
+    const [template] = await db
+      .insert(budgetTemplates)
+      .values({ ...insertTemplate, userId })
+      .returning();
+    return template;
+  }
+
+  async updateBudgetTemplate(userId: string, id: number, updates: Partial<InsertBudgetTemplate>): Promise<BudgetTemplate> {
+    const [updated] = await db
+      .update(budgetTemplates)
+      .set(updates)
+      .where(and(eq(budgetTemplates.id, id), eq(budgetTemplates.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Budget template not found");
+    }
+    return updated;
+  }
+
+  async deleteBudgetTemplate(userId: string, id: number): Promise<void> {
+    await db.delete(budgetTemplates).where(and(eq(budgetTemplates.id, id), eq(budgetTemplates.userId, userId)));
+  }
+
+  // Categorization rules
+  async getCategorizationRules(userId: string): Promise<CategorizationRule[]> {
+    return await db
+      .select()
+      .from(categorizationRules)
+      .where(eq(categorizationRules.userId, userId))
+      .orderBy(categorizationRules.priority, categorizationRules.id);
+  }
+
+  async getCategorizationRule(userId: string, id: number): Promise<CategorizationRule | undefined> {
+    const [rule] = await db.select().from(categorizationRules).where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
+    return rule;
+  }
+
+  async createCategorizationRule(userId: string, insertRule: InsertCategorizationRule): Promise<CategorizationRule> {
+    const [rule] = await db
+      .insert(categorizationRules)
+      .values({ ...insertRule, userId })
+      .returning();
+    return rule;
+  }
+
+  async updateCategorizationRule(userId: string, id: number, updates: Partial<InsertCategorizationRule>): Promise<CategorizationRule> {
+    const [updated] = await db
+      .update(categorizationRules)
+      .set(updates)
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Categorization rule not found");
+    }
+    return updated;
+  }
+
+  async deleteCategorizationRule(userId: string, id: number): Promise<void> {
+    await db.delete(categorizationRules).where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
+  }
+
+  async categorizeTransactions(userId: string, changes: CategorizationChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const queries: BatchItem<"pg">[] = changes.map(({ transactionId, after }) => db
+      .update(transactions)
+      .set(after)
+      .where(and(eq(transactions.id, transactionId), eq(transactions.userId, userId), isNull(transactions.reconciliationId))));
+    await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+  }
+
+  // Envelopes
+  async getEnvelopeMoves(userId: string, month: string): Promise<EnvelopeMove[]> {
+    return await db
+      .select()
+      .from(envelopeMoves)
+      .where(and(eq(envelopeMoves.userId, userId), eq(envelopeMoves.month, month)))
+      .orderBy(envelopeMoves.id);
+  }
+
+  async recordEnvelopeMove(userId: string, move: Omit<InsertEnvelopeMove, "icon">, changes: EnvelopeBudgetChanges): Promise<EnvelopeMove> {
+    // The budget changes and the log entry go in as one batch, so the log never disagrees with the envelopes
+    const queries: BatchItem<"pg">[] = changes.updates.map(({ id, amount }) => db
+      .update(budgets)
+      .set({ amount })
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId))));
+    if (changes.create) {
+      queries.push(db.insert(budgets).values({ ...changes.create, userId }));
+    }
+    queries.push(db.insert(envelopeMoves).values({ ...move, userId }).returning());
+
+    const results = await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+    const [created] = results[results.length - 1] as EnvelopeMove[];
+    return created;
+  }
+
   // Savings Goals
   async getSavingsGoals(userId: string): Promise<SavingsGoal[]> {
     return await db.select().from(savingsGoals).where(eq(savingsGoals.userId, userId));
@@ -402,7 +1165,7 @@ export class DatabaseStorage implements IStorage {
     
     // Only calculate monthly payment for compound interest loans
     if (insertLoan.interestType === "compound") {
-      monthlyPayment = this.calculateAmortizedPayment(
+      monthlyPayment = calculateAmortizedPayment(
         parseFloat(insertLoan.principal),
         parseFloat(insertLoan.interestRate || "0"),
         insertLoan.termMonths,
@@ -452,7 +1215,7 @@ export class DatabaseStorage implements IStorage {
       
       if (interestType === "compound") {
         const compoundFrequency = updates.compoundFrequency || currentLoan.compoundFrequency || "monthly";
-        const monthlyPayment = this.calculateAmortizedPayment(principal, interestRate, termMonths, compoundFrequency);
+        const monthlyPayment = calculateAmortizedPayment(principal, interestRate, termMonths, compoundFrequency);
         updates.monthlyPayment = monthlyPayment.toFixed(2);
       } else {
         // Simple interest loans don't use monthly payments or compound frequency
@@ -494,14 +1257,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteLoan(userId: string, id: number): Promise<void> {
-    // Delete corresponding loan_received transaction first
-    await db.delete(transactions).where(and(
+    const loanReceived = and(
       eq(transactions.loanId, id),
       eq(transactions.userId, userId),
       eq(transactions.type, "loan_received")
+    );
+
+    // Files attached to the loan or to its loan_received transaction; the rows themselves cascade
+    const removedAttachments = await db.select().from(attachments).where(and(
+      eq(attachments.userId, userId),
+      or(eq(attachments.loanId, id), inArray(attachments.transactionId, db.select({ id: transactions.id }).from(transactions).where(loanReceived)))
     ));
+
+    // Delete corresponding loan_received transaction first
+    await db.delete(transactions).where(loanReceived);
     
     await db.delete(loans).where(and(eq(loans.id, id), eq(loans.userId, userId)));
+    await removeAttachmentFiles(removedAttachments);
   }
 
   // Loan balance management for simple interest loans
@@ -520,161 +1292,732 @@ export class DatabaseStorage implements IStorage {
       .orderBy(transactions.date);
   }
 
-  async calculateLoanInterest(userId: string, loan: Loan): Promise<{
-    totalInterest: number;
-    currentBalance: number;
-    monthlyPayment: number;
-    payoffDate: Date | null;
-  }> {
-    const principal = parseFloat(loan.principal);
-    const currentBalance = await this.calculateDynamicBalance(userId, loan);
-    const annualRate = parseFloat(loan.interestRate) / 100;
-    const termMonths = loan.termMonths || 12;
-    
-    if (loan.interestType === "simple") {
-      // Simple interest calculation: I = P * R * T
-      const termYears = termMonths / 12;
-      const totalInterest = principal * annualRate * termYears;
-      const totalAmount = principal + totalInterest;
-      const suggestedMonthlyPayment = totalAmount / termMonths;
-      
-      return {
-        totalInterest,
-        currentBalance,
-        monthlyPayment: suggestedMonthlyPayment, // Suggested payment for simple interest
-        payoffDate: null, // Will be calculated based on actual payments
-      };
-    } else {
-      // Compound interest (amortized loan) calculation
-      const monthlyPayment = parseFloat(loan.monthlyPayment || "0");
-      const now = new Date();
-      
-      let totalInterest = 0;
-      let payoffDate: Date | null = null;
-      
-      // For amortized loans with monthly payments
-      if (monthlyPayment > 0) {
-        const monthlyRate = annualRate / 12;
-        
-        if (monthlyRate > 0) {
-          // Calculate remaining months to pay off the loan
-          const remainingMonths = Math.ceil(
-            -Math.log(1 - (currentBalance * monthlyRate) / monthlyPayment) / 
-            Math.log(1 + monthlyRate)
-          );
-          
-          if (remainingMonths > 0 && isFinite(remainingMonths)) {
-            // Calculate total interest that will be paid
-            totalInterest = (monthlyPayment * remainingMonths) - currentBalance;
-            
-            // Calculate payoff date
-            payoffDate = new Date(now);
-            payoffDate.setMonth(payoffDate.getMonth() + remainingMonths);
-          }
-        } else {
-          // No interest case
-          const remainingMonths = Math.ceil(currentBalance / monthlyPayment);
-          payoffDate = new Date(now);
-          payoffDate.setMonth(payoffDate.getMonth() + remainingMonths);
-        }
+  // Repayments made in another currency count in the loan's currency at the rate on the day they were paid
+  private async getLoanRepaymentsInLoanCurrency(userId: string, loan: Loan): Promise<Transaction[]> {
+    const [repayments, converter] = await Promise.all([this.getLoanRepayments(userId, loan.id), this.getCurrencyConverter(userId)]);
+    return repayments.map(repayment => convertTransaction(repayment, loan.currency, converter));
+  }
+
+  async calculateLoanInterest(userId: string, loan: Loan): Promise<LoanInterestSummary> {
+    return calculateLoanInterest(loan, await this.getLoanRepaymentsInLoanCurrency(userId, loan));
+  }
+
+  async calculateLoanProgress(userId: string, loan: Loan): Promise<LoanProgressSummary> {
+    return calculateLoanProgress(loan, await this.getLoanRepaymentsInLoanCurrency(userId, loan));
+  }
+
+  // Assets
+  async getAssets(userId: string): Promise<Asset[]> {
+    return await db.select().from(assets).where(eq(assets.userId, userId)).orderBy(assets.id);
+  }
+
+  async getAsset(userId: string, id: number): Promise<Asset | undefined> {
+    const [asset] = await db.select().from(assets).where(and(eq(assets.id, id), eq(assets.userId, userId)));
+    return asset;
+  }
+
+  async createAsset(userId: string, { value, ...insertAsset }: InsertAsset): Promise<Asset> {
+    const [asset] = await db
+      .insert(assets)
+      .values({ ...insertAsset, userId })
+      .returning();
+    if (value === undefined) return asset;
+
+    try {
+      await db.insert(assetValuations).values({ userId, assetId: asset.id, value, valuedAt: new Date() });
+    } catch (error) {
+      await db.delete(assets).where(eq(assets.id, asset.id));
+      throw error;
+    }
+    return asset;
+  }
+
+  async updateAsset(userId: string, id: number, updates: Partial<Omit<InsertAsset, "value">>): Promise<Asset> {
+    const [updated] = await db
+      .update(assets)
+      .set(updates)
+      .where(and(eq(assets.id, id), eq(assets.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Asset not found");
+    }
+    return updated;
+  }
+
+  async deleteAsset(userId: string, id: number): Promise<void> {
+    await db.delete(assets).where(and(eq(assets.id, id), eq(assets.userId, userId)));
+  }
+
+  async getAssetValuations(userId: string, assetId?: number): Promise<AssetValuation[]> {
+    return await db.select().from(assetValuations)
+      .where(and(eq(assetValuations.userId, userId), assetId !== undefined ? eq(assetValuations.assetId, assetId) : undefined))
+      .orderBy(desc(assetValuations.valuedAt), desc(assetValuations.id));
+  }
+
+  async createAssetValuation(userId: string, assetId: number, valuation: InsertAssetValuation): Promise<AssetValuation> {
+    const [created] = await db
+      .insert(assetValuations)
+      .values({ ...valuation, userId, assetId })
+      .returning();
+    return created;
+  }
+
+  async deleteAssetValuation(userId: string, id: number): Promise<void> {
+    await db.delete(assetValuations).where(and(eq(assetValuations.id, id), eq(assetValuations.userId, userId)));
+  }
+
+  // Investments
+  async getInvestments(userId: string): Promise<Investment[]> {
+    return await db.select().from(investments).where(eq(investments.userId, userId)).orderBy(investments.id);
+  }
+
+  async getInvestment(userId: string, id: number): Promise<Investment | undefined> {
+    const [investment] = await db.select().from(investments).where(and(eq(investments.id, id), eq(investments.userId, userId)));
+    return investment;
+  }
+
+  async createInvestment(userId: string, insertInvestment: InsertInvestment): Promise<Investment> {
+    const [investment] = await db
+      .insert(investments)
+      .values({ ...insertInvestment, userId })
+      .returning();
+    return investment;
+  }
+
+  async updateInvestment(userId: string, id: number, updates: Partial<InsertInvestment>): Promise<Investment> {
+    const [updated] = await db
+      .update(investments)
+      .set(updates)
+      .where(and(eq(investments.id, id), eq(investments.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Investment not found");
+    }
+    return updated;
+  }
+
+  async deleteInvestment(userId: string, id: number): Promise<void> {
+    await db.delete(investments).where(and(eq(investments.id, id), eq(investments.userId, userId)));
+  }
+
+  async getInvestmentLots(userId: string, investmentId?: number): Promise<InvestmentLot[]> {
+    return await db.select().from(investmentLots)
+      .where(and(eq(investmentLots.userId, userId), investmentId !== undefined ? eq(investmentLots.investmentId, investmentId) : undefined))
+      .orderBy(investmentLots.tradedAt, investmentLots.id);
+  }
+
+  async createInvestmentLot(userId: string, investmentId: number, lot: InsertInvestmentLot): Promise<InvestmentLot> {
+    const [created] = await db
+      .insert(investmentLots)
+      .values({ ...lot, userId, investmentId })
+      .returning();
+    return created;
+  }
+
+  async deleteInvestmentLot(userId: string, id: number): Promise<void> {
+    await db.delete(investmentLots).where(and(eq(investmentLots.id, id), eq(investmentLots.userId, userId)));
+  }
+
+  async getInvestmentPrices(userId: string, investmentId?: number): Promise<InvestmentPrice[]> {
+    return await db.select().from(investmentPrices)
+      .where(and(eq(investmentPrices.userId, userId), investmentId !== undefined ? eq(investmentPrices.investmentId, investmentId) : undefined))
+      .orderBy(desc(investmentPrices.pricedAt), desc(investmentPrices.id));
+  }
+
+  async createInvestmentPrice(userId: string, investmentId: number, price: InsertInvestmentPrice): Promise<InvestmentPrice> {
+    const [created] = await db
+      .insert(investmentPrices)
+      .values({ ...price, userId, investmentId })
+      .returning();
+    return created;
+  }
+
+  async deleteInvestmentPrice(userId: string, id: number): Promise<void> {
+    await db.delete(investmentPrices).where(and(eq(investmentPrices.id, id), eq(investmentPrices.userId, userId)));
+  }
+
+  // Attachments
+  async getTransactionAttachments(userId: string, transactionId: number): Promise<Attachment[]> {
+    return await db.select().from(attachments)
+      .where(and(eq(attachments.userId, userId), eq(attachments.transactionId, transactionId)))
+      .orderBy(attachments.id);
+  }
+
+  async getLoanAttachments(userId: string, loanId: number): Promise<Attachment[]> {
+    return await db.select().from(attachments)
+      .where(and(eq(attachments.userId, userId), eq(attachments.loanId, loanId)))
+      .orderBy(attachments.id);
+  }
+
+  async getAttachment(userId: string, id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(and(eq(attachments.id, id), eq(attachments.userId, userId)));
+    return attachment;
+  }
+
+  async createAttachment(userId: string, insertAttachment: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await db
+      .insert(attachments)
+      .values({ ...insertAttachment, userId })
+      .returning();
+    return attachment;
+  }
+
+  async deleteAttachment(userId: string, id: number): Promise<void> {
+    const removed = await db.delete(attachments).where(and(eq(attachments.id, id), eq(attachments.userId, userId))).returning();
+    await removeAttachmentFiles(removed);
+  }
+
+  // Recurring Transactions
+  async getRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+    return await db.select().from(recurringTransactions).where(eq(recurringTransactions.userId, userId)).orderBy(recurringTransactions.startDate);
+  }
+
+  async getRecurringTransaction(userId: string, id: number): Promise<RecurringTransaction | undefined> {
+    const [rule] = await db.select().from(recurringTransactions).where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+    return rule;
+  }
+
+  async createRecurringTransaction(userId: string, insertRule: InsertRecurringTransaction): Promise<RecurringTransaction> {
+    const [rule] = await db
+      .insert(recurringTransactions)
+      .values({ ...insertRule, userId, nextRunDate: insertRule.startDate })
+      .returning();
+    return rule;
+  }
+
+  async updateRecurringTransaction(userId: string, id: number, updates: Partial<RecurringTransaction>): Promise<RecurringTransaction> {
+    const [updated] = await db
+      .update(recurringTransactions)
+      .set(updates)
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Recurring transaction not found");
+    }
+    return updated;
+  }
+
+  async deleteRecurringTransaction(userId: string, id: number): Promise<void> {
+    await db.delete(recurringTransactions).where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+  }
+
+  // Rules of every user whose next occurrence is on or before the given date
+  async getDueRecurringTransactions(asOf: Date, userId?: string): Promise<RecurringTransaction[]> {
+    return await db
+      .select()
+      .from(recurringTransactions)
+      .where(
+        and(
+          userId ? eq(recurringTransactions.userId, userId) : undefined,
+          eq(recurringTransactions.isActive, true),
+          isNotNull(recurringTransactions.nextRunDate),
+          lte(recurringTransactions.nextRunDate, asOf)
+        )
+      );
+  }
+
+  async advanceRecurringTransaction(userId: string, id: number, expectedCount: number, progress: RecurringProgress): Promise<boolean> {
+    const advanced = await db
+      .update(recurringTransactions)
+      .set(progress)
+      .where(and(
+        eq(recurringTransactions.id, id),
+        eq(recurringTransactions.userId, userId),
+        eq(recurringTransactions.occurrenceCount, expectedCount)
+      ))
+      .returning({ id: recurringTransactions.id });
+    return advanced.length > 0;
+  }
+
+  // Data export / restore
+  async exportUserData(userId: string): Promise<UserDataSnapshot> {
+    const [userAccounts, userCategories, userPayees, userSavedViews, userReconciliations, userTransactions, userBudgets, userTemplates, userEnvelopeMoves, userRules, userGoals, userLoans, userRecurring, userRates, storedSettings, userAssets, userValuations, userSnapshots, userInvestments, userLots, userPrices, converter] = await Promise.all([
+      db.select().from(accounts).where(eq(accounts.userId, userId)).orderBy(accounts.id),
+      db.select().from(categories).where(eq(categories.userId, userId)).orderBy(categories.id),
+      db.select().from(payees).where(eq(payees.userId, userId)).orderBy(payees.id),
+      db.select().from(savedViews).where(eq(savedViews.userId, userId)).orderBy(savedViews.id),
+      db.select().from(reconciliations).where(eq(reconciliations.userId, userId)).orderBy(reconciliations.id),
+      db.select().from(transactions).where(eq(transactions.userId, userId)).orderBy(transactions.date),
+      db.select().from(budgets).where(eq(budgets.userId, userId)),
+      db.select().from(budgetTemplates).where(eq(budgetTemplates.userId, userId)).orderBy(budgetTemplates.id),
+      db.select().from(envelopeMoves).where(eq(envelopeMoves.userId, userId)).orderBy(envelopeMoves.id),
+      db.select().from(categorizationRules).where(eq(categorizationRules.userId, userId)).orderBy(categorizationRules.id),
+      db.select().from(savingsGoals).where(eq(savingsGoals.userId, userId)),
+      db.select().from(loans).where(eq(loans.userId, userId)),
+      db.select().from(recurringTransactions).where(eq(recurringTransactions.userId, userId)),
+      db.select().from(exchangeRates).where(eq(exchangeRates.userId, userId)).orderBy(exchangeRates.id),
+      db.select().from(userSettings).where(eq(userSettings.userId, userId)),
+      db.select().from(assets).where(eq(assets.userId, userId)).orderBy(assets.id),
+      db.select().from(assetValuations).where(eq(assetValuations.userId, userId)).orderBy(assetValuations.id),
+      db.select().from(netWorthSnapshots).where(eq(netWorthSnapshots.userId, userId)).orderBy(netWorthSnapshots.month),
+      db.select().from(investments).where(eq(investments.userId, userId)).orderBy(investments.id),
+      db.select().from(investmentLots).where(eq(investmentLots.userId, userId)).orderBy(investmentLots.id),
+      db.select().from(investmentPrices).where(eq(investmentPrices.userId, userId)).orderBy(investmentPrices.id),
+      this.getCurrencyConverter(userId),
+    ]);
+
+    return {
+      accounts: userAccounts,
+      categories: userCategories,
+      payees: userPayees,
+      savedViews: userSavedViews,
+      reconciliations: userReconciliations,
+      transactions: userTransactions,
+      budgets: deriveBudgets(userBudgets, userTransactions, converter).map(({ budget }) => budget),
+      budgetTemplates: userTemplates,
+      envelopeMoves: userEnvelopeMoves,
+      categorizationRules: userRules,
+      savingsGoals: userGoals,
+      loans: userLoans,
+      recurringTransactions: userRecurring,
+      exchangeRates: userRates,
+      userSettings: storedSettings,
+      assets: userAssets,
+      assetValuations: userValuations,
+      netWorthSnapshots: userSnapshots,
+      investments: userInvestments,
+      investmentLots: userLots,
+      investmentPrices: userPrices,
+    };
+  }
+
+  async restoreUserData(userId: string, data: UserDataRestore, options: { replace: boolean }): Promise<UserDataRestoreSummary> {
+    // Accounts, reconciliations, goals, loans, payees, assets and investments go in first so that rows pointing at them can be
+    // remapped to their new ids
+    const accountIdMap = new Map<number, number>();
+    for (const { id, ...account } of data.accounts) {
+      const [created] = await db.insert(accounts).values({ ...account, userId }).returning();
+      accountIdMap.set(id, created.id);
+    }
+
+    // Reconciliations of accounts missing from the archive are dropped; their transactions simply restore unlocked
+    const reconciliationIdMap = new Map<number, number>();
+    for (const { id, ...reconciliation } of data.reconciliations) {
+      const accountId = accountIdMap.get(reconciliation.accountId);
+      if (accountId === undefined) continue;
+      const [created] = await db.insert(reconciliations).values({ ...reconciliation, userId, accountId }).returning();
+      reconciliationIdMap.set(id, created.id);
+    }
+
+    const goalIdMap = new Map<number, number>();
+    for (const { id, ...goal } of data.savingsGoals) {
+      const [created] = await db.insert(savingsGoals).values({ ...goal, userId }).returning();
+      goalIdMap.set(id, created.id);
+    }
+
+    const loanIdMap = new Map<number, number>();
+    for (const { id, ...loan } of data.loans) {
+      const [created] = await db.insert(loans).values({ ...loan, userId }).returning();
+      loanIdMap.set(id, created.id);
+    }
+
+    const payeeIdMap = new Map<number, number>();
+    for (const { id, ...payee } of data.payees) {
+      const [created] = await db.insert(payees).values({ ...payee, userId }).returning();
+      payeeIdMap.set(id, created.id);
+    }
+
+    const assetIdMap = new Map<number, number>();
+    for (const { id, ...asset } of data.assets) {
+      const [created] = await db.insert(assets).values({ ...asset, userId }).returning();
+      assetIdMap.set(id, created.id);
+    }
+
+    const investmentIdMap = new Map<number, number>();
+    for (const { id, ...investment } of data.investments) {
+      const [created] = await db.insert(investments).values({ ...investment, userId }).returning();
+      investmentIdMap.set(id, created.id);
+    }
+
+    // Budgets go in oldest first so each renewed budget can point at its restored predecessor. Merging follows the
+    // POST /api/budgets rule, as migrating a guest does: an archived budget overlapping one the account already has
+    // is folded into it, and spending is derived so its transactions count towards the kept budget.
+    const budgetIdMap = new Map<number, number>();
+    const keptBudgets: Budget[] = options.replace ? [] : await db.select().from(budgets).where(eq(budgets.userId, userId));
+    const mergedBudgets: UserDataRestoreSummary["mergedBudgets"] = [];
+    for (const { id, ...budget } of [...data.budgets].sort((a, b) => a.id - b.id)) {
+      const keptBudget = findConflictingBudget(keptBudgets, budget);
+      if (keptBudget) {
+        mergedBudgets.push({ category: budget.category, keptBudgetId: keptBudget.id });
+        continue;
       }
-      
-      return {
-        totalInterest: Math.max(0, totalInterest),
-        currentBalance,
-        monthlyPayment,
-        payoffDate
-      };
-    }
-  }
-
-  // Calculate loan progress for any loan type with dynamic balance
-  async calculateLoanProgress(userId: string, loan: Loan): Promise<{
-    principalProgress: number | null;
-    interestProgress: number | null;
-    totalPaid: number;
-    principalPaid: number;
-    interestPaid: number;
-    currentBalance: number;
-  }> {
-    // Get all loan repayment transactions
-    const repayments = await this.getLoanRepayments(userId, loan.id);
-    const totalPaid = repayments.reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
-
-    const principal = parseFloat(loan.principal);
-    let principalProgress = 0;
-    let interestProgress = 0;
-    let principalPaid = 0;
-    let interestPaid = 0;
-
-    if (loan.interestType === "simple") {
-      const annualRate = parseFloat(loan.interestRate) / 100;
-      const termYears = (loan.termMonths || 12) / 12;
-      const totalInterest = principal * annualRate * termYears;
-
-      // For simple interest, payments go to interest first, then principal
-      if (totalPaid <= totalInterest) {
-        // Still paying off interest
-        interestPaid = totalPaid;
-        principalPaid = 0;
+      const previousBudgetId = budget.previousBudgetId != null ? budgetIdMap.get(budget.previousBudgetId) ?? null : null;
+      const [created] = await db.insert(budgets).values({ ...budget, userId, previousBudgetId }).returning();
+      budgetIdMap.set(id, created.id);
+      keptBudgets.push(created);
+    }
+
+    const remapAccountId = (accountId: number | null | undefined) => accountId != null ? accountIdMap.get(accountId) ?? null : null;
+    const remapGoalId = (goalId: number | null | undefined) => goalId != null ? goalIdMap.get(goalId) ?? null : null;
+    const remapLoanId = (loanId: number | null | undefined) => loanId != null ? loanIdMap.get(loanId) ?? null : null;
+    const remapReconciliationId = (reconciliationId: number | null) => reconciliationId != null ? reconciliationIdMap.get(reconciliationId) ?? null : null;
+    const remapPayeeId = (payeeId: number | null | undefined) => payeeId != null ? payeeIdMap.get(payeeId) ?? null : null;
+    const remapInvestmentId = (investmentId: number | null | undefined) => investmentId != null ? investmentIdMap.get(investmentId) ?? null : null;
+    const restoredAccountIds = Array.from(accountIdMap.values());
+    const restoredReconciliationIds = Array.from(reconciliationIdMap.values());
+    const restoredGoalIds = Array.from(goalIdMap.values());
+    const restoredLoanIds = Array.from(loanIdMap.values());
+    const restoredPayeeIds = Array.from(payeeIdMap.values());
+    const restoredBudgetIds = Array.from(budgetIdMap.values());
+    const restoredAssetIds = Array.from(assetIdMap.values());
+    // Valuations of assets missing from the archive are dropped
+    const restoredValuations = data.assetValuations.filter(valuation => assetIdMap.has(valuation.assetId));
+    const restoredInvestmentIds = Array.from(investmentIdMap.values());
+    // So are lots and prices of investments missing from it
+    const restoredLots = data.investmentLots.filter(lot => investmentIdMap.has(lot.investmentId));
+    const restoredPrices = data.investmentPrices.filter(price => investmentIdMap.has(price.investmentId));
+
+    // Categories are matched on their value: in merge mode the account's own category wins over the archived one.
+    // Parents are linked up by value once every category is in, since a parent can come after its subcategory.
+    const keptCategoryValues = new Set(options.replace ? [] : (await this.getCategories(userId)).map(category => category.value));
+    const restoredCategories = data.categories.filter(category => !keptCategoryValues.has(category.value));
+    // Rates work the same way: the account's own rate for a pair and day wins over the archived one
+    const rateKey = (rate: Pick<ExchangeRate, "fromCurrency" | "toCurrency" | "effectiveDate">) =>
+      `${rate.fromCurrency}:${rate.toCurrency}:${new Date(rate.effectiveDate).getTime()}`;
+    const keptRateKeys = new Set(options.replace ? [] : (await this.getExchangeRates(userId)).map(rateKey));
+    const restoredRates = data.exchangeRates.filter(rate => !keptRateKeys.has(rateKey(rate)));
+    // And the account's own net worth snapshot for a month wins over the archived one
+    const keptSnapshotMonths = new Set(options.replace ? [] : (await this.getNetWorthSnapshots(userId)).map(snapshot => snapshot.month));
+    const restoredSnapshots = data.netWorthSnapshots.filter(snapshot => !keptSnapshotMonths.has(snapshot.month));
+    // Merging keeps the account's settings if it has any; replacing takes the archived ones
+    const [currentSettings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    const restoredSettings = options.replace || !currentSettings ? data.userSettings.slice(0, 1) : [];
+    // A recurring rule the account already has would post every occurrence twice, so merging skips it
+    const keptRuleIds = new Map(options.replace ? [] : (await db.select().from(recurringTransactions).where(eq(recurringTransactions.userId, userId)))
+      .map(rule => [recurringRuleKey(rule), rule.id]));
+    const skippedRecurringTransactions: UserDataRestoreSummary["skippedRecurringTransactions"] = [];
+    const restoredRecurring = data.recurringTransactions.filter(rule => {
+      const keptRuleId = keptRuleIds.get(recurringRuleKey(rule));
+      if (keptRuleId === undefined) return true;
+      skippedRecurringTransactions.push({ description: rule.template.description, keptRuleId });
+      return false;
+    });
+    const archivedCategoryValues = new Map(data.categories.map(category => [category.id, category.value]));
+
+    // Replacing clears every transaction and loan, and their attachments with them; the files go once the batch has
+    // run. Attachments on rows the archive brings back are detached first and re-linked to the restored rows, and
+    // their transactions keep their ids.
+    const userAttachments = options.replace ? await db.select().from(attachments).where(eq(attachments.userId, userId)) : [];
+    const attachedTransactionIds = userAttachments.flatMap(attachment => attachment.transactionId != null ? [attachment.transactionId] : []);
+    const keptAttachments = userAttachments.length === 0 ? [] : findKeptAttachments(userAttachments, {
+      transactions: attachedTransactionIds.length === 0 ? [] : await db.select().from(transactions)
+        .where(and(eq(transactions.userId, userId), inArray(transactions.id, attachedTransactionIds))),
+      loans: await db.select().from(loans).where(eq(loans.userId, userId)),
+    }, data);
+    const replacedAttachments = userAttachments.filter(attachment => !keptAttachments.includes(attachment));
+    const keptTransactionIds = new Set(keptAttachments.flatMap(attachment => attachment.transactionId != null ? [attachment.transactionId] : []));
+
+    // Clearing the old data and inserting everything else runs as a single batch, so a failure leaves the account untouched
+    const queries: BatchItem<"pg">[] = [];
+    if (keptAttachments.length > 0) {
+      queries.push(db.update(attachments).set({ transactionId: null, loanId: null })
+        .where(inArray(attachments.id, keptAttachments.map(attachment => attachment.id))));
+    }
+    if (options.replace) {
+      queries.push(
+        db.delete(transactions).where(eq(transactions.userId, userId)),
+        db.delete(recurringTransactions).where(eq(recurringTransactions.userId, userId)),
+        db.delete(budgetTemplates).where(eq(budgetTemplates.userId, userId)),
+        db.delete(envelopeMoves).where(eq(envelopeMoves.userId, userId)),
+        db.delete(categorizationRules).where(eq(categorizationRules.userId, userId)),
+        db.delete(savedViews).where(eq(savedViews.userId, userId)),
+        db.delete(exchangeRates).where(eq(exchangeRates.userId, userId)),
+        db.delete(userSettings).where(eq(userSettings.userId, userId)),
+        db.delete(netWorthSnapshots).where(eq(netWorthSnapshots.userId, userId)),
+        db.delete(assetValuations).where(eq(assetValuations.userId, userId)),
+        db.delete(assets).where(and(eq(assets.userId, userId), notInArray(assets.id, restoredAssetIds))),
+        db.delete(investmentPrices).where(eq(investmentPrices.userId, userId)),
+        db.delete(investmentLots).where(eq(investmentLots.userId, userId)),
+        db.delete(investments).where(and(eq(investments.userId, userId), notInArray(investments.id, restoredInvestmentIds))),
+        db.delete(categories).where(eq(categories.userId, userId)),
+        db.delete(budgets).where(and(eq(budgets.userId, userId), notInArray(budgets.id, restoredBudgetIds))),
+        db.delete(savingsGoals).where(and(eq(savingsGoals.userId, userId), notInArray(savingsGoals.id, restoredGoalIds))),
+        db.delete(loans).where(and(eq(loans.userId, userId), notInArray(loans.id, restoredLoanIds))),
+        db.delete(payees).where(and(eq(payees.userId, userId), notInArray(payees.id, restoredPayeeIds))),
+        db.delete(reconciliations).where(and(eq(reconciliations.userId, userId), notInArray(reconciliations.id, restoredReconciliationIds))),
+        db.delete(accounts).where(and(eq(accounts.userId, userId), notInArray(accounts.id, restoredAccountIds))),
+      );
+    }
+    if (data.transactions.length > 0) {
+      queries.push(db.insert(transactions).values(data.transactions.map(({ id, ...transaction }) => ({
+        ...transaction,
+        ...(keptTransactionIds.has(id) ? { id } : {}),
+        userId,
+        savingsGoalId: remapGoalId(transaction.savingsGoalId),
+        loanId: remapLoanId(transaction.loanId),
+        accountId: remapAccountId(transaction.accountId),
+        toAccountId: remapAccountId(transaction.toAccountId),
+        reconciliationId: remapReconciliationId(transaction.reconciliationId),
+        payeeId: remapPayeeId(transaction.payeeId),
+        investmentId: remapInvestmentId(transaction.investmentId),
+      }))));
+    }
+    if (restoredCategories.length > 0) {
+      queries.push(db.insert(categories).values(restoredCategories.map(({ id, ...category }) => ({ ...category, userId, parentId: null }))));
+      const parent = alias(categories, "parent");
+      for (const category of restoredCategories) {
+        const parentValue = category.parentId != null ? archivedCategoryValues.get(category.parentId) : undefined;
+        if (parentValue === undefined) continue;
+        queries.push(db
+          .update(categories)
+          .set({ parentId: sql`(${db.select({ id: parent.id }).from(parent).where(and(eq(parent.userId, userId), eq(parent.value, parentValue)))})` })
+          .where(and(eq(categories.userId, userId), eq(categories.value, category.value))));
+      }
+    }
+    if (data.budgetTemplates.length > 0) {
+      queries.push(db.insert(budgetTemplates).values(data.budgetTemplates.map(({ id, ...template }) => ({ ...template, userId }))));
+    }
+    if (data.envelopeMoves.length > 0) {
+      queries.push(db.insert(envelopeMoves).values(data.envelopeMoves.map(({ id, ...move }) => ({ ...move, userId }))));
+    }
+    if (data.categorizationRules.length > 0) {
+      queries.push(db.insert(categorizationRules).values(data.categorizationRules.map(({ id, ...rule }) => ({
+        ...rule,
+        userId,
+        savingsGoalId: remapGoalId(rule.savingsGoalId),
+        loanId: remapLoanId(rule.loanId),
+      }))));
+    }
+    if (data.savedViews.length > 0) {
+      queries.push(db.insert(savedViews).values(data.savedViews.map(({ id, ...view }) => ({
+        ...view,
+        userId,
+        filters: remapSavedViewFilters(view.filters, { payeeId: remapPayeeId, accountId: remapAccountId, savingsGoalId: remapGoalId, loanId: remapLoanId }),
+      }))));
+    }
+    if (restoredRates.length > 0) {
+      queries.push(db.insert(exchangeRates).values(restoredRates.map(({ id, ...rate }) => ({ ...rate, userId }))));
+    }
+    if (restoredSettings.length > 0) {
+      queries.push(db.insert(userSettings).values({ ...restoredSettings[0], userId }));
+    }
+    if (restoredValuations.length > 0) {
+      queries.push(db.insert(assetValuations).values(restoredValuations.map(({ id, ...valuation }) => ({
+        ...valuation,
+        userId,
+        assetId: assetIdMap.get(valuation.assetId)!,
+      }))));
+    }
+    if (restoredLots.length > 0) {
+      queries.push(db.insert(investmentLots).values(restoredLots.map(({ id, ...lot }) => ({
+        ...lot,
+        userId,
+        investmentId: investmentIdMap.get(lot.investmentId)!,
+      }))));
+    }
+    if (restoredPrices.length > 0) {
+      queries.push(db.insert(investmentPrices).values(restoredPrices.map(({ id, ...price }) => ({
+        ...price,
+        userId,
+        investmentId: investmentIdMap.get(price.investmentId)!,
+      }))));
+    }
+    if (restoredSnapshots.length > 0) {
+      queries.push(db.insert(netWorthSnapshots).values(restoredSnapshots.map(({ id, ...snapshot }) => ({ ...snapshot, userId }))));
+    }
+    if (restoredRecurring.length > 0) {
+      queries.push(db.insert(recurringTransactions).values(restoredRecurring.map(({ id, ...rule }) => ({
+        ...rule,
+        userId,
+        template: {
+          ...rule.template,
+          savingsGoalId: remapGoalId(rule.template.savingsGoalId) ?? undefined,
+          loanId: remapLoanId(rule.template.loanId),
+          accountId: remapAccountId(rule.template.accountId),
+          toAccountId: remapAccountId(rule.template.toAccountId),
+          payeeId: remapPayeeId(rule.template.payeeId),
+          investmentId: remapInvestmentId(rule.template.investmentId),
+        },
+      }))));
+    }
+
+    for (const attachment of keptAttachments) {
+      queries.push(db.update(attachments)
+        .set({ transactionId: attachment.transactionId, loanId: remapLoanId(attachment.loanId) })
+        .where(eq(attachments.id, attachment.id)));
+    }
+
+    try {
+      if (queries.length > 0) {
+        await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
+      }
+    } catch (error) {
+      // Roll back the accounts, reconciliations, goals, loans, payees, assets, investments and budgets inserted ahead of the batch
+      if (restoredInvestmentIds.length > 0) {
+        await db.delete(investments).where(and(eq(investments.userId, userId), inArray(investments.id, restoredInvestmentIds)));
+      }
+      if (restoredAssetIds.length > 0) {
+        await db.delete(assets).where(and(eq(assets.userId, userId), inArray(assets.id, restoredAssetIds)));
+      }
+      if (restoredPayeeIds.length > 0) {
+        await db.delete(payees).where(and(eq(payees.userId, userId), inArray(payees.id, restoredPayeeIds)));
+      }
+      if (restoredBudgetIds.length > 0) {
+        await db.delete(budgets).where(and(eq(budgets.userId, userId), inArray(budgets.id, restoredBudgetIds)));
+      }
+      if (restoredGoalIds.length > 0) {
+        await db.delete(savingsGoals).where(and(eq(savingsGoals.userId, userId), inArray(savingsGoals.id, restoredGoalIds)));
+      }
+      if (restoredLoanIds.length > 0) {
+        await db.delete(loans).where(and(eq(loans.userId, userId), inArray(loans.id, restoredLoanIds)));
+      }
+      if (restoredReconciliationIds.length > 0) {
+        await db.delete(reconciliations).where(and(eq(reconciliations.userId, userId), inArray(reconciliations.id, restoredReconciliationIds)));
+      }
+      if (restoredAccountIds.length > 0) {
+        await db.delete(accounts).where(and(eq(accounts.userId, userId), inArray(accounts.id, restoredAccountIds)));
+      }
+      throw error;
+    }
+    await removeAttachmentFiles(replacedAttachments);
+
+    const restored: UserDataRestoreResult = {
+      accounts: data.accounts.length,
+      categories: restoredCategories.length,
+      payees: data.payees.length,
+      savedViews: data.savedViews.length,
+      reconciliations: restoredReconciliationIds.length,
+      transactions: data.transactions.length,
+      budgets: budgetIdMap.size,
+      budgetTemplates: data.budgetTemplates.length,
+      envelopeMoves: data.envelopeMoves.length,
+      categorizationRules: data.categorizationRules.length,
+      savingsGoals: data.savingsGoals.length,
+      loans: data.loans.length,
+      recurringTransactions: restoredRecurring.length,
+      exchangeRates: restoredRates.length,
+      userSettings: restoredSettings.length,
+      assets: data.assets.length,
+      assetValuations: restoredValuations.length,
+      netWorthSnapshots: restoredSnapshots.length,
+      investments: data.investments.length,
+      investmentLots: restoredLots.length,
+      investmentPrices: restoredPrices.length,
+    };
+    return { restored, mergedBudgets, skippedRecurringTransactions };
+  }
+
+  // Move everything owned by one user (a guest) onto another account in a single batch
+  async migrateUserData(fromUserId: string, toUserId: string): Promise<UserDataMigrationResult> {
+    const [source, target] = await Promise.all([this.exportUserData(fromUserId), this.exportUserData(toUserId)]);
+
+    const queries: BatchItem<"pg">[] = [
+      db.update(accounts).set({ userId: toUserId }).where(eq(accounts.userId, fromUserId)),
+      db.update(reconciliations).set({ userId: toUserId }).where(eq(reconciliations.userId, fromUserId)),
+      db.update(transactions).set({ userId: toUserId }).where(eq(transactions.userId, fromUserId)),
+      db.update(budgetTemplates).set({ userId: toUserId }).where(eq(budgetTemplates.userId, fromUserId)),
+      db.update(envelopeMoves).set({ userId: toUserId }).where(eq(envelopeMoves.userId, fromUserId)),
+      db.update(categorizationRules).set({ userId: toUserId }).where(eq(categorizationRules.userId, fromUserId)),
+      db.update(payees).set({ userId: toUserId }).where(eq(payees.userId, fromUserId)),
+      db.update(savedViews).set({ userId: toUserId }).where(eq(savedViews.userId, fromUserId)),
+      db.update(savingsGoals).set({ userId: toUserId }).where(eq(savingsGoals.userId, fromUserId)),
+      db.update(loans).set({ userId: toUserId }).where(eq(loans.userId, fromUserId)),
+      db.update(recurringTransactions).set({ userId: toUserId }).where(eq(recurringTransactions.userId, fromUserId)),
+      db.update(attachments).set({ userId: toUserId }).where(eq(attachments.userId, fromUserId)),
+      db.update(assets).set({ userId: toUserId }).where(eq(assets.userId, fromUserId)),
+      db.update(assetValuations).set({ userId: toUserId }).where(eq(assetValuations.userId, fromUserId)),
+      db.update(investments).set({ userId: toUserId }).where(eq(investments.userId, fromUserId)),
+      db.update(investmentLots).set({ userId: toUserId }).where(eq(investmentLots.userId, fromUserId)),
+      db.update(investmentPrices).set({ userId: toUserId }).where(eq(investmentPrices.userId, fromUserId)),
+    ];
+
+    // Overlapping budgets follow the POST /api/budgets rule: the account's own budget wins, everything
+    // else moves across. Spending is derived, so the guest's transactions count towards whichever budget is kept.
+    const mergedBudgets: UserDataMigrationResult["mergedBudgets"] = [];
+    for (const guestBudget of source.budgets) {
+      const keptBudget = target.budgets.find(existing => budgetsOverlap(existing, guestBudget));
+      if (keptBudget) {
+        mergedBudgets.push({ category: guestBudget.category, keptBudgetId: keptBudget.id });
+        queries.push(db.delete(budgets).where(eq(budgets.id, guestBudget.id)));
       } else {
-        // Interest fully paid, now paying principal
-        interestPaid = totalInterest;
-        principalPaid = totalPaid - totalInterest;
+        queries.push(db.update(budgets).set({ userId: toUserId }).where(eq(budgets.id, guestBudget.id)));
       }
+    }
 
-      principalProgress = (principalPaid / principal) * 100;
-      interestProgress = totalInterest > 0 ? (interestPaid / totalInterest) * 100 : 100;
-    } else {
-      // For compound interest, use time-based calculation
-      principalProgress = await this.calculatePrincipalProgress(userId, loan);
-      
-      // For compound loans, calculate interest progress based on time elapsed
-      const now = new Date();
-      const startDate = new Date(loan.startDate);
-      const termMonths = loan.termMonths || 12;
-      const monthsElapsed = Math.max(0, 
-        (now.getFullYear() - startDate.getFullYear()) * 12 + 
-        (now.getMonth() - startDate.getMonth())
-      );
-      const effectiveMonthsElapsed = Math.min(monthsElapsed, termMonths);
-      
-      // Interest progress based on time elapsed
-      interestProgress = termMonths > 0 ? (effectiveMonthsElapsed / termMonths) * 100 : 0;
-      
-      // Calculate principal and interest paid based on progress
-      principalPaid = (principalProgress / 100) * principal;
-      
-      // For compound loans, interest paid is more complex, use simplified calculation
-      const monthlyPayment = parseFloat(loan.monthlyPayment || "0");
-      const totalScheduledPayments = monthlyPayment * effectiveMonthsElapsed;
-      interestPaid = Math.max(0, totalScheduledPayments - principalPaid);
+    // Like budgets, a rate the account already has for the same pair and day wins over the guest's
+    let keptRates = 0;
+    for (const guestRate of source.exchangeRates) {
+      const sameDay = (existing: ExchangeRate) => existing.fromCurrency === guestRate.fromCurrency &&
+        existing.toCurrency === guestRate.toCurrency &&
+        new Date(existing.effectiveDate).getTime() === new Date(guestRate.effectiveDate).getTime();
+      if (target.exchangeRates.some(sameDay)) {
+        keptRates++;
+        queries.push(db.delete(exchangeRates).where(eq(exchangeRates.id, guestRate.id)));
+      } else {
+        queries.push(db.update(exchangeRates).set({ userId: toUserId }).where(eq(exchangeRates.id, guestRate.id)));
+      }
+    }
+
+    // A net worth snapshot the account already has for the month wins over the guest's
+    let keptSnapshots = 0;
+    for (const guestSnapshot of source.netWorthSnapshots) {
+      if (target.netWorthSnapshots.some(existing => existing.month === guestSnapshot.month)) {
+        keptSnapshots++;
+        queries.push(db.delete(netWorthSnapshots).where(eq(netWorthSnapshots.id, guestSnapshot.id)));
+      } else {
+        queries.push(db.update(netWorthSnapshots).set({ userId: toUserId }).where(eq(netWorthSnapshots.id, guestSnapshot.id)));
+      }
     }
 
-    // Calculate dynamic current balance
-    const currentBalance = await this.calculateDynamicBalance(userId, loan);
+    // The account's own settings win; a guest's only carry over to an account that never changed any
+    const keptSettings = target.userSettings.length > 0 ? source.userSettings.length : 0;
+    queries.push(keptSettings > 0
+      ? db.delete(userSettings).where(eq(userSettings.userId, fromUserId))
+      : db.update(userSettings).set({ userId: toUserId }).where(eq(userSettings.userId, fromUserId)));
+
+    // A category the account already has (by value) replaces the guest's, taking over its subcategories
+    let keptCategories = 0;
+    for (const guestCategory of source.categories) {
+      const keptCategory = target.categories.find(existing => existing.value === guestCategory.value);
+      if (keptCategory) {
+        keptCategories++;
+        queries.push(
+          db.update(categories).set({ parentId: keptCategory.id }).where(eq(categories.parentId, guestCategory.id)),
+          db.delete(categories).where(eq(categories.id, guestCategory.id)),
+        );
+      } else {
+        queries.push(db.update(categories).set({ userId: toUserId }).where(eq(categories.id, guestCategory.id)));
+      }
+    }
+
+    queries.push(db.delete(users).where(eq(users.id, fromUserId)));
+    await db.batch(queries as [BatchItem<"pg">, ...BatchItem<"pg">[]]);
 
     return {
-      principalProgress: Math.min(principalProgress, 100),
-      interestProgress: Math.min(interestProgress, 100),
-      totalPaid,
-      principalPaid,
-      interestPaid,
-      currentBalance,
+      moved: {
+        accounts: source.accounts.length,
+        categories: source.categories.length - keptCategories,
+        payees: source.payees.length,
+        savedViews: source.savedViews.length,
+        reconciliations: source.reconciliations.length,
+        transactions: source.transactions.length,
+        budgets: source.budgets.length - mergedBudgets.length,
+        budgetTemplates: source.budgetTemplates.length,
+        envelopeMoves: source.envelopeMoves.length,
+        categorizationRules: source.categorizationRules.length,
+        savingsGoals: source.savingsGoals.length,
+        loans: source.loans.length,
+        recurringTransactions: source.recurringTransactions.length,
+        exchangeRates: source.exchangeRates.length - keptRates,
+        userSettings: source.userSettings.length - keptSettings,
+        assets: source.assets.length,
+        assetValuations: source.assetValuations.length,
+        netWorthSnapshots: source.netWorthSnapshots.length - keptSnapshots,
+        investments: source.investments.length,
+        investmentLots: source.investmentLots.length,
+        investmentPrices: source.investmentPrices.length,
+      },
+      mergedBudgets,
     };
   }
 
   // Financial Summary
-  async getFinancialSummary(userId: string): Promise<{
-    netWorth: number;
-    monthlyIncome: number;
-    monthlyExpenses: number;
-    totalSavings: number;
-    totalDebt: number;
-  }> {
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+  async getFinancialSummary(userId: string): Promise<FinancialSummary> {
+    const settings = await this.getSettings(userId);
+    const { start: startOfMonth, end: endOfMonth } = getCurrentMonthRange(settings);
     
     const monthlyTransactions = await db
       .select()
@@ -687,52 +2030,47 @@ export class DatabaseStorage implements IStorage {
         )
       );
 
-    const monthlyIncome = monthlyTransactions
-      .filter(t => parseFloat(t.amount) > 0)
-      .reduce((sum, t) => sum + parseFloat(t.amount), 0);
-
-    const monthlyExpenses = monthlyTransactions
-      .filter(t => parseFloat(t.amount) < 0)
-      .reduce((sum, t) => sum + Math.abs(parseFloat(t.amount)), 0);
-
-    // Get all user transactions for total calculations
+    // Get all user transactions, savings goals, loans, accounts, assets and investments for the totals
     const allUserTransactions = await this.getTransactions(userId);
-
-    // Get savings goals
     const userSavingsGoals = await this.getSavingsGoals(userId);
-    let totalSavings = 0;
-    
-    for (const goal of userSavingsGoals) {
-      // Calculate saved amount for each goal
-      const goalTransactions = allUserTransactions.filter(transaction => 
-        transaction.description?.toLowerCase().includes(goal.name.toLowerCase()) ||
-        transaction.category === 'savings'
-      );
-      
-      const goalSavings = goalTransactions
-        .filter(t => parseFloat(t.amount) > 0)
-        .reduce((sum, t) => sum + parseFloat(t.amount), 0);
-      
-      totalSavings += goalSavings;
-    }
-
-    // Get loans for debt calculation
     const userLoans = await this.getLoans(userId);
-    const totalDebt = userLoans.reduce((sum, loan) => {
-      return sum + parseFloat(loan.currentBalance);
-    }, 0);
+    const userAccounts = await this.getAccounts(userId);
+    const userAssets = await this.getAssets(userId);
+    const valuations = await this.getAssetValuations(userId);
+    const userInvestments = await this.getInvestments(userId);
+    const lots = await this.getInvestmentLots(userId);
+    const prices = await this.getInvestmentPrices(userId);
+    const converter = await this.getCurrencyConverter(userId);
+
+    return summarizeFinances(monthlyTransactions, allUserTransactions, userSavingsGoals, userLoans, userAccounts, userAssets, valuations, userInvestments, lots, prices, converter);
+  }
 
-    // Calculate net worth (simplified as savings - debt)
-    const netWorth = totalSavings - totalDebt;
+  // Net worth history
+  async getNetWorthSnapshots(userId: string): Promise<NetWorthSnapshot[]> {
+    return await db.select().from(netWorthSnapshots).where(eq(netWorthSnapshots.userId, userId)).orderBy(netWorthSnapshots.month);
+  }
 
-    return {
-      netWorth,
-      monthlyIncome,
-      monthlyExpenses,
-      totalSavings,
-      totalDebt
-    };
+  async recordNetWorthSnapshot(userId: string, month: string): Promise<NetWorthSnapshot> {
+    const summary = await this.getFinancialSummary(userId);
+    const values = toNetWorthSnapshot(summary);
+    const [snapshot] = await db
+      .insert(netWorthSnapshots)
+      .values({ ...values, userId, month })
+      .onConflictDoUpdate({
+        target: [netWorthSnapshots.userId, netWorthSnapshots.month],
+        set: { ...values, createdAt: new Date() },
+      })
+      .returning();
+    return snapshot;
+  }
+
+  async getUsersWithoutNetWorthSnapshot(month: string): Promise<string[]> {
+    const rows = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(notExists(db.select().from(netWorthSnapshots).where(and(eq(netWorthSnapshots.userId, users.id), eq(netWorthSnapshots.month, month)))));
+    return rows.map(row => row.id);
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage: IStorage = useMemoryStorage ? new MemStorage() : new DatabaseStorage();
\ No newline at end of file
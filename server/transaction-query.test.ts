@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareSortKeys,
+  decodeCursor,
+  encodeCursor,
+  matchesTransactionQuery,
+  searchTerms,
+  toTransactionFacets,
+  toTransactionPage,
+} from "./transaction-query";
+import { transactionQuerySchema, type Transaction } from "@shared/schema";
+
+function transaction(values: Partial<Transaction>): Transaction {
+  return {
+    id: 1,
+    userId: "user-1",
+    amount: "10.00",
+    description: "Groceries",
+    category: "food",
+    type: "expense",
+    date: new Date(2026, 8, 10, 12),
+    time: null,
+    savingsGoalId: null,
+    loanId: null,
+    accountId: null,
+    toAccountId: null,
+    reconciliationId: null,
+    splits: null,
+    payeeId: null,
+    tags: [],
+    currency: "MWK",
+    investmentId: null,
+    ...values,
+  };
+}
+
+describe("cursors", () => {
+  it("round trip", () => {
+    const cursor = { value: "2026-09-10T10:00:00.000Z", id: 42 };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("reject anything that isn't one", () => {
+    expect(() => decodeCursor("not a cursor")).toThrow("Invalid cursor");
+    expect(() => decodeCursor(Buffer.from(JSON.stringify({ value: 1, id: 2 })).toString("base64url"))).toThrow("Invalid cursor");
+    expect(() => decodeCursor(Buffer.from(JSON.stringify({ value: "a", id: 1.5 })).toString("base64url"))).toThrow("Invalid cursor");
+  });
+
+  it("compare amounts as numbers and break ties on the id", () => {
+    expect(compareSortKeys("amount", { value: "9.00", id: 1 }, { value: "10.00", id: 2 })).toBeLessThan(0);
+    expect(compareSortKeys("description", { value: "Rent", id: 3 }, { value: "Rent", id: 2 })).toBeGreaterThan(0);
+  });
+});
+
+describe("toTransactionPage", () => {
+  const query = transactionQuerySchema.parse({ limit: 2 });
+  const rows = [transaction({ id: 3 }), transaction({ id: 2 }), transaction({ id: 1 })];
+  const summary = { count: 3, income: 0, expenses: 30 };
+
+  it("points the next cursor at the last row of a full page", () => {
+    const page = toTransactionPage(rows, query, summary);
+    expect(page.transactions.map(row => row.id)).toEqual([3, 2]);
+    expect(decodeCursor(page.nextCursor!)).toEqual({ value: new Date(2026, 8, 10, 12).toISOString(), id: 2 });
+  });
+
+  it("has no next cursor on the last page", () => {
+    expect(toTransactionPage(rows.slice(0, 2), query, summary).nextCursor).toBeNull();
+  });
+});
+
+describe("searchTerms", () => {
+  it("splits on anything but letters and digits in any script", () => {
+    expect(searchTerms("Café  Łódź, shop-2!")).toEqual(["café", "łódź", "shop", "2"]);
+    expect(searchTerms(undefined)).toEqual([]);
+  });
+});
+
+describe("matchesTransactionQuery", () => {
+  const search = (text: string) => transactionQuerySchema.parse({ search: text });
+
+  it("matches every search term against the start of a word", () => {
+    const row = transaction({ description: "Shoprite Łódź market", tags: ["wedding"] });
+    expect(matchesTransactionQuery(row, search("shop łód"))).toBe(true);
+    expect(matchesTransactionQuery(row, search("wed"))).toBe(true);
+    expect(matchesTransactionQuery(row, search("rite"))).toBe(false);
+  });
+
+  it("finds split transactions by any of their categories", () => {
+    const split = transaction({ category: "split", splits: [{ category: "food", amount: "6.00" }, { category: "transport", amount: "4.00" }] });
+    expect(matchesTransactionQuery(split, transactionQuerySchema.parse({ category: "transport" }))).toBe(true);
+    expect(matchesTransactionQuery(split, transactionQuerySchema.parse({ category: "rent" }))).toBe(false);
+  });
+
+  it("finds transfers from either of their accounts", () => {
+    const transfer = transaction({ type: "transfer", accountId: 1, toAccountId: 2 });
+    expect(matchesTransactionQuery(transfer, transactionQuerySchema.parse({ accountId: 2 }))).toBe(true);
+  });
+});
+
+describe("toTransactionFacets", () => {
+  it("lists categories once and counts tags under their first spelling", () => {
+    expect(toTransactionFacets(["rent", "food", "rent"], ["Wedding", "trip", "wedding"])).toEqual({
+      categories: ["food", "rent"],
+      tags: [{ tag: "Wedding", count: 2 }, { tag: "trip", count: 1 }],
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import type { Transaction, TransactionQuery } from "@shared/schema";
+import { getCategoryAmounts } from "@shared/transaction-splits";
+import { hasTag } from "@shared/tags";
+
+// The same split the transactions screen has always shown in its totals
+export const QUERY_INCOME_TYPES = ["income", "savings_withdrawal"];
+export const QUERY_EXPENSE_TYPES = ["expense", "savings_deposit", "loan_repayment"];
+
+export interface TransactionPageSummary {
+  count: number;
+  income: number;
+  expenses: number;
+}
+
+// One page of a transaction query. The summary covers every transaction the filters match, not just this page.
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: string | null;
+  summary: TransactionPageSummary;
+}
+
+// The categories and tags a user's transactions use, so filters and tag suggestions don't need every transaction.
+// Tags are counted case-insensitively under their first spelling, most used first.
+export interface TransactionFacets {
+  categories: string[];
+  tags: Array<{ tag: string; count: number }>;
+}
+
+export function toTransactionFacets(categories: string[], tagUses: string[]): TransactionFacets {
+  const counts = new Map<string, { tag: string; count: number }>();
+  for (const tag of tagUses) {
+    const total = counts.get(tag.toLowerCase()) ?? { tag, count: 0 };
+    total.count++;
+    counts.set(tag.toLowerCase(), total);
+  }
+  return {
+    categories: Array.from(new Set(categories)).sort(),
+    tags: Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)),
+  };
+}
+
+// Where the previous page ended: the sort value of its last row, with the id breaking ties
+export interface TransactionCursor {
+  value: string;
+  id: number;
+}
+
+export function sortValue(transaction: Transaction, sort: TransactionQuery["sort"]): string {
+  return sort === "date" ? new Date(transaction.date).toISOString() : transaction[sort];
+}
+
+// Order of two rows under the query's sort, before applying asc/desc: amounts compare as numbers, the id breaks ties
+export function compareSortKeys(sort: TransactionQuery["sort"], a: TransactionCursor, b: TransactionCursor): number {
+  const byValue = sort === "amount" ? parseFloat(a.value) - parseFloat(b.value) : a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  return byValue || a.id - b.id;
+}
+
+export function encodeCursor(cursor: TransactionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(encoded: string): TransactionCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, "base64url").toString());
+    if (typeof cursor.value === "string" && Number.isInteger(cursor.id)) {
+      return cursor;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error("Invalid cursor");
+}
+
+// Anything but a letter or digit. Built from a string because the tsconfig targets ES5, which rejects the /u flag
+// in a regex literal.
+const WORD_SEPARATOR = new RegExp("[^\\p{L}\\p{N}]+", "u");
+
+// Words of a search, each matched as the start of a word in the description, category, type or tags ("shop" finds
+// "Shoprite"). Letters and digits of any script count, so "café" and "Łódź" can be found.
+export function searchTerms(search: string | undefined): string[] {
+  return (search ?? "").toLowerCase().split(WORD_SEPARATOR).filter(Boolean);
+}
+
+// In-memory version of transactionSearchVector
+function searchableWords(transaction: Pick<Transaction, "description" | "category" | "type" | "tags">): string[] {
+  return searchTerms([transaction.description, transaction.category, transaction.type, ...(transaction.tags ?? [])].join(" "));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First and last day of a relative period as of the given day
+export function resolvePeriod(period: NonNullable<TransactionQuery["period"]>, now: Date = new Date()): { from: Date; to: Date } {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  switch (period) {
+    case "this_month":
+      return { from: new Date(year, month, 1), to: new Date(year, month + 1, 0) };
+    case "last_month":
+      return { from: new Date(year, month - 1, 1), to: new Date(year, month, 0) };
+    case "this_quarter": {
+      const quarterStart = month - (month % 3);
+      return { from: new Date(year, quarterStart, 1), to: new Date(year, quarterStart + 3, 0) };
+    }
+    case "this_year":
+      return { from: new Date(year, 0, 1), to: new Date(year, 11, 31) };
+    case "last_30_days": {
+      const today = new Date(year, month, now.getDate());
+      return { from: new Date(today.getTime() - 29 * DAY_MS), to: today };
+    }
+  }
+}
+
+// The dates a query covers: its period when it has one, otherwise from/to. "end" is the day after "to", so
+// the whole of the last day is included.
+export function queryDateRange(query: TransactionQuery, now: Date = new Date()): { from?: Date; end?: Date } {
+  const { from, to } = query.period ? resolvePeriod(query.period, now) : query;
+  return { from, end: to && new Date(to.getTime() + DAY_MS) };
+}
+
+// In-memory version of the filters DatabaseStorage runs in SQL
+export function matchesTransactionQuery(transaction: Transaction, query: TransactionQuery): boolean {
+  const date = new Date(transaction.date);
+  const amount = parseFloat(transaction.amount);
+  const { from, end } = queryDateRange(query);
+  if (from && date < from) return false;
+  if (end && date >= end) return false;
+  if (query.type && transaction.type !== query.type) return false;
+  if (query.category && !getCategoryAmounts(transaction).some(line => line.category === query.category)) return false;
+  if (query.tag && !hasTag(transaction, query.tag)) return false;
+  if (query.payeeId !== undefined && transaction.payeeId !== query.payeeId) return false;
+  if (query.accountId !== undefined && transaction.accountId !== query.accountId && transaction.toAccountId !== query.accountId) return false;
+  if (query.savingsGoalId !== undefined && transaction.savingsGoalId !== query.savingsGoalId) return false;
+  if (query.loanId !== undefined && transaction.loanId !== query.loanId) return false;
+  if (query.minAmount !== undefined && amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && amount > query.maxAmount) return false;
+  if (query.reconciled && (transaction.reconciliationId != null) !== (query.reconciled === "true")) return false;
+
+  const terms = searchTerms(query.search);
+  if (terms.length > 0) {
+    const words = searchableWords(transaction);
+    if (!terms.every(term => words.some(word => word.startsWith(term)))) return false;
+  }
+  return true;
+}
+
+// Amounts are added as they are, so callers convert them into the base currency first
+export function summarizeTransactions(matching: Pick<Transaction, "type" | "amount">[]): TransactionPageSummary {
+  const total = (types: string[]) => Math.round(matching
+    .filter(transaction => types.includes(transaction.type))
+    .reduce((sum, transaction) => sum + parseFloat(transaction.amount), 0) * 100) / 100;
+  return { count: matching.length, income: total(QUERY_INCOME_TYPES), expenses: total(QUERY_EXPENSE_TYPES) };
+}
+
+// Rows are fetched one past the limit; that extra row only tells us there is another page
+export function toTransactionPage(rows: Transaction[], query: TransactionQuery, summary: TransactionPageSummary): TransactionPage {
+  const transactions = rows.slice(0, query.limit);
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor: rows.length > query.limit && last ? encodeCursor({ value: sortValue(last, query.sort), id: last.id }) : null,
+    summary,
+  };
+}
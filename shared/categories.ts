@@ -0,0 +1,46 @@
+import type { Category, categoryKinds } from "./schema";
+import { SPLIT_CATEGORY } from "./transaction-splits";
+
+type CategoryDefault = Pick<Category, "value" | "name" | "icon" | "color"> & { kind: typeof categoryKinds[number] };
+
+// The categories every user starts with
+export const DEFAULT_CATEGORIES: CategoryDefault[] = [
+  { value: "income", name: "Income", icon: "💰", color: "#16a34a", kind: "income" },
+  { value: "food", name: "Food & Dining", icon: "🍽️", color: "#f97316", kind: "expense" },
+  { value: "transportation", name: "Transportation", icon: "🚗", color: "#0ea5e9", kind: "expense" },
+  { value: "shopping", name: "Shopping", icon: "🛍️", color: "#ec4899", kind: "expense" },
+  { value: "entertainment", name: "Entertainment", icon: "🎬", color: "#a855f7", kind: "expense" },
+  { value: "bills", name: "Bills & Utilities", icon: "📄", color: "#eab308", kind: "expense" },
+  { value: "healthcare", name: "Healthcare", icon: "🏥", color: "#ef4444", kind: "expense" },
+  { value: "education", name: "Education", icon: "📚", color: "#6366f1", kind: "expense" },
+  { value: "savings", name: "Savings", icon: "💳", color: "#14b8a6", kind: "expense" },
+  { value: "loan", name: "Loan", icon: "🏛️", color: "#64748b", kind: "expense" },
+  { value: "other", name: "Other", icon: "📝", color: "#6b7280", kind: "expense" },
+];
+
+// Values the app sets itself on split transactions and transfers; no user category can take them
+export const RESERVED_CATEGORY_VALUES = [SPLIT_CATEGORY, "transfer"];
+
+// The value stored on transactions and budgets for a category name ("Eating Out" -> "eating_out")
+export function toCategoryValue(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "_");
+}
+
+// Readable name for a value with no category behind it, such as one that came in with an imported statement
+export function formatCategoryValue(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, " ");
+}
+
+// The top-level category a value rolls up into; values without a category row are their own top level
+export function getRootCategoryValue(userCategories: Pick<Category, "id" | "value" | "parentId">[], value: string): string {
+  const byId = new Map(userCategories.map(category => [category.id, category]));
+  let category = userCategories.find(c => c.value === value);
+  const seen = new Set<number>();
+  while (category?.parentId != null && !seen.has(category.id)) {
+    seen.add(category.id);
+    const parent = byId.get(category.parentId);
+    if (!parent) break;
+    category = parent;
+  }
+  return category?.value ?? value;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { convertTransaction, createCurrencyConverter } from "./currency-conversion";
+
+const rate = (fromCurrency: string, toCurrency: string, value: string, effectiveDate: string) =>
+  ({ fromCurrency, toCurrency, rate: value, effectiveDate: new Date(effectiveDate) });
+
+describe("createCurrencyConverter", () => {
+  const converter = createCurrencyConverter("MWK", [
+    rate("USD", "MWK", "1700", "2026-06-01"),
+    rate("USD", "MWK", "1750", "2026-01-01"),
+    rate("MWK", "ZAR", "0.01", "2026-01-01"),
+  ]);
+
+  it("uses the latest rate on or before the date, or the first one before any", () => {
+    expect(converter.toBase(2, "USD", "2026-07-01")).toBe(3400);
+    expect(converter.toBase(2, "USD", "2026-03-01")).toBe(3500);
+    expect(converter.toBase(2, "USD", "2025-03-01")).toBe(3500);
+  });
+
+  it("counts a rate out of the base currency in both directions and converts between two others through it", () => {
+    expect(converter.toBase(1, "ZAR", "2026-07-01")).toBe(100);
+    expect(converter.convert(1, "USD", "ZAR", "2026-07-01")).toBe(17);
+    expect(converter.convert(100, "MWK", "MWK", "2026-07-01")).toBe(100);
+  });
+
+  it("counts currencies it has no rate for one to one and reports them", () => {
+    const missing = createCurrencyConverter("MWK", []);
+    expect(missing.toBase(5, "EUR", "2026-07-01")).toBe(5);
+    expect(missing.toBase(5, "GBP", "2026-07-01")).toBe(5);
+    expect(missing.missingRates()).toEqual(["EUR", "GBP"]);
+  });
+});
+
+describe("convertTransaction", () => {
+  it("converts the amount and every split line", () => {
+    const converter = createCurrencyConverter("MWK", [rate("USD", "MWK", "1000", "2026-01-01")]);
+    const transaction = {
+      amount: "3.00",
+      currency: "USD",
+      date: new Date("2026-09-10"),
+      splits: [{ category: "food", amount: "2.00" }, { category: "transport", amount: "1.00" }],
+    };
+
+    expect(convertTransaction(transaction, "MWK", converter)).toEqual({
+      amount: "3000.00",
+      currency: "MWK",
+      date: transaction.date,
+      splits: [{ category: "food", amount: "2000.00" }, { category: "transport", amount: "1000.00" }],
+    });
+    expect(convertTransaction(transaction, "USD", converter)).toBe(transaction);
+  });
+});
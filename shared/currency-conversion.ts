@@ -0,0 +1,92 @@
+import type { ExchangeRate, Transaction } from "./schema";
+
+// Currency everything is in until the user picks another one
+export const DEFAULT_CURRENCY = "MWK";
+
+type RateQuote = Pick<ExchangeRate, "fromCurrency" | "toCurrency" | "rate" | "effectiveDate">;
+
+interface DatedRate {
+  time: number;
+  rate: number;
+}
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  // The amount in another currency at the rate in effect on the date
+  convert(amount: number, from: string, to: string, date: Date | string): number;
+  toBase(amount: number, currency: string, date: Date | string): number;
+  // Currencies that had to be counted one to one because there is no rate between them and the base currency
+  missingRates(): string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Converts through the base currency using the user's rates. For each pair the rate in effect is the latest one
+// on or before the date; a date before the first rate uses the first rate. With no rate at all the amount is
+// left as it is and the currency is reported by missingRates, so a total is never silently short.
+export function createCurrencyConverter(baseCurrency: string, rates: RateQuote[]): CurrencyConverter {
+  // Rates into the base currency per currency, oldest first. A base -> X rate counts as its inverse.
+  const toBaseRates = new Map<string, DatedRate[]>();
+  for (const quote of rates) {
+    const rate = parseFloat(quote.rate);
+    if (!(rate > 0)) continue;
+    const time = new Date(quote.effectiveDate).getTime();
+    if (quote.toCurrency === baseCurrency) {
+      toBaseRates.set(quote.fromCurrency, [...(toBaseRates.get(quote.fromCurrency) ?? []), { time, rate }]);
+    } else if (quote.fromCurrency === baseCurrency) {
+      toBaseRates.set(quote.toCurrency, [...(toBaseRates.get(quote.toCurrency) ?? []), { time, rate: 1 / rate }]);
+    }
+  }
+  toBaseRates.forEach(list => list.sort((a, b) => a.time - b.time));
+
+  const missing = new Set<string>();
+
+  const rateToBase = (currency: string, date: Date | string): number => {
+    if (currency === baseCurrency) return 1;
+    const list = toBaseRates.get(currency);
+    if (!list) {
+      missing.add(currency);
+      return 1;
+    }
+    const time = new Date(date).getTime();
+    let found = list[0];
+    for (const dated of list) {
+      if (dated.time > time) break;
+      found = dated;
+    }
+    return found.rate;
+  };
+
+  return {
+    baseCurrency,
+    convert(amount, from, to, date) {
+      if (from === to) return amount;
+      return round2(amount * rateToBase(from, date) / rateToBase(to, date));
+    },
+    toBase(amount, currency, date) {
+      return this.convert(amount, currency, baseCurrency, date);
+    },
+    missingRates() {
+      return Array.from(missing).sort();
+    },
+  };
+}
+
+type ConvertibleTransaction = Pick<Transaction, "amount" | "currency" | "date"> & { splits?: Transaction["splits"] };
+
+// A copy of the transaction with its amount and split lines in another currency, so the totals that add up
+// amounts can work on it unchanged
+export function convertTransaction<T extends ConvertibleTransaction>(transaction: T, currency: string, converter: CurrencyConverter): T {
+  if (transaction.currency === currency) return transaction;
+  const convert = (amount: string) => converter.convert(parseFloat(amount), transaction.currency, currency, transaction.date).toFixed(2);
+  return {
+    ...transaction,
+    amount: convert(transaction.amount),
+    splits: transaction.splits?.map(split => ({ ...split, amount: convert(split.amount) })) ?? transaction.splits,
+    currency,
+  };
+}
+
+export function toBaseTransactions<T extends ConvertibleTransaction>(transactions: T[], converter: CurrencyConverter): T[] {
+  return transactions.map(transaction => convertTransaction(transaction, converter.baseCurrency, converter));
+}
@@ -0,0 +1,74 @@
+import { DEFAULT_SETTINGS, type SettingsValues } from "./user-settings";
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export type MonthSettings = Pick<SettingsValues, "budgetMonthStartDay" | "budgetMonthStartMode">;
+type PeriodSettings = MonthSettings & Pick<SettingsValues, "firstDayOfWeek">;
+
+// The day the budget month named by year/month starts. "day" starts on budgetMonthStartDay itself;
+// "last_working_day" moves it back to the Friday before when that day falls on a weekend, the way
+// salaries due on a Saturday or Sunday are paid early.
+function monthStart(year: number, month: number, settings: MonthSettings): Date {
+  const start = new Date(year, month, settings.budgetMonthStartDay);
+  if (settings.budgetMonthStartMode === "last_working_day") {
+    while (start.getDay() === 0 || start.getDay() === 6) start.setDate(start.getDate() - 1);
+  }
+  return start;
+}
+
+// The first of the calendar month a budget month is named after: the month its start day belongs to, even when
+// a weekend moved the start into the month before
+function namingMonth(date: Date, settings: MonthSettings): Date {
+  let month = date.getMonth();
+  if (date < monthStart(date.getFullYear(), month, settings)) month -= 1;
+  else if (date >= monthStart(date.getFullYear(), month + 1, settings)) month += 1;
+  return new Date(date.getFullYear(), month, 1);
+}
+
+// The budget month holding the date, moved by offset months (-1 for the one before). Day 1 gives calendar months;
+// the 25th gives payday months such as 25 May - 24 June.
+export function getFinancialMonth(date: Date, settings: MonthSettings = DEFAULT_SETTINGS, offset: number = 0): DateRange {
+  const named = namingMonth(date, settings);
+  const year = named.getFullYear();
+  const month = named.getMonth() + offset;
+  return {
+    start: monthStart(year, month, settings),
+    end: new Date(monthStart(year, month + 1, settings).getTime() - 1),
+  };
+}
+
+// "YYYY-MM" of the calendar month a budget month is named after, for grouping by budget month
+export function getFinancialMonthKey(date: Date, settings: MonthSettings = DEFAULT_SETTINGS): string {
+  const named = namingMonth(date, settings);
+  return `${named.getFullYear()}-${String(named.getMonth() + 1).padStart(2, "0")}`;
+}
+
+// Budget months are calendar months only when they start on the 1st, whatever the weekday
+export function isCalendarMonth(settings: MonthSettings): boolean {
+  return settings.budgetMonthStartDay === 1 && settings.budgetMonthStartMode === "day";
+}
+
+// The seven days holding the date, starting on firstDayOfWeek (0 = Sunday)
+export function getFinancialWeek(date: Date, firstDayOfWeek: number = 0): DateRange {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() - firstDayOfWeek + 7) % 7);
+  return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6, 23, 59, 59, 999) };
+}
+
+// Twelve budget months starting with the one named after January
+export function getFinancialYear(date: Date, settings: MonthSettings = DEFAULT_SETTINGS): DateRange {
+  const year = namingMonth(date, settings).getFullYear();
+  return {
+    start: monthStart(year, 0, settings),
+    end: new Date(monthStart(year + 1, 0, settings).getTime() - 1),
+  };
+}
+
+// Where a new budget for the period starts and ends by default
+export function getBudgetPeriodRange(period: string, date: Date, settings: PeriodSettings): DateRange {
+  if (period === "weekly") return getFinancialWeek(date, settings.firstDayOfWeek);
+  if (period === "yearly") return getFinancialYear(date, settings);
+  return getFinancialMonth(date, settings);
+}
@@ -1,6 +1,14 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp, varchar, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, decimal, timestamp, varchar, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { normalizeTags } from "./tags";
+
+// The words transaction search looks through: the description, category, type and tags. Queries have to use this
+// same expression for the GIN index below to serve them.
+export function transactionSearchVector(columns: Record<"description" | "category" | "type" | "tags", AnyPgColumn>): SQL {
+  return sql`(to_tsvector('simple', ${columns.description} || ' ' || ${columns.category} || ' ' || ${columns.type}) || to_tsvector('simple', ${columns.tags}))`;
+}
 
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
@@ -8,12 +16,81 @@ export const transactions = pgTable("transactions", {
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   description: text("description").notNull(),
   category: text("category").notNull(),
-  type: text("type").notNull(), // 'income', 'expense', 'savings_deposit', 'savings_withdrawal', 'loan_repayment'
+  type: text("type").notNull(), // 'income', 'expense', 'savings_deposit', 'savings_withdrawal', 'loan_repayment', 'loan_received', 'transfer'
   date: timestamp("date").defaultNow().notNull(),
   time: text("time"), // Optional time field for precise transaction timing
   savingsGoalId: integer("savings_goal_id").references(() => savingsGoals.id),
   loanId: integer("loan_id").references(() => loans.id), // Reference to loan for loan_repayment transactions
+  accountId: integer("account_id").references(() => accounts.id), // account the money moved in or out of (source account for transfers)
+  toAccountId: integer("to_account_id").references(() => accounts.id), // destination account - only for transfers
+  reconciliationId: integer("reconciliation_id").references(() => reconciliations.id), // set once checked off against a statement; the transaction is locked while set
+  splits: jsonb("splits").$type<TransactionSplit[]>(), // optional per-category lines that add up to amount; category is then "split"
+  payeeId: integer("payee_id").references(() => payees.id, { onDelete: "set null" }), // the merchant or person, matched from the description or picked by hand
+  tags: jsonb("tags").$type<string[]>().default([]).notNull(), // free-form labels that cut across categories, e.g. "wedding 2026"
+  currency: text("currency").default("MWK").notNull(), // ISO code the amount is in; totals convert it to the user's base currency
+  investmentId: integer("investment_id").references((): AnyPgColumn => investments.id, { onDelete: "set null" }), // the holding a dividend or coupon was paid on
+
+}, (table) => [
+  // Pages of GET /api/transactions are read newest first, and searched by the words of their description, category,
+  // type and tags
+  index("IDX_transactions_user_date").on(table.userId, table.date, table.id),
+  index("IDX_transactions_search").using("gin", transactionSearchVector(table)),
+]);
+
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // "cash", "bank", "mobile_money"
+  openingBalance: decimal("opening_balance", { precision: 12, scale: 2 }).default("0").notNull(),
+  currency: text("currency").default("MWK").notNull(),
+  isArchived: boolean("is_archived").default(false).notNull(), // hidden from pickers but kept for its transaction history
+});
 
+// A statement an account was checked against. Reopening keeps the record but unlocks its transactions.
+export const reconciliations = pgTable("reconciliations", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  accountId: integer("account_id").references(() => accounts.id).notNull(),
+  statementDate: timestamp("statement_date").notNull(),
+  statementBalance: decimal("statement_balance", { precision: 12, scale: 2 }).notNull(),
+  reconciledAt: timestamp("reconciled_at").defaultNow().notNull(),
+  reopenedAt: timestamp("reopened_at"),
+});
+
+// User-defined categories. Everything else refers to a category by its value (a slug of its name), so renaming
+// or merging a category rewrites those references.
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  value: text("value").notNull(),
+  name: text("name").notNull(),
+  icon: text("icon").default("📝").notNull(),
+  color: text("color").default("#6b7280").notNull(),
+  kind: text("kind").default("expense").notNull(), // 'income', 'expense'
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id, { onDelete: "set null" }), // nests a subcategory under its parent
+  isArchived: boolean("is_archived").default(false).notNull(), // hidden from pickers but kept for existing transactions
+}, (table) => [uniqueIndex("IDX_categories_user_value").on(table.userId, table.value)]);
+
+// Merchants and people money goes to or comes from. Descriptions are matched against the normalized name and
+// aliases, so "SHOPRITE LL 0423" and "Shoprite Area 3" both land on the same payee.
+export const payees = pgTable("payees", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  aliases: jsonb("aliases").$type<string[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Named transaction filters pinned to the transactions page. The filters are kept as entered and run afresh each
+// time they are opened.
+export const savedViews = pgTable("saved_views", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  filters: jsonb("filters").$type<SavedViewFilters>().notNull(),
+  isPinned: boolean("is_pinned").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const budgets = pgTable("budgets", {
@@ -27,6 +104,53 @@ export const budgets = pgTable("budgets", {
   endDate: timestamp("end_date").notNull(),
   icon: text("icon").notNull(),
   description: text("description"),
+  // When the period ends, autoRenew creates the next period's budget, carrying money across per rolloverMode
+  autoRenew: boolean("auto_renew").default(false).notNull(),
+  rolloverMode: text("rollover_mode").default("reset").notNull(), // 'reset', 'carry_unspent', 'carry_overspend'
+  rolloverAmount: decimal("rollover_amount", { precision: 10, scale: 2 }).default("0").notNull(), // carried in from the previous period; negative for a deficit
+  previousBudgetId: integer("previous_budget_id").references((): AnyPgColumn => budgets.id, { onDelete: "set null" }),
+});
+
+// Named sets of category allocations (e.g. 50/30/20) that can be applied to any period in one go
+export const budgetTemplates = pgTable("budget_templates", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  income: decimal("income", { precision: 12, scale: 2 }), // percentages are taken of this unless a different income is given when applying
+  allocations: jsonb("allocations").$type<BudgetTemplateAllocation[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Envelope budgeting log: every assignment of the month's income to a category envelope and every move between
+// envelopes. A null category stands for the month's unassigned money.
+export const envelopeMoves = pgTable("envelope_moves", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  month: text("month").notNull(), // 'YYYY-MM'
+  fromCategory: text("from_category"),
+  toCategory: text("to_category"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Auto-categorization: a transaction that meets every condition a rule sets gets the rule's category, savings goal
+// and/or loan. Active rules are tried in priority order and the first match wins.
+export const categorizationRules = pgTable("categorization_rules", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  priority: integer("priority").default(0).notNull(), // lower runs first
+  isActive: boolean("is_active").default(true).notNull(),
+  matchType: text("match_type"), // 'contains', 'exact', 'regex' - how pattern is compared with the description
+  pattern: text("pattern"),
+  minAmount: decimal("min_amount", { precision: 10, scale: 2 }),
+  maxAmount: decimal("max_amount", { precision: 10, scale: 2 }),
+  transactionType: text("transaction_type"), // null matches every type
+  category: text("category"),
+  savingsGoalId: integer("savings_goal_id").references(() => savingsGoals.id, { onDelete: "set null" }),
+  loanId: integer("loan_id").references(() => loans.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const savingsGoals = pgTable("savings_goals", {
@@ -40,6 +164,7 @@ export const savingsGoals = pgTable("savings_goals", {
   deadline: timestamp("deadline"),
   icon: text("icon").notNull(),
   color: text("color").notNull(),
+  currency: text("currency").default("MWK").notNull(), // the target and starting savings are in this currency
 });
 
 export const loans = pgTable("loans", {
@@ -59,6 +184,127 @@ export const loans = pgTable("loans", {
   lender: text("lender"),
   description: text("description"),
   status: text("status").default("active").notNull(), // "active", "paid_off", "defaulted"
+  currency: text("currency").default("MWK").notNull(), // principal, balance and payments are in this currency
+});
+
+// Dated exchange rates the user keeps by hand or imports: from effectiveDate until the pair's next rate, one unit
+// of fromCurrency is worth `rate` units of toCurrency. A pair converts in both directions.
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+  effectiveDate: timestamp("effective_date").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("IDX_exchange_rates_user_pair_date").on(table.userId, table.fromCurrency, table.toCurrency, table.effectiveDate)]);
+
+// Things the user owns outside their accounts, such as a house, a vehicle, livestock or an investment. An asset is
+// worth its latest valuation; archived ones (sold or written off) keep their valuations but leave net worth.
+export const assets = pgTable("assets", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // "property", "vehicle", "livestock", "investment", "other"
+  currency: text("currency").default("MWK").notNull(), // valuations are in this currency
+  notes: text("notes"),
+  isArchived: boolean("is_archived").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// What an asset was worth on a day, entered by hand
+export const assetValuations = pgTable("asset_valuations", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  assetId: integer("asset_id").references(() => assets.id, { onDelete: "cascade" }).notNull(),
+  value: decimal("value", { precision: 14, scale: 2 }).notNull(),
+  valuedAt: timestamp("valued_at").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Net worth and its parts in the base currency, recorded once a month by the snapshot job
+export const netWorthSnapshots = pgTable("net_worth_snapshots", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  month: text("month").notNull(), // 'YYYY-MM'
+  currency: text("currency").notNull(), // the base currency when the snapshot was taken
+  accounts: decimal("accounts", { precision: 14, scale: 2 }).notNull(),
+  assets: decimal("assets", { precision: 14, scale: 2 }).notNull(),
+  investments: decimal("investments", { precision: 14, scale: 2 }).default("0").notNull(),
+  savings: decimal("savings", { precision: 14, scale: 2 }).notNull(),
+  debt: decimal("debt", { precision: 14, scale: 2 }).notNull(),
+  netWorth: decimal("net_worth", { precision: 14, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("IDX_net_worth_snapshots_user_month").on(table.userId, table.month)]);
+
+// Shares, treasury bills, unit trusts and other holdings, bought and sold in lots. A holding is worth the units it
+// still holds at its latest price; archived ones (sold off or matured) keep their history but leave net worth.
+export const investments = pgTable("investments", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  symbol: text("symbol"), // ticker, e.g. "NBM" on the Malawi Stock Exchange
+  type: text("type").notNull(), // "share", "treasury_bill", "unit_trust", "bond", "other"
+  currency: text("currency").default("MWK").notNull(), // prices, lots and income are in this currency
+  notes: text("notes"),
+  isArchived: boolean("is_archived").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A purchase or sale of units of a holding. Fees add to the cost of a buy and come off the proceeds of a sale.
+export const investmentLots = pgTable("investment_lots", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  investmentId: integer("investment_id").references(() => investments.id, { onDelete: "cascade" }).notNull(),
+  kind: text("kind").notNull(), // "buy", "sell"
+  quantity: decimal("quantity", { precision: 18, scale: 6 }).notNull(),
+  price: decimal("price", { precision: 18, scale: 6 }).notNull(), // per unit
+  fees: decimal("fees", { precision: 14, scale: 2 }).default("0").notNull(),
+  tradedAt: timestamp("traded_at").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The price of one unit of a holding on a day, entered by hand
+export const investmentPrices = pgTable("investment_prices", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  investmentId: integer("investment_id").references(() => investments.id, { onDelete: "cascade" }).notNull(),
+  price: decimal("price", { precision: 18, scale: 6 }).notNull(),
+  pricedAt: timestamp("priced_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Receipts, loan agreements and other files attached to a transaction or a loan (exactly one of the two). The
+// bytes live in the attachment store under storageKey; thumbnailKey is set for images.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  transactionId: integer("transaction_id").references(() => transactions.id, { onDelete: "cascade" }),
+  loanId: integer("loan_id").references(() => loans.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const recurringTransactions = pgTable("recurring_transactions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  frequency: text("frequency").notNull(), // "daily", "weekly", "biweekly", "monthly", "yearly", "custom"
+  intervalDays: integer("interval_days"), // number of days between occurrences - only for custom frequency
+  startDate: timestamp("start_date").notNull(),
+  endType: text("end_type").default("never").notNull(), // "never", "on_date", "after_occurrences"
+  endDate: timestamp("end_date"), // only for "on_date"
+  maxOccurrences: integer("max_occurrences"), // only for "after_occurrences"
+  occurrenceCount: integer("occurrence_count").default(0).notNull(), // occurrences already recorded as transactions (or skipped while paused)
+  nextRunDate: timestamp("next_run_date"), // null once the rule has ended
+  lastRunAt: timestamp("last_run_at"),
+  isActive: boolean("is_active").default(true).notNull(),
+  template: jsonb("template").$type<RecurringTransactionTemplate>().notNull(), // transaction fields copied onto every occurrence
 });
 
 // Session storage table for Replit Auth
@@ -72,10 +318,12 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
-// User storage table for Replit Auth
+// User storage table for Replit Auth and local username/password accounts
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().notNull(),
   email: varchar("email").unique(),
+  username: varchar("username").unique(), // local accounts only - lets people sign up without an email
+  passwordHash: varchar("password_hash"), // local accounts only - scrypt "salt:hash"
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
@@ -83,19 +331,268 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One-time password reset tokens for local accounts; only a hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  tokenHash: varchar("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// One row per user once they change anything; until then the column defaults apply
+export const userSettings = pgTable("user_settings", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  baseCurrency: varchar("base_currency").default("MWK").notNull(), // every total and report is converted into this currency
+  locale: varchar("locale").default("en-MW").notNull(), // BCP 47 tag used for dates and numbers
+  numberFormat: varchar("number_format").default("locale").notNull(), // "locale" or a fixed grouping/decimal style
+  firstDayOfWeek: integer("first_day_of_week").default(0).notNull(), // 0 = Sunday ... 6 = Saturday
+  budgetMonthStartDay: integer("budget_month_start_day").default(1).notNull(), // day of the month a budget month starts, e.g. payday
+  budgetMonthStartMode: varchar("budget_month_start_mode").default("day").notNull(), // "day", or "last_working_day" to start early when the day is a weekend
+  defaultTransactionType: varchar("default_transaction_type").default("expense").notNull(),
+  theme: varchar("theme").default("light").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+
 
+// Three letter ISO 4217 code such as MWK or USD, stored upper case
+export const currencyCodeSchema = z.string().trim().regex(/^[a-zA-Z]{3}$/, "Use a three letter currency code like MWK or USD").transform((val) => val.toUpperCase());
+
+export const transactionSplitSchema = z.object({
+  category: z.string().trim().min(1, "Category is required"),
+  amount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be a positive number"),
+});
 
 export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
+  reconciliationId: true, // only set by reconciling an account
 }).extend({
   date: z.string().transform((val) => new Date(val)),
   savingsGoalId: z.number().optional(),
+  splits: z.array(transactionSplitSchema).nullable().optional(),
+  currency: currencyCodeSchema.optional(),
+  tags: z.array(z.string().max(40, "Tags can be at most 40 characters")).max(20, "Use at most 20 tags").optional()
+    .transform((tags) => tags && normalizeTags(tags)),
+});
+
+export const transactionSortFields = ["date", "amount", "description", "category", "type"] as const;
+
+// Date ranges worked out from the day the query runs, so a saved "this quarter" always means the current one
+export const transactionPeriods = ["this_month", "last_month", "this_quarter", "this_year", "last_30_days"] as const;
+
+// Query string of GET /api/transactions. Every filter is optional and they all have to match; "to" includes
+// the whole of that day, and a period takes the place of from/to.
+export const transactionQuerySchema = z.object({
+  period: z.enum(transactionPeriods).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  type: z.string().optional(),
+  category: z.string().optional(),
+  tag: z.string().optional(),
+  payeeId: z.coerce.number().int().optional(),
+  accountId: z.coerce.number().int().optional(),
+  savingsGoalId: z.coerce.number().int().optional(),
+  loanId: z.coerce.number().int().optional(),
+  minAmount: z.coerce.number().optional(),
+  maxAmount: z.coerce.number().optional(),
+  search: z.string().trim().optional(),
+  reconciled: z.enum(["true", "false"]).optional(),
+  sort: z.enum(transactionSortFields).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const dayStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date");
+
+// The transaction query filters a view saves
+export const savedViewFiltersSchema = z.object({
+  period: z.enum(transactionPeriods).optional(),
+  from: dayStringSchema.optional(),
+  to: dayStringSchema.optional(),
+  type: z.string().optional(),
+  category: z.string().optional(),
+  tag: z.string().optional(),
+  payeeId: z.number().int().optional(),
+  accountId: z.number().int().optional(),
+  savingsGoalId: z.number().int().optional(),
+  loanId: z.number().int().optional(),
+  minAmount: z.number().optional(),
+  maxAmount: z.number().optional(),
+  search: z.string().trim().optional(),
+  reconciled: z.boolean().optional(),
+  sort: z.enum(transactionSortFields).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export const insertSavedViewSchema = createInsertSchema(savedViews).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "View name is required").max(80, "Keep the name under 80 characters"),
+  filters: savedViewFiltersSchema,
+});
+
+// Every field of a transaction except its date, which comes from the recurrence schedule
+export const recurringTransactionTemplateSchema = insertTransactionSchema.omit({
+  date: true,
+  userId: true,
+});
+
+export const insertRecurringTransactionSchema = createInsertSchema(recurringTransactions).omit({
+  id: true,
+  userId: true,
+  occurrenceCount: true,
+  nextRunDate: true,
+  lastRunAt: true,
+}).extend({
+  frequency: z.enum(["daily", "weekly", "biweekly", "monthly", "yearly", "custom"]),
+  endType: z.enum(["never", "on_date", "after_occurrences"]).default("never"),
+  startDate: z.string().transform((val) => new Date(val)),
+  endDate: z.string().nullable().optional().transform((val) => val ? new Date(val) : null),
+  template: recurringTransactionTemplateSchema,
+});
+
+export const accountTypes = ["cash", "bank", "mobile_money"] as const;
+
+export const insertAccountSchema = createInsertSchema(accounts).omit({
+  id: true,
+  userId: true,
+}).extend({
+  name: z.string().trim().min(1, "Account name is required"),
+  type: z.enum(accountTypes),
+  currency: currencyCodeSchema.optional(),
+});
+
+export const insertReconciliationSchema = createInsertSchema(reconciliations).omit({
+  id: true,
+  userId: true,
+  accountId: true,
+  reconciledAt: true,
+  reopenedAt: true,
+}).extend({
+  statementDate: z.string().transform((val) => new Date(val)),
+  statementBalance: z.string().refine((val) => !isNaN(parseFloat(val)), "Statement balance must be a number"),
+});
+
+export const categoryKinds = ["income", "expense"] as const;
+
+// The value is worked out from the name, so it isn't part of the request
+export const insertCategorySchema = createInsertSchema(categories).omit({
+  id: true,
+  userId: true,
+  value: true,
+}).extend({
+  name: z.string().trim().min(1, "Category name is required"),
+  kind: z.enum(categoryKinds).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex code like #22c55e").optional(),
+  parentId: z.number().int().nullable().optional(),
+});
+
+export const renameCategorySchema = z.object({
+  name: z.string().trim().min(1, "Category name is required"),
+});
+
+export const mergeCategorySchema = z.object({
+  targetId: z.number().int(),
+});
+
+export const insertPayeeSchema = createInsertSchema(payees).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Payee name is required"),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+});
+
+export const budgetRolloverModes = ["reset", "carry_unspent", "carry_overspend"] as const;
+
+export const budgetPeriods = ["weekly", "monthly", "yearly"] as const;
+
+const positiveAmountSchema = z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Amount must be a positive number");
+
+// Each line is either a percentage of the income or a fixed amount
+export const budgetTemplateAllocationSchema = z.object({
+  category: z.string().trim().min(1, "Category is required"),
+  icon: z.string(),
+  type: z.enum(["percentage", "amount"]),
+  value: positiveAmountSchema,
+});
+
+export const insertBudgetTemplateSchema = createInsertSchema(budgetTemplates).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Template name is required"),
+  income: positiveAmountSchema.nullable().optional(),
+  allocations: z.array(budgetTemplateAllocationSchema)
+    .min(1, "A template needs at least one category")
+    .refine((allocations) => new Set(allocations.map(a => a.category)).size === allocations.length, "Each category can only appear once"),
+});
+
+export const applyBudgetTemplateSchema = z.object({
+  startDate: z.string().transform((val) => new Date(val)),
+  endDate: z.string().transform((val) => new Date(val)),
+  period: z.enum(budgetPeriods).default("monthly"),
+  income: positiveAmountSchema.optional(),
+});
+
+export const envelopeMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format");
+
+export const insertEnvelopeMoveSchema = createInsertSchema(envelopeMoves).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  month: envelopeMonthSchema,
+  fromCategory: z.string().trim().min(1).nullable().default(null),
+  toCategory: z.string().trim().min(1).nullable().default(null),
+  amount: positiveAmountSchema,
+  note: z.string().nullable().optional(),
+  icon: z.string().optional(), // for the envelope's budget when money goes into a category without one yet
+}).refine((move) => move.fromCategory !== move.toCategory, "Choose two different envelopes");
+
+export const descriptionMatchTypes = ["contains", "exact", "regex"] as const;
+
+const optionalAmountSchema = z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Amount must be a number of zero or more").nullable().optional();
+
+// Conditions and actions that depend on each other are checked by getCategorizationRuleError
+export const insertCategorizationRuleSchema = createInsertSchema(categorizationRules).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Rule name is required"),
+  matchType: z.enum(descriptionMatchTypes).nullable().optional(),
+  pattern: z.string().trim().min(1).nullable().optional(),
+  minAmount: optionalAmountSchema,
+  maxAmount: optionalAmountSchema,
+  transactionType: z.string().trim().min(1).nullable().optional(),
+  category: z.string().trim().min(1).nullable().optional(),
+  savingsGoalId: z.number().int().nullable().optional(),
+  loanId: z.number().int().nullable().optional(),
+});
+
+// Re-running rules over existing transactions: leave ruleIds out to run every active rule
+export const runCategorizationRulesSchema = z.object({
+  ruleIds: z.array(z.number().int()).optional(),
+});
+
+export const applyCategorizationRulesSchema = runCategorizationRulesSchema.extend({
+  transactionIds: z.array(z.number().int()).min(1, "Select at least one transaction"),
 });
 
 export const insertBudgetSchema = createInsertSchema(budgets).omit({
   id: true,
   spent: true,
+  rolloverAmount: true,
+  previousBudgetId: true,
 }).extend({
+  rolloverMode: z.enum(budgetRolloverModes).optional(),
   startDate: z.string().transform((val) => new Date(val)),
   endDate: z.string().transform((val) => new Date(val)),
 });
@@ -107,6 +604,7 @@ export const insertSavingsGoalSchema = createInsertSchema(savingsGoals).omit({
   startDate: z.string().transform((val) => new Date(val)),
   deadline: z.string().nullable().optional().transform((val) => val ? new Date(val) : null),
   startingSavings: z.string().optional().transform((val) => val ? val : "0"),
+  currency: currencyCodeSchema.optional(),
 });
 
 export const insertLoanSchema = createInsertSchema(loans).omit({
@@ -115,19 +613,221 @@ export const insertLoanSchema = createInsertSchema(loans).omit({
 }).extend({
   startDate: z.string().transform((val) => new Date(val)),
   endDate: z.string().nullable().optional().transform((val) => val ? new Date(val) : null),
+  currency: currencyCodeSchema.optional(),
+});
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  fromCurrency: currencyCodeSchema,
+  toCurrency: currencyCodeSchema,
+  rate: positiveAmountSchema,
+  effectiveDate: dayStringSchema.transform((val) => new Date(val)),
+}).refine((rate) => rate.fromCurrency !== rate.toCurrency, "Choose two different currencies");
+
+// Rates pasted or uploaded as CSV text: a header row, then from, to, rate and date columns
+export const importExchangeRatesSchema = z.object({
+  csv: z.string().min(1, "The file is empty"),
 });
 
+export const assetTypes = ["property", "vehicle", "livestock", "investment", "other"] as const;
+
+// An asset can be created together with what it is worth today
+export const insertAssetSchema = createInsertSchema(assets).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Asset name is required"),
+  type: z.enum(assetTypes),
+  currency: currencyCodeSchema.optional(),
+  value: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Value can't be negative").optional(),
+});
+
+export const insertAssetValuationSchema = createInsertSchema(assetValuations).omit({
+  id: true,
+  userId: true,
+  assetId: true,
+  createdAt: true,
+}).extend({
+  value: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Value can't be negative"),
+  valuedAt: dayStringSchema.transform((val) => new Date(val)),
+});
+
+export const investmentTypes = ["share", "treasury_bill", "unit_trust", "bond", "other"] as const;
+export const investmentLotKinds = ["buy", "sell"] as const;
+
+export const insertInvestmentSchema = createInsertSchema(investments).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Investment name is required"),
+  symbol: z.string().trim().toUpperCase().nullable().optional().transform((val) => val || null),
+  type: z.enum(investmentTypes),
+  currency: currencyCodeSchema.optional(),
+});
+
+export const insertInvestmentLotSchema = createInsertSchema(investmentLots).omit({
+  id: true,
+  userId: true,
+  investmentId: true,
+  createdAt: true,
+}).extend({
+  kind: z.enum(investmentLotKinds),
+  quantity: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, "Quantity must be greater than 0"),
+  price: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Price can't be negative"),
+  fees: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Fees can't be negative").optional(),
+  tradedAt: dayStringSchema.transform((val) => new Date(val)),
+});
+
+export const insertInvestmentPriceSchema = createInsertSchema(investmentPrices).omit({
+  id: true,
+  userId: true,
+  investmentId: true,
+  createdAt: true,
+}).extend({
+  price: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, "Price can't be negative"),
+  pricedAt: dayStringSchema.transform((val) => new Date(val)),
+});
+
+// Grouping and decimal separators: 1,234.56 / 1.234,56 / 1 234,56, or whatever the locale uses
+export const numberFormats = ["locale", "comma_dot", "dot_comma", "space_comma"] as const;
+export const themes = ["light", "dark", "system"] as const;
+export const defaultTransactionTypes = ["income", "expense", "transfer"] as const;
+// Start budget months on the day itself, or on the last working day on or before it
+export const budgetMonthStartModes = ["day", "last_working_day"] as const;
+
+// Any subset of the settings; the rest keep their current values
+export const updateUserSettingsSchema = z.object({
+  baseCurrency: currencyCodeSchema,
+  locale: z.string().trim().min(2).max(35).refine((val) => {
+    try {
+      return Intl.NumberFormat.supportedLocalesOf(val).length > 0;
+    } catch {
+      return false;
+    }
+  }, "Choose a supported language and region"),
+  numberFormat: z.enum(numberFormats),
+  firstDayOfWeek: z.number().int().min(0).max(6),
+  // Capped at 28 so every month has the day
+  budgetMonthStartDay: z.number().int().min(1, "Pick a day from 1 to 28").max(28, "Pick a day from 1 to 28"),
+  budgetMonthStartMode: z.enum(budgetMonthStartModes),
+  defaultTransactionType: z.enum(defaultTransactionTypes),
+  theme: z.enum(themes),
+}).partial();
+
+// Written by the server once a file is stored, never taken from a request as is
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const attachmentContentTypes = ["image/jpeg", "image/png", "image/webp", "image/gif", "application/pdf"] as const;
+
+// Files arrive base64 encoded in the JSON body, like statement imports. Images come with a small JPEG
+// thumbnail drawn by the browser.
+export const uploadAttachmentSchema = z.object({
+  fileName: z.string().trim().min(1, "File name is required").max(200),
+  contentType: z.enum(attachmentContentTypes, { errorMap: () => ({ message: "Attach a photo (JPEG, PNG, WebP, GIF) or a PDF" }) }),
+  data: z.string().min(1, "File is empty"),
+  thumbnail: z.string().optional(),
+});
+
+export type TransactionSplit = z.infer<typeof transactionSplitSchema>;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+
+export type SavedViewFilters = z.infer<typeof savedViewFiltersSchema>;
+export type InsertSavedView = z.infer<typeof insertSavedViewSchema>;
+export type SavedView = typeof savedViews.$inferSelect;
+
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type Account = typeof accounts.$inferSelect;
+
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type Category = typeof categories.$inferSelect;
+
+export type InsertPayee = z.infer<typeof insertPayeeSchema>;
+export type Payee = typeof payees.$inferSelect;
+
+export type InsertReconciliation = z.infer<typeof insertReconciliationSchema>;
+export type Reconciliation = typeof reconciliations.$inferSelect;
 
 export type InsertBudget = z.infer<typeof insertBudgetSchema>;
 export type Budget = typeof budgets.$inferSelect;
 
+export type BudgetTemplateAllocation = z.infer<typeof budgetTemplateAllocationSchema>;
+export type InsertBudgetTemplate = z.infer<typeof insertBudgetTemplateSchema>;
+export type BudgetTemplate = typeof budgetTemplates.$inferSelect;
+export type ApplyBudgetTemplate = z.infer<typeof applyBudgetTemplateSchema>;
+
+export type InsertEnvelopeMove = z.infer<typeof insertEnvelopeMoveSchema>;
+export type EnvelopeMove = typeof envelopeMoves.$inferSelect;
+
+export type InsertCategorizationRule = z.infer<typeof insertCategorizationRuleSchema>;
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+
 export type InsertSavingsGoal = z.infer<typeof insertSavingsGoalSchema>;
 export type SavingsGoal = typeof savingsGoals.$inferSelect;
 
 export type InsertLoan = z.infer<typeof insertLoanSchema>;
 export type Loan = typeof loans.$inferSelect;
 
+export type UserSettings = typeof userSettings.$inferSelect;
+export type UpdateUserSettings = z.infer<typeof updateUserSettingsSchema>;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+export type InsertAsset = z.infer<typeof insertAssetSchema>;
+export type Asset = typeof assets.$inferSelect;
+export type InsertAssetValuation = z.infer<typeof insertAssetValuationSchema>;
+export type AssetValuation = typeof assetValuations.$inferSelect;
+export type NetWorthSnapshot = typeof netWorthSnapshots.$inferSelect;
+
+export type InsertInvestment = z.infer<typeof insertInvestmentSchema>;
+export type Investment = typeof investments.$inferSelect;
+export type InsertInvestmentLot = z.infer<typeof insertInvestmentLotSchema>;
+export type InvestmentLot = typeof investmentLots.$inferSelect;
+export type InsertInvestmentPrice = z.infer<typeof insertInvestmentPriceSchema>;
+export type InvestmentPrice = typeof investmentPrices.$inferSelect;
+
+export type UploadAttachment = z.infer<typeof uploadAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+
+export type RecurringTransactionTemplate = z.infer<typeof recurringTransactionTemplateSchema>;
+export type InsertRecurringTransaction = z.infer<typeof insertRecurringTransactionSchema>;
+export type RecurringTransaction = typeof recurringTransactions.$inferSelect;
+
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export const localSignupSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50).regex(/^[a-zA-Z0-9_.-]+$/, "Username can only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  email: z.string().trim().email().optional().or(z.literal("").transform(() => undefined)),
+  firstName: z.string().trim().optional(),
+  lastName: z.string().trim().optional(),
+});
+
+export const localLoginSchema = z.object({
+  username: z.string().trim().min(1, "Username or email is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const passwordResetRequestSchema = z.object({
+  username: z.string().trim().min(1, "Username or email is required"),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export type LocalSignup = z.infer<typeof localSignupSchema>;
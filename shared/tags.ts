@@ -0,0 +1,40 @@
+import type { Transaction } from "./schema";
+
+export interface TagTotal {
+  tag: string;
+  count: number;
+  spent: number; // expenses and loan repayments
+  received: number; // income
+}
+
+// Trimmed, single spaced and without repeats; "Wedding 2026" and "wedding  2026" are the same tag and the
+// first spelling is kept
+export function normalizeTags(tags: string[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const tag of tags) {
+    const cleaned = tag.trim().replace(/\s+/g, " ");
+    if (cleaned && !byKey.has(cleaned.toLowerCase())) byKey.set(cleaned.toLowerCase(), cleaned);
+  }
+  return Array.from(byKey.values());
+}
+
+export function hasTag(transaction: Pick<Transaction, "tags">, tag: string): boolean {
+  return (transaction.tags ?? []).some(existing => existing.toLowerCase() === tag.toLowerCase());
+}
+
+// Totals per tag, most spent first. A transaction with several tags counts in full under each of them.
+export function getTagTotals(transactions: Pick<Transaction, "tags" | "type" | "amount">[]): TagTotal[] {
+  const totals = new Map<string, TagTotal>();
+  for (const transaction of transactions) {
+    for (const tag of transaction.tags ?? []) {
+      const key = tag.toLowerCase();
+      const total = totals.get(key) ?? { tag, count: 0, spent: 0, received: 0 };
+      const amount = parseFloat(transaction.amount);
+      total.count++;
+      if (transaction.type === "expense" || transaction.type === "loan_repayment") total.spent += amount;
+      if (transaction.type === "income") total.received += amount;
+      totals.set(key, total);
+    }
+  }
+  return Array.from(totals.values()).sort((a, b) => b.spent - a.spent || b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,46 @@
+import type { Transaction, TransactionSplit } from "./schema";
+
+// Category stored on the transaction itself once its amount is split over several categories
+export const SPLIT_CATEGORY = "split";
+
+export interface CategoryAmount {
+  category: string;
+  amount: number;
+}
+
+type SplittableTransaction = Pick<Transaction, "category" | "amount"> & { splits?: TransactionSplit[] | null };
+
+// How a transaction's amount divides between categories: one line per split, or everything in its own category
+export function getCategoryAmounts(transaction: SplittableTransaction): CategoryAmount[] {
+  if (transaction.splits && transaction.splits.length > 0) {
+    return transaction.splits.map(split => ({ category: split.category, amount: parseFloat(split.amount) }));
+  }
+  return [{ category: transaction.category, amount: parseFloat(transaction.amount) }];
+}
+
+// The part of a transaction that belongs to one category (0 when none of it does)
+export function getCategoryAmount(transaction: SplittableTransaction, category: string): number {
+  return getCategoryAmounts(transaction)
+    .filter(line => line.category === category)
+    .reduce((sum, line) => sum + line.amount, 0);
+}
+
+// Why the split lines don't fit the transaction, or undefined when they do. Compared in cents to avoid rounding noise.
+export function getSplitError(transaction: SplittableTransaction & Pick<Transaction, "type">): string | undefined {
+  const splits = transaction.splits;
+  if (!splits || splits.length === 0) return undefined;
+
+  if (transaction.type === "transfer") {
+    return "Transfers can't be split";
+  }
+  if (splits.length < 2) {
+    return "A split needs at least two lines";
+  }
+
+  const toCents = (value: string) => Math.round(parseFloat(value) * 100);
+  const splitTotal = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  if (splitTotal !== toCents(transaction.amount)) {
+    return `Split lines add up to ${(splitTotal / 100).toFixed(2)} but the transaction amount is ${parseFloat(transaction.amount).toFixed(2)}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,20 @@
+import type { UserSettings } from "./schema";
+import { DEFAULT_CURRENCY } from "./currency-conversion";
+
+export type SettingsValues = Omit<UserSettings, "userId" | "updatedAt">;
+
+// What a user who has never changed anything gets; the same as the user_settings column defaults
+export const DEFAULT_SETTINGS: SettingsValues = {
+  baseCurrency: DEFAULT_CURRENCY,
+  locale: "en-MW",
+  numberFormat: "locale",
+  firstDayOfWeek: 0,
+  budgetMonthStartDay: 1,
+  budgetMonthStartMode: "day",
+  defaultTransactionType: "expense",
+  theme: "light",
+};
+
+export function withDefaultSettings(userId: string, stored: UserSettings | undefined): UserSettings {
+  return stored ?? { userId, ...DEFAULT_SETTINGS, updatedAt: null };
+}